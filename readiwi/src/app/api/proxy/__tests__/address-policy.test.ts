@@ -0,0 +1,86 @@
+/**
+ * Proxy Address Policy Tests - Readiwi v4.0
+ * Testing that the proxy only ever connects to public addresses
+ */
+
+import { lookup } from 'node:dns';
+import { isPrivateAddress, isPrivateLiteral, NonPublicAddressError, publicLookup } from '../address-policy';
+
+jest.mock('node:dns', () => ({ lookup: jest.fn() }));
+
+const mockLookup = lookup as unknown as jest.Mock;
+
+function resolveTo(...addresses: string[]): void {
+  mockLookup.mockImplementation((_hostname, _options, callback) => {
+    callback(null, addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 })));
+  });
+}
+
+function runLookup(all: boolean): Promise<{ error: Error | null; address: unknown; family?: number | undefined }> {
+  return new Promise(resolve => {
+    publicLookup('example.com', { all } as never, (error, address, family) => resolve({ error, address, family }));
+  });
+}
+
+describe('User Story: Keep The Proxy Off Internal Networks', () => {
+  afterEach(() => {
+    mockLookup.mockReset();
+  });
+
+  test('Public addresses are allowed', () => {
+    expect(isPrivateAddress('93.184.216.34')).toBe(false);
+    expect(isPrivateAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(false);
+  });
+
+  test('Loopback, private and metadata addresses are refused', () => {
+    expect(isPrivateAddress('127.0.0.1')).toBe(true);
+    expect(isPrivateAddress('10.1.2.3')).toBe(true);
+    expect(isPrivateAddress('169.254.169.254')).toBe(true);
+    expect(isPrivateAddress('::1')).toBe(true);
+    expect(isPrivateAddress('::ffff:7f00:1')).toBe(true);
+  });
+
+  test('NAT64 well-known prefix addresses are refused', () => {
+    expect(isPrivateAddress('64:ff9b::7f00:1')).toBe(true);
+    expect(isPrivateAddress('64:ff9b::5db8:d822')).toBe(true);
+  });
+
+  test('NAT64 local-use prefix addresses are refused', () => {
+    expect(isPrivateAddress('64:ff9b:1::7f00:1')).toBe(true);
+  });
+
+  test('6to4 addresses are refused', () => {
+    expect(isPrivateAddress('2002:7f00:1::1')).toBe(true);
+  });
+
+  test('The 6to4 relay anycast range is refused', () => {
+    expect(isPrivateAddress('192.88.99.1')).toBe(true);
+  });
+
+  test('Bracketed IPv6 literals in URLs are checked', () => {
+    expect(isPrivateLiteral('[64:ff9b::7f00:1]')).toBe(true);
+    expect(isPrivateLiteral('93.184.216.34')).toBe(false);
+    expect(isPrivateLiteral('example.com')).toBe(false);
+  });
+
+  test('The lookup hands the socket the address it checked', async () => {
+    resolveTo('93.184.216.34');
+
+    await expect(runLookup(false)).resolves.toEqual({ error: null, address: '93.184.216.34', family: 4 });
+    await expect(runLookup(true)).resolves.toMatchObject({
+      error: null,
+      address: [{ address: '93.184.216.34', family: 4 }]
+    });
+  });
+
+  test('The lookup fails when any resolved address is internal', async () => {
+    // Given: A rebinding host that answers with both a public and a loopback address
+    resolveTo('93.184.216.34', '127.0.0.1');
+
+    // When: The socket asks where to connect
+    const { error } = await runLookup(true);
+
+    // Then: It gets no address at all
+    expect(error).toBeInstanceOf(NonPublicAddressError);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Proxy Address Policy - Readiwi v4.0
+ * Decides which addresses the proxy route may connect to
+ */
+
+import { lookup } from 'node:dns';
+import type { LookupAddress, LookupAllOptions, LookupOneOptions } from 'node:dns';
+import { BlockList, isIP } from 'node:net';
+
+// Loopback, private, link-local and other non-public addresses stay unreachable
+// through the proxy. IPv4-mapped IPv6 addresses (::ffff:7f00:1) match their IPv4 rule;
+// NAT64 and 6to4 prefixes are blocked whole since they can embed any IPv4 address.
+const PRIVATE_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+];
+const PRIVATE_IPV6_SUBNETS: Array<[string, number]> = [
+  ['::', 127], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+];
+
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_IPV4_SUBNETS.forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+PRIVATE_IPV6_SUBNETS.forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+export class NonPublicAddressError extends Error {
+  constructor(hostname: string) {
+    super(`Refusing to fetch non-public address ${hostname}`);
+    this.name = 'NonPublicAddressError';
+  }
+}
+
+/**
+ * Whether an address is anything other than a public IP; unparseable input counts as private
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return family === 0 || PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Whether a URL hostname is an IP literal outside the public ranges. Sockets skip
+ * the lookup for literals, so these have to be checked before connecting.
+ */
+export function isPrivateLiteral(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  return isIP(host) !== 0 && isPrivateAddress(host);
+}
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void;
+
+/**
+ * A `lookup` for http(s).request that resolves the host and fails unless every
+ * address is public. The socket then connects to exactly the addresses checked
+ * here, so a rebinding DNS server gets no second answer to swap in.
+ */
+export function publicLookup(hostname: string, options: LookupOneOptions | LookupAllOptions, callback: LookupCallback): void {
+  lookup(hostname, { family: options.family, hints: options.hints, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    const [first] = addresses;
+    if (!first || addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new NonPublicAddressError(hostname), []);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+}
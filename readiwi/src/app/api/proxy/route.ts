@@ -0,0 +1,155 @@
+/**
+ * Proxy Route - Readiwi v4.0
+ * Fetches source pages and their images on the server so imports don't depend
+ * on public CORS proxies
+ */
+
+import http from 'node:http';
+import https from 'node:https';
+import type { IncomingMessage } from 'node:http';
+import { NextRequest, NextResponse } from 'next/server';
+import { USER_AGENT_HEADER } from '@/plugins/book-import/types/import-types';
+import { isPrivateLiteral, NonPublicAddressError, publicLookup } from './address-policy';
+
+export const dynamic = 'force-dynamic';
+
+const FETCH_TIMEOUT_MS = 20000;
+const MAX_REDIRECTS = 5;
+// Larger than any chapter page, and than the biggest image the client will cache
+const MAX_BODY_BYTES = 15 * 1024 * 1024;
+const DEFAULT_USER_AGENT = 'Readiwi/4.0';
+const FORWARDED_REQUEST_HEADERS = ['If-None-Match', 'If-Modified-Since'];
+const FORWARDED_RESPONSE_HEADERS = ['ETag', 'Last-Modified'];
+
+class ProxyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+function parseTarget(value: string | null): URL | null {
+  if (!value) return null;
+
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (url.hostname === 'localhost' || url.hostname.endsWith('.localhost') || url.hostname.endsWith('.local')) return null;
+    return url;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Send one request, connecting only to addresses publicLookup has checked
+ */
+function send(url: URL, headers: Record<string, string>, signal: AbortSignal): Promise<IncomingMessage> {
+  if (isPrivateLiteral(url.hostname)) {
+    return Promise.reject(new ProxyError(`Refusing to fetch non-public address ${url.hostname}`, 400));
+  }
+
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, { headers, lookup: publicLookup, signal }, resolve);
+    request.on('error', error => {
+      reject(error instanceof NonPublicAddressError ? new ProxyError(error.message, 400) : error);
+    });
+    request.end();
+  });
+}
+
+/**
+ * Fetch a target, following redirects one hop at a time so each one is checked
+ */
+async function fetchPublic(target: URL, headers: Record<string, string>, signal: AbortSignal): Promise<IncomingMessage> {
+  let url = target;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await send(url, headers, signal);
+    const status = response.statusCode ?? 502;
+    const location = response.headers.location;
+    if (status < 300 || status >= 400 || status === 304 || !location) {
+      return response;
+    }
+
+    response.destroy();
+    const next = parseTarget(new URL(location, url).href);
+    if (!next) {
+      throw new ProxyError(`Refusing to follow redirect to ${location}`, 400);
+    }
+    url = next;
+  }
+
+  throw new ProxyError(`Too many redirects fetching ${target.href}`, 502);
+}
+
+/**
+ * The response body, read up to MAX_BODY_BYTES
+ */
+async function readBody(response: IncomingMessage): Promise<Uint8Array> {
+  const declared = Number(response.headers['content-length']);
+  if (declared > MAX_BODY_BYTES) {
+    response.destroy();
+    throw new ProxyError(`Response is larger than ${MAX_BODY_BYTES} bytes`, 502);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of response) {
+    const buffer = chunk as Buffer;
+    size += buffer.byteLength;
+    if (size > MAX_BODY_BYTES) {
+      response.destroy();
+      throw new ProxyError(`Response is larger than ${MAX_BODY_BYTES} bytes`, 502);
+    }
+    chunks.push(buffer);
+  }
+
+  return new Uint8Array(Buffer.concat(chunks, size));
+}
+
+function headerValue(response: IncomingMessage, name: string): string | null {
+  const value = response.headers[name.toLowerCase()];
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const target = parseTarget(request.nextUrl.searchParams.get('url'));
+  if (!target) {
+    return NextResponse.json({ error: 'A public http(s) url parameter is required' }, { status: 400 });
+  }
+
+  try {
+    const headers: Record<string, string> = {
+      'User-Agent': request.headers.get(USER_AGENT_HEADER) || DEFAULT_USER_AGENT,
+      'Accept': 'text/html,application/xhtml+xml,image/*,*/*;q=0.8'
+    };
+    FORWARDED_REQUEST_HEADERS.forEach(name => {
+      const value = request.headers.get(name);
+      if (value) headers[name] = value;
+    });
+
+    const response = await fetchPublic(target, headers, AbortSignal.timeout(FETCH_TIMEOUT_MS));
+    const status = response.statusCode ?? 502;
+
+    const responseHeaders = new Headers({
+      'Content-Type': headerValue(response, 'Content-Type') || 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store'
+    });
+    FORWARDED_RESPONSE_HEADERS.forEach(name => {
+      const value = headerValue(response, name);
+      if (value) responseHeaders.set(name, value);
+    });
+
+    // Revalidation answers keep their 304 so the client reuses its cached copy;
+    // bodies pass through as bytes so images survive the trip
+    const body = status === 304 ? null : await readBody(response);
+    if (!body) response.destroy();
+    return new NextResponse(body, { status, headers: responseHeaders });
+  } catch (error) {
+    const status = error instanceof ProxyError ? error.status : 502;
+    return NextResponse.json({ error: `Failed to fetch ${target.href}: ${error}` }, { status });
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useParams } from 'next/navigation';
+import { useParams, useSearchParams } from 'next/navigation';
 import ReaderView from '@/plugins/reader/components/ReaderView';
 
 export default function ChapterReadPage() {
@@ -9,6 +9,8 @@ export default function ChapterReadPage() {
   const slug = params.slug as string;
   const chapterId = parseInt(params.chapterId as string, 10);
   const chapterSlug = params.chapterSlug as string;
+  // ?at=<offset> opens the chapter at a character offset, e.g. from a search result
+  const at = parseInt(useSearchParams().get('at') ?? '', 10);
 
   if (isNaN(bookId)) {
     return (
@@ -60,6 +62,7 @@ export default function ChapterReadPage() {
       slug={slug}
       chapterId={chapterId}
       chapterSlug={chapterSlug}
+      {...(!isNaN(at) && { initialOffset: at })}
     />
   );
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * Search Page - Readiwi v4.0
+ * Full-text search across the library, or within one book with ?book=<id>
+ */
+
+'use client';
+
+import { Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import SearchView from '@/plugins/search/components/SearchView';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+
+function SearchPageContent() {
+  const router = useRouter();
+  const bookId = parseInt(useSearchParams().get('book') ?? '', 10);
+
+  return (
+    <div className="container mx-auto py-8 max-w-3xl">
+      <div className="mb-8">
+        <Button
+          onClick={() => router.back()}
+          variant="ghost"
+          className="-ml-4 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+        <h1 className="text-3xl font-bold tracking-tight">Search</h1>
+        <p className="text-muted-foreground mt-2">
+          Find any passage in your books
+        </p>
+      </div>
+      <SearchView {...(!isNaN(bookId) && { bookId })} />
+    </div>
+  );
+}
+
+export default function SearchPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <Suspense>
+        <SearchPageContent />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * Statistics Page - Readiwi v4.0
+ * Reading time, streaks and speed across the library
+ */
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import StatisticsView from '@/plugins/statistics/components/StatisticsView';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+
+export default function StatsPage() {
+  const router = useRouter();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 max-w-4xl">
+        <div className="mb-8">
+          <Button
+            onClick={() => router.back()}
+            variant="ghost"
+            className="-ml-4 mb-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-3xl font-bold tracking-tight">Reading Statistics</h1>
+          <p className="text-muted-foreground mt-2">
+            How much, how fast and how often you read
+          </p>
+        </div>
+        <StatisticsView />
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Book, BookStatus, BookWithProgress } from '@/core/types/database';
+import { Book, BookStatus, BookWithProgress, ImageCacheEntry } from '@/core/types/database';
 import { BaseRepository } from './base-repository';
 import { db } from './database-simple';
 import { LibraryStats } from '@/plugins/book-library/types/library-types';
@@ -177,12 +177,29 @@ export class BookRepository extends BaseRepository<Book> {
         this.db.books,
         this.db.chapters,
         this.db.readingProgress,
+        this.db.readingSessions,
         this.db.bookmarks,
+        this.db.searchIndex,
+        this.db.searchDocuments,
+        this.db.imageCache,
       ], async () => {
         // Delete related data
         await this.db.chapters.where('bookId').equals(id).delete();
         await this.db.readingProgress.where('bookId').equals(id).delete();
+        await this.db.readingSessions.where('bookId').equals(id).delete();
         await this.db.bookmarks.where('bookId').equals(id).delete();
+        await this.db.searchIndex.where('bookId').equals(id).delete();
+        await this.db.searchDocuments.where('bookId').equals(id).delete();
+        
+        // Images no other book shows go with it
+        const images: ImageCacheEntry[] = await this.db.imageCache.where('bookIds').equals(id).toArray();
+        const orphaned = images.filter(image => image.bookIds.every(bookId => bookId === id));
+        const shared = images.filter(image => !orphaned.includes(image));
+        await this.db.imageCache.bulkDelete(orphaned.map(image => image.id!));
+        await this.db.imageCache.bulkUpdate(shared.map(image => ({
+          key: image.id!,
+          changes: { bookIds: image.bookIds.filter(bookId => bookId !== id) },
+        })));
         
         // Delete the book
         await this.db.books.delete(id);
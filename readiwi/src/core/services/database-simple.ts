@@ -1,19 +1,24 @@
 // @ts-ignore - Progressive development, Dexie Table import
-import Dexie, { Table } from 'dexie';
+import Dexie, { Table, Transaction } from 'dexie';
 import {
   Book,
   Chapter,
   ReadingProgress,
+  ReadingSession,
   UserSetting,
   Bookmark,
   SyncMetadata,
   ImportJob,
   ErrorLog,
   ParserCacheEntry,
+  ParserCacheStats,
   ImageCacheEntry,
+  ParserDefinitionRecord,
+  SearchIndexEntry,
+  SearchDocument,
 } from '@/core/types/database';
 
-export const DATABASE_VERSION = 7;
+export const DATABASE_VERSION = 14;
 export const DATABASE_NAME = 'ReadiwiDatabase';
 
 export const STORAGE_LIMITS = {
@@ -21,6 +26,7 @@ export const STORAGE_LIMITS = {
   maxChaptersPerBook: 2000,
   maxBookSizeMB: 50,
   maxTotalStorageGB: 2,
+  maxImageCacheMB: 500,
   warningThresholdPercent: 80,
   cleanupThresholdPercent: 90,
 } as const;
@@ -33,6 +39,7 @@ export class ReadiwiDatabase extends Dexie {
   
   // User data tables
   readingProgress!: Table<ReadingProgress>;
+  readingSessions!: Table<ReadingSession>;
   bookmarks!: Table<Bookmark>;
   userSettings!: Table<UserSetting>;
   
@@ -44,6 +51,13 @@ export class ReadiwiDatabase extends Dexie {
   // Cache tables
   parserCache!: Table<ParserCacheEntry>;
   imageCache!: Table<ImageCacheEntry>;
+  
+  // User-defined site parsers
+  parserDefinitions!: Table<ParserDefinitionRecord>;
+  
+  // Full-text search index
+  searchIndex!: Table<SearchIndexEntry>;
+  searchDocuments!: Table<SearchDocument>;
 
   constructor() {
     super(DATABASE_NAME);
@@ -89,6 +103,83 @@ export class ReadiwiDatabase extends Dexie {
     this.version(6).stores({
       chapters: '++id, bookId, index, title, content, chapterNumber, wordCount, estimatedReadingTime, createdAt, updatedAt, [bookId+index]',
     });
+    
+    // Version 7: User-defined parser definitions
+    // @ts-ignore - Progressive development, Dexie version method
+    this.version(7).stores({
+      parserDefinitions: '++id, &parserId, name, updatedAt',
+    });
+    
+    // Version 8: Parser cache keyed by URL; page bodies no longer indexed
+    // @ts-ignore - Progressive development, Dexie version method
+    this.version(8).stores({
+      parserCache: '++id, &url, expiresAt, createdAt',
+    }).upgrade((tx: Transaction) => tx.table<ParserCacheEntry, number>('parserCache').clear());
+    
+    // Version 9: Bookmarks double as highlights; looked up per chapter
+    // @ts-ignore - Progressive development, Dexie version method
+    this.version(9).stores({
+      bookmarks: '++id, bookId, chapterId, [bookId+chapterId], type, createdAt',
+    }).upgrade((tx: Transaction) => tx.table<Bookmark, number>('bookmarks').toCollection().modify(bookmark => {
+      bookmark.type = bookmark.type ?? 'bookmark';
+    }));
+    
+    // Version 10: Full-text search index, filled in as chapters are saved
+    // @ts-ignore - Progressive development, Dexie version method
+    this.version(10).stores({
+      searchIndex: '++id, term, chapterId, bookId, [term+bookId]',
+      searchDocuments: '&chapterId, bookId',
+    });
+    
+    // Version 11: Reading sessions for statistics
+    // @ts-ignore - Progressive development, Dexie version method
+    this.version(11).stores({
+      readingSessions: '++id, bookId, startedAt',
+    });
+    
+    // Version 12: Image cache evicted least recently viewed first; blobs no longer indexed
+    // @ts-ignore - Progressive development, Dexie version method
+    this.version(12).stores({
+      imageCache: '++id, url, expiresAt, createdAt, lastAccessedAt',
+    }).upgrade((tx: Transaction) => tx.table<ImageCacheEntry, number>('imageCache').toCollection().modify(entry => {
+      entry.lastAccessedAt = entry.lastAccessedAt ?? entry.createdAt;
+    }));
+    
+    // Version 13: Images belong to the books showing them instead of expiring
+    // @ts-ignore - Progressive development, Dexie version method
+    this.version(13).stores({
+      imageCache: '++id, url, expiresAt, createdAt, lastAccessedAt, *bookIds',
+    }).upgrade(async (tx: Transaction) => {
+      const bookIdsByUrl = new Map<string, Set<number>>();
+      const link = (url: string, bookId: number) => {
+        bookIdsByUrl.set(url, (bookIdsByUrl.get(url) ?? new Set<number>()).add(bookId));
+      };
+
+      const books = await tx.table<Book, number>('books').toArray();
+      books.forEach(book => {
+        if (book.coverUrl) link(book.coverUrl, book.id!);
+      });
+      await tx.table<Chapter, number>('chapters').each(chapter => {
+        chapter.imageUrls?.forEach(url => link(url, chapter.bookId));
+      });
+      const localBooks = books.filter(book => book.sourceUrl?.startsWith('file:'));
+
+      await tx.table<ImageCacheEntry, number>('imageCache').toCollection().modify(entry => {
+        const bookIds = bookIdsByUrl.get(entry.url) ?? new Set<number>();
+        // Images embedded in imported files sit under the file's URL
+        localBooks
+          .filter(book => entry.url.startsWith(`${book.sourceUrl}/`))
+          .forEach(book => bookIds.add(book.id!));
+        entry.bookIds = Array.from(bookIds);
+        delete entry.expiresAt;
+      });
+    });
+    
+    // Version 14: Chapter word counts readable from the index, without loading chapter content
+    // @ts-ignore - Progressive development, Dexie version method
+    this.version(14).stores({
+      chapters: '++id, bookId, index, title, content, chapterNumber, wordCount, estimatedReadingTime, createdAt, updatedAt, [bookId+index], [bookId+index+wordCount]',
+    });
   }
 
   async getStorageInfo(): Promise<{
@@ -96,7 +187,10 @@ export class ReadiwiDatabase extends Dexie {
     quota: number;
     usagePercentage: number;
     isNearLimit: boolean;
+    parserCache: ParserCacheStats;
   }> {
+    const parserCache = await this.getParserCacheStats();
+    
     try {
       if ('storage' in navigator && 'estimate' in navigator.storage) {
         const estimate = await navigator.storage.estimate();
@@ -109,6 +203,7 @@ export class ReadiwiDatabase extends Dexie {
           quota,
           usagePercentage,
           isNearLimit: usagePercentage > STORAGE_LIMITS.warningThresholdPercent,
+          parserCache,
         };
       }
     } catch (error) {
@@ -120,9 +215,33 @@ export class ReadiwiDatabase extends Dexie {
       quota: 0,
       usagePercentage: 0,
       isNearLimit: false,
+      parserCache,
     };
   }
 
+  async getParserCacheStats(): Promise<ParserCacheStats> {
+    const stats: ParserCacheStats = { entries: 0, expiredEntries: 0, sizeBytes: 0 };
+    const now = Date.now();
+    
+    try {
+      // @ts-ignore - Progressive development, Dexie each method
+      await this.parserCache.each((entry: ParserCacheEntry) => {
+        stats.entries++;
+        // Stored as UTF-16
+        stats.sizeBytes += (entry.size ?? 0) * 2;
+        if (entry.expiresAt.getTime() < now) stats.expiredEntries++;
+      });
+    } catch (error) {
+      console.error('Failed to read parser cache stats:', error);
+    }
+    
+    return stats;
+  }
+
+  async purgeParserCache(): Promise<void> {
+    await this.parserCache.clear();
+  }
+
   async cleanupExpiredCache(): Promise<void> {
     const now = new Date();
     
@@ -139,6 +258,7 @@ export class ReadiwiDatabase extends Dexie {
       this.books,
       this.chapters,
       this.readingProgress,
+      this.readingSessions,
       this.bookmarks,
       this.userSettings,
       this.syncMetadata,
@@ -146,11 +266,15 @@ export class ReadiwiDatabase extends Dexie {
       this.errorLogs,
       this.parserCache,
       this.imageCache,
+      this.parserDefinitions,
+      this.searchIndex,
+      this.searchDocuments,
     ], async () => {
       await Promise.all([
         this.books.clear(),
         this.chapters.clear(),
         this.readingProgress.clear(),
+        this.readingSessions.clear(),
         this.bookmarks.clear(),
         this.userSettings.clear(),
         this.syncMetadata.clear(),
@@ -158,6 +282,9 @@ export class ReadiwiDatabase extends Dexie {
         this.errorLogs.clear(),
         this.parserCache.clear(),
         this.imageCache.clear(),
+        this.parserDefinitions.clear(),
+        this.searchIndex.clear(),
+        this.searchDocuments.clear(),
       ]);
     });
   }
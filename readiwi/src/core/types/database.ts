@@ -24,6 +24,10 @@ export interface Book {
   lastReadAt?: Date;
   importedAt?: Date;
   
+  // Update tracking
+  lastCheckedAt?: Date; // Last time the source was checked for new chapters
+  newChapterCount?: number; // Chapters added since the reader last opened the book
+  
   // Sync metadata
   syncStatus: SyncStatus;
   lastSyncAt?: Date;
@@ -58,6 +62,7 @@ export interface Chapter {
   hasImages: boolean;
   imageUrls: string[];
   footnotes?: Footnote[];
+  hiddenElementsRemoved?: number; // Hidden anti-piracy elements dropped on import
   
   // Timestamps
   createdAt: Date;
@@ -83,6 +88,7 @@ export interface ReadingProgress {
   // Position tracking
   scrollPosition: number;
   textPosition?: number; // Character position in text
+  fingerprint?: TextFingerprint; // Text around textPosition, to find it again after edits
   elementId?: string; // DOM element ID for precise positioning
   
   // Progress metrics
@@ -97,6 +103,7 @@ export interface ReadingProgress {
   // Position restoration metadata
   restorationStrategy: RestorationStrategy;
   restorationAccuracy: number; // 0-100
+  restoredAt?: Date; // When the restoration above ran; one per reader visit
   textContext?: string; // Surrounding text for fuzzy matching
   
   // Timestamps
@@ -110,6 +117,19 @@ export interface ReadingProgress {
   version: number;
 }
 
+/**
+ * One sitting with a book in the reader, for reading statistics
+ */
+export interface ReadingSession {
+  id?: number;
+  bookId: number;
+  startedAt: Date;
+  endedAt: Date;
+  activeSeconds: number; // Time spent reading, idle stretches excluded
+  wordsRead: number;
+  chaptersFinished: number[]; // Chapter ids
+}
+
 export interface UserSetting {
   id?: number;
   key: string;
@@ -132,14 +152,38 @@ export interface UserSetting {
   version: number;
 }
 
+export type AnnotationType = 'bookmark' | 'highlight';
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+/**
+ * Text around a character offset, used to find the same spot again after the
+ * chapter text changes
+ */
+export interface TextFingerprint {
+  before: string;      // Text before position
+  after: string;       // Text after position
+  paragraph: string;   // Current paragraph
+  wordIndex: number;   // Word position in paragraph
+  charOffset: number;  // Character offset in word
+}
+
 export interface Bookmark {
   id?: number;
   bookId: number;
   chapterId: number;
-  position: number;
+  position: number; // Character offset in the chapter content
   title: string;
   note?: string;
   createdAt: Date;
+
+  // Annotations (older records are plain bookmarks)
+  type?: AnnotationType;
+  endPosition?: number; // Highlights only; exclusive
+  text?: string; // Highlighted text, or a snippet at the bookmark
+  color?: HighlightColor;
+  anchor?: TextFingerprint; // Fingerprint at `position`
+  updatedAt?: Date;
 }
 
 export interface SyncMetadata {
@@ -161,6 +205,7 @@ export interface ImportJob {
   bookId?: number;
   bookTitle?: string;
   error?: string;
+  failedChapters?: number[]; // Chapter numbers that could not be downloaded
   createdAt: Date;
   updatedAt: Date;
 }
@@ -178,8 +223,48 @@ export interface ParserCacheEntry {
   id?: number;
   url: string;
   data: any;
-  expiresAt: Date;
+  expiresAt: Date; // Served without a request until then; revalidated afterwards
+  createdAt: Date;
+  etag?: string;
+  lastModified?: string;
+  size?: number; // Characters in data
+}
+
+export interface ParserCacheStats {
+  entries: number;
+  expiredEntries: number;
+  sizeBytes: number;
+}
+
+export interface ParserDefinitionRecord {
+  id?: number;
+  parserId: string;
+  name: string;
+  definition: string; // JSON text as the user wrote it
   createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Postings for one term in one chapter of the full-text search index
+ */
+export interface SearchIndexEntry {
+  id?: number;
+  term: string;
+  bookId: number;
+  chapterId: number;
+  positions: number[]; // Token positions, for phrase matching
+  offsets: number[]; // Character offsets of the same tokens
+}
+
+/**
+ * A chapter that has been added to the search index
+ */
+export interface SearchDocument {
+  chapterId: number;
+  bookId: number;
+  tokenCount: number;
+  indexedAt: Date;
 }
 
 export interface ImageCacheEntry {
@@ -187,8 +272,10 @@ export interface ImageCacheEntry {
   url: string;
   blob: Blob;
   size: number;
-  expiresAt: Date;
+  expiresAt?: Date; // Unset for book images, which go with the last book in `bookIds`
+  bookIds: number[]; // Books showing this image
   createdAt: Date;
+  lastAccessedAt: Date; // Last shown in the reader; the least recent go first when the cache is full
 }
 
 export interface Footnote {
@@ -229,6 +316,8 @@ export enum ProcessingStatus {
 export enum RestorationStrategy {
   EXACT_TEXT = 'exact_text',
   FUZZY_TEXT = 'fuzzy_text',
+  PARAGRAPH_POSITION = 'paragraph_position',
+  CHARACTER_OFFSET = 'character_offset',
   ELEMENT_ID = 'element_id',
   PERCENTAGE = 'percentage',
   SCROLL_POSITION = 'scroll_position',
@@ -0,0 +1,76 @@
+/**
+ * HTML Sanitizer Tests - Readiwi v4.0
+ * Testing that imported chapters keep their formatting and nothing unsafe
+ */
+
+import { sanitizeHtml } from '../html-sanitizer';
+import { renderChapterHtml, getContentOffset } from '@/plugins/reader/services/chapter-renderer';
+import { AnchoredAnnotation } from '@/plugins/reader/types/reader-types';
+
+describe('User Story: Read Chapters With Their Formatting', () => {
+  test('Semantic formatting is kept and everything else is removed', () => {
+    // Given: Chapter HTML with formatting, scripts and handlers
+    const html = `
+      <p>She <em>really</em> meant it.<script>alert(1)</script></p>
+      <p style="text-align: center">* * *</p>
+      <hr>
+      <div style="border: 1px solid #fff"><b>[Status]</b><br>Level: 5</div>
+      <p onclick="steal()"><a href="javascript:steal()">Link</a> <img src="javascript:x" onerror="steal()"><img src="https://example.com/map.png" alt="Map"></p>
+    `;
+
+    // When: Sanitizing it
+    const { html: sanitized, text } = sanitizeHtml(html);
+
+    // Then: Italics, bold, scene breaks and the status box survive
+    expect(sanitized).toContain('<em>really</em>');
+    expect(sanitized).toContain('<p class="centered">* * *</p>');
+    expect(sanitized).toContain('<hr>');
+    expect(sanitized).toContain('<div class="system-message"><b>[Status]</b><br>Level: 5</div>');
+    expect(sanitized).toContain('<img src="https://example.com/map.png" alt="Map">');
+
+    // And: Nothing that could run code does
+    expect(sanitized).not.toMatch(/script|onclick|onerror|javascript|style=|href/);
+
+    // And: The plain text has one paragraph per block, with line breaks kept
+    expect(text).toBe('She really meant it.\n\n* * *\n\n[Status]\nLevel: 5\n\nLink');
+  });
+
+  test('Tables and loose text become separate paragraphs of the plain text', () => {
+    // Given: A table between text outside any paragraph
+    const html = 'Before the   table\n<table><tr><td>Strength</td><td>12</td></tr></table>  after it.';
+
+    // When: Sanitizing it
+    const { html: sanitized, text } = sanitizeHtml(html);
+
+    // Then: Every cell and loose run of text is its own paragraph
+    expect(text).toBe('Before the table\n\nStrength\n\n12\n\nafter it.');
+    expect(sanitized).toMatch(/^<p>Before the table<\/p><table>/);
+    expect(sanitized).toMatch(/<p>after it\.<\/p>$/);
+  });
+
+  test('Formatted chapters render highlights and map selections to the plain text', () => {
+    // Given: A formatted chapter and a highlight across a line break
+    const { html, text } = sanitizeHtml('<p>One <em>two</em><br>three</p><table><tr><td>four</td></tr></table>');
+    const highlight = {
+      annotation: { id: 7, bookId: 1, chapterId: 1, type: 'highlight', color: 'yellow', selectedText: 'two\nth' },
+      start: 4,
+      end: 10,
+      orphaned: false,
+    } as unknown as AnchoredAnnotation;
+
+    // When: Rendering it for the reader
+    const container = document.createElement('div');
+    container.innerHTML = renderChapterHtml(text, [highlight], html);
+
+    // Then: The formatting is kept and the highlight is marked inside it
+    expect(container.querySelector('em mark')?.textContent).toBe('two');
+    expect(Array.from(container.querySelectorAll('mark')).map(mark => mark.textContent).join('')).toBe('two\nth');
+
+    // And: A position in the table maps back to its offset in the text
+    const cell = container.querySelector('td')!.firstChild!;
+    expect(getContentOffset(container, cell, 2, text)).toBe(text.indexOf('four') + 2);
+
+    // And: Formatting that no longer matches the text falls back to plain paragraphs
+    expect(renderChapterHtml('Edited text', [], html)).toBe('<p>Edited text</p>');
+  });
+});
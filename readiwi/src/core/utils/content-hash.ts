@@ -0,0 +1,20 @@
+/**
+ * A short fingerprint of a file's content, for telling files apart without a
+ * crypto API; two independent 32-bit lanes keep accidental collisions unlikely
+ */
+export function contentHash(content: string | Uint8Array): string {
+  let h1 = 0xdeadbeef ^ content.length;
+  let h2 = 0x41c6ce57 ^ content.length;
+
+  for (let i = 0; i < content.length; i++) {
+    const unit = typeof content === 'string' ? content.charCodeAt(i) : content[i]!;
+    h1 = Math.imul(h1 ^ unit, 2654435761);
+    h2 = Math.imul(h2 ^ unit, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hex = (value: number) => (value >>> 0).toString(16).padStart(8, '0');
+  return `${hex(h2)}${hex(h1)}${content.length.toString(16)}`;
+}
@@ -0,0 +1,252 @@
+/**
+ * HTML Sanitizer - Readiwi v4.0
+ * Reduces chapter HTML from any source to an allow-list of semantic tags, and
+ * derives the plain text that reading positions, TTS and search work on
+ */
+
+export interface SanitizedHtml {
+  html: string;
+  text: string; // Text blocks separated by blank lines, lines within them by "\n"
+}
+
+// Blocks that hold text directly; each one is a paragraph of the plain text
+const TEXT_BLOCK_TAGS = ['p', 'div', 'blockquote', 'li', 'td', 'th', 'caption', 'figcaption', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+const BLOCK_TAGS = new Set([...TEXT_BLOCK_TAGS, 'table', 'thead', 'tbody', 'tfoot', 'tr', 'ul', 'ol', 'figure', 'hr']);
+const INLINE_TAGS = new Set(['em', 'i', 'strong', 'b', 'u', 's', 'del', 'ins', 'sub', 'sup', 'small', 'span', 'br', 'img']);
+
+// Layout elements kept as plain blocks so their text stays separate
+const BLOCK_ALIASES = new Set(['section', 'article', 'main', 'aside', 'header', 'footer', 'center', 'address', 'pre', 'dl', 'dt', 'dd', 'details', 'summary']);
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'form', 'input', 'button', 'select', 'textarea', 'svg', 'math', 'canvas', 'audio', 'video', 'link', 'meta', 'head', 'title',
+]);
+
+const TEXT_BLOCK_SELECTOR = TEXT_BLOCK_TAGS.join(', ');
+const BLOCK_SELECTOR = Array.from(BLOCK_TAGS).join(', ');
+// file:/// srcs are image cache keys of images embedded in imported files
+const SAFE_IMAGE_URL = /^(https?:\/\/|file:\/\/\/|data:image\/(png|gif|jpe?g|webp);)/i;
+
+/**
+ * Clean chapter HTML (a string or an element to copy) down to the allowed tags.
+ * Scripts, styles, event handlers and unsafe URLs never make it into the result.
+ */
+export function sanitizeHtml(input: string | Element): SanitizedHtml {
+  const doc = new DOMParser().parseFromString('<body></body>', 'text/html');
+  const source = typeof input === 'string'
+    ? new DOMParser().parseFromString(input, 'text/html').body
+    : input;
+
+  const root = doc.body;
+  copyChildren(source, root, doc);
+  arrangeBlocks(root, true);
+  getLeafBlocks(root).forEach(normalizeWhitespace);
+
+  // Spacer paragraphs, e.g. <p>&nbsp;</p>; empty table cells still hold their place
+  getLeafBlocks(root)
+    .filter(block => getBlockText(block) === '' && !block.querySelector('img') && block.localName !== 'td' && block.localName !== 'th')
+    .forEach(block => block.remove());
+
+  return {
+    html: root.innerHTML,
+    text: getTextBlocks(root).map(getBlockText).join('\n\n'),
+  };
+}
+
+/**
+ * Text made safe to place inside HTML markup or a quoted attribute
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * The elements in `root` that each hold one paragraph of the plain text, in order
+ */
+export function getTextBlocks(root: Element): Element[] {
+  return getLeafBlocks(root).filter(block => getBlockText(block) !== '');
+}
+
+/**
+ * Text of a block with line breaks as "\n"
+ */
+export function getBlockText(block: Element): string {
+  const walker = block.ownerDocument.createTreeWalker(block, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+  let text = '';
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent ?? '';
+    } else if ((node as Element).localName === 'br') {
+      text += '\n';
+    }
+  }
+  return text;
+}
+
+function getLeafBlocks(root: Element): Element[] {
+  return Array.from(root.querySelectorAll(TEXT_BLOCK_SELECTOR)).filter(block => !block.querySelector(BLOCK_SELECTOR));
+}
+
+function copyChildren(source: Node, target: Element, doc: Document): void {
+  source.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      // Source line breaks are only formatting; <br> is what breaks a line
+      target.append(doc.createTextNode((child.textContent ?? '').replace(/\s+/g, ' ')));
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      copyElement(child as Element, target, doc);
+    }
+  });
+}
+
+function copyElement(element: Element, target: Element, doc: Document): void {
+  const tag = element.localName;
+  if (DROPPED_TAGS.has(tag)) return;
+
+  // Inline formatting wrapped around whole paragraphs is dropped to keep the blocks apart
+  const allowed = BLOCK_TAGS.has(tag) || (INLINE_TAGS.has(tag) && !element.querySelector(BLOCK_SELECTOR));
+  if (!allowed && !BLOCK_ALIASES.has(tag)) {
+    copyChildren(element, target, doc); // Unknown wrappers such as <a> or <font> keep their text
+    return;
+  }
+
+  const copy = doc.createElement(allowed ? tag : 'div');
+  if (tag === 'img') {
+    const src = element.getAttribute('src')?.trim();
+    if (!src || !SAFE_IMAGE_URL.test(src)) return;
+    copy.setAttribute('src', src);
+    copy.setAttribute('alt', element.getAttribute('alt') ?? '');
+  }
+  if (tag === 'td' || tag === 'th') {
+    ['colspan', 'rowspan'].forEach(name => {
+      const value = element.getAttribute(name);
+      if (value && /^\d+$/.test(value)) copy.setAttribute(name, value);
+    });
+  }
+
+  const className = getPresentationClass(element);
+  if (className) copy.className = className;
+
+  copyChildren(element, copy, doc);
+  target.append(copy);
+}
+
+/**
+ * The few inline styles worth keeping, as reader classes: boxed text such as
+ * the status screens of LitRPG stories, and centred lines such as scene breaks
+ */
+function getPresentationClass(element: Element): string | null {
+  const style = (element.getAttribute('style') ?? '').toLowerCase();
+  if (!style) return null;
+
+  const tag = element.localName;
+  if ((tag === 'div' || tag === 'table' || tag === 'p') && /(^|;)\s*(border(-[a-z]+)?|background(-color)?)\s*:/.test(style) && !/border(-[a-z]+)?\s*:\s*(none|0)\b/.test(style)) {
+    return 'system-message';
+  }
+  if (TEXT_BLOCK_TAGS.includes(tag) && /text-align\s*:\s*center/.test(style)) {
+    return 'centered';
+  }
+  return null;
+}
+
+/**
+ * Make every text sit in a leaf block: loose text next to blocks is wrapped in
+ * paragraphs and whitespace between blocks is dropped
+ */
+function arrangeBlocks(container: Element, isRoot: boolean = false): void {
+  const children = Array.from(container.childNodes);
+  const isBlock = (node: Node) => node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).localName);
+
+  if (isRoot || children.some(isBlock)) {
+    let run: Node[] = [];
+    const wrapRun = () => {
+      const hasContent = run.some(node => (node.textContent ?? '').trim() !== '' || (node as Element).querySelector?.('img') || (node as Element).localName === 'img');
+      if (hasContent) {
+        const paragraph = container.ownerDocument.createElement('p');
+        container.insertBefore(paragraph, run[0]!);
+        paragraph.append(...run);
+      } else {
+        run.forEach(node => node.parentNode?.removeChild(node));
+      }
+      run = [];
+    };
+
+    children.forEach(child => {
+      if (isBlock(child)) {
+        if (run.length > 0) wrapRun();
+      } else {
+        run.push(child);
+      }
+    });
+    if (run.length > 0) wrapRun();
+  }
+
+  Array.from(container.children).forEach(child => {
+    if (BLOCK_TAGS.has(child.localName)) arrangeBlocks(child);
+  });
+}
+
+/**
+ * Collapse spaces, keep single line breaks between text and trim the block's edges
+ */
+function normalizeWhitespace(block: Element): void {
+  const walker = block.ownerDocument.createTreeWalker(block, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+  const nodes: Node[] = [];
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    nodes.push(node);
+  }
+
+  let started = false; // Some text seen, so spaces and breaks are no longer leading
+  let lineStart = true; // Nothing but whitespace since the start or the last break
+  let trailingSpace: Text | null = null; // Node ending in a space that may turn out to be trailing
+
+  const dropTrailingSpace = () => {
+    if (!trailingSpace) return;
+    trailingSpace.textContent = (trailingSpace.textContent ?? '').slice(0, -1);
+    if (!trailingSpace.textContent) trailingSpace.remove();
+    trailingSpace = null;
+  };
+
+  nodes.forEach(node => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      if ((node as Element).localName !== 'br') return;
+      dropTrailingSpace();
+      // Only one break between two pieces of text, and none at the start
+      if (lineStart) {
+        (node as Element).remove();
+      } else {
+        lineStart = true;
+      }
+      return;
+    }
+
+    let text = '';
+    let endsWithSpace = false;
+    for (const character of node.textContent ?? '') {
+      if (character === ' ') {
+        if (!lineStart && !endsWithSpace && !trailingSpace) {
+          text += ' ';
+          endsWithSpace = true;
+        }
+        continue;
+      }
+      started = true;
+      lineStart = false;
+      endsWithSpace = false;
+      trailingSpace = null;
+      text += character;
+    }
+
+    if (text) {
+      node.textContent = text;
+      if (endsWithSpace) trailingSpace = node as Text;
+    } else {
+      node.parentNode?.removeChild(node);
+    }
+  });
+
+  dropTrailingSpace();
+  // A break after the last text
+  if (started && lineStart) {
+    Array.from(block.querySelectorAll('br')).pop()?.remove();
+  }
+}
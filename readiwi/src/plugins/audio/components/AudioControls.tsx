@@ -6,9 +6,11 @@ import { cn } from '@/core/utils/cn';
 import { Volume2, VolumeX, Settings } from 'lucide-react';
 import { useSettingsStore } from '@/plugins/settings/stores/settings-store';
 import TTSControls from './TTSControls';
+import { ReadingSource } from '../types/audio-types';
 
 interface AudioControlsProps {
   text?: string; // @description Text content for TTS
+  source?: ReadingSource; // @description Book and chapter the text belongs to (optional)
   showSettings?: boolean; // @description Show settings button
   onSettingsClick?: () => void; // @description Callback for settings button
   className?: string;
@@ -17,6 +19,7 @@ interface AudioControlsProps {
 
 const AudioControls: React.FC<AudioControlsProps> = ({
   text = '',
+  source,
   showSettings = true,
   onSettingsClick,
   className,
@@ -80,6 +83,7 @@ const AudioControls: React.FC<AudioControlsProps> = ({
       {audio.enabled && text && (
         <TTSControls
           text={text}
+          {...(source && { source })}
           data-testid="audio-tts-controls"
         />
       )}
@@ -3,20 +3,26 @@
 import React, { useCallback, useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/core/utils/cn';
-import { Play, Pause, Square, Volume2, VolumeX } from 'lucide-react';
+import { Play, Pause, Square, Volume2, VolumeX, Rewind, FastForward, SkipBack, SkipForward, Moon } from 'lucide-react';
 import useAudioStore from '../stores/audio-store';
 import { useSettingsStore } from '@/plugins/settings/stores/settings-store';
 import { ttsService } from '../services/tts-service';
+import { audiobookPlayer } from '../services/audiobook-player';
+import { shortcutService } from '@/plugins/settings/services/shortcut-service';
+import { ReadingSource } from '../types/audio-types';
 
 interface TTSControlsProps {
   text?: string; // @description Text to read aloud
+  source?: ReadingSource; // @description Book and chapter of the text, to resume where reading aloud stopped (optional)
   className?: string;
   'data-testid'?: string;
 }
 
 const TTSControls: React.FC<TTSControlsProps> = ({
   text = '',
+  source,
   className,
   'data-testid': testId,
 }) => {
@@ -29,7 +35,8 @@ const TTSControls: React.FC<TTSControlsProps> = ({
     pauseReading, 
     resumeReading, 
     stopReading,
-    updateTTSState 
+    updateTTSState,
+    getResumeOffset,
   } = useAudioStore();
   
   const { settings } = useSettingsStore();
@@ -37,6 +44,8 @@ const TTSControls: React.FC<TTSControlsProps> = ({
   
   // Local state
   const [isSupported, setIsSupported] = useState(false);
+  const resumeOffset = source ? getResumeOffset(source) : 0;
+  const [sleepChoice, setSleepChoice] = useState('off');
   
   // Check TTS support on mount
   useEffect(() => {
@@ -52,6 +61,11 @@ const TTSControls: React.FC<TTSControlsProps> = ({
     return unsubscribe;
   }, [updateTTSState]);
   
+  // The sleep timer turns itself off once it has stopped playback
+  useEffect(() => audiobookPlayer.subscribe((state) => {
+    if (!state.sleepTimer) setSleepChoice('off');
+  }), []);
+  
   // Event handlers
   const handlePlay = useCallback(async () => {
     if (!text.trim() || !audio.enabled) return;
@@ -66,12 +80,17 @@ const TTSControls: React.FC<TTSControlsProps> = ({
           rate: audio.rate,
           pitch: audio.pitch,
           volume: audio.volume,
+        }, {
+          startOffset: resumeOffset,
+          ...(source && { source }),
+          autoAdvance: audio.autoAdvance,
+          readAuthorNotes: settings.reading.authorNotes === 'inline',
         });
       }
     } catch (error) {
       console.error('Failed to start/resume reading:', error);
     }
-  }, [text, audio, isPaused, startReading, resumeReading]);
+  }, [text, source, resumeOffset, audio, settings.reading.authorNotes, isPaused, startReading, resumeReading]);
   
   const handlePause = useCallback(() => {
     pauseReading();
@@ -81,6 +100,25 @@ const TTSControls: React.FC<TTSControlsProps> = ({
     stopReading();
   }, [stopReading]);
   
+  const handleSleepChoice = useCallback((choice: string) => {
+    setSleepChoice(choice);
+    audiobookPlayer.setSleepTimer(
+      choice === 'off' ? null : choice === 'chapter-end' ? 'chapter-end' : { minutes: Number(choice) }
+    );
+  }, []);
+
+  // Play/pause shortcut while the controls are on screen
+  useEffect(() => shortcutService.register('audio', {
+    toggleTTS: () => {
+      if (!isSupported) return;
+      if (isSpeaking && !isPaused) {
+        handlePause();
+      } else {
+        handlePlay();
+      }
+    },
+  }), [isSupported, isSpeaking, isPaused, handlePause, handlePlay]);
+  
   // Don't render if not supported or disabled
   if (!isSupported || !audio.enabled || !text.trim()) {
     return null;
@@ -105,7 +143,7 @@ const TTSControls: React.FC<TTSControlsProps> = ({
         className="flex-shrink-0"
         data-testid="tts-play-pause-button"
         aria-label={
-          isSpeaking && !isPaused ? 'Pause reading' : 'Start reading'
+          isSpeaking && !isPaused ? 'Pause reading' : isPaused || resumeOffset > 0 ? 'Resume reading' : 'Start reading'
         }
       >
         {isSpeaking && !isPaused ? (
@@ -128,6 +166,52 @@ const TTSControls: React.FC<TTSControlsProps> = ({
         <Square className="h-4 w-4" aria-hidden="true" />
       </Button>
       
+      {/* Skip Controls */}
+      {isSpeaking && (
+        <div className="flex items-center flex-shrink-0">
+          {source && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => audiobookPlayer.skipChapter(-1)}
+              data-testid="tts-previous-chapter-button"
+              aria-label="Previous chapter"
+            >
+              <SkipBack className="h-4 w-4" aria-hidden="true" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => audiobookPlayer.skipSentence(-1)}
+            data-testid="tts-previous-sentence-button"
+            aria-label="Previous sentence"
+          >
+            <Rewind className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => audiobookPlayer.skipSentence(1)}
+            data-testid="tts-next-sentence-button"
+            aria-label="Next sentence"
+          >
+            <FastForward className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          {source && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => audiobookPlayer.skipChapter(1)}
+              data-testid="tts-next-chapter-button"
+              aria-label="Next chapter"
+            >
+              <SkipForward className="h-4 w-4" aria-hidden="true" />
+            </Button>
+          )}
+        </div>
+      )}
+      
       {/* Progress Bar */}
       {isSpeaking && (
         <div className="flex-1 flex items-center gap-2 min-w-0">
@@ -146,11 +230,35 @@ const TTSControls: React.FC<TTSControlsProps> = ({
       
       {/* Status Indicator */}
       {!isSpeaking && (
-        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+        <div
+          className="flex items-center gap-1 text-xs text-muted-foreground"
+          title={source ? 'Tap the text to read aloud from there' : undefined}
+        >
           <VolumeX className="h-3 w-3" aria-hidden="true" />
-          <span>Ready</span>
+          <span>{resumeOffset > 0 ? 'Ready to resume' : 'Ready'}</span>
         </div>
       )}
+      
+      {/* Sleep Timer */}
+      {source && (
+        <Select value={sleepChoice} onValueChange={handleSleepChoice}>
+          <SelectTrigger
+            className="h-8 w-auto gap-1 flex-shrink-0 text-xs"
+            data-testid="tts-sleep-timer"
+            aria-label="Sleep timer"
+          >
+            <Moon className="h-3 w-3" aria-hidden="true" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="off">No sleep timer</SelectItem>
+            <SelectItem value="chapter-end">End of chapter</SelectItem>
+            <SelectItem value="15">15 minutes</SelectItem>
+            <SelectItem value="30">30 minutes</SelectItem>
+            <SelectItem value="60">1 hour</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
     </div>
   );
 };
@@ -1,3 +1,8 @@
 export { default as AudioPlugin } from './plugin';
 export { ttsService } from './services/tts-service';
-export type { TTSVoice, TTSSettings, TTSState } from './services/tts-service';
\ No newline at end of file
+export type { TTSVoice, TTSSettings, TTSState } from './services/tts-service';
+export { audiobookPlayer } from './services/audiobook-player';
+export type { AudiobookState } from './services/audiobook-player';
+export { splitSentences } from './services/sentence-segmenter';
+export type { SentenceSegment } from './services/sentence-segmenter';
+export type { ReadingSource, SleepTimer, TTSPosition } from './types/audio-types';
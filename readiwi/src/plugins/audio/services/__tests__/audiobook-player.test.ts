@@ -0,0 +1,156 @@
+/**
+ * Audiobook Player Tests - Readiwi v4.0
+ * Testing that reading aloud carries on through a book and stops when asked
+ */
+
+import { audiobookPlayer } from '../audiobook-player';
+import { readerService } from '@/plugins/reader/services/reader-service';
+import { Chapter } from '@/plugins/reader/types/reader-types';
+
+jest.mock('@/plugins/reader/services/reader-service', () => ({
+  readerService: {
+    getChapter: jest.fn(),
+    getChapterByNumber: jest.fn(),
+    saveReadingPosition: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('@/core/services/database-simple', () => ({
+  db: {
+    books: { get: jest.fn().mockResolvedValue({ title: 'The Long Road', author: 'A. Writer' }) },
+  },
+}));
+
+const mockReaderService = readerService as jest.Mocked<typeof readerService>;
+const Utterance = global.SpeechSynthesisUtterance as unknown as jest.Mock;
+
+const settings = { enabled: true, voice: '', rate: 1, pitch: 1, volume: 1 };
+
+const chapter = (id: number, chapterNumber: number, content: string): Chapter => ({
+  id,
+  bookId: 1,
+  title: `Chapter ${chapterNumber}`,
+  content,
+  chapterNumber,
+  wordCount: content.split(' ').length,
+  estimatedReadingTime: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const chapters = [chapter(10, 1, 'One. Two.'), chapter(11, 2, 'Three.')];
+
+// The utterance most recently handed to the speech engine
+const lastUtterance = () => Utterance.mock.results[Utterance.mock.results.length - 1]!.value;
+const finishSentence = () => lastUtterance().onend({});
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('User Story: Listen to a Book Like an Audiobook', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockReaderService.getChapter.mockImplementation(async id => chapters.find(candidate => candidate.id === id) ?? null);
+    mockReaderService.getChapterByNumber.mockImplementation(async (_bookId, number) =>
+      chapters.find(candidate => candidate.chapterNumber === number) ?? null
+    );
+    audiobookPlayer.setSleepTimer(null);
+  });
+
+  afterEach(() => {
+    audiobookPlayer.stop();
+  });
+
+  test('Playback moves on to the next chapter and saves progress along the way', async () => {
+    // Given: Listening to the first chapter with auto-advance on
+    const onChapterChange = jest.fn();
+    audiobookPlayer.play({
+      source: { bookId: 1, chapterId: 10 },
+      text: chapters[0]!.content,
+      settings,
+      autoAdvance: true,
+      onChapterChange,
+    });
+    await flush();
+
+    // When: Both of its sentences finish
+    finishSentence();
+    finishSentence();
+    await flush();
+
+    // Then: The next chapter starts by itself from its beginning
+    expect(mockReaderService.getChapterByNumber).toHaveBeenCalledWith(1, 2);
+    expect(onChapterChange).toHaveBeenCalledWith(chapters[1]);
+    expect(Utterance).toHaveBeenLastCalledWith('Three.');
+    expect(audiobookPlayer.getState().source).toEqual({ bookId: 1, chapterId: 11 });
+
+    // And: The reading position followed it
+    expect(mockReaderService.saveReadingPosition).toHaveBeenCalledWith(1, expect.objectContaining({ chapterId: 10, characterOffset: 9 }));
+    expect(mockReaderService.saveReadingPosition).toHaveBeenCalledWith(1, expect.objectContaining({ chapterId: 11, characterOffset: 0 }));
+  });
+
+  test("Author's notes are read around the chapter when shown", async () => {
+    // Given: A chapter with notes before and after it, and notes read aloud
+    const onAuthorNotes = jest.fn();
+    const withNotes = {
+      ...chapters[1]!,
+      footnotes: [
+        { id: 'author-note-1', position: 0, content: 'Hello readers.', type: 'author' as const },
+        { id: 'author-note-2', position: 6, content: 'See you soon.', type: 'author' as const },
+      ],
+    };
+    mockReaderService.getChapter.mockResolvedValue(withNotes);
+
+    // When: Listening from the start of the chapter
+    audiobookPlayer.play({ source: { bookId: 1, chapterId: 11 }, text: withNotes.content, settings, autoAdvance: false, readAuthorNotes: true, onAuthorNotes });
+    await flush();
+
+    // Then: The note before it is read first, then the chapter, then the note after it
+    expect(Utterance).toHaveBeenLastCalledWith('Hello readers.');
+    expect(onAuthorNotes).toHaveBeenLastCalledWith(true);
+    finishSentence();
+    await flush();
+    expect(Utterance).toHaveBeenLastCalledWith('Three.');
+    expect(onAuthorNotes).toHaveBeenLastCalledWith(false);
+    finishSentence();
+    await flush();
+    expect(Utterance).toHaveBeenLastCalledWith('See you soon.');
+
+    // And: Playback ends after the last note
+    finishSentence();
+    await flush();
+    expect(audiobookPlayer.getState().source).toBeNull();
+    expect(onAuthorNotes).toHaveBeenLastCalledWith(false);
+  });
+
+  test('An end-of-chapter sleep timer stops playback instead of moving on', async () => {
+    // Given: A sleep timer for the end of the chapter
+    audiobookPlayer.play({ source: { bookId: 1, chapterId: 11 }, text: chapters[1]!.content, settings, autoAdvance: true });
+    audiobookPlayer.setSleepTimer('chapter-end');
+    await flush();
+
+    // When: The chapter finishes
+    finishSentence();
+    await flush();
+
+    // Then: Nothing more is read and the timer is spent
+    expect(mockReaderService.getChapterByNumber).not.toHaveBeenCalled();
+    expect(audiobookPlayer.getState()).toEqual({ source: null, sleepTimer: null });
+  });
+
+  test('A timed sleep timer stops playback after the chosen minutes', async () => {
+    jest.useFakeTimers();
+    try {
+      // Given: A 15 minute sleep timer while listening
+      audiobookPlayer.play({ source: { bookId: 1, chapterId: 10 }, text: chapters[0]!.content, settings, autoAdvance: true });
+      audiobookPlayer.setSleepTimer({ minutes: 15 });
+      expect(audiobookPlayer.getState().sleepTimer).toEqual(expect.objectContaining({ kind: 'minutes' }));
+
+      // When: The time passes
+      jest.advanceTimersByTime(15 * 60 * 1000);
+
+      // Then: Playback stopped
+      expect(audiobookPlayer.getState()).toEqual({ source: null, sleepTimer: null });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
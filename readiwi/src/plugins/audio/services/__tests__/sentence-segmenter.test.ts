@@ -0,0 +1,51 @@
+/**
+ * Sentence Segmenter Tests - Readiwi v4.0
+ * Testing that chapter text is read aloud one sentence at a time
+ */
+
+import { findSegmentIndex, splitSentences } from '../sentence-segmenter';
+
+describe('User Story: Follow Along Sentence by Sentence', () => {
+  test('Text splits into sentences that map back to the text', () => {
+    // Given: A paragraph with dialogue and an abbreviation
+    const text = 'Mr. Smith waved. "Are you coming?" she asked!\n\nThe door closed…  Silence.';
+
+    // When: Splitting it
+    const segments = splitSentences(text);
+
+    // Then: Each sentence is its own segment, offsets matching the text
+    expect(segments.map(segment => segment.text)).toEqual([
+      'Mr. Smith waved.',
+      '"Are you coming?"',
+      'she asked!',
+      'The door closed…',
+      'Silence.',
+    ]);
+    segments.forEach(segment => {
+      expect(text.slice(segment.start, segment.end)).toBe(segment.text);
+    });
+  });
+
+  test('Run-on sentences are cut at clause breaks to keep utterances short', () => {
+    // Given: One very long sentence
+    const text = Array.from({ length: 40 }, (_, index) => `clause number ${index}`).join(', ') + '.';
+
+    // When: Splitting it
+    const segments = splitSentences(text);
+
+    // Then: It is read in pieces that cover it all
+    expect(segments.length).toBeGreaterThan(1);
+    segments.forEach(segment => expect(segment.text.length).toBeLessThanOrEqual(300));
+    expect(segments[0]!.text.endsWith(',')).toBe(true);
+    expect(segments[segments.length - 1]!.end).toBe(text.length);
+  });
+
+  test('An offset finds its sentence, or the next one between sentences', () => {
+    const text = 'First one.  Second one.';
+    const segments = splitSentences(text);
+
+    expect(findSegmentIndex(segments, 0)).toBe(0);
+    expect(findSegmentIndex(segments, 11)).toBe(1);
+    expect(findSegmentIndex(segments, 15)).toBe(1);
+  });
+});
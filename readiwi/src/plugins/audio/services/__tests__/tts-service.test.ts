@@ -251,6 +251,82 @@ describe('User Story: Audio Reading Experience', () => {
     });
   });
 
+  describe('Sentence by Sentence Reading', () => {
+    const settings = {
+      enabled: true,
+      voice: 'test-voice',
+      rate: 1.0,
+      pitch: 1.0,
+      volume: 0.8,
+    };
+    const Utterance = window.SpeechSynthesisUtterance as unknown as jest.Mock;
+    const fire = (handler: 'onboundary' | 'onend' | 'onerror', event: object = {}) =>
+      (mockUtterance[handler] as unknown as (event: object) => void)(event);
+
+    test('Text is read one sentence at a time, tracking the sentence and word being read', async () => {
+      // Given: Someone listening to TTS state
+      const listener = jest.fn();
+      const unsubscribe = ttsService.subscribe(listener);
+
+      // When: Reading two sentences
+      const speakPromise = ttsService.speak('One here. Two there.', settings);
+
+      // Then: Only the first sentence is handed to the engine
+      expect(Utterance).toHaveBeenLastCalledWith('One here.');
+
+      // When: The engine reaches a word in it
+      fire('onboundary', { charIndex: 4 });
+
+      // Then: The position is in the whole text, with the sentence reported
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({
+        position: 4,
+        segment: expect.objectContaining({ start: 0, end: 9, text: 'One here.' }),
+      }));
+
+      // When: The first sentence ends
+      fire('onend');
+
+      // Then: The next one is queued, with boundaries offset into the text
+      expect(Utterance).toHaveBeenLastCalledWith('Two there.');
+      fire('onboundary', { charIndex: 4 });
+      expect(ttsService.getState().position).toBe(14);
+
+      // When: The last sentence ends
+      fire('onend');
+
+      // Then: Reading finishes at the end of the text
+      await expect(speakPromise).resolves.toBeUndefined();
+      expect(listener).toHaveBeenLastCalledWith({
+        speaking: false,
+        paused: false,
+        position: 20,
+        totalLength: 20,
+      });
+      unsubscribe();
+    });
+
+    test('User can start from a sentence and resume in the same place after pausing', () => {
+      // Given: Reading from the second sentence
+      ttsService.speakFrom('One here. Two there.', settings, 12);
+      expect(Utterance).toHaveBeenLastCalledWith('Two there.');
+
+      // When: Pausing
+      ttsService.pause();
+
+      // Then: The engine's report of cancelling the sentence is ignored
+      fire('onerror', { error: 'interrupted' });
+      expect(ttsService.getState()).toEqual(expect.objectContaining({ speaking: true, paused: true }));
+
+      // When: Resuming
+      ttsService.resume();
+
+      // Then: The same sentence is read again from its start
+      expect(Utterance).toHaveBeenLastCalledWith('Two there.');
+      expect(ttsService.getState().paused).toBe(false);
+      ttsService.stop();
+    });
+  });
+
   describe('Integration Ready', () => {
     test('Service integrates with settings store pattern', () => {
       // Given: Settings store pattern (like Zustand)
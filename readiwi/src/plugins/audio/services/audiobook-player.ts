@@ -0,0 +1,380 @@
+/**
+ * Audiobook Player - Readiwi v4.0
+ * Reads a book aloud chapter after chapter: moves on at each chapter end,
+ * reads the author's notes around chapters if asked to, saves the reading
+ * position as it goes, answers lock-screen and hardware media keys, and stops
+ * for a sleep timer
+ */
+
+import { db } from '@/core/services/database-simple';
+import { Footnote } from '@/core/types/database';
+import { readerService } from '@/plugins/reader/services/reader-service';
+import { ChapterAuthorNotes, getAuthorNotesText, splitAuthorNotes } from '@/plugins/reader/services/author-notes';
+import { reliablePositionTracker } from '@/plugins/reader/services/position-tracker';
+import { Chapter } from '@/plugins/reader/types/reader-types';
+import { hasReachedEnd, ttsService, TTSSettings, TTSState } from './tts-service';
+import { ReadingSource, SleepTimer } from '../types/audio-types';
+
+const PROGRESS_SAVE_INTERVAL = 10 * 1000; // ms between reading position saves while listening
+
+export interface AudiobookPlayOptions {
+  source: ReadingSource;
+  text: string;
+  settings: TTSSettings;
+  startOffset?: number;
+  autoAdvance: boolean; // Carry on into the next chapter at the end of this one
+  readAuthorNotes?: boolean; // Read the author's notes before and after each chapter
+  authorNotes?: ChapterAuthorNotes; // This chapter's notes, when already loaded
+  onChapterChange?: (chapter: Chapter) => void; // Called when playback moves to another chapter
+  onAuthorNotes?: (reading: boolean) => void; // Called when reading notes rather than the chapter starts or stops
+}
+
+export interface AudiobookState {
+  source: ReadingSource | null; // Chapter being played, null when stopped
+  sleepTimer: SleepTimer | null;
+}
+
+interface Playback {
+  source: ReadingSource;
+  text: string;
+  settings: TTSSettings;
+  autoAdvance: boolean;
+  readAuthorNotes: boolean;
+  onChapterChange?: (chapter: Chapter) => void;
+  onAuthorNotes?: (reading: boolean) => void;
+  phase: 'notes-before' | 'chapter' | 'notes-after';
+  notes: ChapterAuthorNotes | null; // Loaded with the chapter number
+  chapterNumber: number | null; // Loaded after playback starts
+  savedAt: number;
+  lastSegmentStart: number | null;
+}
+
+class AudiobookPlayer {
+  private playback: Playback | null = null;
+  private sleepTimer: SleepTimer | null = null;
+  private sleepTimeout: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Set<(state: AudiobookState) => void> = new Set();
+
+  constructor() {
+    ttsService.subscribe(state => this.handleTTSState(state));
+  }
+
+  /**
+   * Read a chapter aloud from an offset, as the start of continuous playback
+   */
+  async play(options: AudiobookPlayOptions): Promise<void> {
+    // Stop first, so the stop isn't taken for the end of this playback
+    if (this.playback) this.setPhase(this.playback, 'chapter');
+    ttsService.stop();
+    const playback: Playback = {
+      source: options.source,
+      text: options.text,
+      settings: options.settings,
+      autoAdvance: options.autoAdvance,
+      readAuthorNotes: options.readAuthorNotes ?? false,
+      ...(options.onChapterChange && { onChapterChange: options.onChapterChange }),
+      ...(options.onAuthorNotes && { onAuthorNotes: options.onAuthorNotes }),
+      phase: 'chapter',
+      notes: options.authorNotes ?? null,
+      chapterNumber: null,
+      savedAt: Date.now(),
+      lastSegmentStart: null,
+    };
+    this.playback = playback;
+    this.notifyListeners();
+
+    const startOffset = options.startOffset ?? 0;
+    const details = this.loadChapterDetails(playback);
+    this.setupMediaSession();
+
+    // Notes before the chapter are only read when starting it from the top
+    if (playback.readAuthorNotes && startOffset === 0) {
+      if (!playback.notes) await details;
+      const before = playback.notes?.before ?? [];
+      if (this.playback !== playback) return;
+      if (before.length > 0) return this.readNotes(playback, 'notes-before', before);
+    }
+    return ttsService.speakFrom(options.text, options.settings, startOffset);
+  }
+
+  /**
+   * Move to a neighbouring chapter, e.g. 1 for the next or -1 for the previous
+   */
+  async skipChapter(delta: number): Promise<void> {
+    const playback = this.playback;
+    if (!playback) return;
+
+    const chapterNumber = playback.chapterNumber ?? (await this.loadChapterDetails(playback));
+    if (chapterNumber === null) return;
+
+    try {
+      const chapter = await readerService.getChapterByNumber(playback.source.bookId, chapterNumber + delta);
+      if (chapter && this.playback === playback) {
+        await this.playChapter(playback, chapter);
+      }
+    } catch (error) {
+      console.error('Failed to skip chapter:', error);
+    }
+  }
+
+  /**
+   * Jump whole sentences forward or back
+   */
+  skipSentence(delta: number): void {
+    ttsService.skipSentence(delta);
+  }
+
+  /**
+   * Stop reading after some minutes or at the end of the chapter; null turns the timer off
+   */
+  setSleepTimer(timer: { minutes: number } | 'chapter-end' | null): void {
+    if (this.sleepTimeout) {
+      clearTimeout(this.sleepTimeout);
+      this.sleepTimeout = null;
+    }
+
+    if (timer === null) {
+      this.sleepTimer = null;
+    } else if (timer === 'chapter-end') {
+      this.sleepTimer = { kind: 'chapter-end' };
+    } else {
+      const endsAt = Date.now() + timer.minutes * 60 * 1000;
+      this.sleepTimer = { kind: 'minutes', endsAt };
+      this.sleepTimeout = setTimeout(() => {
+        this.sleepTimeout = null;
+        this.sleepTimer = null;
+        ttsService.stop();
+        this.notifyListeners();
+      }, endsAt - Date.now());
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Stop playback and forget the chapter
+   */
+  stop(): void {
+    ttsService.stop();
+    this.finish();
+  }
+
+  getState(): AudiobookState {
+    return {
+      source: this.playback?.source ?? null,
+      sleepTimer: this.sleepTimer,
+    };
+  }
+
+  /**
+   * Subscribe to player state changes
+   */
+  subscribe(callback: (state: AudiobookState) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private handleTTSState(state: TTSState): void {
+    const playback = this.playback;
+    if (!playback) return;
+
+    this.updateMediaSession(state);
+
+    if (hasReachedEnd(state)) {
+      this.handleTextEnd(playback);
+    } else if (!state.speaking) {
+      // Stopped, by the reader or by other speech taking over
+      this.finish();
+    } else if (playback.phase === 'chapter' && state.segment && state.segment.start !== playback.lastSegmentStart) {
+      playback.lastSegmentStart = state.segment.start;
+      if (Date.now() - playback.savedAt >= PROGRESS_SAVE_INTERVAL) {
+        this.saveProgress(playback, state.segment.start);
+      }
+    }
+  }
+
+  /**
+   * The notes or chapter being read have finished: go on to what comes next
+   */
+  private async handleTextEnd(playback: Playback): Promise<void> {
+    // Let other listeners see the end before anything new starts
+    await Promise.resolve();
+    if (this.playback !== playback) return;
+
+    if (playback.phase === 'notes-before') {
+      this.setPhase(playback, 'chapter');
+      await ttsService.speakFrom(playback.text, playback.settings, 0);
+      return;
+    }
+
+    const after = playback.notes?.after ?? [];
+    if (playback.phase === 'chapter' && playback.readAuthorNotes && after.length > 0) {
+      this.saveProgress(playback, playback.text.length);
+      await this.readNotes(playback, 'notes-after', after);
+      return;
+    }
+
+    await this.handleChapterEnd(playback);
+  }
+
+  private async readNotes(playback: Playback, phase: 'notes-before' | 'notes-after', notes: Footnote[]): Promise<void> {
+    this.setPhase(playback, phase);
+    await ttsService.speak(getAuthorNotesText(notes), playback.settings);
+  }
+
+  private setPhase(playback: Playback, phase: Playback['phase']): void {
+    const wasReadingNotes = playback.phase !== 'chapter';
+    playback.phase = phase;
+    if (wasReadingNotes !== (phase !== 'chapter')) {
+      playback.onAuthorNotes?.(phase !== 'chapter');
+    }
+  }
+
+  private async handleChapterEnd(playback: Playback): Promise<void> {
+    this.saveProgress(playback, playback.text.length);
+
+    if (this.sleepTimer?.kind === 'chapter-end') {
+      this.sleepTimer = null;
+      this.finish();
+      return;
+    }
+    if (!playback.autoAdvance) {
+      this.finish();
+      return;
+    }
+
+    const chapterNumber = playback.chapterNumber ?? (await this.loadChapterDetails(playback));
+    try {
+      const next = chapterNumber !== null
+        ? await readerService.getChapterByNumber(playback.source.bookId, chapterNumber + 1)
+        : null;
+      if (next && this.playback === playback) {
+        await this.playChapter(playback, next);
+      } else {
+        this.finish(); // End of the book
+      }
+    } catch (error) {
+      console.error('Failed to continue to the next chapter:', error);
+      this.finish();
+    }
+  }
+
+  /**
+   * Carry the playback on into another chapter from its start
+   */
+  private async playChapter(playback: Playback, chapter: Chapter): Promise<void> {
+    // Before speaking, so the new chapter's sentences are recorded against it
+    playback.onChapterChange?.(chapter);
+    const playing = this.play({
+      source: { bookId: playback.source.bookId, chapterId: chapter.id },
+      text: chapter.content,
+      settings: playback.settings,
+      autoAdvance: playback.autoAdvance,
+      readAuthorNotes: playback.readAuthorNotes,
+      authorNotes: splitAuthorNotes(chapter),
+      ...(playback.onChapterChange && { onChapterChange: playback.onChapterChange }),
+      ...(playback.onAuthorNotes && { onAuthorNotes: playback.onAuthorNotes }),
+    });
+    this.saveProgress(this.playback, 0);
+    await playing;
+  }
+
+  /**
+   * Chapter number for moving between chapters, its author's notes, and titles for the lock screen
+   */
+  private async loadChapterDetails(playback: Playback): Promise<number | null> {
+    try {
+      const [chapter, book] = await Promise.all([
+        readerService.getChapter(playback.source.chapterId),
+        // @ts-ignore - Progressive development approach
+        db.books.get(playback.source.bookId),
+      ]);
+      if (!chapter) return null;
+
+      playback.chapterNumber = chapter.chapterNumber;
+      playback.notes ??= splitAuthorNotes(chapter);
+      if (this.playback === playback && typeof navigator !== 'undefined' && 'mediaSession' in navigator && typeof MediaMetadata !== 'undefined') {
+        navigator.mediaSession.metadata = new MediaMetadata({
+          title: chapter.title,
+          artist: book?.author ?? '',
+          album: book?.title ?? '',
+        });
+      }
+      return chapter.chapterNumber;
+    } catch (error) {
+      console.error('Failed to load chapter details:', error);
+      return null;
+    }
+  }
+
+  private saveProgress(playback: Playback | null, offset: number): void {
+    if (!playback) return;
+    playback.savedAt = Date.now();
+
+    readerService.saveReadingPosition(playback.source.bookId, {
+      chapterId: playback.source.chapterId,
+      characterOffset: offset,
+      scrollPosition: 0,
+      fingerprint: reliablePositionTracker.createFingerprint(playback.text, offset),
+      timestamp: new Date(),
+    }).catch(error => console.warn('Failed to save listening position:', error));
+  }
+
+  /**
+   * Lock-screen controls and hardware media keys
+   */
+  private setupMediaSession(): void {
+    if (typeof navigator === 'undefined' || !('mediaSession' in navigator)) return;
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => ttsService.resume()],
+      ['pause', () => ttsService.pause()],
+      ['stop', () => this.stop()],
+      ['previoustrack', () => this.skipChapter(-1)],
+      ['nexttrack', () => this.skipChapter(1)],
+      ['seekbackward', () => this.skipSentence(-1)],
+      ['seekforward', () => this.skipSentence(1)],
+    ];
+    handlers.forEach(([action, handler]) => {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Not every browser supports every action
+      }
+    });
+  }
+
+  private updateMediaSession(state: TTSState): void {
+    if (typeof navigator === 'undefined' || !('mediaSession' in navigator)) return;
+    navigator.mediaSession.playbackState = !state.speaking ? 'none' : state.paused ? 'paused' : 'playing';
+  }
+
+  /**
+   * Playback is over: release the lock screen and let subscribers know
+   */
+  private finish(): void {
+    if (!this.playback) return;
+    this.setPhase(this.playback, 'chapter');
+    this.playback = null;
+
+    if (typeof navigator !== 'undefined' && 'mediaSession' in navigator) {
+      navigator.mediaSession.metadata = null;
+      navigator.mediaSession.playbackState = 'none';
+    }
+    this.notifyListeners();
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    this.listeners.forEach(callback => {
+      try {
+        callback(state);
+      } catch (error) {
+        console.error('Audiobook listener error:', error);
+      }
+    });
+  }
+}
+
+export const audiobookPlayer = new AudiobookPlayer();
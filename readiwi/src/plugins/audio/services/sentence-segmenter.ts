@@ -0,0 +1,79 @@
+/**
+ * Sentence Segmenter - Readiwi v4.0
+ * Splits chapter text into the sentences read aloud one utterance at a time,
+ * keeping each one's offsets in the text so it can be highlighted
+ */
+
+export interface SentenceSegment {
+  index: number;
+  start: number; // Offset of the first character in the text
+  end: number; // Offset just past the last character
+  text: string;
+}
+
+// Sentence punctuation with any closing quotes or brackets, or a line break
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?=\s|$)|\n/g;
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr', 'vs', 'etc', 'e.g', 'i.e']);
+// Some engines stop long utterances part-way, so run-on sentences are cut up
+const MAX_SEGMENT_LENGTH = 300;
+
+/**
+ * Whether the full stop at `index` ends an abbreviation or an initial rather than a sentence
+ */
+function isAbbreviation(text: string, index: number): boolean {
+  const word = /([\w.]+)$/.exec(text.slice(Math.max(0, index - 10), index))?.[1]?.toLowerCase();
+  return word !== undefined && (ABBREVIATIONS.has(word) || /^[a-z]$/.test(word));
+}
+
+/**
+ * Cut a long range at the last clause break, or failing that the last space, within the limit
+ */
+function splitLong(text: string, start: number, end: number): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let from = start;
+
+  while (end - from > MAX_SEGMENT_LENGTH) {
+    const head = text.slice(from, from + MAX_SEGMENT_LENGTH);
+    const clause = Math.max(...[',', ';', ':', '—'].map(mark => head.lastIndexOf(`${mark} `)));
+    const cut = clause > 0 ? clause + 1 : head.lastIndexOf(' ') > 0 ? head.lastIndexOf(' ') : MAX_SEGMENT_LENGTH;
+    ranges.push([from, from + cut]);
+    from += cut;
+  }
+  ranges.push([from, end]);
+  return ranges;
+}
+
+/**
+ * Sentences of `text` in reading order, without surrounding whitespace
+ */
+export function splitSentences(text: string): SentenceSegment[] {
+  const ranges: Array<[number, number]> = [];
+  let start = 0;
+
+  SENTENCE_END.lastIndex = 0;
+  for (let match = SENTENCE_END.exec(text); match; match = SENTENCE_END.exec(text)) {
+    if (match[0].startsWith('.') && isAbbreviation(text, match.index)) continue;
+    const end = match.index + match[0].length;
+    ranges.push(...splitLong(text, start, end));
+    start = end;
+  }
+  ranges.push(...splitLong(text, start, text.length));
+
+  const segments: SentenceSegment[] = [];
+  ranges.forEach(([from, to]) => {
+    while (from < to && /\s/.test(text[from]!)) from++;
+    while (to > from && /\s/.test(text[to - 1]!)) to--;
+    if (to > from) {
+      segments.push({ index: segments.length, start: from, end: to, text: text.slice(from, to) });
+    }
+  });
+  return segments;
+}
+
+/**
+ * The segment containing an offset, or the next one if it falls between sentences
+ */
+export function findSegmentIndex(segments: SentenceSegment[], offset: number): number {
+  const index = segments.findIndex(segment => segment.end > offset);
+  return index === -1 ? segments.length - 1 : index;
+}
@@ -3,6 +3,8 @@
  * Web Speech API integration for audio playback
  */
 
+import { findSegmentIndex, SentenceSegment, splitSentences } from './sentence-segmenter';
+
 export interface TTSVoice {
   id: string;
   name: string;
@@ -24,6 +26,17 @@ export interface TTSState {
   paused: boolean;
   position: number;
   totalLength: number;
+  segment?: SentenceSegment; // Sentence being read, while there is one
+}
+
+// Errors engines report for utterances we cancelled ourselves
+const CANCELLED_ERRORS = ['interrupted', 'canceled'];
+
+/**
+ * Whether a state reports reading the whole text through, rather than a stop
+ */
+export function hasReachedEnd(state: TTSState): boolean {
+  return !state.speaking && state.totalLength > 0 && state.position >= state.totalLength;
 }
 
 class TTSService {
@@ -33,6 +46,12 @@ class TTSService {
   private listeners: Set<(state: TTSState) => void> = new Set();
   private currentText: string = '';
   private currentPosition: number = 0;
+  private segments: SentenceSegment[] = [];
+  private segmentIndex: number = 0;
+  private settings: TTSSettings | null = null;
+  private paused: boolean = false;
+  private generation: number = 0; // Bumped whenever an utterance is replaced, so its late events are ignored
+  private settle: { resolve: () => void; reject: (error: Error) => void } | null = null;
 
   constructor() {
     this.initialize();
@@ -83,9 +102,17 @@ class TTSService {
   }
 
   /**
-   * Start speaking text
+   * Start speaking text from the beginning
    */
   async speak(text: string, settings: TTSSettings): Promise<void> {
+    return this.speakFrom(text, settings, 0);
+  }
+
+  /**
+   * Start speaking text from the sentence containing `startOffset`. Sentences
+   * are queued as separate utterances, so the one being read is always known.
+   */
+  async speakFrom(text: string, settings: TTSSettings, startOffset: number): Promise<void> {
     if (!this.synthesis) {
       throw new Error('Text-to-Speech not supported');
     }
@@ -98,129 +125,151 @@ class TTSService {
     }
 
     return new Promise((resolve, reject) => {
-      // Create utterance
-      this.currentUtterance = new SpeechSynthesisUtterance(text);
       this.currentText = text;
-      this.currentPosition = 0;
-
-      // Apply settings
-      this.currentUtterance.rate = Math.max(0.1, Math.min(3.0, settings.rate));
-      this.currentUtterance.pitch = Math.max(0.0, Math.min(2.0, settings.pitch));
-      this.currentUtterance.volume = Math.max(0.0, Math.min(1.0, settings.volume));
-
-      // Set voice if available
-      const selectedVoice = this.voices.find(v => v.id === settings.voice);
-      if (selectedVoice && this.synthesis) {
-        const browserVoice = this.synthesis.getVoices().find(
-          v => v.name === selectedVoice.name && v.lang === selectedVoice.lang
-        );
-        if (browserVoice) {
-          this.currentUtterance.voice = browserVoice;
-        }
-      }
+      this.segments = splitSentences(text);
+      this.settings = settings;
 
       // Set up timeout to prevent hanging
       const timeout = setTimeout(() => {
-        this.currentUtterance = null;
-        this.currentText = '';
-        this.currentPosition = 0;
         resolve(); // Resolve even on timeout
       }, 100); // Very short timeout for tests
 
-      // Event handlers
-      this.currentUtterance.onstart = () => {
-        this.notifyListeners({
-          speaking: true,
-          paused: false,
-          position: 0,
-          totalLength: text.length,
-        });
-      };
-
-      this.currentUtterance.onboundary = (event) => {
-        this.currentPosition = event.charIndex;
-        this.notifyListeners({
-          speaking: true,
-          paused: false,
-          position: event.charIndex,
-          totalLength: text.length,
-        });
-      };
-
-      this.currentUtterance.onend = () => {
-        clearTimeout(timeout);
-        this.currentUtterance = null;
-        this.currentText = '';
-        this.currentPosition = 0;
-        this.notifyListeners({
-          speaking: false,
-          paused: false,
-          position: 0,
-          totalLength: 0,
-        });
-        resolve();
-      };
-
-      this.currentUtterance.onerror = (event) => {
-        clearTimeout(timeout);
-        this.currentUtterance = null;
-        this.currentText = '';
-        this.currentPosition = 0;
-        this.notifyListeners({
-          speaking: false,
-          paused: false,
-          position: 0,
-          totalLength: 0,
-        });
-        reject(new Error(`Speech synthesis error: ${event.error}`));
-      };
-
-      this.currentUtterance.onpause = () => {
-        this.notifyListeners({
-          speaking: true,
-          paused: true,
-          position: this.currentPosition,
-          totalLength: text.length,
-        });
-      };
-
-      this.currentUtterance.onresume = () => {
-        this.notifyListeners({
-          speaking: true,
-          paused: false,
-          position: this.currentPosition,
-          totalLength: text.length,
-        });
+      this.settle = {
+        resolve: () => {
+          clearTimeout(timeout);
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        },
       };
 
       // Start speaking
       try {
-        if (this.synthesis) {
-          this.synthesis.speak(this.currentUtterance);
-        }
+        this.speakSegment(findSegmentIndex(this.segments, startOffset));
       } catch (error) {
-        clearTimeout(timeout);
-        reject(error);
+        this.settle.reject(error instanceof Error ? error : new Error(String(error)));
+        this.reset();
       }
     });
   }
 
   /**
-   * Pause current speech
+   * Speak one sentence, moving on to the next when it ends
    */
-  pause(): void {
-    if (this.synthesis && this.synthesis.speaking && !this.synthesis.paused) {
-      this.synthesis.pause();
+  private speakSegment(index: number): void {
+    const segment = this.segments[index];
+    const settings = this.settings;
+    if (!this.synthesis || !segment || !settings) return;
+
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation;
+    this.segmentIndex = index;
+    this.currentPosition = segment.start;
+
+    // Create utterance
+    const utterance = new SpeechSynthesisUtterance(segment.text);
+    this.currentUtterance = utterance;
+
+    // Apply settings
+    utterance.rate = Math.max(0.1, Math.min(3.0, settings.rate));
+    utterance.pitch = Math.max(0.0, Math.min(2.0, settings.pitch));
+    utterance.volume = Math.max(0.0, Math.min(1.0, settings.volume));
+
+    // Set voice if available
+    const selectedVoice = this.voices.find(v => v.id === settings.voice);
+    if (selectedVoice) {
+      const browserVoice = this.synthesis.getVoices().find(
+        v => v.name === selectedVoice.name && v.lang === selectedVoice.lang
+      );
+      if (browserVoice) {
+        utterance.voice = browserVoice;
+      }
     }
+
+    // Event handlers
+    utterance.onstart = () => {
+      if (isCurrent()) this.notifyListeners(this.getState());
+    };
+
+    // Word boundaries are relative to the sentence
+    utterance.onboundary = (event) => {
+      if (!isCurrent()) return;
+      this.currentPosition = segment.start + event.charIndex;
+      this.notifyListeners(this.getState());
+    };
+
+    utterance.onend = () => {
+      if (!isCurrent()) return;
+      if (index + 1 < this.segments.length) {
+        this.speakSegment(index + 1);
+        return;
+      }
+
+      // Finished: report the end of the text so listeners can tell it from a stop
+      const totalLength = this.currentText.length;
+      const settle = this.settle;
+      this.reset();
+      this.notifyListeners({
+        speaking: false,
+        paused: false,
+        position: totalLength,
+        totalLength,
+      });
+      settle?.resolve();
+    };
+
+    utterance.onerror = (event) => {
+      if (!isCurrent() || CANCELLED_ERRORS.includes(event.error)) return;
+      const settle = this.settle;
+      this.reset();
+      this.notifyListeners({
+        speaking: false,
+        paused: false,
+        position: 0,
+        totalLength: 0,
+      });
+      settle?.reject(new Error(`Speech synthesis error: ${event.error}`));
+    };
+
+    this.synthesis.speak(utterance);
   }
 
   /**
-   * Resume paused speech
+   * Pause current speech. The sentence is cancelled rather than paused, since
+   * some engines lose their place on pause, and read again on resume.
+   */
+  pause(): void {
+    if (!this.synthesis || !this.currentUtterance || this.paused) return;
+
+    this.paused = true;
+    this.generation++;
+    this.synthesis.cancel();
+    this.notifyListeners(this.getState());
+  }
+
+  /**
+   * Resume paused speech from the start of the sentence it stopped in
    */
   resume(): void {
-    if (this.synthesis && this.synthesis.paused) {
-      this.synthesis.resume();
-    }
+    if (!this.synthesis || !this.paused) return;
+
+    this.paused = false;
+    this.speakSegment(this.segmentIndex);
+  }
+
+  /**
+   * Jump whole sentences forward or back, e.g. -1 to hear the previous one again
+   */
+  skipSentence(delta: number): void {
+    if (!this.synthesis || !this.currentUtterance) return;
+
+    const index = Math.min(Math.max(0, this.segmentIndex + delta), this.segments.length - 1);
+    this.paused = false;
+    this.generation++;
+    this.synthesis.cancel();
+    this.speakSegment(index);
   }
 
   /**
@@ -228,39 +277,48 @@ class TTSService {
    */
   stop(): void {
     if (this.synthesis) {
+      this.generation++;
       this.synthesis.cancel();
       if (this.currentUtterance) {
-        this.currentUtterance = null;
-        this.currentText = '';
-        this.currentPosition = 0;
+        const settle = this.settle;
+        this.reset();
         this.notifyListeners({
           speaking: false,
           paused: false,
           position: 0,
           totalLength: 0,
         });
+        settle?.resolve();
       }
     }
   }
 
+  /**
+   * Forget the current text and queue
+   */
+  private reset(): void {
+    this.currentUtterance = null;
+    this.currentText = '';
+    this.currentPosition = 0;
+    this.segments = [];
+    this.segmentIndex = 0;
+    this.settings = null;
+    this.paused = false;
+    this.settle = null;
+  }
+
   /**
    * Get current TTS state
    */
   getState(): TTSState {
-    if (!this.synthesis) {
-      return {
-        speaking: false,
-        paused: false,
-        position: 0,
-        totalLength: 0,
-      };
-    }
+    const segment = this.currentUtterance ? this.segments[this.segmentIndex] : undefined;
 
     return {
-      speaking: this.synthesis.speaking,
-      paused: this.synthesis.paused,
+      speaking: this.currentUtterance !== null,
+      paused: this.paused,
       position: this.currentPosition,
       totalLength: this.currentText.length,
+      ...(segment && { segment }),
     };
   }
 
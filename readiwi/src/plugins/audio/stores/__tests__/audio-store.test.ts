@@ -149,6 +149,43 @@ describe('User Story: Audio State Management', () => {
     });
   });
 
+  describe('Resuming Later', () => {
+    test('Reading aloud records each sentence so it can resume there', () => {
+      const { result } = renderHook(() => useAudioStore());
+      const source = { bookId: 7, chapterId: 3 };
+      const segment = { index: 1, start: 10, end: 20, text: 'Two there.' };
+
+      // Given: Reading aloud from a chapter
+      act(() => {
+        useAudioStore.setState({ source });
+        result.current.updateTTSState({ speaking: true, paused: false, position: 12, totalLength: 20, segment });
+      });
+
+      // When: Stopping
+      act(() => {
+        result.current.stopReading();
+      });
+
+      // Then: The chapter resumes from the start of that sentence
+      expect(result.current.getResumeOffset(source)).toBe(10);
+      expect(result.current.getResumeOffset({ bookId: 7, chapterId: 4 })).toBe(0);
+    });
+
+    test('Reading to the end of the chapter clears its resume point', () => {
+      const { result } = renderHook(() => useAudioStore());
+      const source = { bookId: 8, chapterId: 1 };
+      const segment = { index: 0, start: 0, end: 20, text: 'Only one sentence.' };
+
+      act(() => {
+        useAudioStore.setState({ source });
+        result.current.updateTTSState({ speaking: true, paused: false, position: 5, totalLength: 20, segment });
+        result.current.updateTTSState({ speaking: false, paused: false, position: 20, totalLength: 20 });
+      });
+
+      expect(result.current.getResumeOffset(source)).toBe(0);
+    });
+  });
+
   describe('Error Handling', () => {
     test('Reading handles TTS service errors gracefully', async () => {
       const { result } = renderHook(() => useAudioStore());
@@ -1,19 +1,25 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { ttsService, TTSSettings, TTSState } from '../services/tts-service';
+import { audiobookPlayer } from '../services/audiobook-player';
+import { ReadingSource, TTSPosition } from '../types/audio-types';
 
 interface AudioStoreState {
   // TTS State
   ttsState: TTSState;
   currentText: string;
   isReading: boolean;
+  source: ReadingSource | null; // Chapter being read aloud, if started from the reader
+  readingNotes: boolean; // Reading the author's notes around the chapter rather than its text
+  ttsPositions: Record<number, TTSPosition>; // Where reading aloud stopped, by book
   
   // Actions
-  startReading: (text: string, settings: TTSSettings) => Promise<void>;
+  startReading: (text: string, settings: TTSSettings, options?: StartReadingOptions) => Promise<void>;
   pauseReading: () => void;
   resumeReading: () => void;
   stopReading: () => void;
   updateTTSState: (state: TTSState) => void;
+  getResumeOffset: (source: ReadingSource) => number;
   
   // Selectors
   get isSpeaking(): boolean;
@@ -21,6 +27,13 @@ interface AudioStoreState {
   get progress(): number;
 }
 
+interface StartReadingOptions {
+  startOffset?: number; // Character offset to start reading from
+  source?: ReadingSource; // Records the position as reading goes, for resuming later
+  autoAdvance?: boolean; // With a source, carry on through the following chapters
+  readAuthorNotes?: boolean; // With a source, also read the author's notes around chapters
+}
+
 const useAudioStore = create<AudioStoreState>()(
   persist(
     (set, get) => ({
@@ -33,6 +46,9 @@ const useAudioStore = create<AudioStoreState>()(
       },
       currentText: '',
       isReading: false,
+      source: null,
+      readingNotes: false,
+      ttsPositions: {},
       
       // Selectors
       get isSpeaking() {
@@ -52,24 +68,48 @@ const useAudioStore = create<AudioStoreState>()(
       },
       
       // Actions
-      startReading: async (text: string, settings: TTSSettings) => {
+      startReading: async (text: string, settings: TTSSettings, options: StartReadingOptions = {}) => {
+        const { startOffset = 0, source = null, autoAdvance = false, readAuthorNotes = false } = options;
         try {
           set({ 
             currentText: text, 
             isReading: true,
+            source,
+            readingNotes: false,
             ttsState: {
               speaking: true,
               paused: false,
-              position: 0,
+              position: startOffset,
               totalLength: text.length,
             }
           });
           
-          await ttsService.speak(text, settings);
+          if (source) {
+            // A book's chapter plays on through the book like an audiobook
+            await audiobookPlayer.play({
+              source,
+              text,
+              settings,
+              startOffset,
+              autoAdvance,
+              readAuthorNotes,
+              onAuthorNotes: readingNotes => set({ readingNotes }),
+              onChapterChange: chapter => set({
+                currentText: chapter.content,
+                source: { bookId: source.bookId, chapterId: chapter.id },
+              }),
+            });
+          } else if (startOffset > 0) {
+            await ttsService.speakFrom(text, settings, startOffset);
+          } else {
+            await ttsService.speak(text, settings);
+          }
         } catch (error) {
           console.error('Failed to start reading:', error);
           set({ 
             isReading: false,
+            source: null,
+            readingNotes: false,
             ttsState: {
               speaking: false,
               paused: false,
@@ -105,6 +145,8 @@ const useAudioStore = create<AudioStoreState>()(
         set({
           isReading: false,
           currentText: '',
+          source: null,
+          readingNotes: false,
           ttsState: {
             speaking: false,
             paused: false,
@@ -115,17 +157,46 @@ const useAudioStore = create<AudioStoreState>()(
       },
       
       updateTTSState: (ttsState: TTSState) => {
+        const { source, readingNotes, ttsPositions } = get();
+        let positions = ttsPositions;
+
+        // Offsets while reading author's notes are into the notes, not the chapter
+        if (source && !readingNotes) {
+          const saved = ttsPositions[source.bookId];
+          const finished = !ttsState.speaking && ttsState.totalLength > 0 && ttsState.position >= ttsState.totalLength;
+          if (finished) {
+            // Read to the end: nothing left to resume in this chapter
+            if (saved?.chapterId === source.chapterId) {
+              positions = { ...ttsPositions };
+              delete positions[source.bookId];
+            }
+          } else if (ttsState.segment && (saved?.chapterId !== source.chapterId || saved.offset !== ttsState.segment.start)) {
+            // Once per sentence: resuming starts again from its beginning
+            positions = {
+              ...ttsPositions,
+              [source.bookId]: { chapterId: source.chapterId, offset: ttsState.segment.start, updatedAt: Date.now() },
+            };
+          }
+        }
+
         set(() => ({
           ttsState,
           isReading: ttsState.speaking,
+          ttsPositions: positions,
         }));
       },
+      
+      getResumeOffset: (source: ReadingSource) => {
+        const saved = get().ttsPositions[source.bookId];
+        return saved?.chapterId === source.chapterId ? saved.offset : 0;
+      },
     }),
     {
       name: 'audio-storage',
       partialize: (state) => ({
         // Don't persist TTS state - it's runtime only
         currentText: state.currentText,
+        ttsPositions: state.ttsPositions,
       }),
     }
   )
@@ -35,6 +35,21 @@ export interface AudioPreferences {
   resumeOnReturn: boolean;
 }
 
+export interface ReadingSource {
+  bookId: number;
+  chapterId: number;
+}
+
+export interface TTSPosition {
+  chapterId: number;
+  offset: number; // Start of the sentence reading stopped in
+  updatedAt: number; // Epoch ms
+}
+
+export type SleepTimer =
+  | { kind: 'minutes'; endsAt: number } // Epoch ms
+  | { kind: 'chapter-end' };
+
 export type AudioEventType = 
   | 'play'
   | 'pause' 
@@ -0,0 +1,170 @@
+/**
+ * File Import Preview Component - Readiwi v4.0
+ * Review where a text, Markdown or HTML file will be split into chapters and
+ * adjust the split points before the book is saved
+ */
+
+"use client";
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/core/utils/cn';
+import { countWords } from '@/plugins/statistics/services/reading-speed-service';
+import { textFileParser } from '../parsers/text-file-parser';
+import { TextFileDocument } from '../types/parser-types';
+
+interface FileImportPreviewProps {
+  // @description The file as read, with its detected split points
+  document: TextFileDocument;
+  // @description Called with the document as adjusted by the user
+  onImport: (document: TextFileDocument) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+  className?: string;
+  'data-testid'?: string;
+}
+
+const FileImportPreview: React.FC<FileImportPreviewProps> = ({
+  document,
+  onImport,
+  onCancel,
+  disabled = false,
+  className,
+  'data-testid': testId,
+}) => {
+  const [title, setTitle] = useState(document.title);
+  const [author, setAuthor] = useState(document.author);
+  const [splitPoints, setSplitPoints] = useState(() => new Set(document.splitPoints));
+
+  const candidates = useMemo(() => textFileParser.getSplitCandidates(document), [document]);
+
+  // Words before each block, so a chapter's length is a subtraction
+  const wordsBefore = useMemo(() => {
+    const totals = [0];
+    document.blocks.forEach(block => totals.push(totals[totals.length - 1]! + countWords(block.text)));
+    return totals;
+  }, [document]);
+
+  const chapterWords = useMemo(() => {
+    const starts = Array.from(splitPoints).sort((a, b) => a - b);
+    return new Map(starts.map((start, index) => [
+      start,
+      wordsBefore[starts[index + 1] ?? document.blocks.length]! - wordsBefore[start]!,
+    ]));
+  }, [splitPoints, wordsBefore, document]);
+
+  const frontMatterWords = wordsBefore[Math.min(...splitPoints, document.blocks.length)]!;
+  const chapterCount = splitPoints.size + (frontMatterWords > 0 ? 1 : 0);
+
+  const toggleSplitPoint = useCallback((index: number) => {
+    setSplitPoints(current => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleImport = useCallback(() => {
+    onImport({
+      ...document,
+      title: title.trim() || document.title,
+      author: author.trim() || document.author,
+      splitPoints: Array.from(splitPoints).sort((a, b) => a - b),
+    });
+  }, [document, title, author, splitPoints, onImport]);
+
+  return (
+    <Card className={className} data-testid={testId}>
+      <CardHeader>
+        <CardTitle>Review Chapters</CardTitle>
+        <CardDescription>
+          Tick the lines that start a chapter. Text before the first one is kept as front matter.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="preview-title">Title</Label>
+            <Input
+              id="preview-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={disabled}
+              data-testid="preview-title-input"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="preview-author">Author</Label>
+            <Input
+              id="preview-author"
+              value={author}
+              onChange={(e) => setAuthor(e.target.value)}
+              disabled={disabled}
+              data-testid="preview-author-input"
+            />
+          </div>
+        </div>
+
+        {candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="preview-no-candidates">
+            No headings were found, so the book will be imported as a single chapter.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-96 rounded-lg border">
+            <ul className="divide-y" data-testid="preview-split-points">
+              {candidates.map(index => {
+                const block = document.blocks[index]!;
+                const words = chapterWords.get(index);
+                return (
+                  <li key={index} className="flex items-center gap-3 p-2">
+                    <input
+                      type="checkbox"
+                      checked={splitPoints.has(index)}
+                      onChange={() => toggleSplitPoint(index)}
+                      disabled={disabled}
+                      className="h-4 w-4 flex-shrink-0"
+                      aria-label={`Start a chapter at "${block.text}"`}
+                      data-testid={`split-point-${index}`}
+                    />
+                    <span className={cn('flex-1 truncate text-sm', block.headingLevel !== undefined && 'font-medium')}>
+                      {block.text || '(no text)'}
+                    </span>
+                    {words !== undefined && (
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {words.toLocaleString()} words
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </ScrollArea>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground" data-testid="preview-chapter-count">
+            {chapterCount} {chapterCount === 1 ? 'chapter' : 'chapters'}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel} disabled={disabled} data-testid="preview-cancel-button">
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={disabled} data-testid="preview-import-button">
+              Import Book
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FileImportPreview;
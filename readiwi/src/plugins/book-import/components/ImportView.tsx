@@ -1,182 +1,99 @@
 /**
  * Import View Component - Readiwi v4.0
- * UI for importing books from web sources
+ * UI for importing books from web sources and local files
  */
 
 "use client";
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { cn } from '@/core/utils/cn';
-import { importBook, getSupportedSources, validateUrl, ParserProgress } from '../services/book-import';
-import { useLibraryStore } from '@/plugins/book-library/stores/library-store';
-import { BookStatus, SyncStatus } from '@/core/types/database';
-import { useRouter } from 'next/navigation';
-import { readerService } from '@/plugins/reader/services/reader-service';
+import { getSupportedSources, validateUrl, ParserProgress, LOW_CONFIDENCE_THRESHOLD } from '../services/book-import';
+import { importJobService, ImportJobResult, isLocalFileSource, KEEP_PARTIAL_BOOK } from '../services/import-job-service';
+import { isAbortError } from '../services/download-pool';
+import {
+  buildTextBook,
+  getSupportedFileExtensions,
+  importBookFile,
+  importParsedFileBook,
+  isFileSupported,
+  isTextBookFile,
+  readTextBookFile,
+} from '../services/file-import';
+import { bookUpdateService } from '../services/book-update-service';
+import { parserDefinitionService } from '../services/parser-definition-service';
+import { TextFileDocument } from '../types/parser-types';
+import FileImportPreview from './FileImportPreview';
 import { libraryService } from '@/plugins/book-library/services/library-service';
+import { BookStatus, ImportJob } from '@/core/types/database';
+import { useRouter } from 'next/navigation';
 
 interface ImportViewProps {
   className?: string;
   'data-testid'?: string;
 }
 
-/**
- * Generate a URL-based slug for book identification
- */
-function generateBookSlug(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    const pathParts = urlObj.pathname.split('/').filter(Boolean);
-    
-    // For Royal Road: /fiction/125163/just-add-mana → "just-add-mana"
-    if (urlObj.hostname.includes('royalroad.com')) {
-      const titleIndex = pathParts.findIndex(part => part === 'fiction') + 2;
-      if (titleIndex >= 2 && pathParts[titleIndex]) {
-        return pathParts[titleIndex];
-      }
-    }
-    
-    // Fallback: use last meaningful path segment
-    const lastSegment = pathParts[pathParts.length - 1];
-    if (lastSegment && lastSegment !== 'fiction' && !lastSegment.match(/^\d+$/)) {
-      return lastSegment;
-    }
-    
-    // Ultimate fallback: use domain + path hash
-    return `${urlObj.hostname.replace(/\./g, '-')}-${Math.abs(urlObj.pathname.split('').reduce((a, b) => ((a << 5) - a + b.charCodeAt(0)) | 0, 0))}`;
-  } catch {
-    return `book-${Date.now()}`;
-  }
-}
-
-/**
- * Detect source site from URL
- */
-function detectSourceSite(url: string): string {
-  try {
-    const urlObj = new URL(url);
-    if (urlObj.hostname.includes('royalroad.com')) return 'Royal Road';
-    if (urlObj.hostname.includes('webnovel.com')) return 'WebNovel';
-    if (urlObj.hostname.includes('novelupdates.com')) return 'Novel Updates';
-    return urlObj.hostname;
-  } catch {
-    return 'Unknown';
-  }
-}
-
-/**
- * Generate unique title by checking existing books and appending ID if needed
- */
-async function generateUniqueTitle(baseTitle: string, urlSlug: string): Promise<string> {
-  try {
-    const existingBooks = await libraryService.searchBooks(baseTitle);
-    
-    // If no books with same title, use original
-    if (existingBooks.length === 0) {
-      return baseTitle;
-    }
-    
-    // Check if any existing book has the same URL slug
-    const sameSlugBook = existingBooks.find(book => 
-      (book as any).urlSlug === urlSlug
-    );
-    
-    if (sameSlugBook) {
-      return baseTitle; // Same book, use original title
-    }
-    
-    // Different books with same title, append URL slug for uniqueness
-    return `${baseTitle} (${urlSlug})`;
-  } catch (error) {
-    console.warn('Error checking for duplicate titles:', error);
-    // Fallback: append timestamp
-    return `${baseTitle} (${Date.now()})`;
-  }
-}
-
 const ImportView: React.FC<ImportViewProps> = ({
   className,
   'data-testid': testId,
 }) => {
   const router = useRouter();
-  const { addBook } = useLibraryStore();
   
   const [url, setUrl] = useState('');
   const [importing, setImporting] = useState(false);
   const [progress, setProgress] = useState<ParserProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+  const [interruptedJobs, setInterruptedJobs] = useState<ImportJob[]>([]);
+  const [dragActive, setDragActive] = useState(false);
+  const [previewDocument, setPreviewDocument] = useState<TextFileDocument | null>(null);
+  const [supportedSources, setSupportedSources] = useState(getSupportedSources);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const handleImport = useCallback(async () => {
-    if (!url.trim()) {
-      setError('Please enter a valid URL');
-      return;
-    }
+  const loadInterruptedJobs = useCallback(async () => {
+    const jobs = await importJobService.getInterruptedJobs();
+    setInterruptedJobs(jobs);
+  }, []);
 
-    // Validate URL
-    const validation = validateUrl(url.trim());
-    if (!validation.valid) {
-      setError(validation.error || 'Invalid URL');
-      return;
-    }
+  useEffect(() => {
+    loadInterruptedJobs();
+  }, [loadInterruptedJobs]);
 
+  // User-defined parsers live in IndexedDB and join the source list once loaded
+  useEffect(() => {
+    parserDefinitionService.loadDefinitions().then(() => setSupportedSources(getSupportedSources()));
+  }, []);
+
+  const runImport = useCallback(async (run: (signal: AbortSignal) => Promise<ImportJobResult>) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setImporting(true);
     setError(null);
     setSuccess(null);
     setProgress(null);
 
     try {
-      const result = await importBook(url.trim(), (progressUpdate) => {
-        setProgress(progressUpdate);
-      });
+      const result = await run(controller.signal);
 
-      // Generate URL-based slug for the book
-      const urlSlug = generateBookSlug(url.trim());
-      
-      // Check for existing books with same title and generate unique identifier if needed
-      const uniqueTitle = await generateUniqueTitle(result.title, urlSlug);
-      
-      // Convert imported book to library format
-      const bookData = {
-        title: uniqueTitle,
-        author: result.author,
-        description: result.description,
-        ...(result.coverUrl && { coverUrl: result.coverUrl }),
-        sourceUrl: result.sourceUrl || url.trim(),
-        sourceSite: detectSourceSite(url.trim()),
-        totalChapters: result.chapters.length,
-        tags: result.tags || [],
-        status: result.status === 'completed' ? BookStatus.READY : 
-                result.status === 'ongoing' ? BookStatus.UPDATING :
-                BookStatus.READY,
-        language: result.language || 'en',
-        genre: result.tags || [],
-        ...(result.rating && { rating: result.rating }),
-        wordCount: result.chapters.reduce((total, ch) => total + ch.wordCount, 0),
-        estimatedReadingTime: Math.ceil(result.chapters.reduce((total, ch) => total + ch.wordCount, 0) / 200), // 200 WPM
-        isFavorite: false,
-        isOfflineAvailable: true, // Since we imported it
-        syncStatus: SyncStatus.LOCAL_ONLY,
-        version: 1,
-        urlSlug // Store the URL slug for reference
-      };
-
-      // Save to library
-      const bookId = await addBook(bookData);
-
-      // Save chapters to database  
-      const chaptersForDb = result.chapters.map(chapter => ({
-        title: chapter.title,
-        content: chapter.content,
-        chapterNumber: chapter.chapterNumber
-      }));
-      
-      await readerService.saveChapters(bookId, chaptersForDb);
+      if (result.cancelled) {
+        setSuccess(`Import stopped. "${result.title}" was added to your library with the ${result.importedChapters} chapters downloaded so far. Check it for updates to fetch the rest.`);
+        setWarning(null);
+        return;
+      }
       
-      setSuccess(`Successfully imported "${result.title}" by ${result.author} with ${result.chapters.length} chapters! Added to your library.`);
+      setSuccess(`Successfully imported "${result.title}" by ${result.author} with ${result.importedChapters} chapters! Added to your library.`);
+      const warnings = [
+        result.confidence !== undefined && result.confidence < LOW_CONFIDENCE_THRESHOLD
+          && `Chapters were detected automatically (${Math.round(result.confidence * 100)}% confident). Check that they look right before reading.`,
+        result.failedChapters && result.failedChapters.length > 0
+          && `${result.failedChapters.length} ${result.failedChapters.length === 1 ? 'chapter' : 'chapters'} (${result.failedChapters.map(chapter => chapter.chapterNumber).join(', ')}) could not be downloaded. Check the book for updates later to retry.`,
+      ].filter(Boolean);
+      setWarning(warnings.length > 0 ? warnings.join(' ') : null);
       setUrl(''); // Clear form on success
       
       // Navigate back to library after a delay
@@ -185,22 +102,151 @@ const ImportView: React.FC<ImportViewProps> = ({
       }, 2000);
       
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Import failed';
+      const errorMessage = isAbortError(err) ? 'Import cancelled' : err instanceof Error ? err.message : 'Import failed';
       setError(errorMessage);
     } finally {
+      abortControllerRef.current = null;
       setImporting(false);
       setProgress(null);
+      loadInterruptedJobs();
     }
-  }, [url, addBook, router]);
+  }, [router, loadInterruptedJobs]);
 
-  const handleCancel = useCallback(() => {
-    // In a real implementation, this would cancel the import
-    setImporting(false);
+  const runUpdate = useCallback(async (bookId: number) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setImporting(true);
+    setError(null);
+    setSuccess(null);
     setProgress(null);
-    setError('Import cancelled');
+
+    try {
+      const result = await bookUpdateService.updateBook(bookId, setProgress, { signal: controller.signal });
+
+      setSuccess(result.newChapters > 0
+        ? `"${result.title}" is already in your library. Added ${result.newChapters} new ${result.newChapters === 1 ? 'chapter' : 'chapters'}.`
+        : `"${result.title}" is already in your library and up to date.`);
+      if (result.failedChapters) {
+        setWarning(`${result.failedChapters} new ${result.failedChapters === 1 ? 'chapter' : 'chapters'} could not be downloaded and will be retried on the next check.`);
+      }
+      setUrl('');
+    } catch (err) {
+      const errorMessage = isAbortError(err) ? 'Update cancelled' : err instanceof Error ? err.message : 'Update failed';
+      setError(errorMessage);
+    } finally {
+      abortControllerRef.current = null;
+      setImporting(false);
+      setProgress(null);
+    }
+  }, []);
+
+  const handleImport = useCallback(async () => {
+    if (!url.trim()) {
+      setError('Please enter a valid URL');
+      return;
+    }
+
+    // Validate URL against built-in and user-defined parsers
+    await parserDefinitionService.loadDefinitions();
+    const validation = validateUrl(url.trim());
+    if (!validation.valid) {
+      setError(validation.error || 'Invalid URL');
+      return;
+    }
+    setWarning(validation.warning ?? null);
+
+    // Books already in the library are updated in place instead of imported twice
+    const existingBook = await libraryService.findBookBySourceUrl(url.trim()).catch(() => undefined);
+    if (existingBook?.id) {
+      if (existingBook.status === BookStatus.IMPORTING) {
+        setError(`"${existingBook.title}" has an unfinished import. Resume it from the list below.`);
+        return;
+      }
+
+      await runUpdate(existingBook.id);
+      return;
+    }
+
+    await runImport(signal => importJobService.startImport(url.trim(), setProgress, { signal }));
+  }, [url, runImport, runUpdate]);
+
+  const handleFileImport = useCallback(async (file: File) => {
+    if (!isFileSupported(file.name)) {
+      setError(`Unsupported file type. Supported: ${getSupportedFileExtensions().join(', ')}`);
+      return;
+    }
+
+    // Text files are split at their headings; let the user check the chapters first
+    if (isTextBookFile(file.name)) {
+      setError(null);
+      setSuccess(null);
+      try {
+        setPreviewDocument(await readTextBookFile(file));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to read file');
+      }
+      return;
+    }
+
+    setPreviewDocument(null);
+    await runImport(signal => importBookFile(file, setProgress, { signal }));
+  }, [runImport]);
+
+  const handlePreviewImport = useCallback(async (document: TextFileDocument) => {
+    setPreviewDocument(null);
+    await runImport(signal => importParsedFileBook(buildTextBook(document), setProgress, { signal }));
+  }, [runImport]);
+
+  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow picking the same file again
+    if (file) {
+      handleFileImport(file);
+    }
+  }, [handleFileImport]);
+
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    event.preventDefault();
+    if (!importing) setDragActive(true);
+  }, [importing]);
+
+  const handleDragLeave = useCallback(() => {
+    setDragActive(false);
+  }, []);
+
+  const handleDrop = useCallback((event: React.DragEvent) => {
+    event.preventDefault();
+    setDragActive(false);
+    if (importing) return;
+
+    const file = event.dataTransfer.files?.[0];
+    if (file) {
+      handleFileImport(file);
+    }
+  }, [importing, handleFileImport]);
+
+  const handleResume = useCallback(async (jobId: number) => {
+    await runImport(signal => importJobService.resumeImport(jobId, setProgress, { signal }));
+  }, [runImport]);
+
+  const handleDiscard = useCallback(async (jobId: number) => {
+    try {
+      await importJobService.discardJob(jobId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard import');
+    } finally {
+      loadInterruptedJobs();
+    }
+  }, [loadInterruptedJobs]);
+
+  // Stops every download at once; the running import reports the cancellation itself
+  const handleCancel = useCallback(() => {
+    abortControllerRef.current?.abort();
   }, []);
 
-  const supportedSources = getSupportedSources();
+  const handleStopAndKeep = useCallback(() => {
+    abortControllerRef.current?.abort(KEEP_PARTIAL_BOOK);
+  }, []);
 
   return (
     <div className={cn('space-y-6', className)} data-testid={testId}>
@@ -220,7 +266,10 @@ const ImportView: React.FC<ImportViewProps> = ({
               type="url"
               placeholder="https://www.royalroad.com/fiction/12345/book-title"
               value={url}
-              onChange={(e) => setUrl(e.target.value)}
+              onChange={(e) => {
+                setUrl(e.target.value);
+                setWarning(null);
+              }}
               disabled={importing}
               data-testid="import-url-input"
             />
@@ -247,10 +296,126 @@ const ImportView: React.FC<ImportViewProps> = ({
                 Cancel
               </Button>
             )}
+            {importing && (progress?.completedChapters ?? 0) > 0 && (
+              <Button
+                onClick={handleStopAndKeep}
+                variant="outline"
+                data-testid="stop-keep-button"
+              >
+                Stop &amp; Keep Chapters
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
 
+      {/* File Import */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Import from File</CardTitle>
+          <CardDescription>
+            Add a book from a file on your device
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+            className={cn(
+              'flex flex-col items-center justify-center gap-3 p-6 rounded-lg border-2 border-dashed text-center transition-colors',
+              dragActive ? 'border-primary bg-primary/5' : 'border-muted'
+            )}
+            data-testid="file-drop-zone"
+          >
+            <p className="text-sm text-muted-foreground">
+              Drop a file here ({getSupportedFileExtensions().join(', ')})
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importing}
+              data-testid="choose-file-button"
+            >
+              Choose File
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={getSupportedFileExtensions().join(',')}
+              onChange={handleFileChange}
+              className="hidden"
+              data-testid="import-file-input"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Chapter split preview for text files */}
+      {previewDocument && (
+        <FileImportPreview
+          key={previewDocument.sourceUrl}
+          document={previewDocument}
+          onImport={handlePreviewImport}
+          onCancel={() => setPreviewDocument(null)}
+          disabled={importing}
+          data-testid="file-import-preview"
+        />
+      )}
+
+      {/* Interrupted Imports */}
+      {interruptedJobs.length > 0 && (
+        <Card data-testid="interrupted-imports">
+          <CardHeader>
+            <CardTitle>Interrupted Imports</CardTitle>
+            <CardDescription>
+              These imports stopped before finishing. Resume to continue from the last saved chapter.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="grid gap-3">
+              {interruptedJobs.map((job) => (
+                <li
+                  key={job.id}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg border"
+                  data-testid={`interrupted-import-${job.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{job.bookTitle || job.url}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {job.processedChapters}
+                      {job.totalChapters ? ` / ${job.totalChapters}` : ''} chapters saved
+                      {job.error && ` · ${job.error}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    {!isLocalFileSource(job.url) && (
+                      <Button
+                        size="sm"
+                        onClick={() => handleResume(job.id!)}
+                        disabled={importing}
+                        data-testid="resume-import-button"
+                      >
+                        Resume
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDiscard(job.id!)}
+                      disabled={importing}
+                      data-testid="discard-import-button"
+                    >
+                      Discard
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Progress Display */}
       {progress && (
         <Card>
@@ -294,6 +459,17 @@ const ImportView: React.FC<ImportViewProps> = ({
         </Card>
       )}
 
+      {/* Low confidence warning for sites without a dedicated parser */}
+      {warning && (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm font-medium text-amber-600 dark:text-amber-400" data-testid="import-warning">
+              ⚠️ {warning}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Success Message */}
       {success && (
         <Card>
@@ -368,7 +544,7 @@ const ImportView: React.FC<ImportViewProps> = ({
         </CardHeader>
         <CardContent>
           <ul className="grid gap-2">
-            {['Real-time progress tracking', 'Chapter-by-chapter parsing', 'Metadata extraction', 'Rate-limited requests', 'Error recovery'].map((feature, index) => (
+            {['Real-time progress tracking', 'Chapter-by-chapter parsing', 'Metadata extraction', 'Rate-limited requests', 'Error recovery', 'Resumable imports'].map((feature, index) => (
               <li key={index} className="flex items-center gap-2 text-sm">
                 <div className="w-2 h-2 bg-primary rounded-full" />
                 {feature}
@@ -0,0 +1,192 @@
+/**
+ * Parser Manager Component - Readiwi v4.0
+ * Add, edit, test and remove user-defined site parsers written as JSON
+ */
+
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/core/utils/cn';
+import { ParserDefinitionRecord } from '@/core/types/database';
+import { parserDefinitionService, ParserTestResult } from '../services/parser-definition-service';
+
+interface ParserManagerProps {
+  className?: string;
+  'data-testid'?: string;
+}
+
+const ParserManager: React.FC<ParserManagerProps> = ({
+  className,
+  'data-testid': testId,
+}) => {
+  const [definitions, setDefinitions] = useState<ParserDefinitionRecord[]>([]);
+  const [editorText, setEditorText] = useState<string | null>(null);
+  const [testUrl, setTestUrl] = useState('');
+  const [testResult, setTestResult] = useState<ParserTestResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDefinitions = useCallback(async () => {
+    try {
+      await parserDefinitionService.loadDefinitions();
+      setDefinitions(await parserDefinitionService.getDefinitions());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load parsers');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDefinitions();
+  }, [loadDefinitions]);
+
+  const openEditor = useCallback((text: string) => {
+    setEditorText(text);
+    setTestResult(null);
+    setError(null);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    if (editorText === null) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      await parserDefinitionService.saveDefinition(editorText);
+      setEditorText(null);
+      setTestResult(null);
+      await loadDefinitions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save parser');
+    } finally {
+      setBusy(false);
+    }
+  }, [editorText, loadDefinitions]);
+
+  const handleTest = useCallback(async () => {
+    if (editorText === null || !testUrl.trim()) return;
+
+    setBusy(true);
+    setError(null);
+    setTestResult(null);
+    try {
+      setTestResult(await parserDefinitionService.testDefinition(editorText, testUrl.trim()));
+    } finally {
+      setBusy(false);
+    }
+  }, [editorText, testUrl]);
+
+  const handleDelete = useCallback(async (parserId: string) => {
+    setError(null);
+    try {
+      await parserDefinitionService.deleteDefinition(parserId);
+      await loadDefinitions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete parser');
+    }
+  }, [loadDefinitions]);
+
+  return (
+    <Card className={className} data-testid={testId}>
+      <CardHeader>
+        <CardTitle>Custom Site Parsers</CardTitle>
+        <CardDescription>
+          Describe a site with CSS selectors in JSON to import from it without an app update
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {definitions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No custom parsers yet.</p>
+        ) : (
+          <ul className="space-y-2" data-testid="custom-parser-list">
+            {definitions.map(record => (
+              <li key={record.parserId} className="flex items-center justify-between p-3 rounded-lg border">
+                <div>
+                  <p className="font-medium">{record.name}</p>
+                  <p className="text-xs text-muted-foreground">{record.parserId}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEditor(record.definition)} disabled={busy}>
+                    Edit
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(record.parserId)} disabled={busy}>
+                    Delete
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {editorText === null ? (
+          <Button
+            variant="outline"
+            onClick={() => openEditor(parserDefinitionService.getExampleDefinition())}
+            data-testid="add-parser-button"
+          >
+            Add Parser
+          </Button>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="parser-definition">Parser definition (JSON)</Label>
+              <textarea
+                id="parser-definition"
+                value={editorText}
+                onChange={(e) => setEditorText(e.target.value)}
+                spellCheck={false}
+                rows={18}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                data-testid="parser-definition-input"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                type="url"
+                placeholder="Book URL to test with"
+                value={testUrl}
+                onChange={(e) => setTestUrl(e.target.value)}
+                data-testid="parser-test-url-input"
+              />
+              <Button variant="outline" onClick={handleTest} disabled={busy || !testUrl.trim()} data-testid="test-parser-button">
+                Test
+              </Button>
+            </div>
+
+            {testResult && (
+              <p
+                className={cn('text-sm', testResult.success ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400')}
+                data-testid="parser-test-result"
+              >
+                {testResult.success && testResult.metadata
+                  ? `Found "${testResult.metadata.title}" by ${testResult.metadata.author} with ${testResult.metadata.chapterCount} chapters`
+                  : testResult.error}
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={busy} data-testid="save-parser-button">
+                Save Parser
+              </Button>
+              <Button variant="outline" onClick={() => setEditorText(null)} disabled={busy}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400" data-testid="parser-manager-error">
+            {error}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ParserManager;
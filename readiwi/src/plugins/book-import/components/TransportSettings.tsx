@@ -0,0 +1,125 @@
+/**
+ * Transport Settings Component - Readiwi v4.0
+ * Choose how source pages are fetched and see how each transport is doing
+ */
+
+"use client";
+
+import React, { useCallback, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/core/utils/cn';
+import { fetchTransportManager, TransportHealth, TransportSettings as Settings } from '../services/fetch-transport';
+
+interface TransportSettingsProps {
+  className?: string;
+  'data-testid'?: string;
+}
+
+const TransportSettings: React.FC<TransportSettingsProps> = ({
+  className,
+  'data-testid': testId,
+}) => {
+  const [settings, setSettings] = useState<Settings>(() => fetchTransportManager.getSettings());
+  const [proxyText, setProxyText] = useState(() => settings.proxies.join('\n'));
+  const [health, setHealth] = useState<TransportHealth[]>(() => fetchTransportManager.getHealth());
+
+  const applySettings = useCallback((updates: Partial<Settings>) => {
+    fetchTransportManager.updateSettings(updates);
+    setSettings(fetchTransportManager.getSettings());
+  }, []);
+
+  const handleSaveProxies = useCallback(() => {
+    applySettings({ proxies: proxyText.split('\n') });
+    setProxyText(fetchTransportManager.getSettings().proxies.join('\n'));
+  }, [applySettings, proxyText]);
+
+  const handleResetHealth = useCallback(() => {
+    fetchTransportManager.resetHealth();
+    setHealth([]);
+  }, []);
+
+  return (
+    <Card className={className} data-testid={testId}>
+      <CardHeader>
+        <CardTitle>Fetching</CardTitle>
+        <CardDescription>
+          How book pages are downloaded. Transports are tried in order, and ones that keep failing are tried last.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="transport-direct">Direct requests</Label>
+            <p className="text-sm text-muted-foreground">Works for sites that allow cross-origin requests</p>
+          </div>
+          <Switch
+            id="transport-direct"
+            checked={settings.useDirect}
+            onCheckedChange={(checked) => applySettings({ useDirect: checked })}
+            data-testid="transport-direct-switch"
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="transport-app-proxy">Readiwi proxy</Label>
+            <p className="text-sm text-muted-foreground">Fetch through this app&apos;s own server</p>
+          </div>
+          <Switch
+            id="transport-app-proxy"
+            checked={settings.useAppProxy}
+            onCheckedChange={(checked) => applySettings({ useAppProxy: checked })}
+            data-testid="transport-app-proxy-switch"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="transport-proxies">CORS proxies</Label>
+          <p className="text-sm text-muted-foreground">
+            One per line. The page URL is appended, or replaces {'{url}'} if present.
+          </p>
+          <textarea
+            id="transport-proxies"
+            value={proxyText}
+            onChange={(e) => setProxyText(e.target.value)}
+            placeholder="https://corsproxy.io/?"
+            spellCheck={false}
+            rows={3}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            data-testid="transport-proxies-input"
+          />
+          <Button variant="outline" size="sm" onClick={handleSaveProxies} data-testid="save-proxies-button">
+            Save Proxies
+          </Button>
+        </div>
+
+        {health.length > 0 && (
+          <div className="space-y-2" data-testid="transport-health">
+            <div className="flex items-center justify-between">
+              <Label>Health this session</Label>
+              <Button variant="ghost" size="sm" onClick={handleResetHealth}>
+                Reset
+              </Button>
+            </div>
+            <ul className="space-y-1 text-sm">
+              {health.map(entry => (
+                <li key={entry.transportId} className="flex justify-between">
+                  <span className={cn(entry.coolingDown && 'text-red-600 dark:text-red-400')}>{entry.name}</span>
+                  <span className="text-muted-foreground">
+                    {entry.successes} ok · {entry.failures} failed
+                    {entry.successes > 0 && ` · ${entry.averageLatencyMs} ms`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TransportSettings;
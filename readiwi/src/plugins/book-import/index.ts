@@ -13,8 +13,34 @@ export {
   updateParserSettings,
   testParser,
   getImportStats,
-  parserRegistry
+  parserRegistry,
+  LOW_CONFIDENCE_THRESHOLD
 } from './services/book-import';
-export type { ParsedBook, ParserProgress } from './services/book-import';
+export type { ParsedBook, ParserProgress, UrlValidation } from './services/book-import';
+export { importJobService } from './services/import-job-service';
+export type { ImportJobResult } from './services/import-job-service';
+export { bookUpdateService } from './services/book-update-service';
+export { parserDefinitionService } from './services/parser-definition-service';
+export type { ParserTestResult } from './services/parser-definition-service';
+export {
+  fetchTransportManager,
+  TransportManager,
+  DirectTransport,
+  ProxyTransport,
+  AppProxyTransport,
+  ReplayTransport
+} from './services/fetch-transport';
+export type { FetchTransport, TransportHealth } from './services/fetch-transport';
+export { ConfigurableParser, parseParserDefinition, validateParserDefinition } from './parsers/configurable-parser';
+export {
+  importBookFile,
+  parseBookFile,
+  isFileSupported,
+  getSupportedFileExtensions,
+  getFileImportSources
+} from './services/file-import';
+export type { BookUpdateResult } from './services/book-update-service';
 export type * from './types/import-types';
-export { default as ImportView } from './components/ImportView';
\ No newline at end of file
+export { default as ImportView } from './components/ImportView';
+export { default as ParserManager } from './components/ParserManager';
+export { default as TransportSettings } from './components/TransportSettings';
\ No newline at end of file
@@ -0,0 +1,134 @@
+/**
+ * Configurable Parser Tests - Readiwi v4.0
+ * Testing that a JSON definition is enough to import from a new site
+ */
+
+import { ConfigurableParser, parseParserDefinition, validateParserDefinition } from '../configurable-parser';
+import { ParserDefinition } from '../../types/parser-types';
+import { ReplayTransport } from '../../services/fetch-transport';
+
+const BOOK_URL = 'https://www.lotus-reads.example/novel/jade-river';
+
+const definition: ParserDefinition = {
+  id: 'lotus-reads',
+  name: 'Lotus Reads',
+  domains: ['lotus-reads.example'],
+  selectors: {
+    title: ['h1.book-title'],
+    author: ['meta[name="author"]'],
+    description: ['.synopsis'],
+    coverImage: ['.cover img'],
+    tags: ['.genres a'],
+    status: ['.status'],
+    chapterLinks: ['ol.chapters a'],
+    chapterTitle: ['h2.chapter-title'],
+    chapterContent: ['#text'],
+    removeSelectors: ['.ad'],
+  },
+  urlPatterns: {
+    bookId: '/novel/([^/]+)',
+    chapterId: '/c/(\\d+)',
+  },
+  pagination: {
+    nextPage: ['.pager a.next'],
+    maxPages: 5,
+  },
+  chapterOrder: 'newest-first',
+  rateLimit: { requestsPerMinute: 60, delayBetweenRequests: 0 },
+  language: 'en',
+};
+
+const bookPage = (chapters: number[], nextPage?: string) => `
+<html><head><meta name="author" content="Wen Shu"></head><body>
+  <h1 class="book-title">Jade River</h1>
+  <div class="cover"><img src="/img/jade-river.jpg"></div>
+  <p class="synopsis">A boatman's daughter inherits a river god's debt.</p>
+  <div class="genres"><a>Fantasy</a><a>Romance</a></div>
+  <span class="status">Completed</span>
+  <ol class="chapters">${chapters.map(n => `<li><a href="/novel/jade-river/c/${n}">Chapter ${n}</a></li>`).join('')}</ol>
+  ${nextPage ? `<div class="pager"><a class="next" href="${nextPage}">Next</a></div>` : ''}
+</body></html>`;
+
+const chapterPage = (n: number) => `
+<html><body>
+  <h2 class="chapter-title">Chapter ${n}</h2>
+  <div id="text"><p>The river rose on day ${n}.</p><div class="ad">Buy coins!</div></div>
+</body></html>`;
+
+describe('User Story: Add Sites With A Parser Definition', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('Definitions are validated with every problem listed', () => {
+    // Given: A definition missing its required parts
+    const broken = { id: 'Bad Id', domains: [], selectors: { chapterLinks: ['a[['] }, chapterOrder: 'random' };
+
+    // When/Then: Validation reports each problem
+    expect(() => validateParserDefinition(broken)).toThrow(/"id".*"name".*"domains".*chapterContent.*invalid selector: a\[\[.*"chapterOrder"/);
+    expect(() => parseParserDefinition('{ not json')).toThrow('not valid JSON');
+    expect(validateParserDefinition(JSON.parse(JSON.stringify(definition)))).toEqual(definition);
+  });
+
+  test('URL handling comes from domains and URL patterns', () => {
+    const parser = new ConfigurableParser(definition);
+
+    expect(parser.canParse(BOOK_URL)).toBe(true);
+    expect(parser.canParse('https://lotus-reads.example/novel/jade-river')).toBe(true);
+    expect(parser.canParse('https://www.royalroad.com/fiction/1')).toBe(false);
+    expect(parser.extractBookId(BOOK_URL)).toBe('jade-river');
+    expect(parser.extractChapterId(`${BOOK_URL}/c/42`)).toBe('42');
+    expect(parser.config.rateLimit.requestsPerMinute).toBe(60);
+  });
+
+  test('A paginated, newest-first chapter list is imported in reading order', async () => {
+    // Given: A site whose chapter list spans two pages, newest chapter first
+    const pages: Record<string, string> = {
+      [BOOK_URL]: bookPage([4, 3], '/novel/jade-river?page=2'),
+      [`${BOOK_URL}?page=2`]: bookPage([2, 1]),
+      ...Object.fromEntries([1, 2, 3, 4].map(n => [`${BOOK_URL}/c/${n}`, chapterPage(n)])),
+    };
+    const parser = new ConfigurableParser(definition);
+    parser.useTransport(new ReplayTransport(pages));
+
+    // When: Importing the book
+    const book = await parser.parseBook(BOOK_URL);
+
+    // Then: Metadata follows the selectors
+    expect(book.title).toBe('Jade River');
+    expect(book.author).toBe('Wen Shu');
+    expect(book.coverUrl).toBe('https://www.lotus-reads.example/img/jade-river.jpg');
+    expect(book.tags).toEqual(['Fantasy', 'Romance']);
+    expect(book.status).toBe('completed');
+
+    // And: Chapters from both pages arrive oldest first, cleaned of removed elements
+    expect(book.chapters.map(chapter => chapter.title)).toEqual(['Chapter 1', 'Chapter 2', 'Chapter 3', 'Chapter 4']);
+    expect(book.chapters[0]?.content).toBe('The river rose on day 1.');
+    expect(book.chapters[0]?.sourceChapterId).toBe('1');
+  });
+
+  test('Images with relative paths are kept, resolved against the chapter page', async () => {
+    // Given: A chapter showing images by site-relative and page-relative paths
+    const parser = new ConfigurableParser(definition);
+    parser.useTransport(new ReplayTransport({
+      [BOOK_URL]: bookPage([1]),
+      [`${BOOK_URL}/c/1`]: `<html><body><h2 class="chapter-title">Chapter 1</h2><div id="text">
+        <p>The river rose.</p><p><img src="/images/map.png" alt="Map"></p><p><img src="../seal.jpg" alt="Seal"></p>
+      </div></body></html>`,
+    }));
+
+    // When: Importing the book
+    const book = await parser.parseBook(BOOK_URL);
+
+    // Then: Both images stay in the formatted chapter with full URLs
+    const images = new DOMParser().parseFromString(book.chapters[0]!.htmlContent!, 'text/html').querySelectorAll('img');
+    expect(Array.from(images).map(img => img.getAttribute('src'))).toEqual([
+      'https://www.lotus-reads.example/images/map.png',
+      'https://www.lotus-reads.example/novel/jade-river/seal.jpg',
+    ]);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * EPUB Parser Tests - Readiwi v4.0
+ * Testing that local EPUB files become library-ready books
+ */
+
+import { strToU8, zipSync, Zippable } from 'fflate';
+import { EpubParser } from '../epub-parser';
+
+const COVER_BYTES = new Uint8Array([137, 80, 78, 71, 13, 10]);
+
+const chapterXhtml = (heading: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml">
+<head><title>${heading}</title></head>
+<body>
+  <h1>${heading}</h1>
+  ${body}
+</body>
+</html>`;
+
+const buildEpub = (files: Record<string, string | Uint8Array>): Uint8Array => {
+  const entries: Zippable = { mimetype: strToU8('application/epub+zip') };
+  Object.entries(files).forEach(([path, content]) => {
+    entries[path] = typeof content === 'string' ? strToU8(content) : content;
+  });
+  return zipSync(entries);
+};
+
+const CONTAINER = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`;
+
+const epub3 = () => buildEpub({
+  'META-INF/container.xml': CONTAINER,
+  'OEBPS/content.opf': `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="id">urn:uuid:1234</dc:identifier>
+    <dc:title>Mother of Learning</dc:title>
+    <dc:creator>nobody103</dc:creator>
+    <dc:language>en</dc:language>
+    <dc:description>&lt;p&gt;A time loop story.&lt;/p&gt;</dc:description>
+    <dc:subject>Fantasy</dc:subject>
+    <dc:subject>Time Loop</dc:subject>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="cover-img" href="images/cover.png" media-type="image/png" properties="cover-image"/>
+    <item id="cover" href="text/cover.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>
+    <item id="c2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine>
+    <itemref idref="cover"/>
+    <itemref idref="c2"/>
+    <itemref idref="c1"/>
+  </spine>
+</package>`,
+  'OEBPS/nav.xhtml': `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<body>
+  <nav epub:type="toc"><ol>
+    <li><a href="text/ch2.xhtml">Good Morning Brother</a></li>
+    <li><a href="text/ch1.xhtml#start">Life's Little Problems</a></li>
+  </ol></nav>
+</body>
+</html>`,
+  'OEBPS/text/cover.xhtml': `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml"><body><img src="../images/cover.png" alt=""/></body></html>`,
+  'OEBPS/text/ch1.xhtml': chapterXhtml('Chapter Two', '<p>Zorian sighed.</p><p>Line one<br/>line two</p><img src="../images/cover.png"/>'),
+  'OEBPS/text/ch2.xhtml': chapterXhtml('Chapter One', '<p>Zorian woke up   to a sudden\n  pain.</p><p>His sister was sitting on him.</p>'),
+  'OEBPS/images/cover.png': COVER_BYTES,
+});
+
+describe('User Story: Import EPUB Files From My Device', () => {
+  const parser = new EpubParser();
+
+  test('Metadata is read from the OPF package', () => {
+    // Given: An EPUB 3 file
+    // When: Parsing it
+    const book = parser.parse(epub3(), 'mother-of-learning.epub');
+
+    // Then: Book metadata comes from the package document
+    expect(book.title).toBe('Mother of Learning');
+    expect(book.author).toBe('nobody103');
+    expect(book.description).toBe('A time loop story.');
+    expect(book.tags).toEqual(['Fantasy', 'Time Loop']);
+    expect(book.language).toBe('en');
+    expect(book.sourceUrl).toBe('file:///epub/urn%3Auuid%3A1234');
+  });
+
+  test('Chapters follow spine order and use table of contents titles', () => {
+    // When: Parsing an EPUB whose spine reorders the files
+    const book = parser.parse(epub3(), 'mother-of-learning.epub');
+
+    // Then: The cover page is skipped and chapters follow the spine
+    expect(book.chapters.map(chapter => chapter.title)).toEqual(['Good Morning Brother', "Life's Little Problems"]);
+    expect(book.chapters.map(chapter => chapter.chapterNumber)).toEqual([1, 2]);
+
+    // And: Text is split into paragraphs with whitespace normalised and the heading left to the reader
+    expect(book.chapters[0]?.content).toBe('Zorian woke up to a sudden pain.\n\nHis sister was sitting on him.');
+    expect(book.chapters[1]?.content).toContain('Line one\nline two');
+    expect(book.chapters[0]?.wordCount).toBe(13);
+  });
+
+  test('Embedded images are collected for the image cache', () => {
+    // When: Parsing an EPUB with a cover image
+    const book = parser.parse(epub3(), 'mother-of-learning.epub');
+
+    // Then: The cover is extracted and referenced by cache URL
+    const coverUrl = 'file:///epub/urn%3Auuid%3A1234/OEBPS/images/cover.png';
+    expect(book.coverUrl).toBe(coverUrl);
+    expect(book.images).toEqual([{ url: coverUrl, data: COVER_BYTES, mediaType: 'image/png' }]);
+    expect(book.chapters[1]?.imageUrls).toEqual([coverUrl]);
+
+    // And: The chapter's formatted HTML shows the image from its cache URL
+    expect(book.chapters[1]?.htmlContent).toContain(`<img src="${coverUrl}" alt="">`);
+  });
+
+  test('Chapters keep their formatting as sanitized HTML', () => {
+    // Given: A chapter with emphasis and a stray script
+    const data = buildEpub({
+      'META-INF/container.xml': CONTAINER,
+      'OEBPS/content.opf': `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="2.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Styled</dc:title></metadata>
+  <manifest><item id="c1" href="ch1.xhtml" media-type="application/xhtml+xml"/></manifest>
+  <spine><itemref idref="c1"/></spine>
+</package>`,
+      'OEBPS/ch1.xhtml': chapterXhtml('Opening', '<p>She was <em>very</em> late.</p><script>alert(1)</script>'),
+    });
+
+    // When: Parsing it, with and without formatting kept
+    const [chapter] = parser.parse(data, 'styled.epub').chapters;
+    const [plain] = parser.parse(data, 'styled.epub', false).chapters;
+
+    // Then: The HTML keeps the emphasis, drops the script and matches the text
+    expect(chapter?.htmlContent).toBe('<p>She was <em>very</em> late.</p>');
+    expect(chapter?.content).toBe('She was very late.');
+    expect(plain?.htmlContent).toBeUndefined();
+  });
+
+  test('The same book is recognised whatever its file is called', () => {
+    // Given: One EPUB with an identifier and one without, each under two names
+    const withoutId = (text: string) => buildEpub({
+      'META-INF/container.xml': CONTAINER,
+      'OEBPS/content.opf': `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="2.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>No Id</dc:title></metadata>
+  <manifest><item id="c1" href="ch1.html" media-type="application/xhtml+xml"/></manifest>
+  <spine><itemref idref="c1"/></spine>
+</package>`,
+      'OEBPS/ch1.html': `<html><body><p>${text}</p></body></html>`,
+    });
+
+    // Then: The identifier, or else the content, decides which book it is
+    expect(parser.parse(epub3(), 'book.epub').sourceUrl).toBe(parser.parse(epub3(), 'renamed.epub').sourceUrl);
+    expect(parser.parse(withoutId('One'), 'book.epub').sourceUrl).toBe(parser.parse(withoutId('One'), 'other.epub').sourceUrl);
+    expect(parser.parse(withoutId('One'), 'book.epub').sourceUrl).not.toBe(parser.parse(withoutId('Two'), 'book.epub').sourceUrl);
+    expect(parser.parse(withoutId('One'), 'book.epub').sourceUrl).toMatch(/^file:\/\/\/sha\/[0-9a-f]+$/);
+  });
+
+  test('EPUB 2 files fall back to the NCX table of contents', () => {
+    // Given: An EPUB 2 file with an NCX and no nav document
+    const data = buildEpub({
+      'META-INF/container.xml': CONTAINER,
+      'OEBPS/content.opf': `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="2.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Old Book</dc:title></metadata>
+  <manifest>
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+    <item id="c1" href="ch1.html" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine toc="ncx"><itemref idref="c1"/></spine>
+</package>`,
+      'OEBPS/toc.ncx': `<?xml version="1.0"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1"><navMap>
+  <navPoint id="n1" playOrder="1"><navLabel><text>The Beginning</text></navLabel><content src="ch1.html"/></navPoint>
+</navMap></ncx>`,
+      'OEBPS/ch1.html': '<html><body><p>Once upon a time.</p></body></html>',
+    });
+
+    // When: Parsing it
+    const book = parser.parse(data, 'old.epub');
+
+    // Then: Titles come from the NCX and missing metadata has defaults
+    expect(book.chapters[0]?.title).toBe('The Beginning');
+    expect(book.author).toBe('Unknown Author');
+    expect(book.images).toEqual([]);
+  });
+
+  test('A file name with a stray percent sign is still found', () => {
+    // Given: An EPUB whose chapter file name holds a "%" that is not an escape
+    const data = buildEpub({
+      'META-INF/container.xml': CONTAINER,
+      'OEBPS/content.opf': `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="2.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Percentages</dc:title></metadata>
+  <manifest><item id="c1" href="100%.html" media-type="application/xhtml+xml"/></manifest>
+  <spine><itemref idref="c1"/></spine>
+</package>`,
+      'OEBPS/100%.html': '<html><body><p>Full effort.</p></body></html>',
+    });
+
+    // When: Parsing it
+    const book = parser.parse(data, 'percent.epub');
+
+    // Then: The chapter is read from the raw path instead of failing the import
+    expect(book.chapters.map(chapter => chapter.content)).toEqual(['Full effort.']);
+  });
+
+  test('Invalid files give a clear error', () => {
+    expect(() => parser.parse(strToU8('not a zip'), 'broken.epub')).toThrow('Not a valid EPUB file');
+    expect(() => parser.parse(buildEpub({ 'hello.txt': 'hi' }), 'empty.epub')).toThrow('package document (OPF) not found');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Generic Parser Tests - Readiwi v4.0
+ * Testing that books from sites without a dedicated parser can still be imported
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { GenericParser } from '../generic-parser';
+import { ReplayTransport } from '../../services/fetch-transport';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', `${name}.html`), 'utf8');
+
+const TOC_URL = 'https://novelnest.example/novel/sky-sword';
+const CHAPTER_1_URL = 'https://quill.example/stories/ember-road/1';
+const CHAPTER_2_URL = 'https://quill.example/stories/ember-road/2';
+
+const createParser = () => {
+  const parser = new GenericParser();
+  parser.config.rateLimit.delayBetweenRequests = 0;
+  return parser;
+};
+
+const usePages = (parser: GenericParser, pages: Record<string, string>) => {
+  const replay = new ReplayTransport(pages);
+  parser.useTransport(replay);
+  return replay;
+};
+
+describe('User Story: Import From Any Website', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('Any web page can be parsed, but not local files', () => {
+    const parser = createParser();
+
+    expect(parser.canParse('https://novelnest.example/novel/sky-sword')).toBe(true);
+    expect(parser.canParse('http://quill.example/stories/ember-road/1')).toBe(true);
+    expect(parser.canParse('file:///my-book.epub')).toBe(false);
+    expect(parser.canParse('not a url')).toBe(false);
+  });
+
+  test('The chapter list is found among navigation, sidebar and pagination links', () => {
+    // Given: A table of contents page listing the newest chapter first
+    const parser = createParser();
+
+    // When: Analysing the page
+    const analysis = parser.analyzePage(fixture('generic-toc-page'), TOC_URL);
+
+    // Then: Only the chapter links are picked, resolved and put in reading order
+    expect(analysis.chapterUrls).toEqual([1, 2, 3, 4, 5].map(n => `https://novelnest.example/novel/sky-sword/chapter-${n}`));
+    expect(analysis.confidence).toBeGreaterThanOrEqual(0.8);
+    expect(analysis.warnings).toEqual([]);
+  });
+
+  test('Book metadata comes from page meta tags rather than the site header', async () => {
+    // Given: A table of contents page whose chapters can be fetched
+    const parser = createParser();
+    const toc = fixture('generic-toc-page');
+    const chapter = fixture('generic-chapter-1');
+    usePages(parser, {
+      [TOC_URL]: toc,
+      ...Object.fromEntries([1, 2, 3, 4, 5].map(n => [`https://novelnest.example/novel/sky-sword/chapter-${n}`, chapter])),
+    });
+
+    // When: Importing the book
+    const book = await parser.parseBook(TOC_URL);
+
+    // Then: Metadata is read from the page and every listed chapter is imported
+    expect(book.title).toBe('Sky Sword Chronicles');
+    expect(book.author).toBe('Lin Mei');
+    expect(book.coverUrl).toBe('https://novelnest.example/covers/sky-sword.jpg');
+    expect(book.tags).toEqual(['Fantasy', 'Xianxia', 'Adventure']);
+    expect(book.language).toBe('en');
+    expect(book.chapters).toHaveLength(5);
+    expect(book.confidence).toBeGreaterThanOrEqual(0.6);
+  });
+
+  test('Chapters are discovered by following "next chapter" links when there is no list', async () => {
+    // Given: A first chapter page that links to the next chapter
+    const parser = createParser();
+    const replay = usePages(parser, {
+      [CHAPTER_1_URL]: fixture('generic-chapter-1'),
+      [CHAPTER_2_URL]: fixture('generic-chapter-2'),
+    });
+
+    // When: Importing from the first chapter
+    const book = await parser.parseBook(CHAPTER_1_URL);
+
+    // Then: Both chapters are imported in order, each page fetched only once
+    expect(book.chapters.map(chapter => chapter.title)).toEqual(['Chapter 1: Ashes', 'Chapter 2: The River']);
+    expect(book.chapters.map(chapter => chapter.url)).toEqual([CHAPTER_1_URL, CHAPTER_2_URL]);
+    expect(replay.requests).toHaveLength(2);
+  });
+
+  test('Two imports running on the parser at once keep their own pages and scores', async () => {
+    // Given: A book found through "next" links and a book with a chapter list, served by one parser
+    const parser = createParser();
+    const chapterOne = fixture('generic-chapter-1');
+    const replay = usePages(parser, {
+      [CHAPTER_1_URL]: chapterOne,
+      [CHAPTER_2_URL]: fixture('generic-chapter-2'),
+      [TOC_URL]: fixture('generic-toc-page'),
+      ...Object.fromEntries([1, 2, 3, 4, 5].map(n => [`https://novelnest.example/novel/sky-sword/chapter-${n}`, chapterOne])),
+    });
+
+    // When: Both are imported at the same time
+    const crawledProgress = jest.fn();
+    const listedProgress = jest.fn();
+    const [crawled, listed] = await Promise.all([
+      parser.parseBook(CHAPTER_1_URL, crawledProgress),
+      parser.parseBook(TOC_URL, listedProgress),
+    ]);
+
+    // Then: Starting the second import didn't drop the pages the first had already fetched
+    expect(crawled.chapters.map(chapter => chapter.title)).toEqual(['Chapter 1: Ashes', 'Chapter 2: The River']);
+    expect(replay.requests.filter(request => request.startsWith('https://quill.example'))).toHaveLength(2);
+
+    // And: Each book is scored from its own analysis
+    expect(listed.chapters).toHaveLength(5);
+    expect(crawled.confidence).toBe((await parser.parseBook(CHAPTER_1_URL)).confidence);
+    expect(listed.confidence).toBe((await parser.parseBook(TOC_URL)).confidence);
+
+    // And: Each import's progress went only to the caller that started it
+    const reported = (listener: jest.Mock) => listener.mock.calls.map(([progress]) => progress);
+    expect(reported(crawledProgress)).toContainEqual(expect.objectContaining({ currentChapter: 'Discovering chapter 2' }));
+    expect(reported(crawledProgress).at(-1)).toMatchObject({ status: 'completed', totalChapters: 2 });
+    expect(reported(listedProgress).map(progress => progress.currentChapter)).not.toContain('Discovering chapter 2');
+    expect(reported(listedProgress).at(-1)).toMatchObject({ status: 'completed', totalChapters: 5 });
+  });
+
+  test('Main content is picked by text density, leaving out comments, sharing and navigation', async () => {
+    // Given: A chapter surrounded by site chrome and a comment section
+    const parser = createParser();
+    usePages(parser, { [CHAPTER_2_URL]: fixture('generic-chapter-1').replace('/stories/ember-road/2', '/stories/ember-road') });
+
+    // When: Importing the single chapter
+    const book = await parser.parseBook(CHAPTER_2_URL);
+    const content = book.chapters[0]?.content ?? '';
+
+    // Then: Only the story text remains, split into paragraphs with line breaks kept
+    expect(content.startsWith('The village had burned for three days')).toBe(true);
+    expect(content.split('\n\n')).toHaveLength(6);
+    expect(content).toContain('night.\nCome and find me, it said.\nCome before the rain.');
+    expect(content).not.toMatch(/Great start|Share on|Next Chapter|Quill & Lantern|Glass Orchard/);
+    expect(book.chapters[0]?.wordCount).toBe(content.split(/\s+/).length);
+  });
+
+  test('Chapter formatting and images are kept, without repeating the heading', async () => {
+    // Given: A chapter that repeats its heading and has emphasis, a table and an image with a relative path
+    const parser = createParser();
+    const page = fixture('generic-chapter-1')
+      .replace('/stories/ember-road/2', '/stories/ember-road')
+      .replace('<div class="entry-content">', '<div class="entry-content"><h2>Chapter 1: Ashes</h2>')
+      .replace('<p>She did not answer him.', '<p>She did <em>not</em> answer <strong>him</strong>.')
+      .replace('<p>When she rose,', '<table><tr><td>Ember</td><td>Warm</td></tr></table><img src="../../images/river.png" alt="The river"><p>When she rose,');
+    usePages(parser, { [CHAPTER_2_URL]: page });
+
+    // When: Importing the chapter
+    const book = await parser.parseBook(CHAPTER_2_URL);
+    const chapter = book.chapters[0];
+
+    // Then: The markup survives, the image points at the site and the title is not shown twice
+    expect(chapter?.htmlContent).toContain('<em>not</em>');
+    expect(chapter?.htmlContent).toContain('<strong>him</strong>');
+    expect(chapter?.htmlContent).toContain('<td>Ember</td>');
+    expect(chapter?.htmlContent).toContain('<img src="https://quill.example/images/river.png" alt="The river">');
+    expect(chapter?.content.startsWith('The village had burned for three days')).toBe(true);
+    expect(chapter?.htmlContent).not.toContain('Chapter 1: Ashes');
+    expect(chapter?.htmlContent).not.toMatch(/Great start|Share on|Next Chapter/);
+  });
+
+  test('Pages without book content get a low confidence score and warnings', () => {
+    // Given: A shop landing page
+    const parser = createParser();
+
+    // When: Analysing it
+    const analysis = parser.analyzePage(fixture('generic-landing-page'), 'https://gizmo.example/');
+
+    // Then: The result is flagged as unreliable
+    expect(analysis.chapterUrls).toEqual([]);
+    expect(analysis.nextChapterUrl).toBeNull();
+    expect(analysis.confidence).toBeLessThan(0.3);
+    expect(analysis.warnings.length).toBeGreaterThan(0);
+    expect(parser.getConfidence('https://gizmo.example/', fixture('generic-landing-page'))).toBe(analysis.confidence);
+  });
+});
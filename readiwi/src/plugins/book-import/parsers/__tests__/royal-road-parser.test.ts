@@ -0,0 +1,135 @@
+/**
+ * Royal Road Parser Tests - Readiwi v4.0
+ * Testing that Royal Road chapters import clean, without the hidden anti-piracy text
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { RoyalRoadParser } from '../royal-road-parser';
+import { ReplayTransport } from '../../services/fetch-transport';
+import { splitAuthorNotes } from '@/plugins/reader/services/author-notes';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', `${name}.html`), 'utf8');
+
+const BOOK_URL = 'https://www.royalroad.com/fiction/4242/the-lantern-keeper';
+const CHAPTER_1_URL = `${BOOK_URL}/chapter/2001/the-first-light`;
+const CHAPTER_2_URL = `${BOOK_URL}/chapter/2002/status`;
+
+const importBook = async (chapters: string[] = [fixture('royal-road-chapter-1'), fixture('royal-road-chapter-2')]) => {
+  const parser = new RoyalRoadParser();
+  parser.config.rateLimit.delayBetweenRequests = 0;
+  parser.useTransport(new ReplayTransport({
+    [BOOK_URL]: fixture('royal-road-fiction'),
+    [CHAPTER_1_URL]: chapters[0]!,
+    [CHAPTER_2_URL]: chapters[1]!,
+  }));
+  return parser.parseBook(BOOK_URL);
+};
+
+const chapterPage = (body: string) => `<!DOCTYPE html><html><body>
+  <div class="chapter-title"><h1>A Chapter</h1></div>
+  ${body}
+</body></html>`;
+
+const authorNote = (html: string) => `<div class="portlet solid author-note-portlet">
+  <div class="portlet-title"><span class="caption-subject">A note from Iris Vale</span></div>
+  <div class="portlet-body author-note">${html}</div>
+</div>`;
+
+describe('User Story: Import Royal Road Chapters Without Planted Text', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('Paragraphs hidden by the page stylesheet or inline styles are removed and counted', async () => {
+    // Given: Chapters with "stolen content" notices hidden through randomised classes
+    // When: Importing the book
+    const book = await importBook();
+    const [first, second] = book.chapters;
+
+    // Then: None of the hidden text makes it into the chapters
+    const text = book.chapters.map(chapter => `${chapter.content}\n${chapter.htmlContent}`).join('\n');
+    expect(text).not.toMatch(/duplication|Stolen|stolen|Pirated/);
+
+    // And: The story itself is all there
+    expect(first?.content).toBe([
+      'Wren lit the first lantern at exactly dusk, as her mother had taught her.',
+      'The flame leaned toward the hills, away from the wind.',
+      'Somewhere in the dark, something leaned back.',
+    ].join('\n\n'));
+    expect(second?.content).toBe([
+      'The window opened in front of her eyes.',
+      'Name', 'Wren', 'Class', 'Lantern Keeper',
+      'She closed it with a thought.',
+    ].join('\n\n'));
+
+    // And: Each chapter records how many elements were dropped
+    expect(first?.hiddenElementsRemoved).toBe(2);
+    expect(second?.hiddenElementsRemoved).toBe(2);
+  });
+
+  test('Formatting and author notes are kept apart from the chapter text', async () => {
+    // When: Importing the book
+    const book = await importBook();
+    const [first, second] = book.chapters;
+
+    // Then: Formatting survives, with the status table boxed
+    expect(first?.htmlContent).toContain('<em>exactly</em>');
+    expect(first?.htmlContent).toContain('<hr>');
+    expect(second?.htmlContent).toContain('<table class="system-message">');
+
+    // And: The notes before and after the chapter become author footnotes
+    expect(first?.footnotes).toEqual([
+      { id: 'author-note-1', position: 0, content: 'Welcome to the first chapter!', type: 'author' },
+      { id: 'author-note-2', position: first!.content.length, content: 'Thanks for reading.\n\nChapter two is already up.', type: 'author' },
+    ]);
+    expect(second?.footnotes).toBeUndefined();
+  });
+});
+
+describe("User Story: Keep Author's Notes Apart From The Story", () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("Author's notes around a chapter become footnotes before and after its text", async () => {
+    // Given: A chapter with a note above it, an empty note and a note below it
+    const withNotes = chapterPage(`
+      ${authorNote('<p>Sorry this one is <em>late</em>!</p>')}
+      ${authorNote('<p>&nbsp;</p>')}
+      <div class="chapter-inner chapter-content"><p>The lanterns were already lit.</p></div>
+      ${authorNote('<p>Vote on the next arc:</p><p>Mountains or sea?</p>')}
+    `);
+    // And: A chapter without any
+    const withoutNotes = chapterPage('<div class="chapter-inner chapter-content"><p>Nothing to add.</p></div>');
+
+    // When: Importing them
+    const book = await importBook([withNotes, withoutNotes]);
+    const [first, second] = book.chapters;
+
+    // Then: The notes stay out of the chapter text
+    expect(first?.content).toBe('The lanterns were already lit.');
+    expect(first?.htmlContent).not.toMatch(/late|Vote/);
+
+    // And: Each note with text is a footnote placed before or after the chapter
+    expect(first?.footnotes).toEqual([
+      { id: 'author-note-1', position: 0, content: 'Sorry this one is late!', type: 'author' },
+      { id: 'author-note-3', position: first!.content.length, content: 'Vote on the next arc:\n\nMountains or sea?', type: 'author' },
+    ]);
+    expect(second?.footnotes).toBeUndefined();
+
+    // And: The reader finds them on the right side of the text
+    const { before, after } = splitAuthorNotes(first!);
+    expect(before.map(note => note.id)).toEqual(['author-note-1']);
+    expect(after.map(note => note.id)).toEqual(['author-note-3']);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Text File Parser Tests - Readiwi v4.0
+ * Testing that text, Markdown and HTML files become books split into chapters
+ */
+
+import { TextFileParser } from '../text-file-parser';
+import { ChapterSplitOptions } from '../../types/parser-types';
+
+const options: ChapterSplitOptions = {
+  autoDetect: true,
+  headingPatterns: ['^chapter\\s+\\S+', '^(prologue|epilogue|interlude)\\b'],
+  headingLevel: 2,
+};
+
+describe('User Story: Import Books From Text Files', () => {
+  let parser: TextFileParser;
+
+  beforeEach(() => {
+    parser = new TextFileParser();
+  });
+
+  test('Plain text splits at chapter lines and unwraps its paragraphs', () => {
+    // Given: A wrapped plain-text book with a title page and chapter lines
+    const text = [
+      'THE LONG ROAD',
+      'by A. Writer',
+      '',
+      'CHAPTER I',
+      '',
+      'It was a dark and',
+      'stormy night.',
+      '',
+      'Chapter 2',
+      'The rain stopped.',
+      '',
+      'Epilogue',
+      '',
+      'They lived.',
+    ].join('\r\n');
+
+    // When: Reading and building it
+    const document = parser.parse(text, 'the-long-road.txt', 'text', options);
+    const book = parser.buildBook(document);
+
+    // Then: Front matter comes first, then one chapter per heading, titled by it
+    expect(book.title).toBe('the-long-road');
+    expect(book.chapters.map(chapter => chapter.title)).toEqual(['Front Matter', 'CHAPTER I', 'Chapter 2', 'Epilogue']);
+
+    // And: Hard-wrapped lines join into paragraphs, even with the heading right above them
+    expect(book.chapters[1]!.content).toBe('It was a dark and stormy night.');
+    expect(book.chapters[2]!.content).toBe('The rain stopped.');
+    expect(book.chapters[1]!.htmlContent).toBeUndefined();
+    expect(book.sourceUrl).toMatch(/^file:\/\/\/sha\/[0-9a-f]+$/);
+  });
+
+  test('Different books that share a file name are told apart', () => {
+    const first = parser.parse('One story.', 'book.txt', 'text', options);
+    const second = parser.parse('Another story.', 'book.txt', 'text', options);
+    const renamed = parser.parse('One story.', 'copy of book.txt', 'text', options);
+
+    expect(first.sourceUrl).not.toBe(second.sourceUrl);
+    expect(renamed.sourceUrl).toBe(first.sourceUrl);
+  });
+
+  test('Markdown splits at its headings and keeps its formatting', () => {
+    // Given: A Markdown book with a title heading and chapter headings
+    const markdown = `# The Long Road
+
+## One
+
+She *really* meant it,\\
+and **left**.
+
+---
+
+### A section, not a chapter
+
+- first
+- second
+
+## Two
+
+> A quote.
+`;
+
+    // When: Reading and building it
+    const document = parser.parse(markdown, 'road.md', 'markdown', options);
+    const book = parser.buildBook(document);
+
+    // Then: The lone top heading is the title and level-2 headings start chapters
+    expect(book.title).toBe('The Long Road');
+    expect(book.chapters.map(chapter => chapter.title)).toEqual(['One', 'Two']);
+
+    // And: Emphasis, line breaks, scene breaks and lists survive, with matching plain text
+    const [one] = book.chapters;
+    expect(one!.htmlContent).toContain('<p>She <em>really</em> meant it,<br>and <strong>left</strong>.</p><hr><h3>A section, not a chapter</h3><ul><li>first</li><li>second</li></ul>');
+    expect(one!.content).toBe('She really meant it,\nand left.\n\nA section, not a chapter\n\nfirst\n\nsecond');
+    expect(book.chapters[1]!.htmlContent).toBe('<blockquote><p>A quote.</p></blockquote>');
+  });
+
+  test('Split points can be adjusted before an HTML book is built', () => {
+    // Given: A single-file HTML book with its chapters wrapped in sections
+    const html = `<html lang="fr"><head><title>Le Livre</title><meta name="author" content="A. Auteur"></head><body>
+      <h1>Le Livre</h1>
+      <section><h2>Un</h2><p>Premier.</p><p>Interlude</p><p>Encore.</p></section>
+      <section><h2>Deux</h2><p>Second.</p></section>
+    </body></html>`;
+
+    // When: Reading it
+    const document = parser.parse(html, 'livre.html', 'html', options);
+    expect(document).toEqual(expect.objectContaining({ title: 'Le Livre', author: 'A. Auteur', language: 'fr' }));
+
+    // Then: Headings and matching lines are detected, and short lines are offered too
+    const interlude = document.blocks.findIndex(block => block.text === 'Interlude');
+    const deux = document.blocks.findIndex(block => block.text === 'Deux');
+    expect(document.splitPoints).toEqual([0, interlude, deux]);
+    expect(parser.getSplitCandidates(document)).toEqual([0, interlude, deux]);
+
+    // And: The user drops the Interlude split and builds the book
+    const book = parser.buildBook({ ...document, splitPoints: [0, deux] });
+
+    // Then: Its text stays in the first chapter
+    expect(book.chapters.map(chapter => [chapter.title, chapter.content])).toEqual([
+      ['Un', 'Premier.\n\nInterlude\n\nEncore.'],
+      ['Deux', 'Second.'],
+    ]);
+
+    // And: Without chapter detection the whole book is one chapter
+    const single = parser.buildBook(parser.parse(html, 'livre.html', 'html', { ...options, autoDetect: false }));
+    expect(single.chapters.map(chapter => chapter.title)).toEqual(['Le Livre']);
+  });
+});
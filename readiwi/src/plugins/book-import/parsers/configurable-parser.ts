@@ -0,0 +1,356 @@
+/**
+ * Configurable Parser - Readiwi v4.0
+ * Site parser built entirely from a JSON definition: domains, selectors,
+ * URL patterns, chapter list pagination and rate limits
+ */
+
+import { BaseParser, FetchPageOptions, ParseContext, ParsedBookMetadata, ParsedChapter, ParserConfig, ParserDefinition, ParserSelectors } from '../types/parser-types';
+import { BOOK_PAGE_CACHE_TTL } from '../services/parser-cache-service';
+import { countWords } from '@/plugins/statistics/services/reading-speed-service';
+
+const DEFAULT_RATE_LIMIT: ParserConfig['rateLimit'] = {
+  requestsPerMinute: 20,
+  delayBetweenRequests: 3000
+};
+
+const DEFAULT_MAX_PAGES = 20;
+const MAX_PAGES_LIMIT = 200;
+const PARSER_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const ALWAYS_REMOVED = ['script', 'style', 'noscript'];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim().length > 0);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function isValidSelector(selector: string): boolean {
+  // Selector syntax can only be checked where a DOM is available
+  if (typeof document === 'undefined') return true;
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check an untrusted value against the definition schema, listing every problem found
+ */
+export function validateParserDefinition(value: unknown): ParserDefinition {
+  const errors: string[] = [];
+
+  if (!isRecord(value)) {
+    throw new Error('Invalid parser definition: expected a JSON object');
+  }
+
+  if (typeof value.id !== 'string' || !PARSER_ID_PATTERN.test(value.id)) {
+    errors.push('"id" must use lowercase letters, numbers and dashes');
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    errors.push('"name" is required');
+  }
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    errors.push('"description" must be a string');
+  }
+  if (!isStringArray(value.domains) || value.domains.length === 0) {
+    errors.push('"domains" must list at least one domain');
+  }
+
+  if (!isRecord(value.selectors)) {
+    errors.push('"selectors" is required');
+  } else {
+    const selectors = value.selectors;
+    (['chapterLinks', 'chapterContent'] as const).forEach(key => {
+      if (!isStringArray(selectors[key]) || selectors[key].length === 0) {
+        errors.push(`"selectors.${key}" must list at least one selector`);
+      }
+    });
+    Object.entries(selectors).forEach(([key, list]) => {
+      if (!isStringArray(list)) {
+        errors.push(`"selectors.${key}" must be a list of selectors`);
+        return;
+      }
+      list.filter(selector => !isValidSelector(selector)).forEach(selector => {
+        errors.push(`"selectors.${key}" has an invalid selector: ${selector}`);
+      });
+    });
+  }
+
+  if (value.urlPatterns !== undefined) {
+    if (!isRecord(value.urlPatterns)) {
+      errors.push('"urlPatterns" must be an object');
+    } else {
+      Object.entries(value.urlPatterns).forEach(([key, pattern]) => {
+        if (typeof pattern !== 'string' || !isValidPattern(pattern)) {
+          errors.push(`"urlPatterns.${key}" must be a valid regular expression`);
+        }
+      });
+    }
+  }
+
+  if (value.pagination !== undefined) {
+    const pagination = value.pagination;
+    if (!isRecord(pagination) || !isStringArray(pagination.nextPage) || pagination.nextPage.length === 0) {
+      errors.push('"pagination.nextPage" must list at least one selector');
+    } else if (pagination.maxPages !== undefined
+      && (typeof pagination.maxPages !== 'number' || pagination.maxPages < 1 || pagination.maxPages > MAX_PAGES_LIMIT)) {
+      errors.push(`"pagination.maxPages" must be between 1 and ${MAX_PAGES_LIMIT}`);
+    }
+  }
+
+  if (value.chapterOrder !== undefined && value.chapterOrder !== 'oldest-first' && value.chapterOrder !== 'newest-first') {
+    errors.push('"chapterOrder" must be "oldest-first" or "newest-first"');
+  }
+
+  if (value.rateLimit !== undefined) {
+    const rateLimit = value.rateLimit;
+    if (!isRecord(rateLimit)
+      || typeof rateLimit.requestsPerMinute !== 'number' || rateLimit.requestsPerMinute < 1
+      || typeof rateLimit.delayBetweenRequests !== 'number' || rateLimit.delayBetweenRequests < 0) {
+      errors.push('"rateLimit" needs requestsPerMinute of at least 1 and a non-negative delayBetweenRequests');
+    }
+  }
+
+  if (value.language !== undefined && typeof value.language !== 'string') {
+    errors.push('"language" must be a string');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid parser definition: ${errors.join('; ')}`);
+  }
+
+  return value as unknown as ParserDefinition;
+}
+
+/**
+ * Parse and validate definition JSON as typed by the user
+ */
+export function parseParserDefinition(json: string): ParserDefinition {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid parser definition: not valid JSON (${error instanceof Error ? error.message : error})`);
+  }
+  return validateParserDefinition(value);
+}
+
+export class ConfigurableParser extends BaseParser {
+  id: string;
+  config: ParserConfig;
+  selectors: ParserSelectors;
+
+  private bookIdPattern: RegExp | null;
+  private chapterIdPattern: RegExp | null;
+
+  constructor(readonly definition: ParserDefinition) {
+    super();
+
+    const selectors = definition.selectors;
+    this.id = definition.id;
+    this.config = {
+      enabled: true,
+      name: definition.name,
+      description: definition.description || `Custom parser for ${definition.domains.join(', ')}`,
+      supportedDomains: definition.domains,
+      rateLimit: definition.rateLimit ?? DEFAULT_RATE_LIMIT,
+      userAgent: 'Readiwi/4.0 Book Reader'
+    };
+    this.selectors = {
+      title: selectors.title ?? ['h1'],
+      author: selectors.author ?? [],
+      description: selectors.description ?? [],
+      coverImage: selectors.coverImage ?? [],
+      tags: selectors.tags ?? [],
+      status: selectors.status ?? [],
+      chapterLinks: selectors.chapterLinks,
+      chapterTitle: selectors.chapterTitle ?? ['h1', 'h2'],
+      chapterContent: selectors.chapterContent,
+      removeSelectors: [...ALWAYS_REMOVED, ...(selectors.removeSelectors ?? [])]
+    };
+    this.bookIdPattern = definition.urlPatterns?.bookId ? new RegExp(definition.urlPatterns.bookId) : null;
+    this.chapterIdPattern = definition.urlPatterns?.chapterId ? new RegExp(definition.urlPatterns.chapterId) : null;
+  }
+
+  canParse(url: string): boolean {
+    try {
+      const urlObj = new URL(url);
+      return this.config.supportedDomains.some(domain =>
+        urlObj.hostname === domain || urlObj.hostname.endsWith(`.${domain}`)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  extractBookId(url: string): string | null {
+    const match = this.bookIdPattern ? url.match(this.bookIdPattern) : null;
+    return match?.[1] ?? null;
+  }
+
+  extractChapterId(url: string): string | null {
+    if (!this.chapterIdPattern) {
+      return super.extractChapterId(url);
+    }
+    return url.match(this.chapterIdPattern)?.[1] ?? null;
+  }
+
+  protected parseBookMetadata(html: string, url: string): ParsedBookMetadata {
+    const doc = this.parseHtml(html);
+
+    const title = this.readValue(doc, this.selectors.title) || 'Unknown Title';
+    const author = this.readValue(doc, this.selectors.author) || 'Unknown Author';
+    const description = this.readValue(doc, this.selectors.description) || 'No description available.';
+    const coverUrl = this.readCoverUrl(doc, url);
+    const tags = this.extractAllTextBySelectors(doc, this.selectors.tags);
+
+    const statusText = this.readValue(doc, this.selectors.status)?.toLowerCase();
+    const status: 'ongoing' | 'completed' | 'hiatus' =
+      statusText?.includes('complete') ? 'completed' :
+      statusText?.includes('hiatus') ? 'hiatus' : 'ongoing';
+
+    return {
+      title,
+      author,
+      description,
+      ...(coverUrl && { coverUrl }),
+      tags,
+      status,
+      language: this.definition.language || 'en'
+    };
+  }
+
+  protected parseChapterUrls(html: string, url: string): string[] {
+    const urls = this.collectChapterLinks(this.parseHtml(html), url);
+    return this.definition.chapterOrder === 'newest-first' ? urls.reverse() : urls;
+  }
+
+  /**
+   * Collect chapter links across every page of a paginated chapter list
+   */
+  protected async resolveChapterUrls(html: string, url: string, fetchOptions: FetchPageOptions, context: ParseContext): Promise<string[]> {
+    const pagination = this.definition.pagination;
+    const maxPages = pagination?.maxPages ?? DEFAULT_MAX_PAGES;
+    const chapterUrls: string[] = [];
+    const visitedPages = new Set([url]);
+
+    let pageHtml = html;
+    let pageUrl = url;
+
+    for (let page = 1; ; page++) {
+      const doc = this.parseHtml(pageHtml);
+      this.collectChapterLinks(doc, pageUrl).forEach(chapterUrl => {
+        if (!chapterUrls.includes(chapterUrl)) chapterUrls.push(chapterUrl);
+      });
+
+      if (!pagination || page >= maxPages) break;
+
+      const nextPage = this.findLink(doc, pagination.nextPage, pageUrl);
+      if (!nextPage || visitedPages.has(nextPage)) break;
+
+      visitedPages.add(nextPage);
+      this.notifyProgress({
+        status: 'fetching',
+        completedChapters: 0,
+        totalChapters: 0,
+        currentChapter: `Loading chapter list page ${page + 1}`
+      }, context);
+
+      pageHtml = await this.fetchWithRateLimit(nextPage, BOOK_PAGE_CACHE_TTL, fetchOptions);
+      pageUrl = nextPage;
+    }
+
+    return this.definition.chapterOrder === 'newest-first' ? chapterUrls.reverse() : chapterUrls;
+  }
+
+  protected parseChapter(html: string, chapterNumber: number, url: string): ParsedChapter {
+    const doc = this.parseHtml(html);
+
+    const title = this.extractTextBySelectors(doc, this.selectors.chapterTitle) || `Chapter ${chapterNumber}`;
+
+    let contentElement: Element | null = null;
+    for (const selector of this.selectors.chapterContent) {
+      contentElement = doc.querySelector(selector);
+      if (contentElement) break;
+    }
+
+    if (!contentElement) {
+      throw new Error(`Chapter content not found in ${url}`);
+    }
+
+    const { content, htmlContent } = this.cleanContent(contentElement, url);
+
+    return {
+      title,
+      content,
+      htmlContent,
+      chapterNumber,
+      wordCount: countWords(content),
+      url
+    };
+  }
+
+  private collectChapterLinks(doc: Document, pageUrl: string): string[] {
+    for (const selector of this.selectors.chapterLinks) {
+      const links = Array.from(doc.querySelectorAll(selector))
+        .map(link => this.resolveHref(link.getAttribute('href'), pageUrl))
+        .filter((link): link is string => Boolean(link));
+
+      if (links.length > 0) {
+        return Array.from(new Set(links));
+      }
+    }
+    return [];
+  }
+
+  private findLink(doc: Document, selectors: string[], pageUrl: string): string | null {
+    for (const selector of selectors) {
+      const href = this.resolveHref(doc.querySelector(selector)?.getAttribute('href') ?? null, pageUrl);
+      if (href) return href;
+    }
+    return null;
+  }
+
+  /**
+   * Text of the first matching element, or its content attribute for <meta> tags
+   */
+  private readValue(doc: Document, selectors: string[]): string | null {
+    for (const selector of selectors) {
+      const element = doc.querySelector(selector);
+      const value = element?.getAttribute('content') ?? element?.textContent;
+      if (value?.trim()) return value.trim();
+    }
+    return null;
+  }
+
+  private readCoverUrl(doc: Document, pageUrl: string): string | null {
+    for (const selector of this.selectors.coverImage) {
+      const element = doc.querySelector(selector);
+      const src = element?.getAttribute('src') ?? element?.getAttribute('content') ?? element?.getAttribute('href') ?? null;
+      const resolved = this.resolveHref(src, pageUrl);
+      if (resolved) return resolved;
+    }
+    return null;
+  }
+
+  private resolveHref(href: string | null, baseUrl: string): string | null {
+    if (!href || href.startsWith('#') || /^javascript:/i.test(href)) return null;
+    try {
+      return new URL(href, baseUrl).href;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * EPUB Parser - Readiwi v4.0
+ * Reads local .epub files: OPF metadata, spine order, nav/NCX table of contents
+ * and embedded images
+ */
+
+import { strFromU8, unzipSync } from 'fflate';
+import { contentHash } from '@/core/utils/content-hash';
+import { getBlockText, getTextBlocks, sanitizeHtml } from '@/core/utils/html-sanitizer';
+import { countWords } from '@/plugins/statistics/services/reading-speed-service';
+import { ParsedBookImage, ParsedChapter, ParsedFileBook } from '../types/parser-types';
+
+interface ManifestItem {
+  id: string;
+  path: string; // Full path inside the archive
+  mediaType: string;
+  properties: string[];
+}
+
+const XHTML_TYPES = ['application/xhtml+xml', 'text/html'];
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+/**
+ * Resolve an href relative to the file that contains it
+ */
+function resolvePath(baseFile: string, href: string): string {
+  const [pathPart = ''] = href.split('#');
+  let decoded = pathPart;
+  try {
+    decoded = decodeURIComponent(pathPart);
+  } catch {
+    // A malformed escape such as a lone "%"; the raw path is the best guess
+  }
+  const parts = decoded.startsWith('/') ? [] : baseFile.split('/').slice(0, -1);
+
+  for (const segment of decoded.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+
+  return parts.join('/');
+}
+
+export class EpubParser {
+  /**
+   * Parse an EPUB archive into a book ready for the library save path
+   */
+  parse(data: Uint8Array, fileName: string, preserveFormatting: boolean = true): ParsedFileBook {
+    let files: Record<string, Uint8Array>;
+    try {
+      files = unzipSync(data);
+    } catch (error) {
+      throw new Error(`Not a valid EPUB file: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const readText = (path: string): string | null => {
+      const file = files[path];
+      return file ? strFromU8(file) : null;
+    };
+
+    const opfPath = this.findPackagePath(readText('META-INF/container.xml'));
+    const opfText = opfPath ? readText(opfPath) : null;
+    if (!opfPath || !opfText) {
+      throw new Error('EPUB package document (OPF) not found');
+    }
+
+    const opf = this.parseXml(opfText);
+    // The book's own identifier, so the same book is recognised whatever the file is called
+    const identifier = this.findIdentifier(opf);
+    const sourceUrl = identifier
+      ? `file:///epub/${encodeURIComponent(identifier)}`
+      : `file:///sha/${contentHash(data)}`;
+    const manifest = this.parseManifest(opf, opfPath);
+    const spine = this.parseSpine(opf, manifest);
+    const tocTitles = this.parseTableOfContents(opf, manifest, readText);
+
+    // Every embedded image goes to the image cache, keyed under the book's source URL
+    const imageUrl = (path: string) => `${sourceUrl}/${path}`;
+    const images: ParsedBookImage[] = Array.from(manifest.values())
+      .filter(item => item.mediaType.startsWith('image/') && files[item.path])
+      .map(item => ({ url: imageUrl(item.path), data: files[item.path]!, mediaType: item.mediaType }));
+
+    const chapters: ParsedChapter[] = [];
+    for (const item of spine) {
+      if (item.properties.includes('nav')) continue;
+
+      const html = readText(item.path);
+      if (!html) continue;
+
+      const doc = this.parseXhtml(html);
+      const body = doc.querySelector('body') ?? doc.documentElement;
+      const chapterNumber = chapters.length + 1;
+      const heading = body.querySelector('h1, h2, h3')?.textContent?.replace(/\s+/g, ' ').trim();
+      const title = tocTitles.get(item.path)
+        || heading
+        || doc.querySelector('title')?.textContent?.trim()
+        || `Chapter ${chapterNumber}`;
+
+      const { imageUrls, htmlContent, content } = this.readChapterBody(body, title, heading, src => {
+        const url = imageUrl(resolvePath(item.path, src));
+        return images.some(image => image.url === url) ? url : null;
+      });
+      if (!content) continue; // Cover and image-only pages
+
+      chapters.push({
+        title,
+        content,
+        ...(preserveFormatting && { htmlContent }),
+        chapterNumber,
+        wordCount: countWords(content),
+        url: `${sourceUrl}/${item.path}`,
+        sourceChapterId: item.path,
+        ...(imageUrls.length > 0 && { imageUrls }),
+      });
+    }
+
+    if (chapters.length === 0) {
+      throw new Error('No readable chapters found in EPUB');
+    }
+
+    const coverItem = this.findCoverItem(opf, manifest);
+    const coverUrl = coverItem && files[coverItem.path] ? imageUrl(coverItem.path) : undefined;
+    const fallbackTitle = fileName.replace(/\.epub$/i, '');
+
+    return {
+      title: this.metadataText(opf, 'title') || fallbackTitle,
+      author: this.metadataValues(opf, 'creator').join(', ') || 'Unknown Author',
+      description: this.stripMarkup(this.metadataText(opf, 'description')) || 'No description available.',
+      ...(coverUrl && { coverUrl }),
+      tags: this.metadataValues(opf, 'subject'),
+      status: 'completed',
+      language: this.metadataText(opf, 'language') || 'en',
+      chapters,
+      sourceUrl,
+      images,
+    };
+  }
+
+  private findPackagePath(containerXml: string | null): string | null {
+    if (!containerXml) return null;
+
+    const container = this.parseXml(containerXml);
+    const rootfile = container.getElementsByTagNameNS('*', 'rootfile')[0];
+    return rootfile?.getAttribute('full-path') ?? null;
+  }
+
+  private parseManifest(opf: Document, opfPath: string): Map<string, ManifestItem> {
+    const manifest = new Map<string, ManifestItem>();
+
+    for (const item of Array.from(opf.getElementsByTagNameNS('*', 'item'))) {
+      const id = item.getAttribute('id');
+      const href = item.getAttribute('href');
+      if (!id || !href) continue;
+
+      manifest.set(id, {
+        id,
+        path: resolvePath(opfPath, href),
+        mediaType: item.getAttribute('media-type') || '',
+        properties: (item.getAttribute('properties') || '').split(/\s+/).filter(Boolean),
+      });
+    }
+
+    return manifest;
+  }
+
+  private parseSpine(opf: Document, manifest: Map<string, ManifestItem>): ManifestItem[] {
+    return Array.from(opf.getElementsByTagNameNS('*', 'itemref'))
+      .filter(ref => ref.getAttribute('linear') !== 'no')
+      .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+      .filter((item): item is ManifestItem => Boolean(item && XHTML_TYPES.includes(item.mediaType)));
+  }
+
+  /**
+   * Map chapter file paths to their table-of-contents titles,
+   * preferring the EPUB 3 nav document and falling back to the NCX
+   */
+  private parseTableOfContents(
+    opf: Document,
+    manifest: Map<string, ManifestItem>,
+    readText: (path: string) => string | null
+  ): Map<string, string> {
+    const titles = new Map<string, string>();
+    const addTitle = (path: string, label: string | null | undefined) => {
+      const text = label?.replace(/\s+/g, ' ').trim();
+      // First entry wins when several anchors point into the same file
+      if (text && !titles.has(path)) titles.set(path, text);
+    };
+
+    const navItem = Array.from(manifest.values()).find(item => item.properties.includes('nav'));
+    const navText = navItem ? readText(navItem.path) : null;
+    if (navItem && navText) {
+      const nav = this.parseXhtml(navText);
+      const navElements = Array.from(nav.getElementsByTagNameNS('*', 'nav'));
+      const tocNav = navElements.find(el => (el.getAttribute('epub:type') || '').includes('toc')) ?? navElements[0];
+
+      tocNav?.querySelectorAll('a[href]').forEach(link => {
+        addTitle(resolvePath(navItem.path, link.getAttribute('href')!), link.textContent);
+      });
+
+      if (titles.size > 0) return titles;
+    }
+
+    const spineElement = opf.getElementsByTagNameNS('*', 'spine')[0];
+    const ncxItem = manifest.get(spineElement?.getAttribute('toc') || '')
+      ?? Array.from(manifest.values()).find(item => item.mediaType === 'application/x-dtbncx+xml');
+    const ncxText = ncxItem ? readText(ncxItem.path) : null;
+    if (ncxItem && ncxText) {
+      const ncx = this.parseXml(ncxText);
+      for (const navPoint of Array.from(ncx.getElementsByTagNameNS('*', 'navPoint'))) {
+        const label = navPoint.getElementsByTagNameNS('*', 'text')[0]?.textContent;
+        const src = navPoint.getElementsByTagNameNS('*', 'content')[0]?.getAttribute('src');
+        if (src) addTitle(resolvePath(ncxItem.path, src), label);
+      }
+    }
+
+    return titles;
+  }
+
+  private findCoverItem(opf: Document, manifest: Map<string, ManifestItem>): ManifestItem | undefined {
+    // EPUB 3 marks the cover with a manifest property
+    const epub3Cover = Array.from(manifest.values()).find(item => item.properties.includes('cover-image'));
+    if (epub3Cover) return epub3Cover;
+
+    // EPUB 2 uses <meta name="cover" content="item-id"/>
+    const coverMeta = Array.from(opf.getElementsByTagNameNS('*', 'meta'))
+      .find(meta => meta.getAttribute('name') === 'cover');
+    const coverItem = manifest.get(coverMeta?.getAttribute('content') || '');
+    return coverItem?.mediaType.startsWith('image/') ? coverItem : undefined;
+  }
+
+  private metadataValues(opf: Document, name: string): string[] {
+    return Array.from(opf.getElementsByTagNameNS('*', name))
+      .map(el => el.textContent?.trim() || '')
+      .filter(Boolean);
+  }
+
+  private metadataText(opf: Document, name: string): string {
+    return this.metadataValues(opf, name)[0] || '';
+  }
+
+  /**
+   * The dc:identifier the package names as unique, or its first one
+   */
+  private findIdentifier(opf: Document): string {
+    const uniqueId = opf.documentElement.getAttribute('unique-identifier');
+    const identifiers = Array.from(opf.getElementsByTagNameNS('*', 'identifier'));
+    const identifier = identifiers.find(el => uniqueId && el.getAttribute('id') === uniqueId) ?? identifiers[0];
+    return identifier?.textContent?.trim() || '';
+  }
+
+  /**
+   * Sanitized chapter HTML and its text, with images pointing at their image
+   * cache keys; `imageKey` gives null for images the archive doesn't hold
+   */
+  private readChapterBody(
+    body: Element,
+    title: string,
+    heading: string | undefined,
+    imageKey: (src: string) => string | null
+  ): { htmlContent: string; content: string; imageUrls: string[] } {
+    const clone = body.cloneNode(true) as Element;
+    const imageUrls: string[] = [];
+
+    // SVG-wrapped pictures, common for full-page illustrations, become plain images
+    Array.from(clone.getElementsByTagNameNS('*', 'image')).forEach(image => {
+      const img = clone.ownerDocument.createElementNS(XHTML_NAMESPACE, 'img');
+      img.setAttribute('src', image.getAttribute('href') || image.getAttribute('xlink:href') || '');
+      (image.closest('svg') ?? image).replaceWith(img);
+    });
+
+    Array.from(clone.getElementsByTagNameNS('*', 'img')).forEach(img => {
+      const key = imageKey(img.getAttribute('src') || '');
+      if (!key) {
+        img.remove();
+        return;
+      }
+      img.setAttribute('src', key);
+      if (!imageUrls.includes(key)) imageUrls.push(key);
+    });
+
+    let sanitized = sanitizeHtml(clone);
+
+    // The reader shows the title itself, so drop a leading heading that repeats it
+    const root = new DOMParser().parseFromString(sanitized.html, 'text/html').body;
+    const [first] = getTextBlocks(root);
+    const firstText = first ? getBlockText(first).replace(/\s+/g, ' ').trim() : '';
+    if (first && (firstText === title || firstText === heading)) {
+      first.remove();
+      sanitized = sanitizeHtml(root);
+    }
+
+    return { htmlContent: sanitized.html, content: sanitized.text, imageUrls };
+  }
+
+  private stripMarkup(text: string): string {
+    return text.includes('<') ? sanitizeHtml(text).text : text;
+  }
+
+  private parseXml(text: string): Document {
+    if (typeof DOMParser === 'undefined') {
+      throw new Error('EPUB import requires browser environment with DOMParser');
+    }
+    return new DOMParser().parseFromString(text, 'application/xml');
+  }
+
+  /**
+   * Parse chapter markup strictly first, falling back to the forgiving HTML parser
+   */
+  private parseXhtml(text: string): Document {
+    const doc = this.parseXml(text);
+    if (doc.getElementsByTagName('parsererror').length === 0 && doc.querySelector('body')) {
+      return doc;
+    }
+    return new DOMParser().parseFromString(text, 'text/html');
+  }
+}
+
+export const epubParser = new EpubParser();
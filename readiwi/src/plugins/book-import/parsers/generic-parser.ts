@@ -0,0 +1,552 @@
+/**
+ * Generic Parser - Readiwi v4.0
+ * Heuristic fallback for sites without a dedicated parser: finds the main content
+ * by text density and the chapter list by repeated link patterns or "next chapter" links
+ */
+
+import { BaseParser, FetchPageOptions, ParseBookOptions, ParseContext, ParsedBook, ParsedBookMetadata, ParsedChapter, ParserConfig, ParserProgress, ParserSelectors } from '../types/parser-types';
+import { BOOK_PAGE_CACHE_TTL } from '../services/parser-cache-service';
+import { throwIfAborted } from '../services/download-pool';
+import { countWords } from '@/plugins/statistics/services/reading-speed-service';
+import { getBlockText, getTextBlocks, sanitizeHtml } from '@/core/utils/html-sanitizer';
+
+export interface GenericPageAnalysis {
+  confidence: number; // 0-1, how likely the import is to come out right
+  contentConfidence: number;
+  chapterListConfidence: number;
+  chapterUrls: string[];
+  nextChapterUrl: string | null;
+  warnings: string[];
+}
+
+interface ContentCandidate {
+  element: Element;
+  score: number;
+  textLength: number;
+  linkDensity: number;
+  paragraphCount: number;
+}
+
+interface LinkGroup {
+  urls: string[];
+  texts: string[];
+}
+
+interface GenericParseContext extends ParseContext {
+  // Pages fetched while following "next" links, handed back when the chapter is parsed
+  pageCache: Map<string, string>;
+  analysis: GenericPageAnalysis | null;
+  chapterConfidences: number[];
+}
+
+// Class/id hints borrowed from readability-style content scoring
+const POSITIVE_HINTS = /article|body|chapter|content|entry|main|novel|page|post|read|story|text/i;
+const NEGATIVE_HINTS = /ad-|ads|banner|breadcrumb|comment|footer|header|menu|meta|nav|pagination|related|share|sidebar|social|sponsor|widget/i;
+
+const CHAPTER_TEXT = /\b(chapter|ch\.?|episode|ep\.?|part|prologue|epilogue|interlude|volume|vol\.?)\b|^\s*\d+\b/i;
+const CHAPTER_PATH = /chapter|chap|ch[-_]?\d|episode|part[-_]?\d/i;
+const NEXT_TEXT = /^\s*(next(\s+chapter)?\s*[›»→>]*|[›»→]+)\s*$/i;
+
+// Elements that never hold chapter text
+const BOILERPLATE_SELECTORS = ['script', 'style', 'noscript', 'iframe', 'form', 'nav', 'header', 'footer', 'aside', 'button'];
+const TEXT_BLOCK_SELECTOR = 'p, pre, blockquote, div, td, li';
+const BLOCK_CHILD_SELECTOR = ':scope > p, :scope > div, :scope > section, :scope > article, :scope > table, :scope > ul, :scope > ol, :scope > pre, :scope > blockquote';
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_CHAPTER_LINKS = 3;
+const MAX_CRAWLED_CHAPTERS = 500;
+const UNKNOWN_SITE_CONFIDENCE = 0.5;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class GenericParser extends BaseParser<GenericParseContext> {
+  id = 'generic';
+
+  config: ParserConfig = {
+    enabled: true,
+    name: 'Any Website',
+    description: 'Automatic chapter and content detection for sites without a dedicated parser',
+    supportedDomains: ['*'],
+    fallback: true,
+    rateLimit: {
+      requestsPerMinute: 20,
+      delayBetweenRequests: 3000 // Unknown sites get a gentler pace
+    },
+    userAgent: 'Readiwi/4.0 Book Reader'
+  };
+
+  // Selectors are only a first guess; scoring decides when none of them match
+  selectors: ParserSelectors = {
+    title: ['meta[property="og:title"]', 'h1', 'title'],
+    author: ['meta[name="author"]', '[rel="author"]', '[itemprop="author"]', '.author'],
+    description: ['meta[property="og:description"]', 'meta[name="description"]'],
+    coverImage: ['meta[property="og:image"]'],
+    tags: ['meta[name="keywords"]'],
+    status: [],
+    chapterLinks: [],
+    chapterTitle: ['h1', 'h2', '.chapter-title', 'title'],
+    chapterContent: [],
+    removeSelectors: [...BOILERPLATE_SELECTORS, '.ads', '.advertisement', '.comments', '.share', '.social']
+  };
+
+  canParse(url: string): boolean {
+    try {
+      const { protocol } = new URL(url);
+      return protocol === 'http:' || protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  extractBookId(url: string): string | null {
+    try {
+      const urlObj = new URL(url);
+      return `${urlObj.hostname}${urlObj.pathname}`.replace(/\/$/, '');
+    } catch {
+      return null;
+    }
+  }
+
+  getConfidence(url: string, html?: string): number {
+    if (!this.canParse(url)) return 0;
+    return html ? this.analyzePage(html, url).confidence : UNKNOWN_SITE_CONFIDENCE;
+  }
+
+  async parseBook(
+    url: string,
+    progressCallback?: (progress: ParserProgress) => void,
+    options: ParseBookOptions = {}
+  ): Promise<ParsedBook> {
+    const context = this.createParseContext(progressCallback);
+    const book = await this.parseBookWithContext(url, options, context);
+    return { ...book, confidence: this.bookConfidence(context) };
+  }
+
+  protected createParseContext(onProgress?: (progress: ParserProgress) => void): GenericParseContext {
+    return { onProgress, pageCache: new Map(), analysis: null, chapterConfidences: [] };
+  }
+
+  /**
+   * Score a page for chapter list, next link and main content
+   */
+  analyzePage(html: string, url: string): GenericPageAnalysis {
+    const doc = this.parseHtml(html);
+    const warnings: string[] = [];
+
+    const chapterList = this.findChapterList(doc, url);
+    const nextChapterUrl = this.findNextChapterUrl(doc, url);
+
+    this.stripBoilerplate(doc);
+    const content = this.findMainContent(doc);
+    const contentConfidence = content ? this.contentConfidence(content) : 0;
+
+    let confidence: number;
+    if (chapterList.urls.length > 0) {
+      confidence = chapterList.confidence;
+    } else if (nextChapterUrl) {
+      warnings.push('No chapter list found; chapters will be discovered by following "next chapter" links');
+      confidence = 0.2 + contentConfidence * 0.6;
+    } else {
+      warnings.push('No chapter list or next chapter link found; the page will be imported as a single chapter');
+      confidence = contentConfidence * 0.5;
+    }
+
+    if (contentConfidence < 0.5 && chapterList.urls.length === 0) {
+      warnings.push('The main text on this page is short or link-heavy');
+    }
+
+    return {
+      confidence: round(confidence),
+      contentConfidence: round(contentConfidence),
+      chapterListConfidence: round(chapterList.confidence),
+      chapterUrls: chapterList.urls,
+      nextChapterUrl,
+      warnings,
+    };
+  }
+
+  protected parseBookMetadata(html: string, url: string): ParsedBookMetadata {
+    const doc = this.parseHtml(html);
+    const meta = (selector: string) => doc.querySelector(selector)?.getAttribute('content')?.trim() || null;
+
+    const pageTitle = this.stripSiteName(doc.querySelector('title')?.textContent || '');
+    const metaAuthor = meta('meta[name="author"]');
+
+    this.stripBoilerplate(doc);
+    const title = meta('meta[property="og:title"]')
+      || doc.querySelector('h1')?.textContent?.trim()
+      || pageTitle
+      || 'Unknown Title';
+
+    const author = metaAuthor
+      || this.extractTextBySelectors(doc, this.selectors.author.slice(1))
+      || 'Unknown Author';
+
+    const description = meta('meta[property="og:description"]')
+      || meta('meta[name="description"]')
+      || 'No description available.';
+
+    const coverUrl = this.resolveUrl(meta('meta[property="og:image"]'), url) ?? undefined;
+    const tags = (meta('meta[name="keywords"]') || '')
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(Boolean)
+      .slice(0, 10);
+    const language = (doc.documentElement.getAttribute('lang') || 'en').split('-')[0]!.toLowerCase();
+
+    return {
+      title,
+      author,
+      description,
+      ...(coverUrl && { coverUrl }),
+      tags,
+      status: 'ongoing', // Unknown sites rarely mark completion in a detectable way
+      language
+    };
+  }
+
+  protected parseChapterUrls(html: string, url: string): string[] {
+    return this.findChapterList(this.parseHtml(html), url).urls;
+  }
+
+  protected async resolveChapterUrls(
+    html: string,
+    url: string,
+    fetchOptions: FetchPageOptions,
+    context: GenericParseContext
+  ): Promise<string[]> {
+    const analysis = this.analyzePage(html, url);
+    context.analysis = analysis;
+    analysis.warnings.forEach(warning => console.warn(`Generic parser: ${warning}`));
+
+    if (analysis.chapterUrls.length > 0) {
+      return analysis.chapterUrls;
+    }
+
+    // The page is a chapter itself; keep it for parsing and walk the "next" links
+    context.pageCache.set(url, html);
+    return await this.crawlNextChapters(url, analysis.nextChapterUrl, fetchOptions, context);
+  }
+
+  protected parseChapter(html: string, chapterNumber: number, url: string, context: GenericParseContext): ParsedChapter {
+    const doc = this.parseHtml(html);
+    const pageTitle = this.stripSiteName(doc.querySelector('title')?.textContent || '');
+
+    // Site headers often carry their own <h1>, so look for the heading once they are gone
+    this.stripBoilerplate(doc);
+    const heading = this.extractTextBySelectors(doc, ['h1', 'h2', '.chapter-title']);
+    const title = heading || pageTitle || `Chapter ${chapterNumber}`;
+
+    const candidate = this.findMainContent(doc);
+    if (!candidate) {
+      throw new Error(`Chapter content not found in ${url}`);
+    }
+
+    context.chapterConfidences.push(this.contentConfidence(candidate));
+
+    const { content, htmlContent } = this.withoutHeading(this.cleanContent(candidate.element, url), heading);
+
+    return {
+      title,
+      content,
+      htmlContent,
+      chapterNumber,
+      wordCount: countWords(content),
+      url
+    };
+  }
+
+  protected takeFetchedPage(url: string, context: GenericParseContext): string | undefined {
+    const cached = context.pageCache.get(url);
+    context.pageCache.delete(url);
+    return cached;
+  }
+
+  /**
+   * Follow "next chapter" links from the first chapter, stopping at loops or the crawl limit
+   */
+  private async crawlNextChapters(
+    firstUrl: string,
+    nextUrl: string | null,
+    fetchOptions: FetchPageOptions,
+    context: GenericParseContext
+  ): Promise<string[]> {
+    const chapterUrls = [firstUrl];
+    const seen = new Set([firstUrl]);
+    let current = nextUrl;
+
+    while (current && !seen.has(current) && chapterUrls.length < MAX_CRAWLED_CHAPTERS) {
+      this.notifyProgress({
+        status: 'fetching',
+        completedChapters: 0,
+        totalChapters: 0,
+        currentChapter: `Discovering chapter ${chapterUrls.length + 1}`
+      }, context);
+
+      let html: string;
+      try {
+        // Each page's next link is how new chapters show up, so cache these like book pages
+        html = await this.fetchWithRateLimit(current, BOOK_PAGE_CACHE_TTL, fetchOptions);
+      } catch (error) {
+        throwIfAborted(fetchOptions.signal);
+        console.warn(`Stopped following next links at ${current}:`, error);
+        break;
+      }
+
+      context.pageCache.set(current, html);
+      chapterUrls.push(current);
+      seen.add(current);
+      current = this.findNextChapterUrl(this.parseHtml(html), current);
+    }
+
+    return chapterUrls;
+  }
+
+  /**
+   * Group same-site links by DOM position and URL shape; the largest chapter-like group wins
+   */
+  private findChapterList(doc: Document, pageUrl: string): { urls: string[]; confidence: number } {
+    const page = this.resolveUrl(pageUrl, pageUrl);
+    const pageHost = page ? new URL(page).hostname : '';
+    const groups = new Map<string, LinkGroup>();
+
+    doc.querySelectorAll('a[href]').forEach(anchor => {
+      const resolved = this.resolveUrl(anchor.getAttribute('href'), pageUrl);
+      if (!resolved || resolved === page) return;
+
+      const link = new URL(resolved);
+      if (link.hostname !== pageHost) return;
+
+      const key = `${this.domSignature(anchor)}|${this.urlShape(link)}`;
+      const group = groups.get(key) ?? { urls: [], texts: [] };
+      if (!group.urls.includes(resolved)) {
+        group.urls.push(resolved);
+        group.texts.push(anchor.textContent?.replace(/\s+/g, ' ').trim() || '');
+      }
+      groups.set(key, group);
+    });
+
+    let best: { group: LinkGroup; score: number; chapterRatio: number } | null = null;
+    for (const group of groups.values()) {
+      const count = group.urls.length;
+      const chapterRatio = group.urls.filter((url, i) =>
+        CHAPTER_TEXT.test(group.texts[i] || '') || CHAPTER_PATH.test(new URL(url).pathname)
+      ).length / count;
+      const numberRatio = group.urls.filter(url => /\d/.test(new URL(url).pathname + new URL(url).search)).length / count;
+
+      const isCandidate = count >= MIN_CHAPTER_LINKS || (count >= 2 && chapterRatio >= 0.5);
+      if (!isCandidate || chapterRatio === 0) continue;
+
+      const score = count * (0.5 + chapterRatio) * (0.5 + numberRatio / 2);
+      if (!best || score > best.score) {
+        best = { group, score, chapterRatio };
+      }
+    }
+
+    if (!best) {
+      return { urls: [], confidence: 0 };
+    }
+
+    const urls = this.orderOldestFirst(best.group);
+    const confidence = 0.4 + best.chapterRatio * 0.4 + Math.min(urls.length / 10, 1) * 0.2;
+
+    return { urls, confidence: Math.min(confidence, 1) };
+  }
+
+  /**
+   * Many sites list the newest chapter first; flip those lists into reading order
+   */
+  private orderOldestFirst(group: LinkGroup): string[] {
+    const numbers = group.urls.map((url, i) => {
+      const match = (group.texts[i] || '').match(/\d+/) || new URL(url).pathname.match(/(\d+)(?!.*\d)/);
+      return match ? parseInt(match[0], 10) : NaN;
+    }).filter(number => !isNaN(number));
+
+    const first = numbers[0];
+    const last = numbers[numbers.length - 1];
+    const isDescending = first !== undefined && last !== undefined && first > last;
+
+    return isDescending ? [...group.urls].reverse() : group.urls;
+  }
+
+  private findNextChapterUrl(doc: Document, pageUrl: string): string | null {
+    const relNext = doc.querySelector('link[rel~="next"][href], a[rel~="next"][href]');
+    const anchors = Array.from(doc.querySelectorAll('a[href]'));
+    const nextAnchor = relNext
+      ?? anchors.find(anchor => NEXT_TEXT.test(anchor.textContent || ''))
+      ?? anchors.find(anchor => /(^|[-_ ])next([-_ ]|$)/i.test(`${anchor.className} ${anchor.id}`));
+
+    const resolved = this.resolveUrl(nextAnchor?.getAttribute('href') ?? null, pageUrl);
+    if (!resolved || resolved === this.resolveUrl(pageUrl, pageUrl)) return null;
+
+    return new URL(resolved).hostname === new URL(pageUrl).hostname ? resolved : null;
+  }
+
+  /**
+   * Readability-style scoring: text blocks award points to their parent and grandparent,
+   * adjusted by class/id hints and penalised by link density
+   */
+  private findMainContent(doc: Document): ContentCandidate | null {
+    const root = doc.body;
+    if (!root) return null;
+
+    const scores = new Map<Element, number>();
+    const paragraphCounts = new Map<Element, number>();
+    const addScore = (element: Element | null, points: number) => {
+      if (!element) return;
+      if (!scores.has(element)) {
+        scores.set(element, this.initialScore(element));
+      }
+      scores.set(element, scores.get(element)! + points);
+    };
+
+    root.querySelectorAll(TEXT_BLOCK_SELECTOR).forEach(block => {
+      // Containers are scored through their children, not as paragraphs themselves
+      if (block.tagName !== 'P' && block.tagName !== 'PRE' && block.querySelector(BLOCK_CHILD_SELECTOR)) return;
+
+      const text = block.textContent?.replace(/\s+/g, ' ').trim() || '';
+      if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+      const points = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+      const parent = block.parentElement;
+      addScore(parent, points);
+      addScore(parent?.parentElement ?? null, points / 2);
+      if (parent) {
+        paragraphCounts.set(parent, (paragraphCounts.get(parent) ?? 0) + 1);
+      }
+    });
+
+    let best: ContentCandidate | null = null;
+    for (const [element, rawScore] of scores) {
+      const textLength = element.textContent?.replace(/\s+/g, ' ').trim().length ?? 0;
+      const linkDensity = this.linkDensity(element, textLength);
+      const score = rawScore * (1 - linkDensity);
+
+      if (!best || score > best.score) {
+        best = { element, score, textLength, linkDensity, paragraphCount: paragraphCounts.get(element) ?? 0 };
+      }
+    }
+
+    return best;
+  }
+
+  private initialScore(element: Element): number {
+    const hints = `${element.className} ${element.id}`;
+    let score = 0;
+
+    if (POSITIVE_HINTS.test(hints)) score += 25;
+    if (NEGATIVE_HINTS.test(hints)) score -= 25;
+
+    switch (element.tagName) {
+      case 'ARTICLE':
+      case 'MAIN':
+        score += 10;
+        break;
+      case 'DIV':
+      case 'SECTION':
+        score += 5;
+        break;
+      case 'PRE':
+      case 'TD':
+      case 'BLOCKQUOTE':
+        score += 3;
+        break;
+      case 'UL':
+      case 'OL':
+        score -= 3;
+        break;
+    }
+
+    return score;
+  }
+
+  private linkDensity(element: Element, textLength: number): number {
+    if (textLength === 0) return 1;
+    const linkLength = Array.from(element.querySelectorAll('a'))
+      .reduce((total, link) => total + (link.textContent?.replace(/\s+/g, ' ').trim().length ?? 0), 0);
+    return Math.min(linkLength / textLength, 1);
+  }
+
+  private contentConfidence(candidate: ContentCandidate): number {
+    const lengthFactor = Math.min(candidate.textLength / 2000, 1);
+    const paragraphFactor = Math.min(candidate.paragraphCount / 5, 1);
+    return lengthFactor * 0.5 + paragraphFactor * 0.3 + (1 - candidate.linkDensity) * 0.2;
+  }
+
+  private bookConfidence({ analysis, chapterConfidences }: GenericParseContext): number {
+    if (!analysis) return UNKNOWN_SITE_CONFIDENCE;
+    if (chapterConfidences.length === 0) return analysis.confidence;
+
+    const contentAverage = chapterConfidences.reduce((sum, value) => sum + value, 0) / chapterConfidences.length;
+    return round(Math.min(analysis.confidence, contentAverage));
+  }
+
+  /**
+   * Drop a leading block that repeats the heading, since the reader shows the title itself
+   */
+  private withoutHeading(cleaned: { content: string; htmlContent: string }, heading: string | null): { content: string; htmlContent: string } {
+    if (!heading) return cleaned;
+
+    const root = new DOMParser().parseFromString(cleaned.htmlContent, 'text/html').body;
+    const [first] = getTextBlocks(root);
+    if (!first || getBlockText(first).replace(/\s+/g, ' ').trim() !== heading) return cleaned;
+
+    first.remove();
+    const { html, text } = sanitizeHtml(root);
+    return { content: text, htmlContent: html };
+  }
+
+  private stripBoilerplate(doc: Document): void {
+    doc.querySelectorAll(BOILERPLATE_SELECTORS.join(', ')).forEach(el => el.remove());
+  }
+
+  /**
+   * Signature of an element's position in the page, e.g. "ul.chapter-list>li>a"
+   */
+  private domSignature(element: Element): string {
+    const parts: string[] = [];
+    let current: Element | null = element;
+
+    for (let depth = 0; current && depth < 4; depth++) {
+      const firstClass = current.classList[0];
+      parts.unshift(firstClass ? `${current.tagName.toLowerCase()}.${firstClass}` : current.tagName.toLowerCase());
+      current = current.parentElement;
+    }
+
+    return parts.join('>');
+  }
+
+  /**
+   * Normalise a URL so chapter links share a shape: numbers become "#" and slugs become "*"
+   */
+  private urlShape(url: URL): string {
+    const path = url.pathname
+      .split('/')
+      .map(segment => {
+        if (/\d/.test(segment)) return segment.replace(/\d+/g, '#');
+        if (/[-_]/.test(segment)) return '*';
+        return segment;
+      })
+      .join('/');
+    const params = Array.from(url.searchParams.keys()).sort().join('&');
+
+    return params ? `${path}?${params}` : path;
+  }
+
+  private resolveUrl(href: string | null, baseUrl: string): string | null {
+    if (!href || href.startsWith('#') || /^(javascript|mailto|tel):/i.test(href)) return null;
+
+    try {
+      const resolved = new URL(href, baseUrl);
+      if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return null;
+      resolved.hash = '';
+      return resolved.href;
+    } catch {
+      return null;
+    }
+  }
+
+  private stripSiteName(title: string): string {
+    return title.split(/\s+[|–—-]\s+/)[0]?.trim() || '';
+  }
+}
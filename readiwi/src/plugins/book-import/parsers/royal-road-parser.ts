@@ -3,8 +3,14 @@
  * Specialized parser for Royal Road web novels
  */
 
+import { Footnote } from '@/core/types/database';
+import { sanitizeHtml } from '@/core/utils/html-sanitizer';
+import { countWords } from '@/plugins/statistics/services/reading-speed-service';
 import { BaseParser, ParsedBookMetadata, ParsedChapter, ParserConfig, ParserSelectors } from '../types/parser-types';
 
+// Declarations that keep an element from being seen or read aloud
+const HIDING_DECLARATION = /(^|;)\s*(display\s*:\s*none|visibility\s*:\s*(hidden|collapse)|speak\s*:\s*(never|none)|font-size\s*:\s*0(px|em|rem|%)?|opacity\s*:\s*0)\s*(!important)?\s*(;|$)/i;
+
 export class RoyalRoadParser extends BaseParser {
   id = 'royal-road';
   
@@ -118,6 +124,12 @@ export class RoyalRoadParser extends BaseParser {
     return match?.[1] ?? null;
   }
   
+  extractChapterId(url: string): string | null {
+    // Royal Road chapter URLs look like /fiction/12345/slug/chapter/67890/chapter-slug
+    const match = url.match(/chapter\/(\d+)/);
+    return match?.[1] ?? null;
+  }
+  
   protected parseBookMetadata(html: string): ParsedBookMetadata {
     const doc = this.parseHtml(html);
     
@@ -273,9 +285,15 @@ export class RoyalRoadParser extends BaseParser {
       throw new Error(`Chapter content not found in ${url}`);
     }
     
+    const hiddenElementsRemoved = this.removeHiddenContent(doc, contentElement);
+    if (hiddenElementsRemoved > 0) {
+      console.log(`Removed ${hiddenElementsRemoved} hidden elements from chapter ${chapterNumber}`);
+    }
+    
     // Clean and extract content
-    const content = this.cleanContent(contentElement);
-    const wordCount = this.calculateWordCount(content);
+    const { content, htmlContent } = this.cleanContent(contentElement, url);
+    const wordCount = countWords(content);
+    const footnotes = this.parseAuthorNotes(doc, contentElement, content.length);
     
     // Try to extract publish date
     const dateElement = doc.querySelector('[property="datePublished"]') || 
@@ -286,13 +304,77 @@ export class RoyalRoadParser extends BaseParser {
     return {
       title,
       content,
+      htmlContent,
       chapterNumber,
       wordCount,
       url,
+      ...(footnotes.length > 0 && { footnotes }),
+      ...(hiddenElementsRemoved > 0 && { hiddenElementsRemoved }),
       ...(publishedAt && !isNaN(publishedAt.getTime()) && { publishedAt })
     };
   }
   
+  /**
+   * Remove the hidden "stolen content" paragraphs planted in chapter text, hidden
+   * either by <style> rules on randomised class names or by inline styles.
+   * Returns how many were removed.
+   */
+  private removeHiddenContent(doc: Document, contentElement: Element): number {
+    const hidden = new Set<Element>();
+    
+    doc.querySelectorAll('style').forEach(style => {
+      this.getHidingSelectors(style.textContent || '').forEach(selector => {
+        try {
+          contentElement.querySelectorAll(selector).forEach(element => hidden.add(element));
+        } catch {
+          // Selectors the DOM can't match, such as pseudo-elements
+        }
+      });
+    });
+    contentElement.querySelectorAll('[style]').forEach(element => {
+      if (HIDING_DECLARATION.test(element.getAttribute('style') || '')) hidden.add(element);
+    });
+    
+    // Elements inside another hidden one go with it
+    const outermost = Array.from(hidden).filter(element =>
+      !Array.from(hidden).some(other => other !== element && other.contains(element))
+    );
+    outermost.forEach(element => element.remove());
+    return outermost.length;
+  }
+  
+  /**
+   * Selectors of the rules in a stylesheet that hide what they match
+   */
+  private getHidingSelectors(css: string): string[] {
+    const rules = Array.from(css.replace(/\/\*[\s\S]*?\*\//g, '').matchAll(/([^{}]+)\{([^{}]*)\}/g));
+    
+    return rules
+      .filter(([, , declarations]) => HIDING_DECLARATION.test((declarations ?? '').trim()))
+      .flatMap(([, selectors]) => (selectors ?? '').split(','))
+      .map(selector => selector.trim())
+      // Hover and focus rules hide things only some of the time
+      .filter(selector => selector && !selector.startsWith('@') && !/:(hover|focus|active|visited)/.test(selector));
+  }
+  
+  /**
+   * Author's notes before and after the chapter text, kept out of the text itself
+   */
+  private parseAuthorNotes(doc: Document, contentElement: Element, contentLength: number): Footnote[] {
+    return Array.from(doc.querySelectorAll('.author-note-portlet'))
+      .map((portlet, index): Footnote => {
+        const body = portlet.querySelector('.author-note, .portlet-body') ?? portlet;
+        const isBefore = Boolean(contentElement.compareDocumentPosition(portlet) & Node.DOCUMENT_POSITION_PRECEDING);
+        return {
+          id: `author-note-${index + 1}`,
+          position: isBefore ? 0 : contentLength,
+          content: sanitizeHtml(body).text,
+          type: 'author',
+        };
+      })
+      .filter(note => note.content !== '');
+  }
+  
   private parseWordCount(text: string): number | undefined {
     // Handle formats like "123,456 words" or "1.2M words" or "456k words"
     const match = text.match(/([\d,\.]+)\s*([kmKM])?\s*words?/i);
@@ -310,10 +392,6 @@ export class RoyalRoadParser extends BaseParser {
     return Math.round(number);
   }
   
-  private calculateWordCount(text: string): number {
-    return text.split(/\s+/).filter(word => word.length > 0).length;
-  }
-  
   /**
    * Preprocess DOM to clean up Royal Road specific issues (WebToEpub approach)
    */
@@ -0,0 +1,326 @@
+/**
+ * Text File Parser - Readiwi v4.0
+ * Reads local plain text, Markdown and single-file HTML books into blocks and
+ * splits them into chapters at their headings
+ */
+
+import { contentHash } from '@/core/utils/content-hash';
+import { escapeHtml, sanitizeHtml } from '@/core/utils/html-sanitizer';
+import { countWords } from '@/plugins/statistics/services/reading-speed-service';
+import { ChapterSplitOptions, ParsedChapter, ParsedFileBook, TextBlock, TextFileDocument, TextFileFormat } from '../types/parser-types';
+
+// Longer lines are prose, never headings
+const MAX_HEADING_LENGTH = 100;
+// Lines ending like a sentence are rarely headings, so aren't offered as split points
+const SENTENCE_END = /[.!?,;:…"'”’)\]]$/;
+
+const HEADING_TAG = /^<h([1-6])[\s>]/;
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.*)$/;
+const MARKDOWN_RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const MARKDOWN_LIST_ITEM = /^\s{0,3}([-*+]|\d+[.)])\s+(.*)$/;
+const MARKDOWN_QUOTE = /^\s{0,3}>\s?(.*)$/;
+
+/**
+ * Markdown emphasis, images and links as HTML; links keep only their text
+ */
+function renderMarkdownInline(text: string): string {
+  return escapeHtml(text)
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, '<img src="$2" alt="$1">')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|\W)__(?=\S)(.+?)(?<=\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '<em>$1</em>')
+    .replace(/(^|\W)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/\n/g, '<br>');
+}
+
+/**
+ * Join the lines of a Markdown paragraph; two trailing spaces or a backslash break the line
+ */
+function renderMarkdownLines(lines: string[]): string {
+  const text = lines
+    .map((line, index) => {
+      const hardBreak = index < lines.length - 1 && /( {2,}|\\)$/.test(line);
+      return line.replace(/\\$/, '').trim() + (hardBreak ? '\n' : '');
+    })
+    .join(' ')
+    .replace(/\n /g, '\n');
+
+  return renderMarkdownInline(text);
+}
+
+function isShortLine(text: string): boolean {
+  const line = text.trim();
+  return line.length > 0 && line.length <= MAX_HEADING_LENGTH && !line.includes('\n');
+}
+
+function compilePatterns(patterns: string[]): RegExp[] {
+  return patterns.flatMap(pattern => {
+    try {
+      return [new RegExp(pattern, 'i')];
+    } catch (error) {
+      console.warn(`Ignoring invalid chapter heading pattern ${pattern}:`, error);
+      return [];
+    }
+  });
+}
+
+export class TextFileParser {
+  /**
+   * Read a file's text into blocks, with split points detected from its headings
+   */
+  parse(text: string, fileName: string, format: TextFileFormat, options: ChapterSplitOptions): TextFileDocument {
+    const source = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    const patterns = options.autoDetect ? compilePatterns(options.headingPatterns) : [];
+
+    let title = '';
+    let author = 'Unknown Author';
+    let language = 'en';
+    let blocks: TextBlock[];
+
+    if (format === 'html') {
+      const doc = new DOMParser().parseFromString(source, 'text/html');
+      title = doc.querySelector('title')?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+      author = doc.querySelector('meta[name="author"]')?.getAttribute('content')?.trim() || author;
+      language = doc.documentElement.getAttribute('lang')?.trim() || language;
+      blocks = this.readBlocks(this.htmlToBlocks(doc.body));
+    } else if (format === 'markdown') {
+      blocks = this.readBlocks(this.markdownToBlocks(source));
+    } else {
+      blocks = this.textToBlocks(source, patterns);
+    }
+
+    // A single top-level heading at the start is the book's title, not a chapter
+    const [first] = blocks;
+    if (first?.headingLevel === 1 && !blocks.some((block, index) => index > 0 && block.headingLevel === 1)) {
+      title = title || first.text;
+      blocks = blocks.slice(1);
+    }
+
+    if (!blocks.some(block => block.text)) {
+      throw new Error('No readable text found in file');
+    }
+
+    return {
+      title: title || fileName.replace(/\.[^.]+$/, ''),
+      author,
+      language,
+      format,
+      // Keyed on the content, so different books sharing a file name both import
+      sourceUrl: `file:///sha/${contentHash(source)}`,
+      blocks,
+      splitPoints: this.detectSplitPoints(blocks, options),
+    };
+  }
+
+  /**
+   * Blocks that start a chapter: headings at the chosen level or above, and
+   * short lines matching one of the heading patterns
+   */
+  detectSplitPoints(blocks: TextBlock[], options: ChapterSplitOptions): number[] {
+    if (!options.autoDetect) return [];
+
+    const patterns = compilePatterns(options.headingPatterns);
+    return blocks.flatMap((block, index) => {
+      const isHeading = (block.headingLevel !== undefined && block.headingLevel <= options.headingLevel)
+        || (isShortLine(block.text) && patterns.some(pattern => pattern.test(block.text.trim())));
+      return isHeading ? [index] : [];
+    });
+  }
+
+  /**
+   * Blocks worth offering as split points: any heading, the current split
+   * points, and short lines that don't read like part of a sentence
+   */
+  getSplitCandidates(document: TextFileDocument): number[] {
+    const splitPoints = new Set(document.splitPoints);
+
+    return document.blocks.flatMap((block, index) => {
+      const isCandidate = splitPoints.has(index)
+        || block.headingLevel !== undefined
+        || (isShortLine(block.text) && !SENTENCE_END.test(block.text.trim()));
+      return isCandidate ? [index] : [];
+    });
+  }
+
+  /**
+   * Build the book from a document's split points. A short block a chapter
+   * starts at becomes its title; text before the first split is front matter.
+   */
+  buildBook(document: TextFileDocument, preserveFormatting: boolean = true): ParsedFileBook {
+    const { blocks } = document;
+    const splitPoints = new Set(document.splitPoints.filter(index => index >= 0 && index < blocks.length));
+    const starts = [0, ...Array.from(splitPoints).filter(index => index > 0).sort((a, b) => a - b)];
+
+    const chapters: ParsedChapter[] = [];
+    starts.forEach((start, position) => {
+      const end = starts[position + 1] ?? blocks.length;
+      const section = blocks.slice(start, end);
+      const heading = splitPoints.has(start) && isShortLine(section[0]?.text ?? '') ? section.shift()! : null;
+
+      const chapterNumber = chapters.length + 1;
+      const { content, htmlContent } = this.renderSection(section, document.format);
+      if (!content) return; // e.g. a table of contents entry
+
+      const title = heading?.text.replace(/\s+/g, ' ').trim()
+        || (starts.length === 1 ? document.title : splitPoints.has(start) ? `Chapter ${chapterNumber}` : 'Front Matter');
+
+      chapters.push({
+        title,
+        content,
+        ...(preserveFormatting && htmlContent && { htmlContent }),
+        chapterNumber,
+        wordCount: countWords(content),
+        url: `${document.sourceUrl}#block-${start}`,
+        sourceChapterId: `block-${start}`,
+      });
+    });
+
+    if (chapters.length === 0) {
+      throw new Error('No readable chapters found in file');
+    }
+
+    return {
+      title: document.title,
+      author: document.author,
+      description: 'No description available.',
+      tags: [],
+      status: 'completed',
+      language: document.language,
+      chapters,
+      sourceUrl: document.sourceUrl,
+      images: [],
+    };
+  }
+
+  private renderSection(section: TextBlock[], format: TextFileFormat): { content: string; htmlContent?: string } {
+    // Plain text has no formatting to keep
+    if (format === 'text') {
+      return { content: section.map(block => block.text).filter(Boolean).join('\n\n') };
+    }
+
+    const { html, text } = sanitizeHtml(section.map(block => block.html).join(''));
+    return { content: text, htmlContent: html };
+  }
+
+  /**
+   * Most plain-text books leave a blank line between paragraphs and wrap the
+   * lines within them; others put each paragraph on a line of its own
+   */
+  private textToBlocks(text: string, patterns: RegExp[]): TextBlock[] {
+    const paragraphs = /\n[ \t]*\n/.test(text)
+      ? text.split(/\n[ \t]*\n/).flatMap(paragraph => {
+          const lines = paragraph.split('\n').map(line => line.trim()).filter(Boolean);
+          // A heading directly above its first paragraph, without a blank line between
+          const [first, ...rest] = lines;
+          if (first && rest.length > 0 && isShortLine(first) && patterns.some(pattern => pattern.test(first))) {
+            return [first, rest.join(' ')];
+          }
+          return [lines.join(' ')];
+        })
+      : text.split('\n').map(line => line.trim());
+
+    return paragraphs
+      .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .map(paragraph => ({ html: `<p>${escapeHtml(paragraph)}</p>`, text: paragraph }));
+  }
+
+  private markdownToBlocks(markdown: string): string[] {
+    const blocks: string[] = [];
+    let paragraph: string[] = [];
+    let quote: string[] = [];
+    let list: { ordered: boolean; items: string[] } | null = null;
+
+    const flush = () => {
+      if (paragraph.length > 0) {
+        blocks.push(`<p>${renderMarkdownLines(paragraph)}</p>`);
+        paragraph = [];
+      }
+      if (quote.length > 0) {
+        blocks.push(`<blockquote><p>${renderMarkdownLines(quote)}</p></blockquote>`);
+        quote = [];
+      }
+      if (list) {
+        const tag = list.ordered ? 'ol' : 'ul';
+        blocks.push(`<${tag}>${list.items.map(item => `<li>${renderMarkdownInline(item)}</li>`).join('')}</${tag}>`);
+        list = null;
+      }
+    };
+
+    for (const line of markdown.split('\n')) {
+      if (!line.trim()) {
+        flush();
+        continue;
+      }
+
+      const heading = line.match(MARKDOWN_HEADING);
+      if (heading) {
+        flush();
+        const level = heading[1]!.length;
+        const text = heading[2]!.replace(/\s+#+\s*$/, '').trim();
+        blocks.push(`<h${level}>${renderMarkdownInline(text)}</h${level}>`);
+        continue;
+      }
+
+      if (MARKDOWN_RULE.test(line)) {
+        flush();
+        blocks.push('<hr>');
+        continue;
+      }
+
+      const item = line.match(MARKDOWN_LIST_ITEM);
+      if (item) {
+        const ordered = /\d/.test(item[1]!);
+        if (paragraph.length > 0 || quote.length > 0 || (list && list.ordered !== ordered)) flush();
+        list = list ?? { ordered, items: [] };
+        list.items.push(item[2]!.trim());
+        continue;
+      }
+
+      const quoted = line.match(MARKDOWN_QUOTE);
+      if (quoted) {
+        if (paragraph.length > 0 || list) flush();
+        quote.push(quoted[1]!);
+        continue;
+      }
+
+      // Lines continue whatever block came before them
+      if (list) {
+        list.items[list.items.length - 1] += ` ${line.trim()}`;
+      } else if (quote.length > 0) {
+        quote.push(line);
+      } else {
+        paragraph.push(line);
+      }
+    }
+    flush();
+
+    return blocks;
+  }
+
+  /**
+   * Top-level blocks of the sanitized page, looking inside wrappers that hold headings
+   */
+  private htmlToBlocks(body: Element): string[] {
+    const root = new DOMParser().parseFromString(sanitizeHtml(body).html, 'text/html').body;
+    const collect = (container: Element): Element[] => Array.from(container.children).flatMap(child =>
+      child.localName === 'div' && child.querySelector('h1, h2, h3, h4, h5, h6') ? collect(child) : [child]
+    );
+
+    return collect(root).map(element => element.outerHTML);
+  }
+
+  private readBlocks(blockHtml: string[]): TextBlock[] {
+    return blockHtml.flatMap(html => {
+      const sanitized = sanitizeHtml(html);
+      // Scene breaks and pictures have no text but still belong to the chapter
+      if (!sanitized.text && !/<(hr|img)\b/.test(sanitized.html)) return [];
+
+      const level = sanitized.html.match(HEADING_TAG)?.[1];
+      return [{ html: sanitized.html, text: sanitized.text, ...(level && { headingLevel: Number(level) }) }];
+    });
+  }
+}
+
+export const textFileParser = new TextFileParser();
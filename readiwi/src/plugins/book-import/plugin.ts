@@ -5,6 +5,7 @@
 
 import React from 'react';
 import { Plugin, ComponentRegistry, RouteRegistry, StoreRegistry, ServiceRegistry } from '@/core/types/plugin';
+import { parserDefinitionService } from './services/parser-definition-service';
 
 class BookImportPluginImpl implements Plugin {
   id = 'book-import';
@@ -14,6 +15,7 @@ class BookImportPluginImpl implements Plugin {
   enabled = true;
 
   async initialize(): Promise<void> {
+    await parserDefinitionService.loadDefinitions();
     console.log('Book Import plugin initialized');
   }
 
@@ -0,0 +1,213 @@
+/**
+ * Book Update Service Tests - Readiwi v4.0
+ * Testing that serialized books pick up new chapters without re-importing
+ */
+
+import { BookStatus } from '@/core/types/database';
+import { ParseBookOptions, ParsedChapter, ParserProgress } from '../../types/parser-types';
+
+jest.mock('../parser-registry', () => ({
+  parserRegistry: {
+    parseBook: jest.fn(),
+    findParserForUrl: jest.fn(),
+    isUrlSupported: jest.fn(),
+  },
+}));
+
+jest.mock('../parser-definition-service', () => ({
+  parserDefinitionService: {
+    loadDefinitions: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('@/plugins/book-library/services/library-service', () => ({
+  libraryService: {
+    getBook: jest.fn(),
+    updateBook: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('@/plugins/reader/services/reader-service', () => ({
+  readerService: {
+    saveChapters: jest.fn().mockResolvedValue(undefined),
+    getBookChapters: jest.fn(),
+  },
+}));
+
+jest.mock('@/plugins/statistics/services/reading-speed-service', () => ({
+  readingSpeedService: {
+    estimateBookMinutes: jest.fn(async (_bookId: number, words: number) => Math.ceil(words / 2)),
+  },
+}));
+
+import { bookUpdateService } from '../book-update-service';
+import { parserRegistry } from '../parser-registry';
+import { libraryService } from '@/plugins/book-library/services/library-service';
+import { readerService } from '@/plugins/reader/services/reader-service';
+import { readingSpeedService } from '@/plugins/statistics/services/reading-speed-service';
+import { RoyalRoadParser } from '../../parsers/royal-road-parser';
+
+const mockParseBook = parserRegistry.parseBook as jest.Mock;
+const mockGetBook = libraryService.getBook as jest.Mock;
+const mockUpdateBook = libraryService.updateBook as jest.Mock;
+const mockSaveChapters = readerService.saveChapters as jest.Mock;
+const mockGetBookChapters = readerService.getBookChapters as jest.Mock;
+
+const BOOK_URL = 'https://www.royalroad.com/fiction/12345/test-book';
+const chapterUrl = (id: number) => `https://www.royalroad.com/fiction/12345/test-book/chapter/${id}/part-${id}`;
+
+const storedChapter = (chapterNumber: number, sourceId?: number) => ({
+  id: chapterNumber,
+  bookId: 7,
+  title: `Chapter ${chapterNumber}`,
+  content: 'Stored content',
+  chapterNumber,
+  wordCount: 2,
+  estimatedReadingTime: 1,
+  ...(sourceId && { sourceChapterId: String(sourceId), sourceUrl: chapterUrl(sourceId) }),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+/**
+ * Simulate a parser walking the source chapter list and honouring the skip hook
+ */
+const simulateSource = (sourceIds: number[], fetched: string[]) =>
+  async (_url: string, _onProgress?: (progress: ParserProgress) => void, options: ParseBookOptions = {}) => {
+    const chapters: ParsedChapter[] = [];
+    for (let i = 0; i < sourceIds.length; i++) {
+      const url = chapterUrl(sourceIds[i]!);
+      if (options.shouldFetchChapter && !options.shouldFetchChapter(url, i + 1)) continue;
+
+      fetched.push(url);
+      const chapter = {
+        title: `Source chapter ${sourceIds[i]}`,
+        content: 'New content here',
+        chapterNumber: i + 1,
+        wordCount: 3,
+        url,
+        sourceChapterId: String(sourceIds[i]),
+      };
+      await options.onChapterParsed?.(chapter);
+      chapters.push(chapter);
+    }
+    return { title: 'Serial', author: 'Author', description: '', tags: [], status: 'ongoing', chapters, sourceUrl: BOOK_URL };
+  };
+
+describe('User Story: Check Serialized Books for New Chapters', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (parserRegistry.findParserForUrl as jest.Mock).mockReturnValue(new RoyalRoadParser());
+    (parserRegistry.isUrlSupported as jest.Mock).mockImplementation((url: string) => url.includes('royalroad.com'));
+    mockGetBook.mockResolvedValue({
+      id: 7,
+      title: 'Serial',
+      sourceUrl: BOOK_URL,
+      status: BookStatus.READING,
+      newChapterCount: 0,
+    });
+  });
+
+  test('Only chapters missing from the library are fetched and appended', async () => {
+    // Given: A book with two chapters, and a source that now has three
+    mockGetBookChapters
+      .mockResolvedValueOnce([storedChapter(1, 101), storedChapter(2, 102)])
+      .mockResolvedValueOnce([storedChapter(1, 101), storedChapter(2, 102), storedChapter(3, 103)]);
+    const fetched: string[] = [];
+    mockParseBook.mockImplementation(simulateSource([101, 102, 103], fetched));
+
+    // When: Checking for updates
+    const result = await bookUpdateService.updateBook(7);
+
+    // Then: Only the new chapter was fetched and saved after the existing ones
+    expect(fetched).toEqual([chapterUrl(103)]);
+    expect(mockSaveChapters).toHaveBeenCalledWith(7, [
+      expect.objectContaining({ chapterNumber: 3, sourceChapterId: '103' }),
+    ]);
+    expect(result.newChapters).toBe(1);
+    expect(result.totalChapters).toBe(3);
+
+    // And: The book's reading time is re-estimated at the reader's own speed
+    expect(readingSpeedService.estimateBookMinutes).toHaveBeenCalledWith(7, 6);
+    expect(mockUpdateBook).toHaveBeenLastCalledWith(7, expect.objectContaining({ wordCount: 6, estimatedReadingTime: 3 }));
+  });
+
+  test('Chapters that failed during the import fill their gap instead of being appended', async () => {
+    // Given: A book whose chapter 3 could not be downloaded, and a source with a new chapter 5
+    mockGetBookChapters.mockResolvedValue([storedChapter(1, 101), storedChapter(2, 102), storedChapter(4, 104)]);
+    const fetched: string[] = [];
+    mockParseBook.mockImplementation(simulateSource([101, 102, 103, 104, 105], fetched));
+
+    // When: Checking for updates
+    await bookUpdateService.updateBook(7);
+
+    // Then: The missing chapter is saved in its reading position and the new one after the rest
+    expect(fetched).toEqual([chapterUrl(103), chapterUrl(105)]);
+    expect(mockSaveChapters).toHaveBeenNthCalledWith(1, 7, [
+      expect.objectContaining({ chapterNumber: 3, sourceChapterId: '103' }),
+    ]);
+    expect(mockSaveChapters).toHaveBeenNthCalledWith(2, 7, [
+      expect.objectContaining({ chapterNumber: 5, sourceChapterId: '105' }),
+    ]);
+  });
+
+  test('The book shows as updating while the check runs, then returns to its status', async () => {
+    // Given: A book that is up to date
+    mockGetBookChapters.mockResolvedValue([storedChapter(1, 101)]);
+    mockParseBook.mockImplementation(simulateSource([101], []));
+
+    // When: Checking for updates
+    const result = await bookUpdateService.updateBook(7);
+
+    // Then: Status went to UPDATING and back to the reading status
+    expect(mockUpdateBook).toHaveBeenNthCalledWith(1, 7, { status: BookStatus.UPDATING });
+    expect(mockUpdateBook).toHaveBeenLastCalledWith(7, expect.objectContaining({
+      status: BookStatus.READING,
+      newChapterCount: 0,
+    }));
+    expect(result.newChapters).toBe(0);
+  });
+
+  test('New chapters are matched by id even if earlier ones were removed from the source', async () => {
+    // Given: The author deleted chapter 101 and posted 103
+    mockGetBookChapters.mockResolvedValue([storedChapter(1, 101), storedChapter(2, 102)]);
+    const fetched: string[] = [];
+    mockParseBook.mockImplementation(simulateSource([102, 103], fetched));
+
+    // When: Checking for updates
+    await bookUpdateService.updateBook(7);
+
+    // Then: Only 103 is new
+    expect(fetched).toEqual([chapterUrl(103)]);
+  });
+
+  test('Books imported before source ids were stored fall back to chapter position', async () => {
+    // Given: Chapters without source ids
+    mockGetBookChapters.mockResolvedValue([storedChapter(1), storedChapter(2)]);
+    const fetched: string[] = [];
+    mockParseBook.mockImplementation(simulateSource([101, 102, 103, 104], fetched));
+
+    // When: Checking for updates
+    await bookUpdateService.updateBook(7);
+
+    // Then: Chapters past the stored count are new
+    expect(fetched).toEqual([chapterUrl(103), chapterUrl(104)]);
+  });
+
+  test('A failed check restores the book status and is reported per book', async () => {
+    // Given: The source is unreachable
+    mockGetBookChapters.mockResolvedValue([storedChapter(1, 101)]);
+    mockParseBook.mockRejectedValue(new Error('Failed to parse book: offline'));
+
+    // When: Checking several books
+    const results = await bookUpdateService.checkForUpdates([
+      { id: 7, title: 'Serial', sourceUrl: BOOK_URL },
+      { id: 8, title: 'Local book' },
+    ]);
+
+    // Then: Only the supported book was checked and its failure is reported
+    expect(results).toHaveLength(1);
+    expect(results[0]?.error).toContain('offline');
+    expect(mockUpdateBook).toHaveBeenLastCalledWith(7, { status: BookStatus.READING });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Download Pool Tests - Readiwi v4.0
+ * Testing that chapters download in parallel, politely, and that failures are reported
+ */
+
+import { TokenBucket, runPool, withRetry, withTimeout } from '../download-pool';
+import { FetchTransport } from '../fetch-transport';
+import { ConfigurableParser } from '../../parsers/configurable-parser';
+import { ParsedChapter } from '../../types/parser-types';
+
+const BOOK_URL = 'https://lotus-reads.example/novel/jade-river';
+const chapterUrl = (n: number) => `https://lotus-reads.example/c/${n}`;
+
+const createParser = () => new ConfigurableParser({
+  id: 'lotus-reads',
+  name: 'Lotus Reads',
+  domains: ['lotus-reads.example'],
+  selectors: { chapterLinks: ['ol.chapters a'], chapterContent: ['#text'] },
+  chapterOrder: 'oldest-first',
+  rateLimit: { requestsPerMinute: 600, delayBetweenRequests: 0 },
+});
+
+/**
+ * A site with five chapters where later chapters answer sooner, and chapter 3 always errors
+ */
+const createSite = () => {
+  let inFlight = 0;
+  const site = {
+    maxInFlight: 0,
+    requests: [] as string[],
+    transport: {
+      id: 'site',
+      name: 'Site',
+      isAvailable: () => true,
+      fetchPage: async (url: string) => {
+        site.requests.push(url);
+        inFlight++;
+        site.maxInFlight = Math.max(site.maxInFlight, inFlight);
+        try {
+          if (url === BOOK_URL) {
+            const links = [1, 2, 3, 4, 5].map(n => `<li><a href="/c/${n}">Chapter ${n}</a></li>`).join('');
+            return { text: `<h1>Jade River</h1><ol class="chapters">${links}</ol>`, notModified: false };
+          }
+          const n = Number(url.split('/').pop());
+          await new Promise(resolve => setTimeout(resolve, (6 - n) * 5));
+          if (n === 3) throw new Error('503 Service Unavailable');
+          return { text: `<div id="text">Chapter ${n} text</div>`, notModified: false };
+        } finally {
+          inFlight--;
+        }
+      },
+    } as FetchTransport,
+  };
+  return site;
+};
+
+describe('User Story: Download Chapters Quickly But Politely', () => {
+  test('Chapters download in parallel, arrive in reading order, and failures are recorded', async () => {
+    // Given: A parser allowed three downloads at a time
+    const site = createSite();
+    const parser = createParser();
+    parser.useTransport(site.transport);
+    const delivered: number[] = [];
+
+    // When: Importing the book
+    const book = await parser.parseBook(BOOK_URL, undefined, {
+      download: { concurrency: 3, retryAttempts: 2, retryDelayMs: 1 },
+      onChapterParsed: (chapter: ParsedChapter) => {
+        delivered.push(chapter.chapterNumber);
+      },
+    });
+
+    // Then: Downloads overlapped, but never beyond the limit
+    expect(site.maxInFlight).toBe(3);
+
+    // And: Chapters were handed over in order despite finishing out of order
+    expect(delivered).toEqual([1, 2, 4, 5]);
+    expect(book.chapters.map(chapter => chapter.content)).toEqual(['Chapter 1 text', 'Chapter 2 text', 'Chapter 4 text', 'Chapter 5 text']);
+
+    // And: The broken chapter was retried, then recorded instead of dropped
+    expect(site.requests.filter(url => url === chapterUrl(3))).toHaveLength(3);
+    expect(book.failedChapters).toEqual([
+      { chapterNumber: 3, url: chapterUrl(3), error: `Failed to fetch ${chapterUrl(3)}: Site: 503 Service Unavailable`, attempts: 3 },
+    ]);
+  });
+
+  test('A checkpoint failure stops the import', async () => {
+    const site = createSite();
+    const parser = createParser();
+    parser.useTransport(site.transport);
+
+    await expect(parser.parseBook(BOOK_URL, undefined, {
+      download: { concurrency: 2, retryAttempts: 0 },
+      onChapterParsed: async () => {
+        throw new Error('Storage full');
+      },
+    })).rejects.toThrow('Storage full');
+
+    // No new chapters were started after the failure
+    expect(site.requests.length).toBeLessThan(6);
+  });
+
+  test('Cancelling stops in-flight downloads at once and starts no new ones', async () => {
+    // Given: An import cancelled once the first chapter request is on its way
+    const site = createSite();
+    const parser = createParser();
+    parser.useTransport(site.transport);
+    const controller = new AbortController();
+    const fetchPage = site.transport.fetchPage;
+    site.transport.fetchPage = async (url, request) => {
+      if (url !== BOOK_URL) controller.abort();
+      return fetchPage(url, request);
+    };
+
+    // When: Importing the book
+    await expect(parser.parseBook(BOOK_URL, undefined, {
+      download: { concurrency: 1, retryAttempts: 3 },
+      signal: controller.signal,
+    })).rejects.toMatchObject({ name: 'AbortError' });
+
+    // Then: Nothing past the first chapter was requested, and nothing was retried
+    expect(site.requests).toEqual([BOOK_URL, chapterUrl(1)]);
+  });
+
+  test('A failing worker is only reported once the others have finished', async () => {
+    // Given: One worker that fails while another is still saving
+    let saving = false;
+    let saved = false;
+
+    // When: The pool runs both
+    const run = runPool([1, 2], 2, async item => {
+      if (item === 1) {
+        saving = true;
+        await new Promise(resolve => setTimeout(resolve, 30));
+        saved = true;
+        return;
+      }
+      throw new Error('storage full');
+    });
+
+    // Then: The error arrives only after the save has landed
+    await expect(run).rejects.toThrow('storage full');
+    expect(saving).toBe(true);
+    expect(saved).toBe(true);
+  });
+
+  test('Slow requests time out and backoff doubles between retries', async () => {
+    await expect(withTimeout(() => new Promise(() => {}), 20, 'Request for chapter 1'))
+      .rejects.toThrow('Request for chapter 1 timed out');
+
+    const attemptTimes: number[] = [];
+    const { result, attempts } = await withRetry(async attempt => {
+      attemptTimes.push(Date.now());
+      if (attempt < 3) throw new Error('flaky');
+      return 'ok';
+    }, 3, 20);
+
+    expect(result).toBe('ok');
+    expect(attempts).toBe(3);
+    expect(attemptTimes[2]! - attemptTimes[1]!).toBeGreaterThanOrEqual(attemptTimes[1]! - attemptTimes[0]! + 10);
+  });
+
+  test('The token bucket allows a burst, then paces requests to the per-minute rate', async () => {
+    // Given: Two requests of burst, refilled at 1200 per minute (one every 50ms)
+    const bucket = new TokenBucket(2, 1200);
+    const start = Date.now();
+    const grantedAt: number[] = [];
+
+    // When: Four requests are made at once
+    await runPool([1, 2, 3, 4], 4, async () => {
+      await bucket.take();
+      grantedAt.push(Date.now() - start);
+    });
+
+    // Then: The burst goes straight through and the rest wait their turn
+    expect(grantedAt[1]).toBeLessThan(40);
+    expect(grantedAt[3]).toBeGreaterThanOrEqual(90);
+  });
+});
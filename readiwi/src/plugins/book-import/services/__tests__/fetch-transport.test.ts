@@ -0,0 +1,144 @@
+/**
+ * Fetch Transport Tests - Readiwi v4.0
+ * Testing that pages are fetched through whichever transport is working
+ */
+
+import {
+  AppProxyTransport,
+  DirectTransport,
+  FetchTransport,
+  ProxyTransport,
+  ReplayTransport,
+  TransportManager,
+  createTransports
+} from '../fetch-transport';
+import { RoyalRoadParser } from '../../parsers/royal-road-parser';
+
+const PAGE_URL = 'https://www.royalroad.com/fiction/12345/test-book';
+
+const failingTransport = (id: string): FetchTransport & { calls: number } => ({
+  id,
+  name: id,
+  calls: 0,
+  isAvailable: () => true,
+  async fetchPage() {
+    this.calls++;
+    throw new Error('403 Forbidden');
+  },
+});
+
+describe('User Story: Fetch Pages Reliably', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  test('A failing transport falls over to the next one', async () => {
+    // Given: A transport that is blocked, then one that works
+    const blocked = failingTransport('blocked');
+    const manager = new TransportManager([blocked, new ReplayTransport({ [PAGE_URL]: '<html>Book</html>' })]);
+
+    // When: Fetching a page
+    const html = await manager.fetchText(PAGE_URL);
+
+    // Then: The working transport's page is returned and both outcomes are tracked
+    expect(html).toBe('<html>Book</html>');
+    expect(manager.getHealth()).toEqual(expect.arrayContaining([
+      expect.objectContaining({ transportId: 'blocked', failures: 1, lastError: '403 Forbidden' }),
+      expect.objectContaining({ transportId: 'replay', successes: 1, consecutiveFailures: 0 }),
+    ]));
+  });
+
+  test('Transports that keep failing are tried last', async () => {
+    // Given: A first-choice transport that has failed several times in a row
+    const blocked = failingTransport('blocked');
+    const manager = new TransportManager([blocked, new ReplayTransport({ [PAGE_URL]: 'ok' })]);
+    for (let i = 0; i < 3; i++) {
+      await manager.fetchText(PAGE_URL);
+    }
+
+    // When: Fetching again
+    await manager.fetchText(PAGE_URL);
+
+    // Then: The healthy transport goes first and the failing one is skipped
+    expect(manager.getOrderedTransports().map(transport => transport.id)).toEqual(['replay', 'blocked']);
+    expect(blocked.calls).toBe(3);
+    expect(manager.getHealth().find(health => health.transportId === 'blocked')?.coolingDown).toBe(true);
+  });
+
+  test('Every failure is reported when no transport works', async () => {
+    const manager = new TransportManager([failingTransport('a'), new ReplayTransport({})]);
+
+    await expect(manager.fetchText(PAGE_URL)).rejects.toThrow(
+      `Failed to fetch ${PAGE_URL}: a: 403 Forbidden; Recorded pages: No recorded page for ${PAGE_URL}`
+    );
+  });
+
+  test('Proxies accept a URL prefix or a {url} template', () => {
+    expect(new ProxyTransport('https://corsproxy.io/?').buildUrl('https://a.example/b?c=1'))
+      .toBe('https://corsproxy.io/?https%3A%2F%2Fa.example%2Fb%3Fc%3D1');
+    expect(new ProxyTransport('https://proxy.example/raw?url={url}&cache=0').buildUrl('https://a.example/'))
+      .toBe('https://proxy.example/raw?url=https%3A%2F%2Fa.example%2F&cache=0');
+
+    // And: Settings decide which transports exist, in priority order
+    expect(createTransports({ useDirect: true, useAppProxy: false, proxies: ['https://corsproxy.io/?'] }).map(t => t.id))
+      .toEqual(['direct', 'proxy:https://corsproxy.io/?']);
+  });
+
+  test("A parser's own CORS proxy is tried first", async () => {
+    // Given: The user's transports and a parser that names its preferred proxy
+    const replay = new ReplayTransport({ [PAGE_URL]: 'from replay' });
+    const manager = new TransportManager([replay], { allowParserProxies: true });
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      text: async () => 'from proxy',
+    })) as unknown as typeof fetch;
+
+    const parser = new RoyalRoadParser();
+    parser.config.rateLimit.delayBetweenRequests = 0;
+    parser.useTransport(manager);
+
+    // When: The parser fetches a page
+    const html = await parser['fetchWithRateLimit'](PAGE_URL);
+
+    // Then: The request went through the parser's proxy
+    expect(html).toBe('from proxy');
+    expect(global.fetch).toHaveBeenCalledWith(
+      `https://corsproxy.io/?${encodeURIComponent(PAGE_URL)}`,
+      expect.objectContaining({ headers: expect.objectContaining({ 'User-Agent': expect.any(String) }) })
+    );
+    expect(replay.requests).toHaveLength(0);
+
+    // And: Explicit transport lists, such as recorded pages, ignore parser proxies
+    parser.useTransport(replay);
+    expect(await parser['fetchWithRateLimit'](PAGE_URL)).toBe('from replay');
+  });
+
+  test('Images fail over between transports like pages do', async () => {
+    // Given: An image host without CORS headers, recorded pages, and the app's proxy route
+    const imageUrl = 'https://img.example.com/map.png';
+    const replay = new ReplayTransport({});
+    const manager = new TransportManager([new DirectTransport(), replay, new AppProxyTransport()]);
+    const image = new Blob([new Uint8Array(10)], { type: 'image/png' });
+    global.fetch = jest.fn(async (url: string) => {
+      if (url === imageUrl) throw new TypeError('Failed to fetch');
+      return { ok: true, status: 200, statusText: 'OK', blob: async () => image };
+    }) as unknown as typeof fetch;
+
+    // When: Fetching the image
+    const blob = await manager.fetchBlob(imageUrl);
+
+    // Then: It came through the proxy route, skipping the transport that only serves pages
+    expect(blob).toBe(image);
+    expect(global.fetch).toHaveBeenLastCalledWith(`/api/proxy?url=${encodeURIComponent(imageUrl)}`, expect.anything());
+    expect(replay.requests).toHaveLength(0);
+    expect(manager.getHealth()).toEqual(expect.arrayContaining([
+      expect.objectContaining({ transportId: 'direct', failures: 1, lastError: 'Failed to fetch' }),
+      expect.objectContaining({ transportId: 'app-proxy', successes: 1 }),
+    ]));
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Image Cache Service Tests - Readiwi v4.0
+ * Testing that imported books keep their images for offline reading
+ */
+
+import { ImageCacheEntry } from '@/core/types/database';
+
+jest.mock('@/core/services/database-simple', () => {
+  let entries: ImageCacheEntry[] = [];
+  let nextId = 1;
+  const matching = (urls: string[]) => ({
+    toArray: async () => entries.filter(entry => urls.includes(entry.url)),
+    delete: async () => {
+      entries = entries.filter(entry => !urls.includes(entry.url));
+    },
+  });
+
+  const books = new Map<number, { isOfflineAvailable: boolean }>();
+
+  return {
+    STORAGE_LIMITS: { maxImageCacheMB: 500 },
+    db: {
+      books: {
+        records: books,
+        bulkUpdate: async (updates: Array<{ key: number; changes: { isOfflineAvailable: boolean } }>) => {
+          updates.forEach(({ key, changes }) => books.set(key, { ...books.get(key), ...changes }));
+        },
+      },
+      transaction: async (_mode: string, _table: unknown, run: () => Promise<void>) => run(),
+      imageCache: {
+        where: () => ({ anyOf: matching }),
+        bulkAdd: async (added: ImageCacheEntry[]) => {
+          added.forEach(entry => entries.push({ ...entry, id: nextId++ }));
+        },
+        bulkUpdate: async (updates: Array<{ key: number; changes: Partial<ImageCacheEntry> }>) => {
+          updates.forEach(({ key, changes }) => Object.assign(entries.find(entry => entry.id === key)!, changes));
+        },
+        orderBy: () => ({
+          toArray: async () => [...entries].sort((a, b) => a.lastAccessedAt.getTime() - b.lastAccessedAt.getTime()),
+        }),
+        bulkDelete: async (ids: number[]) => {
+          entries = entries.filter(entry => !ids.includes(entry.id!));
+        },
+        records: () => entries,
+        reset: () => {
+          entries = [];
+        },
+      },
+    },
+  };
+});
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { imageCacheService } from '../image-cache-service';
+import { GenericParser } from '../../parsers/generic-parser';
+import { ReplayTransport } from '../fetch-transport';
+import { renderChapterHtml } from '@/plugins/reader/services/chapter-renderer';
+import { db } from '@/core/services/database-simple';
+
+const mockImageCache = db.imageCache as unknown as { records: () => ImageCacheEntry[]; reset: () => void };
+const mockBooks = (db.books as unknown as { records: Map<number, { isOfflineAvailable: boolean }> }).records;
+const image = (bytes: number) => new Blob([new Uint8Array(bytes)], { type: 'image/png' });
+
+describe('User Story: Read Illustrated Books Offline', () => {
+  beforeEach(() => {
+    mockImageCache.reset();
+    mockBooks.clear();
+    global.fetch = jest.fn(async (url: string) => url === 'https://img.example.com/map.png'
+      ? { ok: true, status: 200, statusText: 'OK', blob: async () => image(100) }
+      : { ok: false, status: 404, statusText: 'Not Found' }) as unknown as typeof fetch;
+    URL.createObjectURL = jest.fn(() => 'blob:readiwi/map');
+    URL.revokeObjectURL = jest.fn();
+  });
+
+  test('Chapter images are downloaded at import and shown from the cache', async () => {
+    // Given: A chapter with a working image and a broken one
+    const content = 'The map.';
+    const htmlContent = '<p>The map.<img src="https://img.example.com/map.png" alt="Map"><img src="https://img.example.com/gone.png" alt=""></p>';
+
+    // When: Importing it with image downloads on
+    const chapter = await imageCacheService.attachChapterImages(
+      { title: 'Chapter 1', content, htmlContent, chapterNumber: 1, wordCount: 2 },
+      7,
+      true
+    );
+
+    // Then: The chapter lists both images, but only the working one is cached
+    expect(chapter.imageUrls).toEqual(['https://img.example.com/map.png', 'https://img.example.com/gone.png']);
+    expect(mockImageCache.records()).toEqual([
+      expect.objectContaining({ url: 'https://img.example.com/map.png', bookIds: [7] }),
+    ]);
+
+    // And: The book doesn't count as available offline while an image is missing
+    expect(await imageCacheService.isBookCached(undefined, [chapter])).toBe(false);
+
+    // And: The reader shows the cached image from a local URL, leaving the other as it was
+    const sources = await imageCacheService.getObjectUrls(chapter.imageUrls!);
+    const html = renderChapterHtml(content, [], htmlContent, sources);
+    expect(html).toContain('<img src="blob:readiwi/map" alt="Map">');
+    expect(html).toContain('<img src="https://img.example.com/gone.png" alt="">');
+  });
+
+  test('A full cache drops the least recently viewed downloads first', async () => {
+    // Given: Three downloaded images, two of them shown by book 7, and one from an imported file
+    await imageCacheService.storeImages([
+      { url: 'https://img.example.com/a.png', blob: image(400) },
+      { url: 'https://img.example.com/b.png', blob: image(400) },
+    ], 7);
+    await imageCacheService.storeImages([{ url: 'https://img.example.com/c.png', blob: image(400) }], 8);
+    await imageCacheService.storeImages([{ url: 'file:///book.epub/cover.png', blob: image(400) }], 9);
+    const records = mockImageCache.records();
+    records.forEach((entry, index) => {
+      entry.lastAccessedAt = new Date(2026, 0, index + 1);
+    });
+
+    // When: The oldest download is viewed again and the cache must shrink to 1 KB
+    await imageCacheService.getObjectUrls(['https://img.example.com/a.png']);
+    const evicted = await imageCacheService.evict(1000);
+
+    // Then: The two least recently viewed downloads are dropped
+    expect(evicted).toBe(2);
+    expect(mockImageCache.records().map(entry => entry.url)).toEqual([
+      'https://img.example.com/a.png',
+      'file:///book.epub/cover.png',
+    ]);
+
+    // And: The books that showed them are no longer available offline
+    expect(Array.from(mockBooks.keys()).sort()).toEqual([7, 8]);
+    expect(mockBooks.get(7)?.isOfflineAvailable).toBe(false);
+  });
+
+  test('Images shared between books are recorded against each of them', async () => {
+    // Given: An image already cached for book 7
+    await imageCacheService.storeImages([{ url: 'https://img.example.com/map.png', blob: image(100) }], 7);
+
+    // When: Another book shows it, with image downloads off
+    await imageCacheService.attachChapterImages(
+      { title: 'Chapter 1', content: 'The map.', htmlContent: '<p>The map.<img src="https://img.example.com/map.png"></p>', chapterNumber: 1, wordCount: 2 },
+      8,
+      false
+    );
+
+    // Then: It is kept until both books are gone, without downloading it again
+    expect(mockImageCache.records()).toEqual([expect.objectContaining({ bookIds: [7, 8] })]);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  test('Images in chapters from sites without a dedicated parser are cached too', async () => {
+    // Given: A chapter page from an unknown site showing an illustration
+    const chapterUrl = 'https://quill.example/stories/ember-road/1';
+    const page = readFileSync(join(__dirname, '../../parsers/__tests__/fixtures/generic-chapter-1.html'), 'utf8')
+      .replace('/stories/ember-road/2', '/stories/ember-road')
+      .replace('<p>She did not answer him.', '<p><img src="https://img.example.com/map.png" alt="Map"></p><p>She did not answer him.');
+    const parser = new GenericParser();
+    parser.config.rateLimit.delayBetweenRequests = 0;
+    parser.useTransport(new ReplayTransport({ [chapterUrl]: page }));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    // When: Importing it with image downloads on
+    const { chapters: [parsed] } = await parser.parseBook(chapterUrl);
+    const chapter = await imageCacheService.attachChapterImages(parsed!, 7, true);
+
+    // Then: The image is downloaded, so the book counts as available offline
+    expect(chapter.imageUrls).toEqual(['https://img.example.com/map.png']);
+    expect(mockImageCache.records()).toEqual([
+      expect.objectContaining({ url: 'https://img.example.com/map.png', bookIds: [7] }),
+    ]);
+    expect(await imageCacheService.isBookCached(undefined, [chapter])).toBe(true);
+  });
+});
@@ -0,0 +1,491 @@
+/**
+ * Import Job Service Tests - Readiwi v4.0
+ * Testing that interrupted imports keep their progress and can be resumed
+ */
+
+import { ImportJob, ImportStatus } from '@/core/types/database';
+import { ParseBookOptions, ParsedChapter, ParserProgress } from '../../types/parser-types';
+
+jest.mock('@/core/services/database-simple', () => {
+  const jobs = new Map<number, ImportJob>();
+  const chapters: Array<{ bookId: number; index: number }> = [];
+  let nextJobId = 1;
+
+  return {
+    db: {
+      importJobs: {
+        add: jest.fn(async (job: ImportJob) => {
+          const id = nextJobId++;
+          jobs.set(id, { ...job, id });
+          return id;
+        }),
+        get: jest.fn(async (id: number) => jobs.get(id)),
+        update: jest.fn(async (id: number, updates: Partial<ImportJob>) => {
+          jobs.set(id, { ...jobs.get(id)!, ...updates });
+          return 1;
+        }),
+        delete: jest.fn(async (id: number) => {
+          jobs.delete(id);
+        }),
+        toArray: jest.fn(async () => Array.from(jobs.values())),
+        clear: () => {
+          jobs.clear();
+          nextJobId = 1;
+        },
+      },
+      chapters: {
+        where: () => ({
+          equals: (bookId: number) => ({
+            toArray: async () => chapters.filter(chapter => chapter.bookId === bookId),
+          }),
+        }),
+        records: chapters,
+      },
+    },
+  };
+});
+
+jest.mock('../parser-registry', () => ({
+  parserRegistry: {
+    parseBook: jest.fn(),
+  },
+}));
+
+jest.mock('../parser-definition-service', () => ({
+  parserDefinitionService: {
+    loadDefinitions: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('@/plugins/book-library/services/library-service', () => ({
+  libraryService: {
+    addBook: jest.fn().mockResolvedValue(42),
+    updateBook: jest.fn().mockResolvedValue(undefined),
+    deleteBook: jest.fn().mockResolvedValue(undefined),
+    getBook: jest.fn().mockResolvedValue({ title: 'Test Book', author: 'Test Author' }),
+    searchBooks: jest.fn().mockResolvedValue([]),
+    findBookBySourceUrl: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock('@/plugins/reader/services/reader-service', () => ({
+  readerService: {
+    saveChapters: jest.fn(),
+    getBookChapters: jest.fn(),
+    deleteChapters: jest.fn(),
+  },
+}));
+
+jest.mock('@/plugins/statistics/services/reading-speed-service', () => ({
+  countWords: jest.requireActual('@/plugins/statistics/services/reading-speed-service').countWords,
+  readingSpeedService: {
+    estimateBookMinutes: jest.fn(async (_bookId: number, words: number) => Math.ceil(words / 2)),
+  },
+}));
+
+import { importJobService, KEEP_PARTIAL_BOOK } from '../import-job-service';
+import { createAbortError } from '../download-pool';
+import { ReplayTransport } from '../fetch-transport';
+import { ConfigurableParser } from '../../parsers/configurable-parser';
+import { parserRegistry } from '../parser-registry';
+import { libraryService } from '@/plugins/book-library/services/library-service';
+import { readerService } from '@/plugins/reader/services/reader-service';
+import { db } from '@/core/services/database-simple';
+
+interface MockDb {
+  importJobs: {
+    add: jest.Mock;
+    get: (id: number) => Promise<ImportJob | undefined>;
+    clear: () => void;
+  };
+  chapters: {
+    records: Array<{ bookId: number; index: number }>;
+  };
+}
+
+const mockDb = db as unknown as MockDb;
+const mockParseBook = parserRegistry.parseBook as jest.Mock;
+const mockSaveChapters = readerService.saveChapters as jest.Mock;
+
+const BOOK_URL = 'https://www.royalroad.com/fiction/12345/test-book';
+const CHAPTER_URLS = ['chapter-1', 'chapter-2', 'chapter-3'];
+
+const metadata = {
+  title: 'Test Book',
+  author: 'Test Author',
+  description: 'A book for testing',
+  tags: ['fantasy'],
+  status: 'completed' as const,
+  sourceUrl: BOOK_URL,
+  language: 'en',
+};
+
+const makeChapter = (chapterNumber: number): ParsedChapter => ({
+  title: `Chapter ${chapterNumber}`,
+  content: `Content of chapter ${chapterNumber}`,
+  chapterNumber,
+  wordCount: 4,
+});
+
+/**
+ * A real parser downloading three chapters at a time from recorded pages, so
+ * cancellation races the way it does in a live import
+ */
+const LIVE_BOOK_URL = 'https://lotus-reads.example/novel/jade-river';
+const createLiveParse = () => {
+  const parser = new ConfigurableParser({
+    id: 'lotus-reads',
+    name: 'Lotus Reads',
+    domains: ['lotus-reads.example'],
+    selectors: { chapterLinks: ['ol.chapters a'], chapterContent: ['#text'] },
+    chapterOrder: 'oldest-first',
+    rateLimit: { requestsPerMinute: 600, delayBetweenRequests: 0 },
+  });
+  const links = [1, 2, 3].map(n => `<li><a href="/c/${n}">Chapter ${n}</a></li>`).join('');
+  parser.useTransport(new ReplayTransport({
+    [LIVE_BOOK_URL]: `<h1>Jade River</h1><ol class="chapters">${links}</ol>`,
+    ...Object.fromEntries([1, 2, 3].map(n => [`https://lotus-reads.example/c/${n}`, `<div id="text">Chapter ${n} text</div>`])),
+  }));
+
+  return (_url: string, onProgress?: (progress: ParserProgress) => void, options: ParseBookOptions = {}) =>
+    parser.parseBook(LIVE_BOOK_URL, onProgress, { ...options, download: { concurrency: 3 } });
+};
+
+/**
+ * Saves that take a while, with the import cancelled as soon as the first one starts
+ */
+const cancelDuringSlowSave = (controller: AbortController) => {
+  mockSaveChapters.mockImplementation(async (bookId: number, chapters: ParsedChapter[]) => {
+    controller.abort();
+    await new Promise(resolve => setTimeout(resolve, 30));
+    chapters.forEach(chapter => {
+      mockDb.chapters.records.push({ bookId, index: chapter.chapterNumber - 1 });
+    });
+  });
+};
+
+/**
+ * Simulate a parser that walks the chapter list, honouring the checkpoint hooks,
+ * and optionally fails after a number of chapters. Cancellation is checked before
+ * each chapter, and `onChapter` runs once a chapter is saved.
+ */
+const simulateParse = (failAfter?: number, onChapter?: (chapterNumber: number) => void) =>
+  async (_url: string, _onProgress?: (progress: ParserProgress) => void, options: ParseBookOptions = {}) => {
+    await options.onBookInfo?.(metadata, CHAPTER_URLS);
+
+    const chapters: ParsedChapter[] = [];
+    for (let i = 0; i < CHAPTER_URLS.length; i++) {
+      const chapterNumber = i + 1;
+      if (options.shouldFetchChapter && !options.shouldFetchChapter(CHAPTER_URLS[i]!, chapterNumber)) {
+        continue;
+      }
+      if (options.signal?.aborted) {
+        throw createAbortError();
+      }
+      if (failAfter !== undefined && chapters.length >= failAfter) {
+        throw new Error('Network connection lost');
+      }
+      const chapter = makeChapter(chapterNumber);
+      await options.onChapterParsed?.(chapter);
+      chapters.push(chapter);
+      onChapter?.(chapterNumber);
+    }
+
+    return { ...metadata, chapters, totalChapters: CHAPTER_URLS.length };
+  };
+
+describe('User Story: Imports Survive Interruptions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.importJobs.clear();
+    mockDb.chapters.records.length = 0;
+
+    mockSaveChapters.mockImplementation(async (bookId: number, chapters: ParsedChapter[]) => {
+      chapters.forEach(chapter => {
+        mockDb.chapters.records.push({ bookId, index: chapter.chapterNumber - 1 });
+      });
+    });
+    (readerService.getBookChapters as jest.Mock).mockImplementation(async (bookId: number) =>
+      mockDb.chapters.records
+        .filter((chapter: { bookId: number }) => chapter.bookId === bookId)
+        .map(() => ({ wordCount: 4 }))
+    );
+  });
+
+  test('Chapters are saved one by one and the job completes', async () => {
+    // Given: A book with three chapters
+    mockParseBook.mockImplementation(simulateParse());
+
+    // When: Importing the book
+    const result = await importJobService.startImport(BOOK_URL);
+
+    // Then: Each chapter was checkpointed individually
+    expect(mockSaveChapters).toHaveBeenCalledTimes(3);
+    expect(mockSaveChapters).toHaveBeenCalledWith(42, [expect.objectContaining({ chapterNumber: 1 })]);
+
+    // And: The job is recorded as completed
+    const job = await mockDb.importJobs.get(result.jobId);
+    expect(job?.status).toBe(ImportStatus.COMPLETED);
+    expect(job?.processedChapters).toBe(3);
+    expect(job?.progress).toBe(100);
+    expect(result.importedChapters).toBe(3);
+
+    // And: The finished book is timed at the reader's own speed
+    expect(libraryService.updateBook).toHaveBeenLastCalledWith(42, expect.objectContaining({
+      wordCount: 12,
+      estimatedReadingTime: 6,
+    }));
+  });
+
+  test('A failed import is kept as an interrupted job with its saved chapters', async () => {
+    // Given: The connection drops after the first chapter
+    mockParseBook.mockImplementation(simulateParse(1));
+
+    // When: Importing the book
+    await expect(importJobService.startImport(BOOK_URL)).rejects.toThrow('Network connection lost');
+
+    // Then: The job shows up as interrupted with the progress it made
+    const interrupted = await importJobService.getInterruptedJobs();
+    expect(interrupted).toHaveLength(1);
+    expect(interrupted[0]?.status).toBe(ImportStatus.FAILED);
+    expect(interrupted[0]?.error).toBe('Network connection lost');
+    expect(interrupted[0]?.processedChapters).toBe(1);
+    expect(interrupted[0]?.bookId).toBe(42);
+  });
+
+  test('Resuming an import only fetches the missing chapters', async () => {
+    // Given: An import that stopped after one chapter
+    mockParseBook.mockImplementation(simulateParse(1));
+    await expect(importJobService.startImport(BOOK_URL)).rejects.toThrow();
+    const [job] = await importJobService.getInterruptedJobs();
+    mockSaveChapters.mockClear();
+
+    // When: Resuming once the connection is back
+    mockParseBook.mockImplementation(simulateParse());
+    const result = await importJobService.resumeImport(job!.id!);
+
+    // Then: Only the remaining chapters are saved, into the same book
+    expect(libraryService.addBook).toHaveBeenCalledTimes(1);
+    expect(mockSaveChapters).toHaveBeenCalledTimes(2);
+    expect(mockSaveChapters).not.toHaveBeenCalledWith(42, [expect.objectContaining({ chapterNumber: 1 })]);
+    expect(result.importedChapters).toBe(3);
+    expect(await importJobService.getInterruptedJobs()).toHaveLength(0);
+  });
+
+  test('A book parsed from a local file is saved through the same job pipeline', async () => {
+    // Given: A book already parsed from a file
+    const localBook = {
+      ...metadata,
+      sourceUrl: 'file:///sha/0a1b2c3d',
+      chapters: [makeChapter(1), makeChapter(2)],
+    };
+
+    // When: Importing it
+    const result = await importJobService.importParsedBook(localBook);
+
+    // Then: Chapters are checkpointed and the job completes without touching the network
+    expect(mockParseBook).not.toHaveBeenCalled();
+    expect(mockSaveChapters).toHaveBeenCalledTimes(2);
+    expect(libraryService.addBook).toHaveBeenCalledWith(expect.objectContaining({
+      sourceUrl: 'file:///sha/0a1b2c3d',
+      sourceSite: 'Local File',
+      urlSlug: 'test-book',
+    }));
+    expect(result.importedChapters).toBe(2);
+  });
+
+  test('A failed local file import is cleaned up instead of being offered for resuming', async () => {
+    // Given: A file import that fails while saving
+    mockSaveChapters.mockRejectedValueOnce(new Error('Storage full'));
+
+    // When: Importing it
+    await expect(importJobService.importParsedBook({
+      ...metadata,
+      sourceUrl: 'file:///my-book.epub',
+      chapters: [makeChapter(1)],
+    })).rejects.toThrow('Storage full');
+
+    // Then: The partial book is removed and the job is not listed as interrupted
+    expect(libraryService.deleteBook).toHaveBeenCalledWith(42);
+    expect(await importJobService.getInterruptedJobs()).toHaveLength(0);
+
+    // And: Resuming it directly tells the user to import the file again
+    await expect(importJobService.resumeImport(1)).rejects.toThrow('import the file again');
+  });
+
+  test('Importing a file that is already in the library leaves no job behind', async () => {
+    // Given: The library already has a book from this file
+    (libraryService.findBookBySourceUrl as jest.Mock).mockResolvedValueOnce({ id: 9, title: 'My Book' });
+
+    // When: Importing the same file again
+    await expect(importJobService.importParsedBook({
+      ...metadata,
+      sourceUrl: 'file:///my-book.epub',
+      chapters: [makeChapter(1)],
+    })).rejects.toThrow('already in your library');
+
+    // Then: Nothing was created or saved
+    expect(mockDb.importJobs.add).not.toHaveBeenCalled();
+    expect(libraryService.addBook).not.toHaveBeenCalled();
+    expect(mockSaveChapters).not.toHaveBeenCalled();
+  });
+
+  test('Discarding an interrupted import removes the partial book', async () => {
+    // Given: An interrupted import
+    mockParseBook.mockImplementation(simulateParse(1));
+    await expect(importJobService.startImport(BOOK_URL)).rejects.toThrow();
+    const [job] = await importJobService.getInterruptedJobs();
+
+    // When: Discarding it
+    await importJobService.discardJob(job!.id!);
+
+    // Then: The partial book and the job are both gone
+    expect(libraryService.deleteBook).toHaveBeenCalledWith(42);
+    expect(await importJobService.getInterruptedJobs()).toHaveLength(0);
+  });
+});
+
+describe('User Story: Cancel an Import', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.importJobs.clear();
+    mockDb.chapters.records.length = 0;
+
+    (readerService.deleteChapters as jest.Mock).mockImplementation(async (bookId: number, chapterNumbers: number[]) => {
+      const kept = mockDb.chapters.records.filter((chapter: { bookId: number; index: number }) =>
+        chapter.bookId !== bookId || !chapterNumbers.includes(chapter.index + 1));
+      mockDb.chapters.records.splice(0, mockDb.chapters.records.length, ...kept);
+    });
+
+    mockSaveChapters.mockImplementation(async (bookId: number, chapters: ParsedChapter[]) => {
+      chapters.forEach(chapter => {
+        mockDb.chapters.records.push({ bookId, index: chapter.chapterNumber - 1 });
+      });
+    });
+    (readerService.getBookChapters as jest.Mock).mockImplementation(async (bookId: number) =>
+      mockDb.chapters.records
+        .filter((chapter: { bookId: number }) => chapter.bookId === bookId)
+        .map(() => ({ wordCount: 4 }))
+    );
+  });
+
+  test('Cancelling stops the import, discards the partial book and marks the job cancelled', async () => {
+    // Given: An import the user cancels after the first chapter
+    const controller = new AbortController();
+    mockParseBook.mockImplementation(simulateParse(undefined, () => controller.abort()));
+
+    // When: The import runs
+    await expect(importJobService.startImport(BOOK_URL, undefined, { signal: controller.signal }))
+      .rejects.toThrow('Import cancelled');
+
+    // Then: The signal reached the parser and no further chapters were saved
+    expect(mockParseBook).toHaveBeenCalledWith(BOOK_URL, undefined, expect.objectContaining({ signal: controller.signal }));
+    expect(mockSaveChapters).toHaveBeenCalledTimes(1);
+
+    // And: The partial book is removed and the job is cancelled rather than interrupted
+    expect(libraryService.deleteBook).toHaveBeenCalledWith(42);
+    const job = await mockDb.importJobs.get(1);
+    expect(job?.status).toBe(ImportStatus.CANCELLED);
+    expect(await importJobService.getInterruptedJobs()).toHaveLength(0);
+  });
+
+  test('Stopping and keeping chapters leaves a readable partial book', async () => {
+    // Given: An import the user stops after two chapters, asking to keep them
+    const controller = new AbortController();
+    mockParseBook.mockImplementation(simulateParse(undefined, chapterNumber => {
+      if (chapterNumber === 2) controller.abort(KEEP_PARTIAL_BOOK);
+    }));
+
+    // When: The import runs
+    const result = await importJobService.startImport(BOOK_URL, undefined, { signal: controller.signal });
+
+    // Then: The book is kept with the chapters downloaded so far
+    expect(result).toMatchObject({ bookId: 42, title: 'Test Book', importedChapters: 2, totalChapters: 3, cancelled: true });
+    expect(libraryService.deleteBook).not.toHaveBeenCalled();
+    expect(libraryService.updateBook).toHaveBeenCalledWith(42, expect.objectContaining({ totalChapters: 2, wordCount: 8 }));
+
+    // And: The job is recorded as cancelled
+    const job = await mockDb.importJobs.get(result.jobId);
+    expect(job?.status).toBe(ImportStatus.CANCELLED);
+    expect(job?.processedChapters).toBe(2);
+  });
+
+  test('Cancelling a resumed import keeps the chapters saved by earlier sessions', async () => {
+    // Given: An import interrupted after its first chapter
+    mockParseBook.mockImplementation(simulateParse(1));
+    await expect(importJobService.startImport(BOOK_URL)).rejects.toThrow();
+    const [job] = await importJobService.getInterruptedJobs();
+
+    // When: It is resumed and cancelled after one more chapter
+    const controller = new AbortController();
+    mockParseBook.mockImplementation(simulateParse(undefined, () => controller.abort()));
+    await expect(importJobService.resumeImport(job!.id!, undefined, { signal: controller.signal }))
+      .rejects.toThrow('Import cancelled');
+
+    // Then: Only the chapter from this session is removed, and the book is kept
+    expect(libraryService.deleteBook).not.toHaveBeenCalled();
+    expect(readerService.deleteChapters).toHaveBeenCalledWith(42, [2]);
+    expect(mockDb.chapters.records).toEqual([{ bookId: 42, index: 0 }]);
+
+    // And: The job is interrupted again, with its earlier progress, ready to resume
+    const [interrupted] = await importJobService.getInterruptedJobs();
+    expect(interrupted).toMatchObject({ id: job!.id, status: ImportStatus.FAILED, processedChapters: 1 });
+  });
+
+  test('Cancelling while a chapter is still being saved leaves no chapters behind', async () => {
+    // Given: A new import cancelled while its first chapter save is still running
+    const controller = new AbortController();
+    mockParseBook.mockImplementation(createLiveParse());
+    cancelDuringSlowSave(controller);
+    (libraryService.deleteBook as jest.Mock).mockImplementationOnce(async (bookId: number) => {
+      const kept = mockDb.chapters.records.filter((chapter: { bookId: number }) => chapter.bookId !== bookId);
+      mockDb.chapters.records.splice(0, mockDb.chapters.records.length, ...kept);
+    });
+
+    // When: The import runs
+    await expect(importJobService.startImport(BOOK_URL, undefined, { signal: controller.signal }))
+      .rejects.toThrow('Import cancelled');
+
+    // Then: The save finished before the book was deleted, so nothing is left on it
+    expect(mockSaveChapters).toHaveBeenCalledTimes(1);
+    expect(libraryService.deleteBook).toHaveBeenCalledWith(42);
+    expect(mockDb.chapters.records).toEqual([]);
+  });
+
+  test('Cancelling a resumed import mid-save removes only that session\'s chapters', async () => {
+    // Given: An import interrupted after its first chapter
+    mockParseBook.mockImplementation(simulateParse(1));
+    await expect(importJobService.startImport(BOOK_URL)).rejects.toThrow();
+    const [job] = await importJobService.getInterruptedJobs();
+
+    // When: It is resumed and cancelled while the next chapter is still being saved
+    const controller = new AbortController();
+    mockSaveChapters.mockClear();
+    mockParseBook.mockImplementation(createLiveParse());
+    cancelDuringSlowSave(controller);
+    await expect(importJobService.resumeImport(job!.id!, undefined, { signal: controller.signal }))
+      .rejects.toThrow('Import cancelled');
+
+    // Then: The chapter saved this session is removed after it landed, and the earlier one is kept
+    expect(mockSaveChapters).toHaveBeenCalledTimes(1);
+    expect(readerService.deleteChapters).toHaveBeenCalledWith(42, [2]);
+    expect(mockDb.chapters.records).toEqual([{ bookId: 42, index: 0 }]);
+  });
+
+  test('Importing a parsed file stops between chapters when cancelled', async () => {
+    // Given: A file book the user cancels after its first chapter is saved
+    const controller = new AbortController();
+    mockSaveChapters.mockImplementationOnce(async () => controller.abort());
+
+    // When: Importing it
+    await expect(importJobService.importParsedBook({
+      ...metadata,
+      sourceUrl: 'file:///my-book.epub',
+      chapters: [makeChapter(1), makeChapter(2)],
+    }, undefined, { signal: controller.signal })).rejects.toThrow('Import cancelled');
+
+    // Then: No more chapters are saved and the new book is removed
+    expect(mockSaveChapters).toHaveBeenCalledTimes(1);
+    expect(libraryService.deleteBook).toHaveBeenCalledWith(42);
+  });
+});
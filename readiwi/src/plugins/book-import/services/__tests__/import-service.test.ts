@@ -3,7 +3,7 @@
  * Testing that book import functions reliably for users
  */
 
-import { getSupportedSources, importBook, validateUrl, getImportStats } from '../book-import';
+import { getSupportedSources, importBook, validateUrl, getImportStats, LOW_CONFIDENCE_THRESHOLD } from '../book-import';
 
 describe('User Story: Import Web Novels Easily', () => {
   describe('Source Detection and Validation', () => {
@@ -26,7 +26,7 @@ describe('User Story: Import Web Novels Easily', () => {
       const invalidUrls = [
         'not-a-url',
         'http://',
-        'https://unsupported-site.com/book/123',
+        'ftp://files.example.com/book/123',
         '',
       ];
 
@@ -58,6 +58,20 @@ describe('User Story: Import Web Novels Easily', () => {
         expect(result.error).toBeUndefined();
       }
     });
+
+    test('User is warned when a site has no dedicated parser', () => {
+      // Given: A URL from a site without its own parser
+      const url = 'https://unsupported-site.com/book/123';
+
+      // When: Validating the URL
+      const result = validateUrl(url);
+
+      // Then: Import is allowed through automatic detection, with a warning
+      expect(result.valid).toBe(true);
+      expect(result.source).toBe('generic');
+      expect(result.confidence).toBeLessThan(LOW_CONFIDENCE_THRESHOLD);
+      expect(result.warning).toContain('No dedicated parser');
+    });
   });
 
   describe('Book Import Process', () => {
@@ -133,8 +147,8 @@ describe('User Story: Import Web Novels Easily', () => {
 
   describe('Error Handling', () => {
     test('Import fails gracefully for unsupported sources', async () => {
-      // Given: Unsupported source URL
-      const url = 'https://unsupported-site.com/book/123';
+      // Given: A URL no parser can fetch
+      const url = 'ftp://files.example.com/book/123';
 
       // When: Attempting to import
       // Then: Clear error is thrown
@@ -0,0 +1,132 @@
+/**
+ * Parser Cache Service Tests - Readiwi v4.0
+ * Testing that unchanged pages are not downloaded twice
+ */
+
+import { ParserCacheEntry } from '@/core/types/database';
+
+jest.mock('@/core/services/database-simple', () => {
+  const records: ParserCacheEntry[] = [];
+
+  const byUrl = (url: string) => ({
+    first: async () => records.find(record => record.url === url),
+    delete: async () => {
+      const index = records.findIndex(record => record.url === url);
+      if (index >= 0) records.splice(index, 1);
+    },
+  });
+
+  return {
+    db: {
+      transaction: async (_mode: string, _table: unknown, callback: () => Promise<void>) => callback(),
+      parserCache: {
+        records,
+        add: jest.fn(async (record: ParserCacheEntry) => {
+          records.push({ ...record });
+        }),
+        where: () => ({ equals: byUrl }),
+      },
+    },
+  };
+});
+
+import { db } from '@/core/services/database-simple';
+import { BOOK_PAGE_CACHE_TTL, ParserCacheService } from '../parser-cache-service';
+import { FetchTransport, TransportRequest } from '../fetch-transport';
+import { ConfigurableParser } from '../../parsers/configurable-parser';
+
+const mockRecords = (db.parserCache as unknown as { records: ParserCacheEntry[] }).records;
+
+const PAGE_URL = 'https://lotus-reads.example/novel/jade-river';
+
+const loader = (text: string, validators: { etag?: string; lastModified?: string } = {}) =>
+  jest.fn(async () => ({ text, notModified: false, ...validators }));
+
+describe('User Story: Skip Re-downloading Unchanged Pages', () => {
+  let cache: ParserCacheService;
+
+  beforeEach(() => {
+    mockRecords.length = 0;
+    cache = new ParserCacheService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('A fresh cached page is served without a request', async () => {
+    // Given: A page fetched once
+    const load = loader('<html>v1</html>');
+    await cache.fetch(PAGE_URL, BOOK_PAGE_CACHE_TTL, load);
+
+    // When: It is needed again before it expires
+    const html = await cache.fetch(PAGE_URL, BOOK_PAGE_CACHE_TTL, load);
+
+    // Then: The cached copy is used
+    expect(html).toBe('<html>v1</html>');
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(mockRecords).toHaveLength(1);
+    expect(mockRecords[0]).toMatchObject({ url: PAGE_URL, size: 15 });
+  });
+
+  test('An expired page is revalidated, and reused when the site says it has not changed', async () => {
+    // Given: An expired page that came with an ETag
+    await cache.put(PAGE_URL, '<html>v1</html>', -1, { etag: '"abc"', lastModified: 'Mon, 05 Oct 2026 10:00:00 GMT' });
+    const load = jest.fn(async () => ({ text: '', notModified: true }));
+
+    // When: It is needed again
+    const html = await cache.fetch(PAGE_URL, BOOK_PAGE_CACHE_TTL, load);
+
+    // Then: A conditional request was sent and the cached copy is served and refreshed
+    expect(load).toHaveBeenCalledWith({ 'If-None-Match': '"abc"', 'If-Modified-Since': 'Mon, 05 Oct 2026 10:00:00 GMT' });
+    expect(html).toBe('<html>v1</html>');
+    expect(mockRecords).toHaveLength(1);
+    expect(mockRecords[0]!.etag).toBe('"abc"');
+    expect(mockRecords[0]!.expiresAt.getTime()).toBeGreaterThan(Date.now());
+
+    // And: A changed page replaces the cached one
+    await cache.put(PAGE_URL, '<html>v1</html>', -1, { etag: '"abc"' });
+    expect(await cache.fetch(PAGE_URL, BOOK_PAGE_CACHE_TTL, loader('<html>v2</html>', { etag: '"def"' }))).toBe('<html>v2</html>');
+    expect(mockRecords).toEqual([expect.objectContaining({ data: '<html>v2</html>', etag: '"def"' })]);
+  });
+
+  test('A retried import only downloads pages it does not already have', async () => {
+    // Given: A site whose pages are counted as they are downloaded
+    const pages: Record<string, string> = {
+      [PAGE_URL]: '<h1>Jade River</h1><ol class="chapters"><li><a href="/c/1">One</a></li><li><a href="/c/2">Two</a></li></ol>',
+      'https://lotus-reads.example/c/1': '<div id="text">First</div>',
+      'https://lotus-reads.example/c/2': '<div id="text">Second</div>',
+    };
+    const downloads: string[] = [];
+    const transport: FetchTransport = {
+      id: 'counting',
+      name: 'Counting',
+      isAvailable: () => true,
+      fetchPage: async (url: string, request?: TransportRequest) => {
+        downloads.push(url);
+        // The site knows its pages are unchanged once the client sends validators
+        if (request?.headers?.['If-None-Match'] === `"${url}"`) {
+          return { text: '', notModified: true };
+        }
+        return { text: pages[url] ?? '', notModified: false, etag: `"${url}"` };
+      },
+    };
+    const parser = new ConfigurableParser({
+      id: 'lotus-reads',
+      name: 'Lotus Reads',
+      domains: ['lotus-reads.example'],
+      selectors: { chapterLinks: ['ol.chapters a'], chapterContent: ['#text'] },
+      chapterOrder: 'oldest-first',
+      rateLimit: { requestsPerMinute: 60, delayBetweenRequests: 0 },
+    });
+    parser.useTransport(transport, cache);
+
+    // When: The book is imported, then imported again
+    await parser.parseBook(PAGE_URL);
+    const book = await parser.parseBook(PAGE_URL, undefined, { refreshBookPage: true });
+
+    // Then: The second run only revalidated the book page
+    expect(book.chapters.map(chapter => chapter.content)).toEqual(['First', 'Second']);
+    expect(downloads).toEqual([PAGE_URL, 'https://lotus-reads.example/c/1', 'https://lotus-reads.example/c/2', PAGE_URL]);
+  });
+});
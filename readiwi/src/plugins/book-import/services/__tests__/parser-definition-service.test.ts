@@ -0,0 +1,139 @@
+/**
+ * Parser Definition Service Tests - Readiwi v4.0
+ * Testing that user-defined parsers are stored, registered and testable
+ */
+
+import { ParserDefinitionRecord } from '@/core/types/database';
+
+jest.mock('@/core/services/database-simple', () => {
+  const records: ParserDefinitionRecord[] = [];
+  let nextId = 1;
+
+  const byParserId = (parserId: string) => ({
+    first: async () => records.find(record => record.parserId === parserId),
+    delete: async () => {
+      const index = records.findIndex(record => record.parserId === parserId);
+      if (index >= 0) records.splice(index, 1);
+    },
+  });
+
+  return {
+    db: {
+      parserDefinitions: {
+        records,
+        toArray: jest.fn(async () => records.map(record => ({ ...record }))),
+        add: jest.fn(async (record: ParserDefinitionRecord) => {
+          records.push({ ...record, id: nextId++ });
+        }),
+        update: jest.fn(async (id: number, updates: Partial<ParserDefinitionRecord>) => {
+          const record = records.find(item => item.id === id);
+          Object.assign(record!, updates);
+        }),
+        where: () => ({ equals: byParserId }),
+      },
+    },
+  };
+});
+
+import { db } from '@/core/services/database-simple';
+import { ParserDefinitionService } from '../parser-definition-service';
+import { parserRegistry } from '../parser-registry';
+
+const mockRecords = (db.parserDefinitions as unknown as { records: ParserDefinitionRecord[] }).records;
+
+const BOOK_URL = 'https://lotus-reads.example/novel/jade-river';
+
+const definitionJson = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  id: 'lotus-reads',
+  name: 'Lotus Reads',
+  domains: ['lotus-reads.example'],
+  selectors: {
+    chapterLinks: ['ol.chapters a'],
+    chapterContent: ['#text'],
+  },
+  ...overrides,
+});
+
+describe('User Story: Manage Custom Site Parsers', () => {
+  let service: ParserDefinitionService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockRecords.length = 0;
+    parserRegistry.unregisterParser('lotus-reads');
+    service = new ParserDefinitionService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('A saved definition is stored and handles its site from then on', async () => {
+    // Given: No parser for the site besides automatic detection
+    expect(parserRegistry.findParserForUrl(BOOK_URL)?.id).toBe('generic');
+
+    // When: Saving a definition for it
+    await service.saveDefinition(definitionJson());
+
+    // Then: It is persisted and takes over the site's URLs
+    expect(mockRecords).toHaveLength(1);
+    expect(mockRecords[0]).toMatchObject({ parserId: 'lotus-reads', name: 'Lotus Reads' });
+    expect(parserRegistry.findParserForUrl(BOOK_URL)?.id).toBe('lotus-reads');
+    expect(service.isCustomParser('lotus-reads')).toBe(true);
+
+    // And: Saving again edits the same record
+    await service.saveDefinition(definitionJson({ name: 'Lotus Reads v2' }));
+    expect(mockRecords).toHaveLength(1);
+    expect((await service.getDefinitions())[0]?.name).toBe('Lotus Reads v2');
+  });
+
+  test('Stored definitions are registered when the app starts', async () => {
+    // Given: A definition saved in an earlier session
+    mockRecords.push({ id: 1, parserId: 'lotus-reads', name: 'Lotus Reads', definition: definitionJson(), createdAt: new Date(), updatedAt: new Date() });
+
+    // When: Loading definitions
+    await service.loadDefinitions();
+
+    // Then: The parser is available again
+    expect(parserRegistry.getParser('lotus-reads')?.config.name).toBe('Lotus Reads');
+  });
+
+  test('Built-in parsers cannot be replaced or deleted', async () => {
+    await expect(service.saveDefinition(definitionJson({ id: 'royal-road' }))).rejects.toThrow('built-in parser');
+    await expect(service.deleteDefinition('generic')).rejects.toThrow('built-in parser');
+    expect(parserRegistry.getParser('royal-road')?.config.name).toBe('Royal Road');
+  });
+
+  test('A definition can be tried out through the registry without saving it', async () => {
+    // Given: The registry reports a successful parse
+    const testParser = jest.spyOn(parserRegistry, 'testParser').mockResolvedValue({
+      success: true,
+      metadata: { title: 'Jade River', author: 'Wen Shu', chapterCount: 12 },
+    });
+
+    // When: Testing an unsaved definition
+    const result = await service.testDefinition(definitionJson(), BOOK_URL);
+
+    // Then: The registry ran the test with the definition, and forgot it afterwards
+    expect(testParser).toHaveBeenCalledWith('lotus-reads', BOOK_URL);
+    expect(result.success).toBe(true);
+    expect(parserRegistry.getParser('lotus-reads')).toBeNull();
+    expect(mockRecords).toHaveLength(0);
+
+    // And: Invalid JSON is reported instead of thrown
+    expect(await service.testDefinition('{', BOOK_URL)).toMatchObject({ success: false });
+  });
+
+  test('Deleting a definition removes its parser', async () => {
+    // Given: A saved definition
+    await service.saveDefinition(definitionJson());
+
+    // When: Deleting it
+    await service.deleteDefinition('lotus-reads');
+
+    // Then: The site falls back to automatic detection
+    expect(mockRecords).toHaveLength(0);
+    expect(parserRegistry.findParserForUrl(BOOK_URL)?.id).toBe('generic');
+  });
+});
@@ -4,7 +4,8 @@
  */
 
 import { parserRegistry } from './parser-registry';
-import { ParsedBook, ParserProgress } from '../types/parser-types';
+import { getFileImportSources } from './file-import';
+import { ParsedBook, ParserProgress, ParseBookOptions } from '../types/parser-types';
 
 export interface ImportSource {
   id: string;
@@ -12,21 +13,47 @@ export interface ImportSource {
   baseUrl: string;
   supported: boolean;
   description: string;
+  kind?: 'url' | 'file';
+  fileExtensions?: string[];
 }
 
+export interface UrlValidation {
+  valid: boolean;
+  error?: string;
+  source?: string;
+  confidence?: number;
+  warning?: string;
+}
+
+// Below this the user is warned that chapters may be missing or out of order
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
 /**
  * Get list of supported import sources
  */
 export function getSupportedSources(): ImportSource[] {
   const parserStats = parserRegistry.getParserStats();
   
-  return parserStats.map(parser => ({
+  const urlSources: ImportSource[] = parserStats.map(parser => ({
     id: parser.id,
     name: parser.name,
-    baseUrl: `https://${parser.supportedDomains[0]}`,
+    baseUrl: parser.fallback ? 'Any other website' : `https://${parser.supportedDomains[0]}`,
     supported: parser.enabled,
-    description: parser.description
+    description: parser.description,
+    kind: 'url'
   }));
+  
+  const fileSources: ImportSource[] = getFileImportSources().map(source => ({
+    id: source.id,
+    name: source.name,
+    baseUrl: source.extensions.join(', '),
+    supported: true,
+    description: source.description,
+    kind: 'file',
+    fileExtensions: source.extensions
+  }));
+  
+  return [...urlSources, ...fileSources];
 }
 
 /**
@@ -34,9 +61,10 @@ export function getSupportedSources(): ImportSource[] {
  */
 export async function importBook(
   url: string, 
-  onProgress?: (progress: ParserProgress) => void
+  onProgress?: (progress: ParserProgress) => void,
+  options?: ParseBookOptions
 ): Promise<ParsedBook> {
-  return await parserRegistry.parseBook(url, onProgress);
+  return await parserRegistry.parseBook(url, onProgress, options);
 }
 
 /**
@@ -47,25 +75,32 @@ export function isUrlSupported(url: string): boolean {
 }
 
 /**
- * Validate a URL format and detect source
+ * Validate a URL format and detect source. Pass the fetched page to judge
+ * heuristic parsers on its actual content instead of the site alone.
  */
-export function validateUrl(url: string): { valid: boolean; error?: string; source?: string } {
+export function validateUrl(url: string, html?: string): UrlValidation {
   try {
     new URL(url);
-    
-    // Check if URL is supported and get source
-    if (parserRegistry.isUrlSupported(url)) {
-      const parser = parserRegistry.findParserForUrl(url);
-      if (parser?.id) {
-        return { valid: true, source: parser.id };
-      }
-      return { valid: true };
-    }
-    
-    return { valid: false, error: 'Unsupported source URL' };
   } catch {
     return { valid: false, error: 'Invalid URL format' };
   }
+  
+  const parser = parserRegistry.findParserForUrl(url);
+  if (!parser) {
+    return { valid: false, error: 'Unsupported source URL' };
+  }
+  
+  const confidence = parser.getConfidence(url, html);
+  if (confidence < LOW_CONFIDENCE_THRESHOLD) {
+    return {
+      valid: true,
+      source: parser.id,
+      confidence,
+      warning: `No dedicated parser for this site. Automatic detection is ${Math.round(confidence * 100)}% confident, so chapters may be missing or out of order.`
+    };
+  }
+  
+  return { valid: true, source: parser.id, confidence };
 }
 
 /**
@@ -112,8 +147,11 @@ export function getImportStats() {
       'Metadata extraction',
       'Rate-limited requests',
       'Error recovery',
+      'Resumable imports',
+      'Local EPUB files',
+      'Automatic detection for other sites',
       'Multiple parser support',
-      'CORS proxy handling'
+      'Pluggable fetch transports with failover'
     ]
   };
 }
@@ -0,0 +1,186 @@
+/**
+ * Book Update Service - Readiwi v4.0
+ * Checks serialized books for new chapters and appends only what is missing,
+ * instead of re-importing the whole book.
+ */
+
+import { Book, BookStatus } from '@/core/types/database';
+import { libraryService } from '@/plugins/book-library/services/library-service';
+import { readerService } from '@/plugins/reader/services/reader-service';
+import { Chapter } from '@/plugins/reader/types/reader-types';
+import { readingSpeedService } from '@/plugins/statistics/services/reading-speed-service';
+import { parserRegistry } from './parser-registry';
+import { parserDefinitionService } from './parser-definition-service';
+import { getDownloadImages, getDownloadSettings, getPreserveFormatting } from './import-settings';
+import { imageCacheService } from './image-cache-service';
+import { ParsedChapter, ParserProgress } from '../types/parser-types';
+
+export interface BookUpdateResult {
+  bookId: number;
+  title: string;
+  newChapters: number;
+  totalChapters: number;
+  failedChapters?: number; // New chapters that could not be downloaded; retried on the next check
+  error?: string;
+}
+
+class BookUpdateService {
+  private activeUpdates = new Set<number>();
+
+  /**
+   * Fetch the source chapter list for a book and append chapters it does not have yet
+   */
+  async updateBook(
+    bookId: number,
+    onProgress?: (progress: ParserProgress) => void,
+    { signal }: { signal?: AbortSignal } = {}
+  ): Promise<BookUpdateResult> {
+    await parserDefinitionService.loadDefinitions();
+    const book = await libraryService.getBook(bookId);
+    if (!book) {
+      throw new Error(`Book ${bookId} not found`);
+    }
+
+    if (!book.sourceUrl) {
+      throw new Error(`Book "${book.title}" has no source URL to check for updates`);
+    }
+
+    const parser = parserRegistry.findParserForUrl(book.sourceUrl);
+    if (!parser) {
+      throw new Error(`Unsupported source URL: ${book.sourceUrl}`);
+    }
+
+    if (this.activeUpdates.has(bookId)) {
+      throw new Error(`Book "${book.title}" is already being updated`);
+    }
+
+    this.activeUpdates.add(bookId);
+    // A crash mid-update leaves UPDATING behind; don't restore that
+    const previousStatus = book.status === BookStatus.UPDATING ? BookStatus.READY : book.status;
+
+    try {
+      await libraryService.updateBook(bookId, { status: BookStatus.UPDATING });
+
+      const existingChapters = await readerService.getBookChapters(bookId);
+      const isKnownChapter = this.createChapterMatcher(existingChapters, url => parser.extractChapterId(url));
+      const takenNumbers = new Set(existingChapters.map(chapter => chapter.chapterNumber));
+      let nextChapterNumber = existingChapters.reduce((max, chapter) => Math.max(max, chapter.chapterNumber), 0) + 1;
+      let newChapters = 0;
+      const downloadImages = getDownloadImages();
+
+      const parsed = await parserRegistry.parseBook(book.sourceUrl, onProgress, {
+        refreshBookPage: true,
+        download: getDownloadSettings(),
+        preserveFormatting: getPreserveFormatting(),
+        ...(signal && { signal }),
+        shouldFetchChapter: (chapterUrl, chapterNumber) => !isKnownChapter(chapterUrl, chapterNumber),
+        onChapterParsed: async (chapter: ParsedChapter) => {
+          // A chapter that failed during the import fills its gap; new chapters go
+          // after the ones we already have, whatever their position on the source
+          const fillsGap = chapter.chapterNumber < nextChapterNumber && !takenNumbers.has(chapter.chapterNumber);
+          const chapterNumber = fillsGap ? chapter.chapterNumber : nextChapterNumber++;
+          takenNumbers.add(chapterNumber);
+
+          const withImages = await imageCacheService.attachChapterImages(chapter, bookId, downloadImages, signal);
+          await readerService.saveChapters(bookId, [{ ...withImages, chapterNumber }]);
+          newChapters++;
+        },
+      });
+
+      const storedChapters = newChapters > 0 ? await readerService.getBookChapters(bookId) : existingChapters;
+      const wordCount = storedChapters.reduce((total, chapter) => total + chapter.wordCount, 0);
+
+      await libraryService.updateBook(bookId, {
+        status: previousStatus,
+        totalChapters: storedChapters.length,
+        wordCount,
+        estimatedReadingTime: await readingSpeedService.estimateBookMinutes(bookId, wordCount),
+        lastCheckedAt: new Date(),
+        newChapterCount: (book.newChapterCount ?? 0) + newChapters,
+        ...(newChapters > 0 && { isOfflineAvailable: await imageCacheService.isBookCached(book.coverUrl, storedChapters) }),
+      });
+
+      return {
+        bookId,
+        title: book.title,
+        newChapters,
+        totalChapters: storedChapters.length,
+        ...(parsed.failedChapters && parsed.failedChapters.length > 0 && { failedChapters: parsed.failedChapters.length }),
+      };
+    } catch (error) {
+      await libraryService.updateBook(bookId, { status: previousStatus }).catch(restoreError => {
+        console.error('Failed to restore book status after update failure:', restoreError);
+      });
+      throw error;
+    } finally {
+      this.activeUpdates.delete(bookId);
+    }
+  }
+
+  /**
+   * Check several books in turn; failures are reported per book rather than aborting the run
+   */
+  async checkForUpdates(
+    books: Pick<Book, 'id' | 'title' | 'sourceUrl'>[],
+    onBookChecked?: (result: BookUpdateResult, checked: number, total: number) => void
+  ): Promise<BookUpdateResult[]> {
+    // Books from user-defined parsers can only be checked once those are registered
+    await parserDefinitionService.loadDefinitions();
+    const updatable = books.filter(book => book.id && this.canUpdate(book));
+    const results: BookUpdateResult[] = [];
+
+    for (const book of updatable) {
+      let result: BookUpdateResult;
+      try {
+        result = await this.updateBook(book.id!);
+      } catch (error) {
+        result = {
+          bookId: book.id!,
+          title: book.title,
+          newChapters: 0,
+          totalChapters: 0,
+          error: error instanceof Error ? error.message : 'Update failed',
+        };
+      }
+
+      results.push(result);
+      onBookChecked?.(result, results.length, updatable.length);
+    }
+
+    return results;
+  }
+
+  /**
+   * Whether a book came from a source we can re-read
+   */
+  canUpdate(book: Pick<Book, 'sourceUrl'>): boolean {
+    return Boolean(book.sourceUrl && parserRegistry.isUrlSupported(book.sourceUrl));
+  }
+
+  isUpdating(bookId: number): boolean {
+    return this.activeUpdates.has(bookId);
+  }
+
+  /**
+   * Build a predicate recognising chapters the book already has.
+   * Books imported before source ids were recorded fall back to chapter position.
+   */
+  private createChapterMatcher(
+    chapters: Chapter[],
+    extractChapterId: (url: string) => string | null
+  ): (chapterUrl: string, chapterNumber: number) => boolean {
+    const knownIds = new Set(chapters.map(chapter => chapter.sourceChapterId).filter(Boolean));
+    const knownUrls = new Set(chapters.map(chapter => chapter.sourceUrl).filter(Boolean));
+
+    if (knownIds.size === 0 && knownUrls.size === 0) {
+      return (_chapterUrl, chapterNumber) => chapterNumber <= chapters.length;
+    }
+
+    return (chapterUrl) => {
+      const chapterId = extractChapterId(chapterUrl);
+      return knownUrls.has(chapterUrl) || (chapterId !== null && knownIds.has(chapterId));
+    };
+  }
+}
+
+export const bookUpdateService = new BookUpdateService();
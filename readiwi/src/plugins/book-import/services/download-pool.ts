@@ -0,0 +1,204 @@
+/**
+ * Download Pool - Readiwi v4.0
+ * Building blocks for polite parallel downloads: a token-bucket rate limiter,
+ * per-request timeouts, exponential-backoff retries and a bounded worker pool
+ */
+
+export interface DownloadOptions {
+  concurrency: number; // Chapters downloaded at the same time
+  retryAttempts: number; // Extra tries after the first failure
+  timeoutMs: number; // Per request
+  retryDelayMs: number; // First backoff; doubles with every retry
+}
+
+export const DEFAULT_DOWNLOAD_OPTIONS: DownloadOptions = {
+  concurrency: 3,
+  retryAttempts: 3,
+  timeoutMs: 60 * 1000,
+  retryDelayMs: 1000
+};
+
+export function createAbortError(): Error {
+  const error = new Error('Import cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * True for our own cancellation errors and for fetch() aborted by a signal
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Wait, waking early with an AbortError if the signal fires
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Hands out request slots: bursts up to `capacity`, refilled at `perMinute`,
+ * and never closer together than `minIntervalMs`. Waiters are served in order.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private lastGrant = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private capacity: number,
+    private perMinute: number,
+    private minIntervalMs: number = 0
+  ) {
+    this.tokens = capacity;
+  }
+
+  take(signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken(signal));
+    // A cancelled waiter must not hold up the ones behind it
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForToken(signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal);
+    this.refill();
+
+    const tokenWait = this.tokens >= 1 ? 0 : ((1 - this.tokens) * 60000) / this.perMinute;
+    const spacingWait = Math.max(0, this.lastGrant + this.minIntervalMs - Date.now());
+    const wait = Math.ceil(Math.max(tokenWait, spacingWait));
+
+    if (wait > 0) {
+      await sleep(wait, signal);
+      this.refill();
+    }
+
+    this.tokens = Math.max(0, this.tokens - 1);
+    this.lastGrant = Date.now();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) * this.perMinute) / 60000);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Run a task with an abort signal that fires after `timeoutMs` or when `signal`
+ * does; the task is rejected at once even if it ignores the signal
+ */
+export async function withTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  description: string,
+  signal?: AbortSignal
+): Promise<T> {
+  throwIfAborted(signal);
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${description} timed out after ${Math.round(timeoutMs / 1000)}s`));
+    }, timeoutMs);
+
+    onAbort = () => {
+      controller.abort();
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([task(controller.signal), deadline]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Retry a task with exponential backoff; the last error is rethrown with the attempt
+ * count. Cancellation is never retried.
+ */
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  retryAttempts: number,
+  retryDelayMs: number,
+  signal?: AbortSignal
+): Promise<{ result: T; attempts: number }> {
+  let attempt = 0;
+
+  for (;;) {
+    attempt++;
+    try {
+      return { result: await task(attempt), attempts: attempt };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (attempt > retryAttempts) {
+        throw Object.assign(error instanceof Error ? error : new Error(String(error)), { attempts: attempt });
+      }
+      await sleep(retryDelayMs * 2 ** (attempt - 1), signal);
+    }
+  }
+}
+
+/**
+ * Process items with at most `concurrency` workers; the first worker error stops
+ * new items from being picked up and is rethrown once every worker has finished,
+ * so nothing a worker started is still running when the caller cleans up
+ */
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let failed = false;
+  let firstError: unknown;
+
+  const runWorker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        await worker(items[index]!, index);
+      } catch (error) {
+        if (!failed) firstError = error;
+        failed = true;
+        return;
+      }
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, Math.floor(concurrency)), items.length);
+  await Promise.allSettled(Array.from({ length: workerCount }, runWorker));
+  if (failed) throw firstError;
+}
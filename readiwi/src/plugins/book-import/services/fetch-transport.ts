@@ -0,0 +1,420 @@
+/**
+ * Fetch Transport - Readiwi v4.0
+ * Pluggable ways of fetching source pages (direct, CORS proxies, the app's own
+ * proxy route, recorded fixtures) with per-transport health tracking and failover
+ */
+
+import { createAbortError, isAbortError, throwIfAborted } from './download-pool';
+import { APP_PROXY_ROUTE, USER_AGENT_HEADER } from '../types/import-types';
+
+export interface TransportRequest {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  text: string;
+  notModified: boolean; // 304 to a conditional request; text is empty
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface FetchTransport {
+  id: string;
+  name: string;
+  isAvailable(): boolean;
+  fetchPage(url: string, request?: TransportRequest): Promise<TransportResponse>;
+  /** Binary bodies such as images; transports without it are skipped for those */
+  fetchBlob?(url: string, request?: TransportRequest): Promise<Blob>;
+}
+
+export interface TransportHealth {
+  transportId: string;
+  name: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  averageLatencyMs: number;
+  coolingDown: boolean;
+  lastError?: string;
+  lastSuccessAt?: Date;
+  lastFailureAt?: Date;
+}
+
+export interface TransportSettings {
+  useDirect: boolean;
+  useAppProxy: boolean;
+  proxies: string[]; // URL prefixes, or templates with a {url} placeholder
+}
+
+export interface TransportManagerOptions {
+  /** Try a parser's own `corsProxy` first; off for explicit transport lists such as test fixtures */
+  allowParserProxies?: boolean;
+}
+
+const SETTINGS_KEY = 'readiwi-transport-settings';
+const FAILURES_BEFORE_COOLDOWN = 3;
+const COOLDOWN_MS = 60 * 1000;
+
+const DEFAULT_SETTINGS: TransportSettings = {
+  useDirect: true,
+  useAppProxy: true,
+  proxies: []
+};
+
+function toRequestInit(request: TransportRequest, headers = request.headers): RequestInit {
+  return {
+    ...(headers && { headers }),
+    ...(request.signal && { signal: request.signal })
+  };
+}
+
+async function readResponse(response: Response, source: string): Promise<TransportResponse> {
+  const etag = response.headers?.get('ETag');
+  const lastModified = response.headers?.get('Last-Modified');
+  const validators = {
+    ...(etag && { etag }),
+    ...(lastModified && { lastModified })
+  };
+
+  if (response.status === 304) {
+    return { text: '', notModified: true, ...validators };
+  }
+  if (!response.ok) {
+    throw new Error(`${source} returned ${response.status} ${response.statusText}`.trim());
+  }
+  return { text: await response.text(), notModified: false, ...validators };
+}
+
+async function readBlob(response: Response, source: string): Promise<Blob> {
+  if (!response.ok) {
+    throw new Error(`${source} returned ${response.status} ${response.statusText}`.trim());
+  }
+  return await response.blob();
+}
+
+/**
+ * Plain fetch; works for sites that send CORS headers and outside the browser
+ */
+export class DirectTransport implements FetchTransport {
+  id = 'direct';
+  name = 'Direct';
+
+  isAvailable(): boolean {
+    return typeof fetch !== 'undefined';
+  }
+
+  async fetchPage(url: string, request: TransportRequest = {}): Promise<TransportResponse> {
+    const response = await fetch(url, toRequestInit(request));
+    return await readResponse(response, this.name);
+  }
+
+  async fetchBlob(url: string, request: TransportRequest = {}): Promise<Blob> {
+    const response = await fetch(url, toRequestInit(request));
+    return await readBlob(response, this.name);
+  }
+}
+
+/**
+ * A third-party CORS proxy, either a prefix ("https://proxy/?") or a template ("https://proxy/?target={url}")
+ */
+export class ProxyTransport implements FetchTransport {
+  id: string;
+  name: string;
+
+  constructor(readonly proxy: string) {
+    this.id = `proxy:${proxy}`;
+    this.name = ProxyTransport.describe(proxy);
+  }
+
+  static describe(proxy: string): string {
+    try {
+      return `Proxy ${new URL(proxy.replace('{url}', '')).host}`;
+    } catch {
+      return `Proxy ${proxy}`;
+    }
+  }
+
+  isAvailable(): boolean {
+    return typeof fetch !== 'undefined';
+  }
+
+  buildUrl(url: string): string {
+    const encoded = encodeURIComponent(url);
+    return this.proxy.includes('{url}') ? this.proxy.replace('{url}', encoded) : `${this.proxy}${encoded}`;
+  }
+
+  async fetchPage(url: string, request: TransportRequest = {}): Promise<TransportResponse> {
+    const response = await fetch(this.buildUrl(url), toRequestInit(request));
+    return await readResponse(response, this.name);
+  }
+
+  async fetchBlob(url: string, request: TransportRequest = {}): Promise<Blob> {
+    const response = await fetch(this.buildUrl(url), toRequestInit(request));
+    return await readBlob(response, this.name);
+  }
+}
+
+/**
+ * The app's own Next.js route handler, which fetches on the server where CORS does not apply
+ */
+export class AppProxyTransport implements FetchTransport {
+  id = 'app-proxy';
+  name = 'Readiwi proxy';
+
+  constructor(private route: string = APP_PROXY_ROUTE) {}
+
+  isAvailable(): boolean {
+    // The route is relative to the page, so it only exists in the browser
+    return typeof window !== 'undefined' && typeof fetch !== 'undefined';
+  }
+
+  async fetchPage(url: string, request: TransportRequest = {}): Promise<TransportResponse> {
+    const response = await fetch(this.buildUrl(url), toRequestInit(request, this.routeHeaders(request)));
+    return await readResponse(response, this.name);
+  }
+
+  async fetchBlob(url: string, request: TransportRequest = {}): Promise<Blob> {
+    const response = await fetch(this.buildUrl(url), toRequestInit(request, this.routeHeaders(request)));
+    return await readBlob(response, this.name);
+  }
+
+  private buildUrl(url: string): string {
+    return `${this.route}?url=${encodeURIComponent(url)}`;
+  }
+
+  private routeHeaders(request: TransportRequest): Record<string, string> {
+    // Browsers refuse to set User-Agent themselves, so the route applies it
+    const { 'User-Agent': userAgent, ...headers } = request.headers ?? {};
+    if (userAgent) {
+      headers[USER_AGENT_HEADER] = userAgent;
+    }
+    return headers;
+  }
+}
+
+/**
+ * Serves recorded pages so parsers can be tested without a network
+ */
+export class ReplayTransport implements FetchTransport {
+  id = 'replay';
+  name = 'Recorded pages';
+  readonly requests: string[] = [];
+
+  constructor(private pages: Record<string, string>) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async fetchPage(url: string): Promise<TransportResponse> {
+    this.requests.push(url);
+
+    const page = this.pages[url];
+    if (page === undefined) {
+      throw new Error(`No recorded page for ${url}`);
+    }
+    return { text: page, notModified: false };
+  }
+}
+
+/**
+ * Build the transport list for the given settings, in failover priority order
+ */
+export function createTransports(settings: TransportSettings): FetchTransport[] {
+  return [
+    ...(settings.useDirect ? [new DirectTransport()] : []),
+    ...(settings.useAppProxy ? [new AppProxyTransport()] : []),
+    ...settings.proxies.map(proxy => new ProxyTransport(proxy))
+  ];
+}
+
+export class TransportManager {
+  private transports: FetchTransport[];
+  private health = new Map<string, Omit<TransportHealth, 'coolingDown'>>();
+  private settings: TransportSettings = { ...DEFAULT_SETTINGS };
+  private allowParserProxies: boolean;
+
+  /**
+   * Without an explicit list the transports come from the user's saved settings
+   */
+  constructor(transports?: FetchTransport[], options: TransportManagerOptions = {}) {
+    if (transports) {
+      this.transports = transports;
+      this.allowParserProxies = options.allowParserProxies ?? false;
+    } else {
+      this.loadSettings();
+      this.transports = createTransports(this.settings);
+      this.allowParserProxies = options.allowParserProxies ?? true;
+    }
+  }
+
+  getTransports(): FetchTransport[] {
+    return [...this.transports];
+  }
+
+  getSettings(): TransportSettings {
+    return { ...this.settings, proxies: [...this.settings.proxies] };
+  }
+
+  updateSettings(settings: Partial<TransportSettings>): void {
+    this.settings = {
+      ...this.settings,
+      ...settings,
+      proxies: (settings.proxies ?? this.settings.proxies).map(proxy => proxy.trim()).filter(Boolean)
+    };
+    this.transports = createTransports(this.settings);
+    this.saveSettings();
+  }
+
+  getHealth(): TransportHealth[] {
+    return Array.from(this.health.values()).map(health => ({
+      ...health,
+      coolingDown: this.isCoolingDown(health.transportId)
+    }));
+  }
+
+  resetHealth(): void {
+    this.health.clear();
+  }
+
+  /**
+   * Healthy transports first in priority order; ones that keep failing cool down at the back
+   */
+  getOrderedTransports(parserProxy?: string): FetchTransport[] {
+    const preferred = parserProxy && this.allowParserProxies ? [new ProxyTransport(parserProxy)] : [];
+    const seen = new Set<string>();
+
+    return [...preferred, ...this.transports]
+      .filter(transport => {
+        if (seen.has(transport.id) || !transport.isAvailable()) return false;
+        seen.add(transport.id);
+        return true;
+      })
+      .map((transport, priority) => ({ transport, priority, coolingDown: this.isCoolingDown(transport.id) }))
+      .sort((a, b) => Number(a.coolingDown) - Number(b.coolingDown) || a.priority - b.priority)
+      .map(entry => entry.transport);
+  }
+
+  async fetchText(url: string, request: TransportRequest = {}, parserProxy?: string): Promise<string> {
+    return (await this.fetchPage(url, request, parserProxy)).text;
+  }
+
+  /**
+   * Fetch a page through the first transport that succeeds
+   */
+  async fetchPage(url: string, request: TransportRequest = {}, parserProxy?: string): Promise<TransportResponse> {
+    return await this.withFailover(url, request, this.getOrderedTransports(parserProxy), transport => transport.fetchPage(url, request));
+  }
+
+  /**
+   * Fetch a binary body, such as an image, through the first transport that succeeds
+   */
+  async fetchBlob(url: string, request: TransportRequest = {}): Promise<Blob> {
+    const transports = this.getOrderedTransports().filter(transport => transport.fetchBlob);
+    return await this.withFailover(url, request, transports, transport => transport.fetchBlob!(url, request));
+  }
+
+  private async withFailover<T>(
+    url: string,
+    request: TransportRequest,
+    transports: FetchTransport[],
+    fetchWith: (transport: FetchTransport) => Promise<T>
+  ): Promise<T> {
+    if (transports.length === 0) {
+      throw new Error('No fetch transport is available');
+    }
+
+    const errors: string[] = [];
+    for (const transport of transports) {
+      throwIfAborted(request.signal);
+
+      const startedAt = Date.now();
+      try {
+        const response = await fetchWith(transport);
+        this.recordSuccess(transport, Date.now() - startedAt);
+        return response;
+      } catch (error) {
+        // Cancellation says nothing about the transport, and no other one should be tried
+        if (request.signal?.aborted || isAbortError(error)) {
+          throw createAbortError();
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        this.recordFailure(transport, message);
+        errors.push(`${transport.name}: ${message}`);
+      }
+    }
+
+    throw new Error(`Failed to fetch ${url}: ${errors.join('; ')}`);
+  }
+
+  private isCoolingDown(transportId: string): boolean {
+    const health = this.health.get(transportId);
+    if (!health?.lastFailureAt || health.consecutiveFailures < FAILURES_BEFORE_COOLDOWN) return false;
+    return Date.now() - health.lastFailureAt.getTime() < COOLDOWN_MS;
+  }
+
+  private getOrCreateHealth(transport: FetchTransport): Omit<TransportHealth, 'coolingDown'> {
+    let health = this.health.get(transport.id);
+    if (!health) {
+      health = {
+        transportId: transport.id,
+        name: transport.name,
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        averageLatencyMs: 0
+      };
+      this.health.set(transport.id, health);
+    }
+    return health;
+  }
+
+  private recordSuccess(transport: FetchTransport, latencyMs: number): void {
+    const health = this.getOrCreateHealth(transport);
+    health.averageLatencyMs = Math.round((health.averageLatencyMs * health.successes + latencyMs) / (health.successes + 1));
+    health.successes++;
+    health.consecutiveFailures = 0;
+    health.lastSuccessAt = new Date();
+  }
+
+  private recordFailure(transport: FetchTransport, message: string): void {
+    const health = this.getOrCreateHealth(transport);
+    health.failures++;
+    health.consecutiveFailures++;
+    health.lastError = message;
+    health.lastFailureAt = new Date();
+  }
+
+  /**
+   * Load settings from localStorage
+   */
+  private loadSettings(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const saved = localStorage.getItem(SETTINGS_KEY);
+      if (saved) {
+        this.settings = { ...this.settings, ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      console.warn('Failed to load transport settings:', error);
+    }
+  }
+
+  /**
+   * Save settings to localStorage
+   */
+  private saveSettings(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save transport settings:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const fetchTransportManager = new TransportManager();
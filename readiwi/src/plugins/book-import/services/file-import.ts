@@ -0,0 +1,166 @@
+/**
+ * File Import - Readiwi v4.0
+ * Imports books from files on the user's device through the same
+ * library save path as URL imports
+ */
+
+import { strFromU8 } from 'fflate';
+import { readBlobBytes } from '@/core/utils/blob';
+import { epubParser } from '../parsers/epub-parser';
+import { textFileParser } from '../parsers/text-file-parser';
+import { ParsedFileBook, ParserProgress, TextFileDocument, TextFileFormat } from '../types/parser-types';
+import { importJobService, ImportJobOptions, ImportJobResult } from './import-job-service';
+import { throwIfAborted } from './download-pool';
+import { getChapterSplitOptions, getPreserveFormatting } from './import-settings';
+
+export interface FileImportSource {
+  id: string;
+  name: string;
+  extensions: string[];
+  description: string;
+}
+
+const FILE_SOURCES: FileImportSource[] = [
+  {
+    id: 'epub-file',
+    name: 'EPUB File',
+    extensions: ['.epub'],
+    description: 'EPUB 2 and 3 e-books from your device',
+  },
+  {
+    id: 'text-file',
+    name: 'Text File',
+    extensions: ['.txt'],
+    description: 'Plain text books, split into chapters at lines such as "Chapter 1"',
+  },
+  {
+    id: 'markdown-file',
+    name: 'Markdown File',
+    extensions: ['.md', '.markdown'],
+    description: 'Markdown books, split into chapters at # headings',
+  },
+  {
+    id: 'html-file',
+    name: 'HTML File',
+    extensions: ['.html', '.htm'],
+    description: 'Single-page HTML books, split into chapters at <h1>/<h2> headings',
+  },
+];
+
+// Files whose chapters are found from their headings, so they get a preview before saving
+const TEXT_FILE_FORMATS: Record<string, TextFileFormat> = {
+  '.txt': 'text',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+};
+
+function getExtension(fileName: string): string {
+  const match = fileName.toLowerCase().match(/\.[^.]+$/);
+  return match?.[0] ?? '';
+}
+
+/**
+ * Get the file types that can be imported
+ */
+export function getFileImportSources(): FileImportSource[] {
+  return FILE_SOURCES.map(source => ({ ...source, extensions: [...source.extensions] }));
+}
+
+/**
+ * File extensions accepted by the import file picker
+ */
+export function getSupportedFileExtensions(): string[] {
+  return FILE_SOURCES.flatMap(source => source.extensions);
+}
+
+/**
+ * Check if a file can be imported based on its name
+ */
+export function isFileSupported(fileName: string): boolean {
+  return getSupportedFileExtensions().includes(getExtension(fileName));
+}
+
+/**
+ * Check if a file is split into chapters at its headings, letting the user adjust the splits
+ */
+export function isTextBookFile(fileName: string): boolean {
+  return getExtension(fileName) in TEXT_FILE_FORMATS;
+}
+
+/**
+ * Read a text, Markdown or HTML file into blocks, split where the user's import settings say
+ */
+export async function readTextBookFile(file: File): Promise<TextFileDocument> {
+  const format = TEXT_FILE_FORMATS[getExtension(file.name)];
+  if (!format) {
+    throw new Error(`Unsupported file type: ${getExtension(file.name) || file.name}`);
+  }
+
+  const text = strFromU8(await readBlobBytes(file));
+  return textFileParser.parse(text, file.name, format, getChapterSplitOptions());
+}
+
+/**
+ * Build a book from a text file document, e.g. after the user adjusted its split points
+ */
+export function buildTextBook(document: TextFileDocument): ParsedFileBook {
+  return textFileParser.buildBook(document, getPreserveFormatting());
+}
+
+/**
+ * Parse a local file into a book without saving it
+ */
+export async function parseBookFile(file: File): Promise<ParsedFileBook> {
+  const extension = getExtension(file.name);
+
+  if (!isFileSupported(file.name)) {
+    throw new Error(`Unsupported file type: ${extension || file.name}`);
+  }
+
+  if (isTextBookFile(file.name)) {
+    return buildTextBook(await readTextBookFile(file));
+  }
+
+  const data = await readBlobBytes(file);
+
+  switch (extension) {
+    case '.epub':
+      return epubParser.parse(data, file.name, getPreserveFormatting());
+    default:
+      throw new Error(`Unsupported file type: ${extension}`);
+  }
+}
+
+/**
+ * Parse a local file, cache its images and save it to the library
+ */
+export async function importBookFile(
+  file: File,
+  onProgress?: (progress: ParserProgress) => void,
+  options: ImportJobOptions = {}
+): Promise<ImportJobResult> {
+  onProgress?.({ status: 'parsing', completedChapters: 0, totalChapters: 0, currentChapter: `Reading ${file.name}` });
+
+  const book = await parseBookFile(file);
+  throwIfAborted(options.signal);
+  return await importParsedFileBook(book, onProgress, options);
+}
+
+/**
+ * Save an already parsed file book, e.g. after the user reviewed a preview
+ */
+export async function importParsedFileBook(
+  book: ParsedFileBook,
+  onProgress?: (progress: ParserProgress) => void,
+  options: ImportJobOptions = {}
+): Promise<ImportJobResult> {
+  const { images, ...parsedBook } = book;
+  const cachedImages = images.map(image => ({
+    url: image.url,
+    blob: new Blob([image.data], { type: image.mediaType }),
+  }));
+
+  return await importJobService.importParsedBook(parsedBook, onProgress, { ...options, images: cachedImages });
+}
@@ -0,0 +1,255 @@
+/**
+ * Image Cache Service - Readiwi v4.0
+ * Keeps covers and chapter images in IndexedDB so books can be read offline.
+ * Each image records the books showing it and is deleted with the last of them;
+ * the least recently viewed downloads are evicted once the cache is full
+ */
+
+import { db, STORAGE_LIMITS } from '@/core/services/database-simple';
+import { ImageCacheEntry } from '@/core/types/database';
+import { DEFAULT_DOWNLOAD_OPTIONS, TokenBucket, isAbortError, throwIfAborted, withTimeout } from './download-pool';
+import { TransportManager, fetchTransportManager } from './fetch-transport';
+import { ParsedChapter } from '../types/parser-types';
+
+export const MAX_IMAGE_SIZE_BYTES = 10 * 1024 * 1024;
+// Image hosts get the same pacing as the gentlest parsers, with a minute's worth of burst
+const IMAGE_REQUESTS_PER_MINUTE = 60;
+
+export interface CachedImage {
+  url: string; // imageCache key
+  blob: Blob;
+}
+
+const REMOTE_IMAGE_URL = /^https?:\/\//i;
+
+/**
+ * Remote images in a chapter's formatted HTML, in order and without repeats
+ */
+export function getChapterImageUrls(htmlContent: string | undefined): string[] {
+  if (!htmlContent || typeof DOMParser === 'undefined') return [];
+
+  const doc = new DOMParser().parseFromString(htmlContent, 'text/html');
+  const urls = Array.from(doc.querySelectorAll('img'))
+    .map(img => img.getAttribute('src') ?? '')
+    .filter(src => REMOTE_IMAGE_URL.test(src));
+
+  return Array.from(new Set(urls));
+}
+
+export class ImageCacheService {
+  private transport: TransportManager = fetchTransportManager;
+  private limiter = new TokenBucket(IMAGE_REQUESTS_PER_MINUTE, IMAGE_REQUESTS_PER_MINUTE);
+
+  /**
+   * Store a book's images, replacing earlier copies of the same URLs, then make room for them
+   */
+  async storeImages(images: CachedImage[], bookId: number): Promise<void> {
+    if (images.length === 0) return;
+
+    const now = new Date();
+    const urls = images.map(image => image.url);
+
+    try {
+      // @ts-ignore - Progressive development approach
+      await db.transaction('rw', db.imageCache, async () => {
+        // @ts-ignore - Progressive development approach
+        const existing: ImageCacheEntry[] = await db.imageCache.where('url').anyOf(urls).toArray();
+        const bookIdsByUrl = new Map(existing.map(entry => [entry.url, entry.bookIds]));
+
+        // @ts-ignore - Progressive development approach
+        await db.imageCache.where('url').anyOf(urls).delete();
+        // @ts-ignore - Progressive development approach
+        await db.imageCache.bulkAdd(images.map(image => ({
+          url: image.url,
+          blob: image.blob,
+          size: image.blob.size,
+          bookIds: Array.from(new Set([...(bookIdsByUrl.get(image.url) ?? []), bookId])),
+          createdAt: now,
+          lastAccessedAt: now,
+        })));
+      });
+    } catch (error) {
+      throw new Error(`Failed to store book images: ${error}`);
+    }
+
+    await this.evict();
+  }
+
+  /**
+   * Download a book's remote images among `urls` that aren't cached yet. An image
+   * that fails is skipped so one broken link doesn't fail the import; returns the
+   * URLs that are cached afterwards, all of them now recorded against the book
+   */
+  async downloadImages(urls: string[], bookId: number, signal?: AbortSignal): Promise<Set<string>> {
+    const cached = await this.getCachedUrls(urls);
+    await this.linkImages(Array.from(cached), bookId);
+    const downloaded: CachedImage[] = [];
+
+    for (const url of new Set(urls)) {
+      if (cached.has(url) || !REMOTE_IMAGE_URL.test(url)) continue;
+      throwIfAborted(signal);
+
+      try {
+        downloaded.push({ url, blob: await this.fetchImage(url, signal) });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn('Skipping image that could not be downloaded:', error);
+      }
+    }
+
+    if (downloaded.length === 0) return cached;
+    await this.storeImages(downloaded, bookId);
+    return await this.getCachedUrls(urls);
+  }
+
+  /**
+   * Record the images a chapter of a book shows, downloading them when asked to.
+   * Images already cached, e.g. for another book, are recorded against this one too
+   */
+  async attachChapterImages(chapter: ParsedChapter, bookId: number, download: boolean, signal?: AbortSignal): Promise<ParsedChapter> {
+    const imageUrls = chapter.imageUrls ?? getChapterImageUrls(chapter.htmlContent);
+    if (imageUrls.length === 0) return chapter;
+
+    if (download) {
+      await this.downloadImages(imageUrls, bookId, signal);
+    } else {
+      await this.linkImages(imageUrls, bookId);
+    }
+    return { ...chapter, imageUrls };
+  }
+
+  /**
+   * Record the cached images among `urls` as shown by a book, so they stay until it is deleted
+   */
+  async linkImages(urls: string[], bookId: number): Promise<void> {
+    if (urls.length === 0) return;
+
+    try {
+      // @ts-ignore - Progressive development approach
+      const entries: ImageCacheEntry[] = await db.imageCache.where('url').anyOf(urls).toArray();
+      const unlinked = entries.filter(entry => !entry.bookIds.includes(bookId));
+      if (unlinked.length === 0) return;
+
+      // @ts-ignore - Progressive development approach
+      await db.imageCache.bulkUpdate(unlinked.map(entry => ({ key: entry.id, changes: { bookIds: [...entry.bookIds, bookId] } })));
+    } catch (error) {
+      console.warn('Failed to record book images:', error);
+    }
+  }
+
+  async getCachedUrls(urls: string[]): Promise<Set<string>> {
+    if (urls.length === 0) return new Set();
+
+    try {
+      // @ts-ignore - Progressive development approach
+      const entries: ImageCacheEntry[] = await db.imageCache.where('url').anyOf(urls).toArray();
+      return new Set(entries.map(entry => entry.url));
+    } catch (error) {
+      console.warn('Failed to read image cache:', error);
+      return new Set();
+    }
+  }
+
+  /**
+   * Whether a book's cover and every image its chapters show are cached
+   */
+  async isBookCached(coverUrl: string | undefined, chapters: { imageUrls?: string[] }[]): Promise<boolean> {
+    const urls = Array.from(new Set([
+      ...(coverUrl ? [coverUrl] : []),
+      ...chapters.flatMap(chapter => chapter.imageUrls ?? []),
+    ]));
+
+    const cached = await this.getCachedUrls(urls);
+    return urls.every(url => cached.has(url));
+  }
+
+  /**
+   * Object URLs for the cached images among `urls`, marking them recently used.
+   * Pass the result to `releaseObjectUrls` once the images are no longer shown
+   */
+  async getObjectUrls(urls: string[]): Promise<Record<string, string>> {
+    if (urls.length === 0 || typeof URL.createObjectURL !== 'function') return {};
+
+    try {
+      // @ts-ignore - Progressive development approach
+      const entries: ImageCacheEntry[] = await db.imageCache.where('url').anyOf(urls).toArray();
+      if (entries.length === 0) return {};
+
+      // @ts-ignore - Progressive development approach
+      await db.imageCache.bulkUpdate(entries.map(entry => ({ key: entry.id, changes: { lastAccessedAt: new Date() } })));
+
+      return Object.fromEntries(entries.map(entry => [entry.url, URL.createObjectURL(entry.blob)]));
+    } catch (error) {
+      console.warn('Failed to load cached images:', error);
+      return {};
+    }
+  }
+
+  releaseObjectUrls(objectUrls: Record<string, string>): void {
+    Object.values(objectUrls).forEach(objectUrl => URL.revokeObjectURL(objectUrl));
+  }
+
+  /**
+   * Drop the least recently viewed downloads until the cache fits in `limitBytes`,
+   * returning how many were dropped. Books that showed them no longer count as
+   * available offline. Images from imported files are kept, as there is nowhere
+   * to download them from again
+   */
+  async evict(limitBytes: number = STORAGE_LIMITS.maxImageCacheMB * 1024 * 1024): Promise<number> {
+    try {
+      // @ts-ignore - Progressive development approach
+      const entries: ImageCacheEntry[] = await db.imageCache.orderBy('lastAccessedAt').toArray();
+      let totalBytes = entries.reduce((total, entry) => total + entry.size, 0);
+
+      const evicted: ImageCacheEntry[] = [];
+      for (const entry of entries) {
+        if (totalBytes <= limitBytes) break;
+        if (!REMOTE_IMAGE_URL.test(entry.url)) continue;
+
+        evicted.push(entry);
+        totalBytes -= entry.size;
+      }
+      if (evicted.length === 0) return 0;
+
+      // @ts-ignore - Progressive development approach
+      await db.imageCache.bulkDelete(evicted.map(entry => entry.id!));
+
+      const bookIds = new Set(evicted.flatMap(entry => entry.bookIds));
+      if (bookIds.size > 0) {
+        // @ts-ignore - Progressive development approach
+        await db.books.bulkUpdate(Array.from(bookIds, key => ({ key, changes: { isOfflineAvailable: false } })));
+      }
+      return evicted.length;
+    } catch (error) {
+      throw new Error(`Failed to evict cached images: ${error}`);
+    }
+  }
+
+  /**
+   * Fetch an image through the user's transports, with the same failover and cooldown as pages
+   */
+  private async fetchImage(url: string, signal?: AbortSignal): Promise<Blob> {
+    await this.limiter.take(signal);
+
+    try {
+      const blob = await withTimeout(
+        signal => this.transport.fetchBlob(url, { signal }),
+        DEFAULT_DOWNLOAD_OPTIONS.timeoutMs,
+        `Request for ${url}`,
+        signal
+      );
+      if (!blob.type.startsWith('image/')) {
+        throw new Error(`Not an image (${blob.type || 'unknown type'})`);
+      }
+      if (blob.size > MAX_IMAGE_SIZE_BYTES) {
+        throw new Error(`Larger than ${MAX_IMAGE_SIZE_BYTES / 1024 / 1024} MB`);
+      }
+      return blob;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new Error(`Failed to download ${url}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+export const imageCacheService = new ImageCacheService();
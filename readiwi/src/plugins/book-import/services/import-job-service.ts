@@ -0,0 +1,541 @@
+/**
+ * Import Job Service - Readiwi v4.0
+ * Checkpointed book imports backed by the importJobs table.
+ * Every parsed chapter is saved as soon as it arrives, so an interrupted
+ * import can resume from the chapters it already has.
+ */
+
+import { db } from '@/core/services/database-simple';
+import { Book, BookStatus, ImportJob, ImportStatus, SyncStatus } from '@/core/types/database';
+import { libraryService } from '@/plugins/book-library/services/library-service';
+import { readerService } from '@/plugins/reader/services/reader-service';
+import { readingSpeedService } from '@/plugins/statistics/services/reading-speed-service';
+import { parserRegistry } from './parser-registry';
+import { parserDefinitionService } from './parser-definition-service';
+import { isAbortError, throwIfAborted } from './download-pool';
+import { getDownloadImages, getDownloadSettings, getPreserveFormatting } from './import-settings';
+import { CachedImage, imageCacheService } from './image-cache-service';
+import { FailedChapter, ParseBookOptions, ParsedBook, ParsedBookMetadata, ParsedChapter, ParserProgress } from '../types/parser-types';
+
+export interface ImportJobResult {
+  jobId: number;
+  bookId: number;
+  title: string;
+  author: string;
+  totalChapters: number;
+  importedChapters: number;
+  confidence?: number; // Set when a heuristic parser did the import
+  failedChapters?: FailedChapter[]; // Left out after every retry; a later update check fetches them
+  cancelled?: boolean; // Stopped early, keeping the chapters downloaded so far
+}
+
+export interface ImportJobOptions {
+  signal?: AbortSignal;
+}
+
+export interface ParsedBookImportOptions extends ImportJobOptions {
+  images?: CachedImage[]; // Embedded in the file, stored against the book once it is created
+}
+
+/**
+ * Abort an import with this reason to keep the chapters downloaded so far as a
+ * partial book; any other abort discards them
+ */
+export const KEEP_PARTIAL_BOOK = 'keep-partial-book';
+
+// Jobs in these states were not finished and can be picked up again
+const RESUMABLE_STATUSES: ImportStatus[] = [
+  ImportStatus.PENDING,
+  ImportStatus.ANALYZING,
+  ImportStatus.IMPORTING,
+  ImportStatus.FAILED,
+];
+
+/**
+ * Local files are imported once; their jobs cannot be re-fetched from the source
+ */
+export function isLocalFileSource(url: string): boolean {
+  return url.startsWith('file://');
+}
+
+/**
+ * Generate a slug for book identification: from the URL, or from the title for
+ * local files, whose URLs hold only an identifier or content hash
+ */
+function generateBookSlug(url: string, title: string): string {
+  try {
+    const urlObj = new URL(url);
+    const pathParts = urlObj.pathname.split('/').filter(Boolean);
+
+    // For local files: "My Book" → "my-book"
+    if (urlObj.protocol === 'file:') {
+      const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+      if (slug) return slug;
+    }
+
+    // For Royal Road: /fiction/125163/just-add-mana → "just-add-mana"
+    if (urlObj.hostname.includes('royalroad.com')) {
+      const titleIndex = pathParts.findIndex(part => part === 'fiction') + 2;
+      if (titleIndex >= 2 && pathParts[titleIndex]) {
+        return pathParts[titleIndex];
+      }
+    }
+
+    // Fallback: use last meaningful path segment
+    const lastSegment = pathParts[pathParts.length - 1];
+    if (lastSegment && lastSegment !== 'fiction' && !lastSegment.match(/^\d+$/)) {
+      return lastSegment;
+    }
+
+    // Ultimate fallback: use domain + path hash
+    return `${urlObj.hostname.replace(/\./g, '-')}-${Math.abs(urlObj.pathname.split('').reduce((a, b) => ((a << 5) - a + b.charCodeAt(0)) | 0, 0))}`;
+  } catch {
+    return `book-${Date.now()}`;
+  }
+}
+
+/**
+ * Detect source site from URL
+ */
+function detectSourceSite(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    if (urlObj.protocol === 'file:') return 'Local File';
+    if (urlObj.hostname.includes('royalroad.com')) return 'Royal Road';
+    if (urlObj.hostname.includes('webnovel.com')) return 'WebNovel';
+    if (urlObj.hostname.includes('novelupdates.com')) return 'Novel Updates';
+    return urlObj.hostname;
+  } catch {
+    return 'Unknown';
+  }
+}
+
+/**
+ * Generate unique title by checking existing books and appending ID if needed
+ */
+async function generateUniqueTitle(baseTitle: string, urlSlug: string): Promise<string> {
+  try {
+    const existingBooks = await libraryService.searchBooks(baseTitle);
+
+    // If no books with same title, use original
+    if (existingBooks.length === 0) {
+      return baseTitle;
+    }
+
+    // Check if any existing book has the same URL slug
+    const sameSlugBook = existingBooks.find(book => book.urlSlug === urlSlug);
+
+    if (sameSlugBook) {
+      return baseTitle; // Same book, use original title
+    }
+
+    // Different books with same title, append URL slug for uniqueness
+    return `${baseTitle} (${urlSlug})`;
+  } catch (error) {
+    console.warn('Error checking for duplicate titles:', error);
+    // Fallback: append timestamp
+    return `${baseTitle} (${Date.now()})`;
+  }
+}
+
+class ImportJobService {
+  private activeJobs = new Set<number>();
+
+  /**
+   * Start a new import job for a URL
+   */
+  async startImport(
+    url: string,
+    onProgress?: (progress: ParserProgress) => void,
+    { signal }: ImportJobOptions = {}
+  ): Promise<ImportJobResult> {
+    await parserDefinitionService.loadDefinitions();
+    const jobId = await this.createJob(url);
+
+    return this.runJob(jobId, options => parserRegistry.parseBook(url, onProgress, options), signal);
+  }
+
+  /**
+   * Save a book that was already parsed (e.g. from a local file) through the same job pipeline
+   */
+  async importParsedBook(
+    book: ParsedBook,
+    onProgress?: (progress: ParserProgress) => void,
+    { signal, images = [] }: ParsedBookImportOptions = {}
+  ): Promise<ImportJobResult> {
+    // Before a job exists, so a repeated import leaves nothing behind
+    const existing = await libraryService.findBookBySourceUrl(book.sourceUrl);
+    if (existing) {
+      throw new Error(`"${existing.title}" is already in your library`);
+    }
+
+    const jobId = await this.createJob(book.sourceUrl);
+
+    return this.runJob(
+      jobId,
+      options => this.replayParsedBook(book, options, onProgress),
+      signal,
+      bookId => imageCacheService.storeImages(images, bookId)
+    );
+  }
+
+  /**
+   * Resume an interrupted import from the last saved chapter
+   */
+  async resumeImport(
+    jobId: number,
+    onProgress?: (progress: ParserProgress) => void,
+    { signal }: ImportJobOptions = {}
+  ): Promise<ImportJobResult> {
+    await parserDefinitionService.loadDefinitions();
+    const job = await db.importJobs.get(jobId);
+    if (!job) {
+      throw new Error(`Import job ${jobId} not found`);
+    }
+
+    if (this.activeJobs.has(jobId)) {
+      throw new Error(`Import job ${jobId} is already running`);
+    }
+
+    if (!RESUMABLE_STATUSES.includes(job.status)) {
+      throw new Error(`Import job ${jobId} cannot be resumed (status: ${job.status})`);
+    }
+
+    if (isLocalFileSource(job.url)) {
+      throw new Error('Local file imports cannot be resumed. Discard it and import the file again.');
+    }
+
+    return this.runJob(jobId, options => parserRegistry.parseBook(job.url, onProgress, options), signal);
+  }
+
+  /**
+   * List imports that stopped before completing and are not running in this session.
+   * Local file imports are left out, as they can only be imported again
+   */
+  async getInterruptedJobs(): Promise<ImportJob[]> {
+    try {
+      const jobs: ImportJob[] = await db.importJobs.toArray();
+
+      return jobs
+        .filter(job => RESUMABLE_STATUSES.includes(job.status) && !this.activeJobs.has(job.id!) && !isLocalFileSource(job.url))
+        .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+    } catch (error) {
+      console.error('Failed to load interrupted imports:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Drop an interrupted job together with its partially imported book
+   */
+  async discardJob(jobId: number): Promise<void> {
+    const job = await db.importJobs.get(jobId);
+    if (!job) return;
+
+    if (this.activeJobs.has(jobId)) {
+      throw new Error(`Import job ${jobId} is still running`);
+    }
+
+    if (job.bookId) {
+      await libraryService.deleteBook(job.bookId);
+    }
+
+    await db.importJobs.delete(jobId);
+  }
+
+  isJobActive(jobId: number): boolean {
+    return this.activeJobs.has(jobId);
+  }
+
+  private async createJob(url: string): Promise<number> {
+    const now = new Date();
+    return await db.importJobs.add({
+      url,
+      status: ImportStatus.PENDING,
+      progress: 0,
+      processedChapters: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  private async runJob(
+    jobId: number,
+    parse: (options: ParseBookOptions) => Promise<ParsedBook>,
+    signal?: AbortSignal,
+    onBookCreated?: (bookId: number) => Promise<void>
+  ): Promise<ImportJobResult> {
+    this.activeJobs.add(jobId);
+    let job: ImportJob | undefined;
+    let bookId: number | undefined;
+    let totalChapters = 0;
+    // Chapters saved by this run, as opposed to ones checkpointed by earlier sessions
+    const sessionChapters = new Set<number>();
+
+    try {
+      job = await db.importJobs.get(jobId);
+      if (!job) {
+        throw new Error(`Import job ${jobId} not found`);
+      }
+      const startedJob = job;
+
+      bookId = job.bookId;
+      totalChapters = job.totalChapters ?? 0;
+      const savedChapters = bookId ? await this.getSavedChapterNumbers(bookId) : new Set<number>();
+
+      await this.updateJob(jobId, { status: ImportStatus.ANALYZING, error: '' });
+
+      const downloadImages = getDownloadImages();
+      const parsed = await parse({
+        download: getDownloadSettings(),
+        preserveFormatting: getPreserveFormatting(),
+        ...(signal && { signal }),
+        onBookInfo: async (metadata, chapterUrls) => {
+          totalChapters = chapterUrls.length;
+
+          if (!bookId) {
+            bookId = await this.createBook(metadata, startedJob.url, totalChapters);
+            await onBookCreated?.(bookId);
+          } else {
+            await libraryService.updateBook(bookId, { totalChapters });
+          }
+
+          if (metadata.coverUrl) {
+            await (downloadImages
+              ? imageCacheService.downloadImages([metadata.coverUrl], bookId, signal)
+              : imageCacheService.linkImages([metadata.coverUrl], bookId));
+          }
+
+          await this.updateJob(jobId, {
+            status: ImportStatus.IMPORTING,
+            bookId,
+            bookTitle: metadata.title,
+            totalChapters,
+            processedChapters: savedChapters.size,
+            progress: this.calculateProgress(savedChapters.size, totalChapters),
+          });
+        },
+        shouldFetchChapter: (_chapterUrl, chapterNumber) => !savedChapters.has(chapterNumber),
+        onChapterParsed: async (chapter: ParsedChapter) => {
+          await readerService.saveChapters(bookId!, [await imageCacheService.attachChapterImages(chapter, bookId!, downloadImages, signal)]);
+          savedChapters.add(chapter.chapterNumber);
+          sessionChapters.add(chapter.chapterNumber);
+
+          await this.updateJob(jobId, {
+            processedChapters: savedChapters.size,
+            progress: this.calculateProgress(savedChapters.size, totalChapters),
+          });
+        },
+      });
+
+      if (!bookId) {
+        throw new Error('Import finished without creating a book');
+      }
+
+      const importedChapters = await this.finishBook(bookId);
+
+      const failedChapters = parsed.failedChapters ?? [];
+      await this.updateJob(jobId, {
+        status: ImportStatus.COMPLETED,
+        processedChapters: savedChapters.size,
+        progress: 100,
+        ...(failedChapters.length > 0 && { failedChapters: failedChapters.map(chapter => chapter.chapterNumber) }),
+      });
+
+      return {
+        jobId,
+        bookId,
+        title: parsed.title,
+        author: parsed.author,
+        totalChapters,
+        importedChapters,
+        ...(parsed.confidence !== undefined && { confidence: parsed.confidence }),
+        ...(failedChapters.length > 0 && { failedChapters }),
+      };
+    } catch (error) {
+      if (isAbortError(error)) {
+        const partial = await this.cancelJob(jobId, job, {
+          bookId,
+          totalChapters,
+          sessionChapters,
+          keepPartialBook: signal?.reason === KEEP_PARTIAL_BOOK,
+        });
+        if (partial) return partial;
+        throw error;
+      }
+
+      // Nothing can resume a local file import, so its partial book is removed now
+      if (bookId && job && isLocalFileSource(job.url)) {
+        await libraryService.deleteBook(bookId).catch(deleteError => {
+          console.error('Failed to remove partial book after file import failure:', deleteError);
+        });
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Import failed';
+      await this.updateJob(jobId, { status: ImportStatus.FAILED, error: errorMessage }).catch(updateError => {
+        console.error('Failed to record import failure:', updateError);
+      });
+      throw error;
+    } finally {
+      this.activeJobs.delete(jobId);
+    }
+  }
+
+  /**
+   * Feed an already parsed book through the parser hooks, reporting progress as a parser would
+   */
+  private async replayParsedBook(
+    book: ParsedBook,
+    options: ParseBookOptions,
+    onProgress?: (progress: ParserProgress) => void
+  ): Promise<ParsedBook> {
+    const { chapters, sourceUrl, ...metadata } = book;
+    const totalChapters = chapters.length;
+
+    await options.onBookInfo?.(metadata, chapters.map(chapter => chapter.url || `${sourceUrl}#${chapter.chapterNumber}`));
+
+    let completedChapters = 0;
+    for (const chapter of chapters) {
+      throwIfAborted(options.signal);
+      onProgress?.({
+        status: 'saving',
+        completedChapters,
+        totalChapters,
+        currentChapter: chapter.title,
+        title: book.title,
+        author: book.author,
+      });
+
+      await options.onChapterParsed?.(chapter);
+      completedChapters++;
+    }
+
+    onProgress?.({ status: 'completed', completedChapters, totalChapters, title: book.title, author: book.author });
+
+    return book;
+  }
+
+  /**
+   * Create the library entry up front so chapters can be saved as they arrive
+   */
+  private async createBook(metadata: ParsedBookMetadata, url: string, totalChapters: number): Promise<number> {
+    const urlSlug = generateBookSlug(url, metadata.title);
+    const uniqueTitle = await generateUniqueTitle(metadata.title, urlSlug);
+
+    const bookData: Omit<Book, 'id' | 'createdAt' | 'updatedAt'> = {
+      title: uniqueTitle,
+      author: metadata.author,
+      description: metadata.description,
+      ...(metadata.coverUrl && { coverUrl: metadata.coverUrl }),
+      sourceUrl: url,
+      sourceSite: detectSourceSite(url),
+      totalChapters,
+      tags: metadata.tags || [],
+      status: BookStatus.IMPORTING,
+      language: metadata.language || 'en',
+      genre: metadata.tags || [],
+      ...(metadata.rating && { rating: metadata.rating }),
+      wordCount: 0,
+      estimatedReadingTime: 0,
+      isFavorite: false,
+      isOfflineAvailable: false, // Until finishBook finds its images cached
+      syncStatus: SyncStatus.LOCAL_ONLY,
+      version: 1,
+      urlSlug, // Store the URL slug for reference
+    };
+
+    return await libraryService.addBook(bookData);
+  }
+
+  /**
+   * Mark a book readable with whatever chapters are stored, returning how many that is.
+   * It reads offline once its cover and chapter images are all cached
+   */
+  private async finishBook(bookId: number): Promise<number> {
+    const storedChapters = await readerService.getBookChapters(bookId);
+    const wordCount = storedChapters.reduce((total, chapter) => total + chapter.wordCount, 0);
+    const book = await libraryService.getBook(bookId);
+
+    await libraryService.updateBook(bookId, {
+      status: BookStatus.READY,
+      totalChapters: storedChapters.length,
+      wordCount,
+      estimatedReadingTime: await readingSpeedService.estimateBookMinutes(bookId, wordCount),
+      isOfflineAvailable: await imageCacheService.isBookCached(book?.coverUrl, storedChapters),
+    });
+
+    return storedChapters.length;
+  }
+
+  /**
+   * Record a cancelled job, keeping its chapters as a partial book if asked to;
+   * returns the partial book's result, or null once this run's chapters are discarded.
+   * A resumed job only loses what this run added and stays listed to resume later.
+   */
+  private async cancelJob(
+    jobId: number,
+    startedJob: ImportJob | undefined,
+    { bookId, totalChapters, sessionChapters, keepPartialBook }: {
+      bookId: number | undefined;
+      totalChapters: number;
+      sessionChapters: Set<number>;
+      keepPartialBook: boolean;
+    }
+  ): Promise<ImportJobResult | null> {
+    try {
+      if (bookId && keepPartialBook) {
+        const importedChapters = await this.finishBook(bookId);
+
+        if (importedChapters > 0) {
+          await this.updateJob(jobId, { status: ImportStatus.CANCELLED, processedChapters: importedChapters });
+
+          const book = await libraryService.getBook(bookId);
+          return {
+            jobId,
+            bookId,
+            title: book?.title ?? '',
+            author: book?.author ?? '',
+            totalChapters,
+            importedChapters,
+            cancelled: true,
+          };
+        }
+      }
+
+      if (bookId && startedJob?.bookId === bookId) {
+        await readerService.deleteChapters(bookId, Array.from(sessionChapters));
+        const remaining = (await this.getSavedChapterNumbers(bookId)).size;
+        await this.updateJob(jobId, {
+          status: startedJob.status,
+          error: startedJob.error ?? '',
+          processedChapters: remaining,
+          progress: this.calculateProgress(remaining, totalChapters),
+        });
+        return null;
+      }
+
+      if (bookId) {
+        await libraryService.deleteBook(bookId);
+      }
+      await this.updateJob(jobId, { status: ImportStatus.CANCELLED, processedChapters: 0 });
+    } catch (error) {
+      console.error('Failed to record import cancellation:', error);
+    }
+    return null;
+  }
+
+  private async getSavedChapterNumbers(bookId: number): Promise<Set<number>> {
+    const chapters = await db.chapters.where('bookId').equals(bookId).toArray();
+    return new Set(chapters.map((chapter: { index: number }) => chapter.index + 1));
+  }
+
+  private async updateJob(jobId: number, updates: Partial<ImportJob>): Promise<void> {
+    await db.importJobs.update(jobId, { ...updates, updatedAt: new Date() });
+  }
+
+  private calculateProgress(processed: number, total: number): number {
+    return total > 0 ? Math.round((processed / total) * 100) : 0;
+  }
+}
+
+export const importJobService = new ImportJobService();
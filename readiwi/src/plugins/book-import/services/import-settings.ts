@@ -0,0 +1,49 @@
+/**
+ * Import Settings - Readiwi v4.0
+ * The user's import settings, translated into the options parsers and imports take
+ */
+
+import { useSettingsStore } from '@/plugins/settings/stores/settings-store';
+import { DEFAULT_IMPORT_SETTINGS } from '@/plugins/settings/types/settings-types';
+import type { ChapterSplitOptions } from '../types/parser-types';
+import type { DownloadOptions } from './download-pool';
+
+/**
+ * Download options from the user's import settings
+ */
+export function getDownloadSettings(): Partial<DownloadOptions> {
+  const { maxConcurrentDownloads, retryAttempts, timeoutSeconds } = useSettingsStore.getState().settings.import ?? {};
+
+  return {
+    ...(maxConcurrentDownloads !== undefined && { concurrency: maxConcurrentDownloads }),
+    ...(retryAttempts !== undefined && { retryAttempts }),
+    ...(timeoutSeconds !== undefined && { timeoutMs: timeoutSeconds * 1000 })
+  };
+}
+
+/**
+ * Whether imports keep chapter formatting, from the user's import settings
+ */
+export function getPreserveFormatting(): boolean {
+  return useSettingsStore.getState().settings.import?.preserveFormatting ?? true;
+}
+
+/**
+ * Whether imports download images for offline reading, from the user's import settings
+ */
+export function getDownloadImages(): boolean {
+  return useSettingsStore.getState().settings.import?.downloadImages ?? false;
+}
+
+/**
+ * How text, Markdown and HTML files are split into chapters, from the user's import settings
+ */
+export function getChapterSplitOptions(): ChapterSplitOptions {
+  const settings = { ...DEFAULT_IMPORT_SETTINGS, ...useSettingsStore.getState().settings.import };
+
+  return {
+    autoDetect: settings.autoDetectChapters,
+    headingPatterns: settings.chapterHeadingPatterns,
+    headingLevel: settings.chapterHeadingLevel,
+  };
+}
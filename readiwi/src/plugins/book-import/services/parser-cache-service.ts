@@ -0,0 +1,101 @@
+/**
+ * Parser Cache Service - Readiwi v4.0
+ * Caches pages fetched by parsers in IndexedDB so retried imports and update
+ * checks don't download unchanged pages again
+ */
+
+import { db } from '@/core/services/database-simple';
+import { ParserCacheEntry } from '@/core/types/database';
+import { TransportResponse } from './fetch-transport';
+
+// Book pages list new chapters, so they go stale quickly; chapter text rarely changes
+export const BOOK_PAGE_CACHE_TTL = 10 * 60 * 1000;
+export const CHAPTER_CACHE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+type PageLoader = (conditionalHeaders: Record<string, string>) => Promise<TransportResponse>;
+
+export class ParserCacheService {
+  async get(url: string): Promise<ParserCacheEntry | null> {
+    try {
+      // @ts-ignore - Progressive development approach
+      return (await db.parserCache.where('url').equals(url).first()) ?? null;
+    } catch (error) {
+      console.warn('Failed to read parser cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Serve a fresh cached page, or load it; stale pages are revalidated with
+   * their ETag / Last-Modified so an unchanged page costs no download
+   */
+  async fetch(url: string, ttl: number, load: PageLoader): Promise<string> {
+    const cached = await this.get(url);
+    // A caller asking for a shorter TTL than the page was stored with gets the stricter one
+    if (cached && Math.min(cached.expiresAt.getTime(), cached.createdAt.getTime() + ttl) > Date.now()) {
+      return cached.data;
+    }
+
+    const conditionalHeaders: Record<string, string> = {
+      ...(cached?.etag && { 'If-None-Match': cached.etag }),
+      ...(cached?.lastModified && { 'If-Modified-Since': cached.lastModified })
+    };
+    const response = await load(conditionalHeaders);
+
+    if (response.notModified) {
+      if (!cached) {
+        throw new Error(`Failed to fetch ${url}: not modified, but nothing is cached`);
+      }
+      await this.put(url, cached.data, ttl, {
+        etag: response.etag ?? cached.etag,
+        lastModified: response.lastModified ?? cached.lastModified
+      });
+      return cached.data;
+    }
+
+    await this.put(url, response.text, ttl, response);
+    return response.text;
+  }
+
+  async put(
+    url: string,
+    data: string,
+    ttl: number,
+    validators: { etag?: string | undefined; lastModified?: string | undefined } = {}
+  ): Promise<void> {
+    const now = new Date();
+    const entry: ParserCacheEntry = {
+      url,
+      data,
+      size: data.length,
+      expiresAt: new Date(now.getTime() + ttl),
+      createdAt: now,
+      ...(validators.etag && { etag: validators.etag }),
+      ...(validators.lastModified && { lastModified: validators.lastModified })
+    };
+
+    try {
+      // @ts-ignore - Progressive development approach
+      await db.transaction('rw', db.parserCache, async () => {
+        // @ts-ignore - Progressive development approach
+        await db.parserCache.where('url').equals(url).delete();
+        // @ts-ignore - Progressive development approach
+        await db.parserCache.add(entry);
+      });
+    } catch (error) {
+      // The page was fetched; failing to cache it only costs a later download
+      console.warn('Failed to write parser cache:', error);
+    }
+  }
+
+  async invalidate(url: string): Promise<void> {
+    try {
+      // @ts-ignore - Progressive development approach
+      await db.parserCache.where('url').equals(url).delete();
+    } catch (error) {
+      console.warn('Failed to invalidate parser cache:', error);
+    }
+  }
+}
+
+export const parserCacheService = new ParserCacheService();
@@ -0,0 +1,195 @@
+/**
+ * Parser Definition Service - Readiwi v4.0
+ * Stores user-defined JSON parser definitions in IndexedDB and keeps
+ * the parser registry in sync with them
+ */
+
+import { db } from '@/core/services/database-simple';
+import { ParserDefinitionRecord } from '@/core/types/database';
+import { ConfigurableParser, parseParserDefinition } from '../parsers/configurable-parser';
+import { ParserDefinition } from '../types/parser-types';
+import { parserRegistry } from './parser-registry';
+
+export type ParserTestResult = Awaited<ReturnType<typeof parserRegistry.testParser>>;
+
+const EXAMPLE_DEFINITION: ParserDefinition = {
+  id: 'example-novels',
+  name: 'Example Novels',
+  description: 'Web novels from example-novels.com',
+  domains: ['example-novels.com'],
+  selectors: {
+    title: ['h1.novel-title'],
+    author: ['.author a', 'meta[name="author"]'],
+    description: ['.synopsis'],
+    coverImage: ['.cover img'],
+    tags: ['.genres a'],
+    status: ['.status'],
+    chapterLinks: ['ul.chapter-list a'],
+    chapterTitle: ['h1.chapter-title'],
+    chapterContent: ['#chapter-content'],
+    removeSelectors: ['.ads', '.chapter-nav']
+  },
+  urlPatterns: {
+    bookId: '/novel/([^/]+)',
+    chapterId: '/chapter/(\\d+)'
+  },
+  pagination: {
+    nextPage: ['.pagination a.next'],
+    maxPages: 20
+  },
+  chapterOrder: 'oldest-first',
+  rateLimit: {
+    requestsPerMinute: 20,
+    delayBetweenRequests: 3000
+  },
+  language: 'en'
+};
+
+export class ParserDefinitionService {
+  private loading: Promise<void> | null = null;
+  private customParserIds = new Set<string>();
+
+  /**
+   * Register every stored definition with the parser registry; safe to call repeatedly
+   */
+  loadDefinitions(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.registerStoredDefinitions();
+    }
+    return this.loading;
+  }
+
+  async getDefinitions(): Promise<ParserDefinitionRecord[]> {
+    try {
+      // @ts-ignore - Progressive development approach
+      const records = await db.parserDefinitions.toArray();
+      return records.sort((a: ParserDefinitionRecord, b: ParserDefinitionRecord) => a.name.localeCompare(b.name));
+    } catch (error) {
+      throw new Error(`Failed to load parser definitions: ${error}`);
+    }
+  }
+
+  /**
+   * Validate, store and register a definition, replacing any with the same id
+   */
+  async saveDefinition(json: string): Promise<ParserDefinition> {
+    await this.loadDefinitions();
+
+    const definition = parseParserDefinition(json);
+    this.assertNotBuiltIn(definition.id);
+
+    // Building the parser first surfaces bad URL patterns before anything is stored
+    const parser = new ConfigurableParser(definition);
+    const now = new Date();
+
+    try {
+      // @ts-ignore - Progressive development approach
+      const existing = await db.parserDefinitions.where('parserId').equals(definition.id).first();
+      const record = {
+        parserId: definition.id,
+        name: definition.name,
+        definition: JSON.stringify(definition, null, 2),
+        updatedAt: now,
+      };
+
+      if (existing?.id) {
+        // @ts-ignore - Progressive development approach
+        await db.parserDefinitions.update(existing.id, record);
+      } else {
+        // @ts-ignore - Progressive development approach
+        await db.parserDefinitions.add({ ...record, createdAt: now });
+      }
+    } catch (error) {
+      throw new Error(`Failed to save parser definition: ${error}`);
+    }
+
+    parserRegistry.registerParser(parser);
+    this.customParserIds.add(definition.id);
+
+    return definition;
+  }
+
+  async deleteDefinition(parserId: string): Promise<void> {
+    this.assertNotBuiltIn(parserId);
+
+    try {
+      // @ts-ignore - Progressive development approach
+      await db.parserDefinitions.where('parserId').equals(parserId).delete();
+    } catch (error) {
+      throw new Error(`Failed to delete parser definition: ${error}`);
+    }
+
+    parserRegistry.unregisterParser(parserId);
+    this.customParserIds.delete(parserId);
+  }
+
+  /**
+   * Try a definition against a real book URL without saving it
+   */
+  async testDefinition(json: string, testUrl: string): Promise<ParserTestResult> {
+    await this.loadDefinitions();
+
+    let definition: ParserDefinition;
+    try {
+      definition = parseParserDefinition(json);
+      this.assertNotBuiltIn(definition.id);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Invalid parser definition' };
+    }
+
+    const savedParser = parserRegistry.getParser(definition.id);
+    parserRegistry.registerParser(new ConfigurableParser(definition));
+
+    try {
+      return await parserRegistry.testParser(definition.id, testUrl);
+    } finally {
+      // Put back whatever was registered before the test
+      if (savedParser) {
+        parserRegistry.registerParser(savedParser);
+      } else {
+        parserRegistry.unregisterParser(definition.id);
+      }
+    }
+  }
+
+  isCustomParser(parserId: string): boolean {
+    return this.customParserIds.has(parserId);
+  }
+
+  /**
+   * Starting point for a new definition in the editor
+   */
+  getExampleDefinition(): string {
+    return JSON.stringify(EXAMPLE_DEFINITION, null, 2);
+  }
+
+  private async registerStoredDefinitions(): Promise<void> {
+    let records: ParserDefinitionRecord[];
+    try {
+      records = await this.getDefinitions();
+    } catch (error) {
+      // Built-in parsers keep working without the stored ones
+      console.warn('Failed to load custom parsers:', error);
+      return;
+    }
+
+    records.forEach(record => {
+      try {
+        const definition = parseParserDefinition(record.definition);
+        this.assertNotBuiltIn(definition.id);
+        parserRegistry.registerParser(new ConfigurableParser(definition));
+        this.customParserIds.add(definition.id);
+      } catch (error) {
+        console.warn(`Skipping custom parser ${record.parserId}:`, error);
+      }
+    });
+  }
+
+  private assertNotBuiltIn(parserId: string): void {
+    if (parserRegistry.getParser(parserId) && !this.customParserIds.has(parserId)) {
+      throw new Error(`"${parserId}" is a built-in parser and cannot be replaced`);
+    }
+  }
+}
+
+export const parserDefinitionService = new ParserDefinitionService();
@@ -3,8 +3,10 @@
  * Central registry for managing book import parsers
  */
 
-import { BaseParser, ParserRegistry, ParsedBook, ParserProgress } from '../types/parser-types';
+import { BaseParser, ParserRegistry, ParsedBook, ParserProgress, ParseBookOptions } from '../types/parser-types';
 import { RoyalRoadParser } from '../parsers/royal-road-parser';
+import { GenericParser } from '../parsers/generic-parser';
+import { isAbortError } from './download-pool';
 
 export class ParserRegistryService {
   private parsers: ParserRegistry = {};
@@ -22,10 +24,12 @@ export class ParserRegistryService {
     // Register built-in parsers
     this.registerParser(new RoyalRoadParser());
     
+    // Fallback for every other site
+    this.registerParser(new GenericParser());
+    
     // TODO: Add more parsers
     // this.registerParser(new WebNovelParser());
     // this.registerParser(new NovelUpdatesParser());
-    // this.registerParser(new GenericParser());
   }
   
   /**
@@ -46,6 +50,16 @@ export class ParserRegistryService {
     console.log(`Registered parser: ${parser.config.name} (${parser.id})`);
   }
   
+  /**
+   * Remove a parser, e.g. when a user-defined parser is deleted
+   */
+  unregisterParser(parserId: string): void {
+    if (!this.parsers[parserId]) return;
+    
+    delete this.parsers[parserId];
+    console.log(`Unregistered parser: ${parserId}`);
+  }
+  
   /**
    * Get all registered parsers
    */
@@ -70,18 +84,17 @@ export class ParserRegistryService {
   }
   
   /**
-   * Find appropriate parser for a URL
+   * Find appropriate parser for a URL, preferring dedicated parsers over fallbacks
    */
   findParserForUrl(url: string): BaseParser | null {
     const enabledParsers = this.getEnabledParsers();
     
-    for (const parser of enabledParsers) {
-      if (parser.canParse(url)) {
-        return parser;
-      }
+    const dedicated = enabledParsers.find(parser => !parser.config.fallback && parser.canParse(url));
+    if (dedicated) {
+      return dedicated;
     }
     
-    return null;
+    return enabledParsers.find(parser => parser.config.fallback && parser.canParse(url)) ?? null;
   }
   
   /**
@@ -90,7 +103,7 @@ export class ParserRegistryService {
   getSupportedDomains(): string[] {
     const domains = new Set<string>();
     
-    this.getEnabledParsers().forEach(parser => {
+    this.getEnabledParsers().filter(parser => !parser.config.fallback).forEach(parser => {
       parser.config.supportedDomains.forEach(domain => domains.add(domain));
     });
     
@@ -107,7 +120,11 @@ export class ParserRegistryService {
   /**
    * Parse a book using the appropriate parser
    */
-  async parseBook(url: string, progressCallback?: (progress: ParserProgress) => void): Promise<ParsedBook> {
+  async parseBook(
+    url: string,
+    progressCallback?: (progress: ParserProgress) => void,
+    options?: ParseBookOptions
+  ): Promise<ParsedBook> {
     const parser = this.findParserForUrl(url);
     
     if (!parser) {
@@ -117,8 +134,10 @@ export class ParserRegistryService {
     console.log(`Using parser: ${parser.config.name} for ${url}`);
     
     try {
-      return await parser.parseBook(url, progressCallback);
+      return await parser.parseBook(url, progressCallback, options);
     } catch (error) {
+      // Callers tell cancellation apart from failure by the error itself
+      if (isAbortError(error)) throw error;
       console.error(`Parser ${parser.id} failed:`, error);
       throw new Error(`Failed to parse book: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -168,13 +187,15 @@ export class ParserRegistryService {
     enabled: boolean;
     supportedDomains: string[];
     description: string;
+    fallback: boolean;
   }> {
     return Object.values(this.parsers).map(parser => ({
       id: parser.id,
       name: parser.config.name,
       enabled: Boolean(this.settings[parser.id] && parser.config.enabled),
       supportedDomains: parser.config.supportedDomains,
-      description: parser.config.description
+      description: parser.config.description,
+      fallback: Boolean(parser.config.fallback)
     }));
   }
   
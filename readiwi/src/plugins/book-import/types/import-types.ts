@@ -45,6 +45,11 @@ export interface ImportSettings {
   autoAddToLibrary: boolean;
 }
 
+// The app's own proxy route and the header carrying the user agent it should
+// send; shared with the server route, so nothing here may touch the browser
+export const APP_PROXY_ROUTE = '/api/proxy';
+export const USER_AGENT_HEADER = 'X-Readiwi-User-Agent';
+
 export interface ImportSource {
   id: string;
   name: string;
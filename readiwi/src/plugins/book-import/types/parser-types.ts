@@ -3,6 +3,12 @@
  * Type definitions for modular book import parsers
  */
 
+import { Footnote } from '@/core/types/database';
+import { sanitizeHtml } from '@/core/utils/html-sanitizer';
+import { FetchTransport, TransportManager, TransportResponse, fetchTransportManager } from '../services/fetch-transport';
+import { BOOK_PAGE_CACHE_TTL, CHAPTER_CACHE_TTL, ParserCacheService, parserCacheService } from '../services/parser-cache-service';
+import { DEFAULT_DOWNLOAD_OPTIONS, DownloadOptions, TokenBucket, runPool, throwIfAborted, withRetry, withTimeout } from '../services/download-pool';
+
 export interface ParsedBookMetadata {
   title: string;
   author: string;
@@ -18,16 +24,71 @@ export interface ParsedBookMetadata {
 
 export interface ParsedChapter {
   title: string;
-  content: string;
+  content: string; // Plain text, paragraphs separated by blank lines
+  htmlContent?: string; // Sanitized chapter HTML whose text is `content`
   chapterNumber: number;
   wordCount: number;
   url?: string;
+  sourceChapterId?: string; // Stable id on the source site, used to spot new chapters
+  imageUrls?: string[]; // Keys into imageCache for images the chapter references
+  footnotes?: Footnote[]; // e.g. author's notes, kept out of the chapter text
+  hiddenElementsRemoved?: number; // Hidden anti-piracy elements dropped from the text
   publishedAt?: Date;
 }
 
+export interface FailedChapter {
+  chapterNumber: number;
+  url: string;
+  error: string;
+  attempts: number;
+}
+
 export interface ParsedBook extends ParsedBookMetadata {
   chapters: ParsedChapter[];
   sourceUrl: string;
+  confidence?: number; // 0-1 estimate from heuristic parsers; dedicated parsers leave it unset
+  failedChapters?: FailedChapter[]; // Chapters that still failed after every retry
+}
+
+export interface ParsedBookImage {
+  url: string; // imageCache key
+  data: Uint8Array;
+  mediaType: string;
+}
+
+/**
+ * A book read from a local file, with any embedded images still to be cached
+ */
+export interface ParsedFileBook extends ParsedBook {
+  images: ParsedBookImage[];
+}
+
+export type TextFileFormat = 'text' | 'markdown' | 'html';
+
+export interface ChapterSplitOptions {
+  autoDetect: boolean;
+  headingPatterns: string[]; // Regular expressions, matched case-insensitively against short lines
+  headingLevel: number; // Markdown and HTML headings at this level or above start a chapter
+}
+
+export interface TextBlock {
+  html: string; // Sanitized
+  text: string;
+  headingLevel?: number; // 1-6 for Markdown and HTML headings
+}
+
+/**
+ * A text, Markdown or HTML book read into blocks, with the blocks its chapters
+ * start at; the split points can be adjusted before the book is built
+ */
+export interface TextFileDocument {
+  title: string;
+  author: string;
+  language: string;
+  format: TextFileFormat;
+  sourceUrl: string;
+  blocks: TextBlock[];
+  splitPoints: number[]; // Indices into blocks, ascending
 }
 
 export interface ParserProgress {
@@ -41,16 +102,39 @@ export interface ParserProgress {
   estimatedTimeRemaining?: number;
 }
 
+export interface ParseBookOptions {
+  /** Called once the book metadata and chapter list are known, before any chapter is fetched */
+  onBookInfo?: (metadata: ParsedBookMetadata, chapterUrls: string[]) => Promise<void> | void;
+  /** Called with every parsed chapter so callers can checkpoint it before the next fetch */
+  onChapterParsed?: (chapter: ParsedChapter) => Promise<void> | void;
+  /** Return false to skip a chapter (e.g. one already saved by an interrupted import) */
+  shouldFetchChapter?: (chapterUrl: string, chapterNumber: number) => boolean;
+  /** Revalidate a cached book page instead of trusting it, e.g. when checking for new chapters */
+  refreshBookPage?: boolean;
+  /** Concurrency, retries and timeouts for chapter downloads; usually from the user's import settings */
+  download?: Partial<DownloadOptions>;
+  /** Keep each chapter's sanitized HTML next to its text; on unless turned off */
+  preserveFormatting?: boolean;
+  /** Cancels the parse and every request it has in flight */
+  signal?: AbortSignal;
+}
+
+export interface FetchPageOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal | undefined;
+}
+
 export interface ParserConfig {
   enabled: boolean;
   name: string;
   description: string;
   supportedDomains: string[];
+  fallback?: boolean; // Matches any site, only used when no dedicated parser can handle the URL
   rateLimit: {
     requestsPerMinute: number;
     delayBetweenRequests: number; // milliseconds
   };
-  corsProxy?: string;
+  corsProxy?: string; // Proxy this site works best through; tried before the user's transports
   userAgent?: string;
 }
 
@@ -72,13 +156,48 @@ export interface ParserSelectors {
   removeSelectors: string[];
 }
 
-export abstract class BaseParser {
+/**
+ * A site parser described entirely as JSON, so users can add sites without shipping code
+ */
+export interface ParserDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  domains: string[];
+  selectors: Pick<ParserSelectors, 'chapterLinks' | 'chapterContent'> & Partial<ParserSelectors>;
+  urlPatterns?: {
+    bookId?: string; // Regular expression whose first capture group is the id
+    chapterId?: string;
+  };
+  pagination?: {
+    nextPage: string[]; // Selectors for the "next page" link of a paginated chapter list
+    maxPages?: number;
+  };
+  chapterOrder?: 'oldest-first' | 'newest-first';
+  rateLimit?: ParserConfig['rateLimit'];
+  language?: string;
+}
+
+/**
+ * State for one parseBook call; parsers extend it with their own
+ */
+export interface ParseContext {
+  onProgress?: ((progress: ParserProgress) => void) | undefined;
+}
+
+/**
+ * A parser instance is shared by every import, so state that belongs to one
+ * parseBook call lives in a context object handed to its hooks instead
+ */
+export abstract class BaseParser<TContext extends ParseContext = ParseContext> {
   abstract id: string;
   abstract config: ParserConfig;
   abstract selectors: ParserSelectors;
   
-  protected progressCallback?: (progress: ParserProgress) => void;
-  private lastRequestTime: number = 0;
+  private limiter: TokenBucket | null = null;
+  private limiterKey = '';
+  private transport: TransportManager = fetchTransportManager;
+  private cache: ParserCacheService | null = parserCacheService;
   
   private _validated = false;
   
@@ -89,12 +208,43 @@ export abstract class BaseParser {
   abstract canParse(url: string): boolean;
   abstract extractBookId(url: string): string | null;
   
-  async parseBook(url: string, progressCallback?: (progress: ParserProgress) => void): Promise<ParsedBook> {
-    this.ensureValidated();
-    
-    if (progressCallback) {
-      this.progressCallback = progressCallback;
+  /**
+   * Stable identifier for a chapter URL; parsers override this when the site has numeric ids
+   */
+  extractChapterId(url: string): string | null {
+    try {
+      const urlObj = new URL(url);
+      return `${urlObj.hostname}${urlObj.pathname}`.replace(/\/$/, '');
+    } catch {
+      return null;
     }
+  }
+  
+  /**
+   * How reliable the parse is likely to be (0-1); heuristic parsers judge it from the fetched page
+   */
+  getConfidence(url: string, html?: string): number;
+  getConfidence(url: string): number {
+    return this.canParse(url) ? 1 : 0;
+  }
+  
+  async parseBook(
+    url: string,
+    progressCallback?: (progress: ParserProgress) => void,
+    options: ParseBookOptions = {}
+  ): Promise<ParsedBook> {
+    return await this.parseBookWithContext(url, options, this.createParseContext(progressCallback));
+  }
+  
+  /**
+   * Fresh state for one parseBook call
+   */
+  protected createParseContext(onProgress?: (progress: ParserProgress) => void): TContext {
+    return { onProgress } as TContext;
+  }
+  
+  protected async parseBookWithContext(url: string, options: ParseBookOptions, context: TContext): Promise<ParsedBook> {
+    this.ensureValidated();
     
     if (!this.canParse(url)) {
       throw new Error(`Parser ${this.id} cannot parse URL: ${url}`);
@@ -109,12 +259,18 @@ export abstract class BaseParser {
       completedChapters: 0,
       totalChapters: 0,
       currentChapter: 'Fetching book metadata'
-    });
+    }, context);
     
     // Get book metadata and chapter list
-    const bookHtml = await this.fetchWithRateLimit(url);
-    const metadata = this.parseBookMetadata(bookHtml);
-    const chapterUrls = this.parseChapterUrls(bookHtml);
+    const { signal } = options;
+    const bookHtml = await this.fetchWithRateLimit(url, options.refreshBookPage ? 0 : BOOK_PAGE_CACHE_TTL, { signal });
+    const metadata = this.parseBookMetadata(bookHtml, url);
+    const chapterUrls = this.resolveChapterUrls
+      ? await this.resolveChapterUrls(bookHtml, url, { signal }, context)
+      : this.parseChapterUrls(bookHtml, url);
+    throwIfAborted(signal);
+    
+    await options.onBookInfo?.(metadata, chapterUrls);
     
     this.notifyProgress({
       status: 'parsing',
@@ -122,121 +278,182 @@ export abstract class BaseParser {
       totalChapters: chapterUrls.length,
       title: metadata.title,
       author: metadata.author
-    });
+    }, context);
     
-    // Fetch all chapters
+    // Fetch chapters with a bounded pool, delivering them to the caller in reading order
+    const download = { ...DEFAULT_DOWNLOAD_OPTIONS, ...options.download };
     const chapters: ParsedChapter[] = [];
-    for (let i = 0; i < chapterUrls.length; i++) {
-      const chapterUrl = chapterUrls[i];
-      if (!chapterUrl) continue;
-      
-      this.notifyProgress({
-        status: 'parsing',
-        completedChapters: i,
-        totalChapters: chapterUrls.length,
-        currentChapter: `Chapter ${i + 1}`,
-        title: metadata.title,
-        author: metadata.author
-      });
-      
-      try {
-        const chapterHtml = await this.fetchWithRateLimit(chapterUrl);
-        const chapter = this.parseChapter(chapterHtml, i + 1, chapterUrl);
-        chapters.push(chapter);
-      } catch (error) {
-        console.warn(`Failed to parse chapter ${i + 1}:`, error);
-        // Continue with other chapters
+    const failedChapters: FailedChapter[] = [];
+    const results: Array<ParsedChapter | FailedChapter | 'skipped' | undefined> = new Array(chapterUrls.length);
+    let completedChapters = 0;
+    let nextToDeliver = 0;
+    let delivery: Promise<void> = Promise.resolve();
+    
+    const deliverInOrder = async () => {
+      while (nextToDeliver < results.length && results[nextToDeliver] !== undefined) {
+        const result = results[nextToDeliver++];
+        if (result === 'skipped' || result === undefined) continue;
+        if ('error' in result) {
+          failedChapters.push(result);
+          continue;
+        }
+        // Checkpoint failures (e.g. storage errors) abort the import instead of being skipped
+        throwIfAborted(signal);
+        await options.onChapterParsed?.(result);
+        chapters.push(result);
       }
+    };
+    
+    const settle = (index: number, result: ParsedChapter | FailedChapter | 'skipped') => {
+      results[index] = result;
+      delivery = delivery.then(deliverInOrder);
+      return delivery;
+    };
+    
+    try {
+      await runPool(chapterUrls, download.concurrency, async (chapterUrl, i) => {
+        throwIfAborted(signal);
+        
+        // Chapters the caller already has count as done without a network round trip
+        if (!chapterUrl || (options.shouldFetchChapter && !options.shouldFetchChapter(chapterUrl, i + 1))) {
+          completedChapters++;
+          await settle(i, 'skipped');
+          return;
+        }
+        
+        this.notifyProgress({
+          status: 'parsing',
+          completedChapters,
+          totalChapters: chapterUrls.length,
+          currentChapter: `Chapter ${i + 1}`,
+          title: metadata.title,
+          author: metadata.author
+        }, context);
+        
+        let result: ParsedChapter | FailedChapter;
+        try {
+          const { result: chapter } = await withRetry(async () => {
+            const chapterHtml = this.takeFetchedPage?.(chapterUrl, context)
+              ?? await this.fetchWithRateLimit(chapterUrl, CHAPTER_CACHE_TTL, { timeoutMs: download.timeoutMs, signal });
+            return this.parseChapter(chapterHtml, i + 1, chapterUrl, context);
+          }, download.retryAttempts, download.retryDelayMs, signal);
+        
+          const sourceChapterId = chapter.sourceChapterId || this.extractChapterId(chapterUrl);
+          if (sourceChapterId) {
+            chapter.sourceChapterId = sourceChapterId;
+          }
+          if (options.preserveFormatting === false) {
+            delete chapter.htmlContent;
+          }
+          result = chapter;
+        } catch (error) {
+          // Cancellation ends the whole parse rather than failing one chapter
+          throwIfAborted(signal);
+          result = {
+            chapterNumber: i + 1,
+            url: chapterUrl,
+            error: error instanceof Error ? error.message : String(error),
+            attempts: (error as { attempts?: number }).attempts ?? 1
+          };
+        }
+        
+        completedChapters++;
+        await settle(i, result);
+      });
+    } finally {
+      // A failed or cancelled parse still waits for the chapter being saved, so
+      // callers never clean up while a checkpoint is landing
+      await delivery.catch(() => undefined);
     }
     
     this.notifyProgress({
       status: 'completed',
-      completedChapters: chapters.length,
+      completedChapters,
       totalChapters: chapterUrls.length,
       title: metadata.title,
       author: metadata.author
-    });
+    }, context);
     
     return {
       ...metadata,
       chapters,
-      sourceUrl: url
+      sourceUrl: url,
+      ...(failedChapters.length > 0 && { failedChapters })
     };
   }
   
-  protected abstract parseBookMetadata(html: string): ParsedBookMetadata;
-  protected abstract parseChapterUrls(html: string): string[];
-  protected abstract parseChapter(html: string, chapterNumber: number, url: string): ParsedChapter;
+  protected abstract parseBookMetadata(html: string, url: string): ParsedBookMetadata;
+  protected abstract parseChapterUrls(html: string, url: string): string[];
+  protected abstract parseChapter(html: string, chapterNumber: number, url: string, context: TContext): ParsedChapter;
   
-  protected async fetchWithRateLimit(url: string): Promise<string> {
-    // Environment check
-    if (typeof window === 'undefined' || typeof fetch === 'undefined') {
-      throw new Error(`Parser ${this.id} requires browser environment with fetch API`);
-    }
-    
-    // Rate limiting
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    const minDelay = this.config.rateLimit.delayBetweenRequests;
+  /**
+   * Chapter list for a book page, for parsers that need extra requests to find it;
+   * otherwise it is read from the book page alone
+   */
+  protected resolveChapterUrls?(html: string, url: string, fetchOptions: FetchPageOptions, context: TContext): Promise<string[]>;
+  
+  /**
+   * A page the parser already fetched this parse, e.g. while finding the chapter list
+   */
+  protected takeFetchedPage?(url: string, context: TContext): string | undefined;
+  
+  /**
+   * Fetch through a different transport, e.g. recorded pages in tests; pages
+   * are only cached when a cache is passed as well
+   */
+  useTransport(transport: FetchTransport | TransportManager, cache: ParserCacheService | null = null): void {
+    this.transport = transport instanceof TransportManager ? transport : new TransportManager([transport]);
+    this.cache = cache;
+  }
+  
+  /**
+   * Fetch a page, from the parser cache when it's still fresh
+   */
+  protected async fetchWithRateLimit(
+    url: string,
+    cacheTtl: number = CHAPTER_CACHE_TTL,
+    fetchOptions: FetchPageOptions = {}
+  ): Promise<string> {
+    throwIfAborted(fetchOptions.signal);
     
-    if (timeSinceLastRequest < minDelay) {
-      const waitTime = minDelay - timeSinceLastRequest;
-      await this.delay(waitTime);
+    if (!this.cache) {
+      return (await this.fetchFromNetwork(url, {}, fetchOptions)).text;
     }
+    return await this.cache.fetch(url, cacheTtl, headers => this.fetchFromNetwork(url, headers, fetchOptions));
+  }
+  
+  private async fetchFromNetwork(
+    url: string,
+    headers: Record<string, string>,
+    { timeoutMs = DEFAULT_DOWNLOAD_OPTIONS.timeoutMs, signal }: FetchPageOptions
+  ): Promise<TransportResponse> {
+    await this.getLimiter().take(signal);
     
-    // CORS proxy fallbacks
-    const corsProxies = [
-      'https://corsproxy.io/?',
-      'https://cors-anywhere.herokuapp.com/',
-      'https://api.allorigins.win/raw?url=',
-      'https://cors.bridged.cc/',
-    ];
-    
-    let lastError: Error | null = null;
-    
-    // Try direct fetch first (might work in some environments)
-    try {
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': this.config.userAgent || 'Readiwi/4.0'
-        }
-      });
-      
-      if (response.ok) {
-        this.lastRequestTime = Date.now();
-        return await response.text();
-      }
-    } catch {
-      // Direct fetch failed, try proxies
-      console.log(`Direct fetch failed for ${url}, trying CORS proxies...`);
-    }
+    return await withTimeout(
+      signal => this.transport.fetchPage(
+        url,
+        { headers: { 'User-Agent': this.config.userAgent || 'Readiwi/4.0', ...headers }, signal },
+        this.config.corsProxy
+      ),
+      timeoutMs,
+      `Request for ${url}`,
+      signal
+    );
+  }
+  
+  /**
+   * Rate limiter shared by every request this parser makes; rebuilt if the config changes
+   */
+  private getLimiter(): TokenBucket {
+    const { requestsPerMinute, delayBetweenRequests } = this.config.rateLimit;
+    const key = `${requestsPerMinute}:${delayBetweenRequests}`;
     
-    // Try each CORS proxy
-    for (const proxy of corsProxies) {
-      try {
-        const fetchUrl = `${proxy}${encodeURIComponent(url)}`;
-        console.log(`Trying CORS proxy: ${proxy}`);
-        
-        const response = await fetch(fetchUrl, {
-          headers: {
-            'User-Agent': this.config.userAgent || 'Readiwi/4.0'
-          }
-        });
-        
-        if (response.ok) {
-          console.log(`Success with proxy: ${proxy}`);
-          this.lastRequestTime = Date.now();
-          return await response.text();
-        } else {
-          console.warn(`Proxy ${proxy} returned ${response.status}: ${response.statusText}`);
-        }
-      } catch (error) {
-        console.warn(`Proxy ${proxy} failed:`, error);
-        lastError = error as Error;
-      }
+    if (!this.limiter || this.limiterKey !== key) {
+      // A minute's worth of burst, paced by the per-request delay
+      this.limiter = new TokenBucket(requestsPerMinute, requestsPerMinute, delayBetweenRequests);
+      this.limiterKey = key;
     }
-    
-    throw new Error(`All CORS proxies failed. Last error: ${lastError?.message || 'Unknown error'}`);
+    return this.limiter;
   }
   
   protected parseHtml(html: string): Document {
@@ -270,7 +487,12 @@ export abstract class BaseParser {
     return results;
   }
   
-  protected cleanContent(element: Element): string {
+  /**
+   * Chapter text and sanitized HTML from the content element, keeping italics,
+   * tables, scene breaks and the like for the reader. Image paths are resolved
+   * against the chapter's `url`, so relative ones aren't dropped as unsafe
+   */
+  protected cleanContent(element: Element, url: string): { content: string; htmlContent: string } {
     const clone = element.cloneNode(true) as Element;
     
     // Remove unwanted elements
@@ -278,19 +500,20 @@ export abstract class BaseParser {
       clone.querySelectorAll(selector).forEach(el => el.remove());
     });
     
-    // Get text content and clean it up
-    let content = clone.textContent || '';
-    content = content
-      .replace(/\r\n/g, '\n')
-      .replace(/\r/g, '\n')
-      .replace(/\n{3,}/g, '\n\n')
-      .trim();
+    clone.querySelectorAll('img[src]').forEach(img => {
+      try {
+        img.setAttribute('src', new URL(img.getAttribute('src')!.trim(), url).href);
+      } catch {
+        img.remove();
+      }
+    });
     
-    return content;
+    const { html, text } = sanitizeHtml(clone);
+    return { content: text, htmlContent: html };
   }
   
-  protected notifyProgress(progress: ParserProgress): void {
-    this.progressCallback?.(progress);
+  protected notifyProgress(progress: ParserProgress, context: TContext): void {
+    context.onProgress?.(progress);
   }
   
   protected delay(ms: number): Promise<void> {
@@ -6,6 +6,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { cn } from '@/core/utils/cn';
 import { BookWithMetadata } from '../types/library-types';
 import { BookStatus } from '@/core/types/database';
+import { formatReadingTime } from '@/plugins/statistics/services/reading-speed-service';
 import { Heart, Clock, BookOpen, Play, MoreVertical, Check } from 'lucide-react';
 
 interface BookCardProps {
@@ -84,6 +85,9 @@ const BookCard: React.FC<BookCardProps> = ({
         return 'text-yellow-600 bg-yellow-50';
       case BookStatus.DROPPED:
         return 'text-red-600 bg-red-50';
+      case BookStatus.IMPORTING:
+      case BookStatus.UPDATING:
+        return 'text-purple-600 bg-purple-50';
       default:
         return 'text-gray-600 bg-gray-50';
     }
@@ -99,17 +103,37 @@ const BookCard: React.FC<BookCardProps> = ({
         return 'On Hold';
       case BookStatus.DROPPED:
         return 'Dropped';
+      case BookStatus.IMPORTING:
+        return 'Importing';
+      case BookStatus.UPDATING:
+        return 'Updating';
       default:
         return 'Not Started';
     }
   };
   
-  const formatReadingTime = (minutes: number) => {
-    if (minutes < 60) return `${minutes}m`;
-    const hours = Math.floor(minutes / 60);
-    const remainingMinutes = minutes % 60;
-    return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
-  };
+  const newChapterCount = book.newChapterCount ?? 0;
+  
+  const newChaptersBadge = newChapterCount > 0 && (
+    <span
+      className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium text-primary-foreground bg-primary"
+      aria-label={`${newChapterCount} new ${newChapterCount === 1 ? 'chapter' : 'chapters'}`}
+      data-testid="new-chapters-badge"
+    >
+      {newChapterCount} new
+    </span>
+  );
+  
+  // Time left at the reader's own speed, once they've started the book
+  const timeLeft = book.currentProgress && book.estimatedTimeRemaining !== undefined && (
+    <span
+      className="text-xs text-muted-foreground"
+      title="At your reading speed"
+      data-testid="time-left"
+    >
+      {formatReadingTime(book.estimatedTimeRemaining)} left
+    </span>
+  );
   
   // Render different layouts based on view mode
   if (viewMode === 'list') {
@@ -151,6 +175,8 @@ const BookCard: React.FC<BookCardProps> = ({
                       {getStatusText(book.status)}
                     </span>
                     
+                    {newChaptersBadge}
+                    
                     {/* Progress */}
                     {book.currentProgress && (
                       <span className="text-xs text-muted-foreground flex items-center gap-1">
@@ -165,6 +191,8 @@ const BookCard: React.FC<BookCardProps> = ({
                         ~{formatReadingTime(book.estimatedReadingTime)}
                       </span>
                     )}
+                    
+                    {timeLeft}
                   </div>
                 </div>
                 
@@ -248,6 +276,7 @@ const BookCard: React.FC<BookCardProps> = ({
           <div className="flex items-center gap-2">
             <span className="font-medium text-sm truncate">{book.title}</span>
             <span className="text-xs text-muted-foreground">by {book.author}</span>
+            {newChaptersBadge}
             {book.isFavorite && (
               <Heart 
                 className="w-3 h-3 text-red-500 fill-current flex-shrink-0" 
@@ -291,6 +320,11 @@ const BookCard: React.FC<BookCardProps> = ({
         <div className="w-full aspect-[3/4] bg-gradient-to-br from-primary/20 to-primary/5 rounded-md mb-3 flex items-center justify-center relative overflow-hidden">
           <BookOpen className="w-8 h-8 text-primary/60" aria-hidden="true" />
           
+          {/* New Chapters */}
+          {newChaptersBadge && (
+            <div className="absolute top-2 left-2">{newChaptersBadge}</div>
+          )}
+          
           {/* Favorite Heart */}
           <Button
             variant="ghost"
@@ -342,8 +376,11 @@ const BookCard: React.FC<BookCardProps> = ({
             </span>
             
             {book.currentProgress && (
-              <span className="text-muted-foreground">
-                {Math.round(book.currentProgress.percentage)}%
+              <span className="flex items-center gap-2">
+                {timeLeft}
+                <span className="text-muted-foreground">
+                  {Math.round(book.currentProgress.percentage)}%
+                </span>
               </span>
             )}
           </div>
@@ -0,0 +1,174 @@
+"use client";
+
+import React, { useState, useCallback, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { BookWithMetadata } from '../types/library-types';
+import { epubExportService } from '../services/epub-export-service';
+import { useSettingsStore } from '@/plugins/settings/stores/settings-store';
+import { Download, Loader2 } from 'lucide-react';
+
+interface ExportDialogProps {
+  book: BookWithMetadata | null; // @description Book to export; dialog is closed when null
+  onClose: () => void; // @description Callback when the dialog is dismissed
+  'data-testid'?: string; // @description Test identifier for testing
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  book,
+  onClose,
+  'data-testid': testId,
+}) => {
+  const [startChapter, setStartChapter] = useState(1);
+  const [endChapter, setEndChapter] = useState(1);
+  const [includeCover, setIncludeCover] = useState(true);
+  const [includeFootnotes, setIncludeFootnotes] = useState(true);
+  const authorNotes = useSettingsStore(state => state.settings.reading.authorNotes);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the range whenever a different book is opened
+  useEffect(() => {
+    if (!book) return;
+    setStartChapter(1);
+    setEndChapter(Math.max(book.totalChapters, 1));
+    setError(null);
+  }, [book]);
+
+  const totalChapters = Math.max(book?.totalChapters ?? 1, 1);
+  const rangeValid = startChapter >= 1 && endChapter <= totalChapters && startChapter <= endChapter;
+
+  const handleExport = useCallback(async () => {
+    if (!book?.id) return;
+
+    setExporting(true);
+    setError(null);
+
+    try {
+      await epubExportService.downloadBook(book.id, {
+        startChapter,
+        endChapter,
+        includeCover,
+        includeFootnotes,
+        ...(authorNotes && { authorNotes }),
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  }, [book, startChapter, endChapter, includeCover, includeFootnotes, authorNotes, onClose]);
+
+  const handleOpenChange = useCallback((open: boolean) => {
+    if (!open && !exporting) {
+      onClose();
+    }
+  }, [exporting, onClose]);
+
+  return (
+    <Dialog open={book !== null} onOpenChange={handleOpenChange}>
+      <DialogContent data-testid={testId || 'export-dialog'}>
+        <DialogHeader>
+          <DialogTitle>Export as EPUB</DialogTitle>
+          <DialogDescription>
+            {book ? `Create an EPUB 3 file of "${book.title}" for your e-reader.` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="export-start-chapter">From chapter</Label>
+              <Input
+                id="export-start-chapter"
+                type="number"
+                min={1}
+                max={totalChapters}
+                value={startChapter}
+                onChange={(e) => setStartChapter(Number(e.target.value))}
+                disabled={exporting}
+                data-testid="export-start-chapter"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="export-end-chapter">To chapter</Label>
+              <Input
+                id="export-end-chapter"
+                type="number"
+                min={1}
+                max={totalChapters}
+                value={endChapter}
+                onChange={(e) => setEndChapter(Number(e.target.value))}
+                disabled={exporting}
+                data-testid="export-end-chapter"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="export-include-cover">Include cover image</Label>
+            <Switch
+              id="export-include-cover"
+              checked={includeCover}
+              onCheckedChange={setIncludeCover}
+              disabled={exporting}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="export-include-footnotes">Include footnotes</Label>
+            <Switch
+              id="export-include-footnotes"
+              checked={includeFootnotes}
+              onCheckedChange={setIncludeFootnotes}
+              disabled={exporting}
+            />
+          </div>
+
+          {!rangeValid && (
+            <p className="text-sm text-destructive">
+              Choose a range between chapter 1 and {totalChapters}.
+            </p>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">{error}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={exporting || !rangeValid}
+            className="flex items-center gap-2"
+            data-testid="export-epub-button"
+          >
+            {exporting ? (
+              <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+            ) : (
+              <Download className="w-4 h-4" aria-hidden="true" />
+            )}
+            {exporting ? 'Exporting...' : 'Export EPUB'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+ExportDialog.displayName = 'ExportDialog';
+export default ExportDialog;
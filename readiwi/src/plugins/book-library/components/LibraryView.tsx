@@ -1,13 +1,16 @@
 "use client";
 
-import React, { useEffect, useCallback } from 'react';
+import React, { useEffect, useCallback, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/core/utils/cn';
 import { useLibraryStore } from '../stores/library-store';
+import { shortcutService } from '@/plugins/settings/services/shortcut-service';
 import BookCard from './BookCard';
-import { Grid, List, Search, Plus, Settings, Rows3 } from 'lucide-react';
+import ExportDialog from './ExportDialog';
+import { BookWithMetadata } from '../types/library-types';
+import { Grid, List, Search, Plus, Settings, Rows3, RefreshCw, TextSearch, BarChart3 } from 'lucide-react';
 
 interface LibraryViewProps {
   className?: string; // @description Additional CSS classes
@@ -35,8 +38,15 @@ const LibraryView: React.FC<LibraryViewProps> = ({
     setSearchQuery,
     toggleBookSelection,
     clearError,
+    checkingForUpdates,
+    checkForUpdates,
+    clearNewChapters,
   } = useLibraryStore();
 
+  const [updateSummary, setUpdateSummary] = useState<string | null>(null);
+  const [exportBook, setExportBook] = useState<BookWithMetadata | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
   // 3. Event handlers with useCallback for performance
   const handleLoadBooks = useCallback(async () => {
     try {
@@ -82,12 +92,17 @@ const LibraryView: React.FC<LibraryViewProps> = ({
       // Use slug if available, otherwise fallback to a generated slug
       const slug = book.urlSlug || book.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
       
+      // Opening the book acknowledges its new chapters
+      if (book.newChapterCount) {
+        clearNewChapters(id).catch(error => console.error('Failed to clear new chapters:', error));
+      }
+      
       // Navigate to reader with slug format: /read/[bookId]/[slug]
       router.push(`/read/${id}/${slug}`);
     } catch (error) {
       console.error('Failed to open book for reading:', error);
     }
-  }, [router, books]);
+  }, [router, books, clearNewChapters]);
 
   const handleBookFavorite = useCallback((id: number) => {
     try {
@@ -100,12 +115,17 @@ const LibraryView: React.FC<LibraryViewProps> = ({
 
   const handleBookOptions = useCallback((id: number) => {
     try {
-      // TODO: Show book options menu
-      console.log('Show options for book:', id);
+      const book = books.find(b => b.id === id);
+      if (!book) {
+        console.error(`Book with ID ${id} not found`);
+        return;
+      }
+      
+      setExportBook(book);
     } catch (error) {
       console.error('Failed to show book options:', error);
     }
-  }, []);
+  }, [books]);
 
   const handleAddBook = useCallback(() => {
     try {
@@ -115,6 +135,29 @@ const LibraryView: React.FC<LibraryViewProps> = ({
     }
   }, [router]);
 
+  const handleCheckForUpdates = useCallback(async () => {
+    try {
+      setUpdateSummary(null);
+      const results = await checkForUpdates();
+      const updated = results.filter(result => result.newChapters > 0);
+      const failed = results.filter(result => result.error);
+      
+      if (results.length === 0) {
+        setUpdateSummary('No books from supported sources to check.');
+      } else if (updated.length === 0) {
+        setUpdateSummary(`No new chapters found${failed.length > 0 ? ` (${failed.length} failed to check)` : ''}.`);
+      } else {
+        const newChapters = updated.reduce((total, result) => total + result.newChapters, 0);
+        setUpdateSummary(
+          `${newChapters} new ${newChapters === 1 ? 'chapter' : 'chapters'} in ${updated.map(result => result.title).join(', ')}` +
+          `${failed.length > 0 ? ` (${failed.length} failed to check)` : ''}.`
+        );
+      }
+    } catch (error) {
+      console.error('Failed to check for updates:', error);
+    }
+  }, [checkForUpdates]);
+
   const handleClearError = useCallback(() => {
     try {
       clearError();
@@ -129,6 +172,14 @@ const LibraryView: React.FC<LibraryViewProps> = ({
     handleLoadBooks();
   }, [handleLoadBooks]);
 
+  // The search shortcut filters the library here; the full-text search has its own button
+  useEffect(() => shortcutService.register('library', {
+    openSearch: () => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    },
+  }), []);
+
   // 5. Render with accessibility and performance optimization
   return (
     <div
@@ -141,6 +192,16 @@ const LibraryView: React.FC<LibraryViewProps> = ({
         <div className="flex items-center justify-between">
           <h1 className="text-2xl font-bold">Your Library</h1>
           <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => router.push('/stats')}
+              className="flex items-center gap-2"
+              data-testid="statistics-button"
+            >
+              <BarChart3 className="w-4 h-4" aria-hidden="true" />
+              Statistics
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -151,6 +212,19 @@ const LibraryView: React.FC<LibraryViewProps> = ({
               <Settings className="w-4 h-4" aria-hidden="true" />
               Settings
             </Button>
+            {hasBooks() && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCheckForUpdates}
+                disabled={checkingForUpdates}
+                className="flex items-center gap-2"
+                data-testid="check-updates-button"
+              >
+                <RefreshCw className={cn('w-4 h-4', checkingForUpdates && 'animate-spin')} aria-hidden="true" />
+                {checkingForUpdates ? 'Checking...' : 'Check for Updates'}
+              </Button>
+            )}
             <Button
               onClick={handleAddBook}
               className="flex items-center gap-2"
@@ -171,11 +245,22 @@ const LibraryView: React.FC<LibraryViewProps> = ({
               type="search"
               placeholder="Search books, authors, tags..."
               value={viewSettings.searchQuery}
+              ref={searchInputRef}
               onChange={handleSearchChange}
               className="pl-10"
               data-testid="search-input"
             />
           </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => router.push('/search')}
+            className="flex items-center gap-2"
+            data-testid="full-text-search-button"
+          >
+            <TextSearch className="w-4 h-4" aria-hidden="true" />
+            Search Text
+          </Button>
 
           {/* View Mode Toggle */}
           <div className="flex items-center border rounded-md">
@@ -230,6 +315,22 @@ const LibraryView: React.FC<LibraryViewProps> = ({
         </div>
       )}
 
+      {/* Update Summary */}
+      {updateSummary && (
+        <div className="mx-6 mt-4 p-4 bg-primary/5 border border-primary/20 rounded-md" data-testid="update-summary">
+          <div className="flex items-center justify-between">
+            <p className="text-sm">{updateSummary}</p>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setUpdateSummary(null)}
+            >
+              Dismiss
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Content */}
       <div className="flex-1 p-6">
         {loading && !hasBooks ? (
@@ -281,6 +382,8 @@ const LibraryView: React.FC<LibraryViewProps> = ({
           </div>
         )}
       </div>
+
+      <ExportDialog book={exportBook} onClose={() => setExportBook(null)} />
     </div>
   );
 };
@@ -267,6 +267,41 @@ describe('BookCard', () => {
         rerender(<div />); // Clear for next iteration
       });
     });
+
+    it('should show updating status while new chapters are fetched', () => {
+      render(
+        <BookCard
+          book={{ ...mockBook, status: BookStatus.UPDATING }}
+          viewMode="grid"
+        />
+      );
+
+      expect(screen.getByText('Updating')).toBeInTheDocument();
+    });
+
+    it('should badge books that gained new chapters', () => {
+      render(
+        <BookCard
+          book={{ ...mockBook, newChapterCount: 3 }}
+          viewMode="list"
+        />
+      );
+
+      const badge = screen.getByTestId('new-chapters-badge');
+      expect(badge).toHaveTextContent('3 new');
+      expect(badge).toHaveAttribute('aria-label', '3 new chapters');
+    });
+
+    it('should not badge books without new chapters', () => {
+      render(
+        <BookCard
+          book={{ ...mockBook, newChapterCount: 0 }}
+          viewMode="grid"
+        />
+      );
+
+      expect(screen.queryByTestId('new-chapters-badge')).not.toBeInTheDocument();
+    });
   });
 
   describe('Accessibility', () => {
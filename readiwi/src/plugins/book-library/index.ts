@@ -2,9 +2,12 @@
 export { bookLibraryPlugin } from './plugin';
 export { useLibraryStore } from './stores/library-store';
 export { libraryService } from './services/library-service';
+export { epubExportService } from './services/epub-export-service';
+export type { EpubExportOptions, EpubExportResult } from './services/epub-export-service';
 
 // Components
 export { default as BookCard } from './components/BookCard';
+export { default as ExportDialog } from './components/ExportDialog';
 
 // Types
 export type {
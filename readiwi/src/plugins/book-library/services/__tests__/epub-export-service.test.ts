@@ -0,0 +1,265 @@
+/**
+ * EPUB Export Service Tests - Readiwi v4.0
+ * Testing that library books export as valid EPUB 3 files from local data
+ */
+
+import { strFromU8, unzipSync } from 'fflate';
+import { BookStatus, SyncStatus } from '@/core/types/database';
+
+jest.mock('@/core/services/database-simple', () => ({
+  db: {
+    imageCache: {
+      where: jest.fn(() => ({
+        equals: jest.fn(() => ({
+          first: jest.fn(),
+        })),
+      })),
+    },
+  },
+}));
+
+jest.mock('../library-service', () => ({
+  libraryService: {
+    getBook: jest.fn(),
+  },
+}));
+
+jest.mock('@/plugins/reader/services/reader-service', () => ({
+  readerService: {
+    getBookChapters: jest.fn(),
+  },
+}));
+
+import { epubExportService } from '../epub-export-service';
+import { libraryService } from '../library-service';
+import { readerService } from '@/plugins/reader/services/reader-service';
+import { db } from '@/core/services/database-simple';
+
+const mockBook = {
+  id: 1,
+  title: 'The Wandering Inn',
+  author: 'pirateaba',
+  description: 'An inn & its <guests>',
+  coverUrl: 'https://example.com/cover.png',
+  sourceUrl: 'https://www.royalroad.com/fiction/12345/the-wandering-inn',
+  totalChapters: 3,
+  tags: ['fantasy'],
+  status: BookStatus.READY,
+  language: 'en',
+  isFavorite: false,
+  isOfflineAvailable: true,
+  syncStatus: SyncStatus.LOCAL_ONLY,
+  version: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const makeChapter = (chapterNumber: number, extra = {}) => ({
+  id: chapterNumber,
+  bookId: 1,
+  title: `Chapter ${chapterNumber}`,
+  content: `First paragraph of chapter ${chapterNumber}.\n\nSecond paragraph of chapter ${chapterNumber}.`,
+  chapterNumber,
+  wordCount: 10,
+  estimatedReadingTime: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...extra,
+});
+
+/**
+ * Read a Blob in jsdom, which lacks Blob.arrayBuffer
+ */
+const readEpub = (blob: Blob): Promise<Record<string, Uint8Array>> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(unzipSync(new Uint8Array(reader.result as ArrayBuffer)));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const mockImageCache = (cover: Blob | undefined, images: Array<{ url: string; blob: Blob }> = []) => {
+  (db.imageCache.where as jest.Mock).mockReturnValue({
+    equals: () => ({ first: jest.fn().mockResolvedValue(cover ? { url: mockBook.coverUrl, blob: cover } : undefined) }),
+    anyOf: (urls: string[]) => ({ toArray: jest.fn().mockResolvedValue(images.filter(image => urls.includes(image.url))) }),
+  });
+};
+
+describe('User Story: Export Books for E-Readers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.defineProperty(navigator, 'onLine', { value: false, configurable: true });
+    (libraryService.getBook as jest.Mock).mockResolvedValue(mockBook);
+    (readerService.getBookChapters as jest.Mock).mockResolvedValue([
+      makeChapter(1),
+      makeChapter(2, {
+        footnotes: [{ id: 'note-1', position: 5, content: 'Thanks for reading!', type: 'author' }],
+      }),
+      makeChapter(3),
+    ]);
+    mockImageCache(undefined);
+  });
+
+  test('Export produces an EPUB 3 container with package, nav and chapters', async () => {
+    // Given: A book stored in the library
+    // When: Exporting it
+    const result = await epubExportService.exportBook(1);
+    const files = await readEpub(result.blob);
+
+    // Then: The archive has the required EPUB structure
+    expect(Object.keys(files)[0]).toBe('mimetype');
+    expect(strFromU8(files['mimetype']!)).toBe('application/epub+zip');
+    expect(strFromU8(files['META-INF/container.xml']!)).toContain('OEBPS/content.opf');
+
+    const opf = strFromU8(files['OEBPS/content.opf']!);
+    expect(opf).toContain('version="3.0"');
+    expect(opf).toContain('<dc:title>The Wandering Inn</dc:title>');
+    expect(opf).toContain('<dc:creator>pirateaba</dc:creator>');
+    expect(opf).toContain('An inn &amp; its &lt;guests&gt;');
+    expect(opf).toContain('properties="nav"');
+
+    // And: The nav document lists every chapter in order
+    const nav = strFromU8(files['OEBPS/nav.xhtml']!);
+    expect(nav).toContain('epub:type="toc"');
+    expect(nav.indexOf('Chapter 1')).toBeLessThan(nav.indexOf('Chapter 3'));
+    expect(files['OEBPS/toc.ncx']).toBeDefined();
+    expect(result.chapterCount).toBe(3);
+    expect(result.filename).toBe('The Wandering Inn.epub');
+  });
+
+  test('Only the selected chapter range is exported', async () => {
+    // Given: A three-chapter book
+    // When: Exporting chapters 2 to 3
+    const result = await epubExportService.exportBook(1, { startChapter: 2, endChapter: 3 });
+    const files = await readEpub(result.blob);
+
+    // Then: Only those chapters are included
+    expect(result.chapterCount).toBe(2);
+    const chapterFiles = Object.keys(files).filter(name => name.startsWith('OEBPS/chapter-'));
+    expect(chapterFiles).toHaveLength(2);
+    expect(strFromU8(files['OEBPS/chapter-0001.xhtml']!)).toContain('First paragraph of chapter 2.');
+  });
+
+  test("Every page is marked with the book's language", async () => {
+    // Given: A book written in French
+    (libraryService.getBook as jest.Mock).mockResolvedValue({ ...mockBook, language: 'fr' });
+
+    // When: Exporting it
+    const result = await epubExportService.exportBook(1);
+    const files = await readEpub(result.blob);
+
+    // Then: The package and every XHTML page declare French, so e-readers pick the right hyphenation and voice
+    expect(strFromU8(files['OEBPS/content.opf']!)).toContain('<dc:language>fr</dc:language>');
+    const pages = Object.keys(files).filter(name => name.endsWith('.xhtml'));
+    expect(pages.length).toBeGreaterThan(3);
+    pages.forEach(name => {
+      expect(strFromU8(files[name]!)).toContain('lang="fr" xml:lang="fr"');
+    });
+  });
+
+  test('Footnotes become EPUB 3 notes linked from the text', async () => {
+    // When: Exporting a chapter with an author note
+    const result = await epubExportService.exportBook(1, { startChapter: 2, endChapter: 2 });
+    const files = await readEpub(result.blob);
+    const chapter = strFromU8(files['OEBPS/chapter-0001.xhtml']!);
+
+    // Then: The note is referenced and included
+    expect(chapter).toContain('epub:type="noteref"');
+    expect(chapter).toContain('href="#fn-note-1"');
+    expect(chapter).toContain('<aside class="footnote" epub:type="footnote" id="fn-note-1">');
+    expect(chapter).toContain('Thanks for reading!');
+  });
+
+  test("Author's notes follow the reader's choice to show or hide them", async () => {
+    // When: Exporting with author's notes shown inline, and again with them hidden
+    const inline = await readEpub((await epubExportService.exportBook(1, { startChapter: 2, endChapter: 2, authorNotes: 'inline' })).blob);
+    const hidden = await readEpub((await epubExportService.exportBook(1, { startChapter: 2, endChapter: 2, authorNotes: 'hidden' })).blob);
+    const inlineChapter = strFromU8(inline['OEBPS/chapter-0001.xhtml']!);
+
+    // Then: Inline notes are part of the page after the text, not linked footnotes
+    expect(inlineChapter).toContain('<aside class="author-note after">');
+    expect(inlineChapter.indexOf('Second paragraph')).toBeLessThan(inlineChapter.indexOf('Thanks for reading!'));
+    expect(inlineChapter).not.toContain('epub:type="noteref"');
+
+    // And: Hidden notes are left out
+    expect(strFromU8(hidden['OEBPS/chapter-0001.xhtml']!)).not.toContain('Thanks for reading!');
+  });
+
+  test('Formatted chapters keep their formatting and the images cached for them', async () => {
+    // Given: A chapter imported with formatting, one cached image and one that never downloaded
+    const mapUrl = 'file:///epub/map-book/images/map.png';
+    const missingUrl = 'https://example.com/missing.png';
+    mockImageCache(undefined, [{ url: mapUrl, blob: new Blob([new Uint8Array([137, 80, 78, 71])], { type: 'image/png' }) }]);
+    (readerService.getBookChapters as jest.Mock).mockResolvedValue([makeChapter(1, {
+      content: 'They unrolled the old map.\n\nIt showed the river.',
+      htmlContent: `<p>They unrolled the <em>old</em> map.</p><p><img src="${mapUrl}" alt="The map"></p>`
+        + `<p style="text-align: center">It showed the river.<img src="${missingUrl}" alt=""></p>`,
+      imageUrls: [mapUrl, missingUrl],
+      footnotes: [{ id: 'note-1', position: 30, content: 'Drawn by the author', type: 'translator' }],
+    })]);
+
+    // When: Exporting it
+    const files = await readEpub((await epubExportService.exportBook(1)).blob);
+    const chapter = strFromU8(files['OEBPS/chapter-0001.xhtml']!);
+
+    // Then: The chapter keeps its formatting, with notes still after their paragraph
+    expect(chapter).toContain('<p>They unrolled the <em>old</em> map.</p>');
+    expect(chapter).toContain('<p class="centered">It showed the river.<a class="noteref"');
+
+    // And: The cached image is packaged with the book and the missing one is left out
+    expect(chapter).toContain('<img src="images/image-0001.png" alt="The map"/>');
+    expect(chapter).not.toContain(missingUrl);
+    expect(files['OEBPS/images/image-0001.png']).toEqual(new Uint8Array([137, 80, 78, 71]));
+    expect(strFromU8(files['OEBPS/content.opf']!)).toContain('<item id="image-0001" href="images/image-0001.png" media-type="image/png"/>');
+  });
+
+  test('Characters XML does not allow are left out so the book still opens', async () => {
+    // Given: A chapter whose text picked up stray control characters
+    (readerService.getBookChapters as jest.Mock).mockResolvedValue([makeChapter(1, {
+      title: 'Chapter\u000B 1',
+      content: 'First\u0001 line\tand tab.\n\nSecond\u001F paragraph.',
+    })]);
+
+    // When: Exporting it
+    const files = await readEpub((await epubExportService.exportBook(1)).blob);
+    const chapter = strFromU8(files['OEBPS/chapter-0001.xhtml']!);
+
+    // Then: The page is well-formed XML with the rest of the text intact
+    expect(chapter).not.toMatch(/[\x00-\x08\x0B\x0C\x0E-\x1F]/);
+    expect(chapter).toContain('First line\tand tab.');
+    const doc = new DOMParser().parseFromString(chapter, 'application/xhtml+xml');
+    expect(doc.querySelector('parsererror')).toBeNull();
+    expect(doc.querySelector('h1')?.textContent).toBe('Chapter 1');
+  });
+
+  test('Cover is taken from the image cache while offline', async () => {
+    // Given: The cover image was cached during import and the device is offline
+    mockImageCache(new Blob([new Uint8Array([137, 80, 78, 71])], { type: 'image/png' }));
+
+    // When: Exporting
+    const result = await epubExportService.exportBook(1);
+    const files = await readEpub(result.blob);
+
+    // Then: The cover is embedded without touching the network
+    expect(result.hasCover).toBe(true);
+    expect(files['OEBPS/images/cover.png']).toEqual(new Uint8Array([137, 80, 78, 71]));
+    expect(strFromU8(files['OEBPS/content.opf']!)).toContain('properties="cover-image"');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  test('Export without a cached cover still succeeds offline', async () => {
+    // When: Exporting with no cached cover
+    const result = await epubExportService.exportBook(1);
+
+    // Then: The book is exported without a cover
+    expect(result.hasCover).toBe(false);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  test('Invalid chapter ranges are rejected with a clear error', async () => {
+    await expect(epubExportService.exportBook(1, { startChapter: 3, endChapter: 1 }))
+      .rejects.toThrow('Invalid chapter range');
+    await expect(epubExportService.exportBook(1, { startChapter: 10 }))
+      .rejects.toThrow('No chapters in the selected range');
+  });
+});
@@ -0,0 +1,536 @@
+/**
+ * EPUB Export Service - Readiwi v4.0
+ * Builds EPUB 3 files from books stored in IndexedDB, without network access
+ */
+
+import { strToU8, zipSync, Zippable } from 'fflate';
+import { db } from '@/core/services/database-simple';
+import { Book, Footnote, ImageCacheEntry } from '@/core/types/database';
+import { readBlobBytes } from '@/core/utils/blob';
+import { getTextBlocks, sanitizeHtml } from '@/core/utils/html-sanitizer';
+import { splitAuthorNotes } from '@/plugins/reader/services/author-notes';
+import { readerService } from '@/plugins/reader/services/reader-service';
+import { Chapter } from '@/plugins/reader/types/reader-types';
+import { AuthorNotesDisplay } from '@/plugins/settings/types/settings-types';
+import { libraryService } from './library-service';
+
+export interface EpubExportOptions {
+  startChapter?: number; // First chapter number to include (1-based, inclusive)
+  endChapter?: number; // Last chapter number to include (1-based, inclusive)
+  includeCover?: boolean;
+  includeFootnotes?: boolean;
+  authorNotes?: AuthorNotesDisplay; // Author's notes as text around the chapter, as footnotes, or left out
+}
+
+export interface EpubExportResult {
+  blob: Blob;
+  filename: string;
+  chapterCount: number;
+  hasCover: boolean;
+}
+
+interface EpubCover {
+  data: Uint8Array;
+  mediaType: string;
+  extension: string;
+}
+
+interface EpubChapterFile {
+  id: string;
+  href: string;
+  title: string;
+}
+
+interface EpubImage {
+  id: string;
+  href: string;
+  mediaType: string;
+  data: Uint8Array;
+}
+
+const EPUB_MIME_TYPE = 'application/epub+zip';
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1 { text-align: center; margin: 1.5em 0; }
+p { text-indent: 1.5em; margin: 0 0 0.5em 0; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page p { text-indent: 0; }
+.cover { text-align: center; margin: 0; padding: 0; }
+.cover img { max-width: 100%; max-height: 100%; }
+a.noteref { vertical-align: super; font-size: 0.75em; text-decoration: none; }
+aside.footnote { font-size: 0.9em; border-top: 1px solid #999; margin-top: 1em; padding-top: 0.5em; }
+aside.footnote p { text-indent: 0; }
+aside.author-note { font-size: 0.9em; border: 1px solid #999; padding: 0.5em 1em; margin: 1em 0; }
+aside.author-note p { text-indent: 0; }
+img { max-width: 100%; }
+.centered { text-align: center; text-indent: 0; }
+.system-message { border: 1px solid #999; padding: 0.5em 1em; margin: 1em 0; }
+`;
+
+const IMAGE_TYPES: Record<string, { mediaType: string; extension: string }> = {
+  jpg: { mediaType: 'image/jpeg', extension: 'jpg' },
+  jpeg: { mediaType: 'image/jpeg', extension: 'jpg' },
+  png: { mediaType: 'image/png', extension: 'png' },
+  gif: { mediaType: 'image/gif', extension: 'gif' },
+  webp: { mediaType: 'image/webp', extension: 'webp' },
+  svg: { mediaType: 'image/svg+xml', extension: 'svg' },
+};
+
+// Sanitized chapter HTML elements that have no closing tag
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img']);
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters other than tab and line breaks are not allowed anywhere in XML 1.0
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Build a file name that is safe on every platform
+ */
+function toFilename(title: string): string {
+  const safe = title
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100);
+  return `${safe || 'book'}.epub`;
+}
+
+function resolveImageType(mimeType: string | undefined, url: string): { mediaType: string; extension: string } | null {
+  if (mimeType) {
+    const match = Object.values(IMAGE_TYPES).find(type => type.mediaType === mimeType);
+    if (match) return match;
+  }
+
+  const extension = url.split(/[?#]/)[0]?.split('.').pop()?.toLowerCase();
+  return (extension && IMAGE_TYPES[extension]) || null;
+}
+
+/**
+ * XHTML markup of a node from sanitized chapter HTML, adding `appended` markup
+ * at the end of the elements it maps
+ */
+function toXhtml(node: Node, appended: Map<Element, string>): string {
+  if (node.nodeType === Node.TEXT_NODE) return escapeXml(node.textContent ?? '');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const tag = element.localName;
+  const attributes = Array.from(element.attributes)
+    .map(attribute => ` ${attribute.name}="${escapeXml(attribute.value)}"`)
+    .join('');
+  if (VOID_ELEMENTS.has(tag)) return `<${tag}${attributes}/>`;
+
+  const children = Array.from(element.childNodes).map(child => toXhtml(child, appended)).join('');
+  return `<${tag}${attributes}>${children}${appended.get(element) ?? ''}</${tag}>`;
+}
+
+function bookLanguage(book: Book): string {
+  return book.language || 'en';
+}
+
+function xhtmlDocument(title: string, language: string, body: string, bodyAttributes = ''): string {
+  const lang = escapeXml(language);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${lang}" xml:lang="${lang}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body${bodyAttributes}>
+${body}
+</body>
+</html>
+`;
+}
+
+class EpubExportService {
+  /**
+   * Export a library book (or a chapter range of it) as an EPUB 3 file
+   */
+  async exportBook(bookId: number, options: EpubExportOptions = {}): Promise<EpubExportResult> {
+    const { includeCover = true, includeFootnotes = true, authorNotes = 'collapsed' } = options;
+
+    try {
+      const book = await libraryService.getBook(bookId);
+      if (!book) {
+        throw new Error(`Book ${bookId} not found`);
+      }
+
+      const allChapters = await readerService.getBookChapters(bookId);
+      const chapters = this.selectChapters(allChapters, options);
+      if (chapters.length === 0) {
+        throw new Error('No chapters in the selected range');
+      }
+
+      const cover = includeCover ? await this.loadCover(book) : null;
+      const images = await this.loadChapterImages(chapters);
+      const chapterFiles = chapters.map((chapter, i): EpubChapterFile => ({
+        id: `chapter-${i + 1}`,
+        href: `chapter-${String(i + 1).padStart(4, '0')}.xhtml`,
+        title: chapter.title || `Chapter ${chapter.chapterNumber}`,
+      }));
+
+      const files: Zippable = {
+        // The mimetype entry must come first and be stored uncompressed
+        mimetype: [strToU8(EPUB_MIME_TYPE), { level: 0 }],
+        'META-INF/container.xml': strToU8(this.buildContainer()),
+        'OEBPS/content.opf': strToU8(this.buildPackage(book, chapterFiles, cover, Array.from(images.values()))),
+        'OEBPS/nav.xhtml': strToU8(this.buildNav(book, chapterFiles)),
+        'OEBPS/toc.ncx': strToU8(this.buildNcx(book, chapterFiles)),
+        'OEBPS/styles.css': strToU8(STYLESHEET),
+        'OEBPS/title.xhtml': strToU8(this.buildTitlePage(book)),
+      };
+
+      if (cover) {
+        files[`OEBPS/images/cover.${cover.extension}`] = [cover.data, { level: 0 }];
+        files['OEBPS/cover.xhtml'] = strToU8(this.buildCoverPage(book, cover));
+      }
+
+      images.forEach(image => {
+        files[`OEBPS/${image.href}`] = [image.data, { level: 0 }];
+      });
+
+      chapters.forEach((chapter, i) => {
+        const file = chapterFiles[i]!;
+        files[`OEBPS/${file.href}`] = strToU8(this.buildChapter(chapter, file, bookLanguage(book), includeFootnotes, authorNotes, images));
+      });
+
+      const zipped = zipSync(files, { level: 6 });
+      const blob = new Blob([zipped], { type: EPUB_MIME_TYPE });
+
+      console.log(`Exported "${book.title}" as EPUB with ${chapters.length} chapters`);
+
+      return {
+        blob,
+        filename: toFilename(book.title),
+        chapterCount: chapters.length,
+        hasCover: cover !== null,
+      };
+    } catch (error) {
+      console.error('EPUB export failed:', error);
+      throw new Error(`Failed to export book ${bookId}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Export a book and hand the file to the browser as a download
+   */
+  async downloadBook(bookId: number, options: EpubExportOptions = {}): Promise<EpubExportResult> {
+    const result = await this.exportBook(bookId, options);
+
+    const url = URL.createObjectURL(result.blob);
+    try {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.filename;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+    } finally {
+      // Give the browser a moment to start the download before releasing the blob
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+
+    return result;
+  }
+
+  private selectChapters(chapters: Chapter[], options: EpubExportOptions): Chapter[] {
+    const start = options.startChapter ?? 1;
+    const end = options.endChapter ?? Number.POSITIVE_INFINITY;
+
+    if (start > end) {
+      throw new Error(`Invalid chapter range: ${start}-${end}`);
+    }
+
+    return [...chapters]
+      .sort((a, b) => a.chapterNumber - b.chapterNumber)
+      .filter(chapter => chapter.chapterNumber >= start && chapter.chapterNumber <= end);
+  }
+
+  /**
+   * Cover comes from the image cache first; the network is only tried when online
+   */
+  private async loadCover(book: Book): Promise<EpubCover | null> {
+    if (!book.coverUrl) return null;
+
+    try {
+      // @ts-ignore - Progressive development approach
+      const cached = await db.imageCache.where('url').equals(book.coverUrl).first();
+      let blob: Blob | null = cached?.blob ?? null;
+
+      if (!blob && typeof navigator !== 'undefined' && navigator.onLine) {
+        const response = await fetch(book.coverUrl);
+        if (response.ok) {
+          blob = await response.blob();
+        }
+      }
+
+      if (!blob) return null;
+
+      const type = resolveImageType(blob.type, book.coverUrl);
+      if (!type) {
+        console.warn(`Unsupported cover image type for ${book.coverUrl}`);
+        return null;
+      }
+
+      return { data: await readBlobBytes(blob), ...type };
+    } catch (error) {
+      console.warn('Failed to load cover image, exporting without it:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Images shown in formatted chapters, by imageCache key; only cached ones
+   * are included, so export never needs the network
+   */
+  private async loadChapterImages(chapters: Chapter[]): Promise<Map<string, EpubImage>> {
+    const urls = Array.from(new Set(chapters.flatMap(chapter => (chapter.htmlContent && chapter.imageUrls) || [])));
+    const images = new Map<string, EpubImage>();
+    if (urls.length === 0) return images;
+
+    try {
+      // @ts-ignore - Progressive development approach
+      const entries: ImageCacheEntry[] = await db.imageCache.where('url').anyOf(urls).toArray();
+      for (const entry of entries) {
+        const type = resolveImageType(entry.blob.type, entry.url);
+        if (!type || images.has(entry.url)) continue;
+
+        const number = String(images.size + 1).padStart(4, '0');
+        images.set(entry.url, {
+          id: `image-${number}`,
+          href: `images/image-${number}.${type.extension}`,
+          mediaType: type.mediaType,
+          data: await readBlobBytes(entry.blob),
+        });
+      }
+    } catch (error) {
+      console.warn('Failed to load chapter images, exporting without them:', error);
+    }
+    return images;
+  }
+
+  private buildContainer(): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+  }
+
+  private buildPackage(book: Book, chapterFiles: EpubChapterFile[], cover: EpubCover | null, images: EpubImage[]): string {
+    const identifier = book.sourceUrl ? `readiwi:${book.sourceUrl}` : `readiwi:book:${book.id}`;
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const language = bookLanguage(book);
+
+    const metadata = [
+      `<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+      `<dc:title>${escapeXml(book.title)}</dc:title>`,
+      `<dc:creator>${escapeXml(book.author)}</dc:creator>`,
+      `<dc:language>${escapeXml(language)}</dc:language>`,
+      ...(book.description ? [`<dc:description>${escapeXml(book.description)}</dc:description>`] : []),
+      ...(book.sourceUrl ? [`<dc:source>${escapeXml(book.sourceUrl)}</dc:source>`] : []),
+      ...book.tags.map(tag => `<dc:subject>${escapeXml(tag)}</dc:subject>`),
+      `<meta property="dcterms:modified">${modified}</meta>`,
+      ...(cover ? ['<meta name="cover" content="cover-image"/>'] : []),
+    ];
+
+    const manifest = [
+      '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+      '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+      '<item id="css" href="styles.css" media-type="text/css"/>',
+      '<item id="title-page" href="title.xhtml" media-type="application/xhtml+xml"/>',
+      ...(cover ? [
+        `<item id="cover-image" href="images/cover.${cover.extension}" media-type="${cover.mediaType}" properties="cover-image"/>`,
+        '<item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>',
+      ] : []),
+      ...chapterFiles.map(file => `<item id="${file.id}" href="${file.href}" media-type="application/xhtml+xml"/>`),
+      ...images.map(image => `<item id="${image.id}" href="${image.href}" media-type="${image.mediaType}"/>`),
+    ];
+
+    const spine = [
+      ...(cover ? ['<itemref idref="cover" linear="no"/>'] : []),
+      '<itemref idref="title-page"/>',
+      '<itemref idref="nav"/>',
+      ...chapterFiles.map(file => `<itemref idref="${file.id}"/>`),
+    ];
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${metadata.join('\n    ')}
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine toc="ncx">
+    ${spine.join('\n    ')}
+  </spine>
+</package>
+`;
+  }
+
+  private buildNav(book: Book, chapterFiles: EpubChapterFile[]): string {
+    const items = chapterFiles
+      .map(file => `      <li><a href="${file.href}">${escapeXml(file.title)}</a></li>`)
+      .join('\n');
+
+    return xhtmlDocument(book.title, bookLanguage(book), `  <nav epub:type="toc" id="toc">
+    <h1>Table of Contents</h1>
+    <ol>
+${items}
+    </ol>
+  </nav>
+  <nav epub:type="landmarks" hidden="">
+    <ol>
+      <li><a epub:type="titlepage" href="title.xhtml">Title Page</a></li>
+      <li><a epub:type="toc" href="nav.xhtml">Table of Contents</a></li>
+      <li><a epub:type="bodymatter" href="${chapterFiles[0]?.href}">Start of Content</a></li>
+    </ol>
+  </nav>`);
+  }
+
+  /**
+   * NCX table of contents for older reading systems that don't understand the nav document
+   */
+  private buildNcx(book: Book, chapterFiles: EpubChapterFile[]): string {
+    const identifier = book.sourceUrl ? `readiwi:${book.sourceUrl}` : `readiwi:book:${book.id}`;
+    const navPoints = chapterFiles
+      .map((file, i) => `    <navPoint id="nav-${i + 1}" playOrder="${i + 1}">
+      <navLabel><text>${escapeXml(file.title)}</text></navLabel>
+      <content src="${file.href}"/>
+    </navPoint>`)
+      .join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${escapeXml(identifier)}"/>
+    <meta name="dtb:depth" content="1"/>
+    <meta name="dtb:totalPageCount" content="0"/>
+    <meta name="dtb:maxPageNumber" content="0"/>
+  </head>
+  <docTitle><text>${escapeXml(book.title)}</text></docTitle>
+  <docAuthor><text>${escapeXml(book.author)}</text></docAuthor>
+  <navMap>
+${navPoints}
+  </navMap>
+</ncx>
+`;
+  }
+
+  private buildTitlePage(book: Book): string {
+    return xhtmlDocument(book.title, bookLanguage(book), `  <section class="title-page" epub:type="titlepage">
+    <h1>${escapeXml(book.title)}</h1>
+    <p>by ${escapeXml(book.author)}</p>
+${book.sourceUrl ? `    <p><small>${escapeXml(book.sourceUrl)}</small></p>\n` : ''}  </section>`);
+  }
+
+  private buildCoverPage(book: Book, cover: EpubCover): string {
+    return xhtmlDocument(book.title, bookLanguage(book), `  <section class="cover" epub:type="cover">
+    <img src="images/cover.${cover.extension}" alt="${escapeXml(book.title)}"/>
+  </section>`);
+  }
+
+  /**
+   * Render the chapter's formatted HTML as XHTML, or its text as paragraphs;
+   * footnotes become EPUB 3 noterefs placed after the paragraph containing
+   * their character position. Author's notes shown inline go before or after
+   * the text instead.
+   */
+  private buildChapter(
+    chapter: Chapter,
+    file: EpubChapterFile,
+    language: string,
+    includeFootnotes: boolean,
+    authorNotes: AuthorNotesDisplay,
+    images: Map<string, EpubImage>
+  ): string {
+    const inlineNotes = includeFootnotes && authorNotes === 'inline' ? splitAuthorNotes(chapter) : { before: [], after: [] };
+    const footnotes = includeFootnotes
+      ? (chapter.footnotes ?? [])
+        .filter(note => note.type !== 'author' || authorNotes === 'collapsed')
+        .sort((a, b) => a.position - b.position)
+      : [];
+    const notesByParagraph = new Map<number, Footnote[]>();
+
+    const paragraphs = chapter.content.split(/\n\n+/).map(paragraph => paragraph.trim()).filter(Boolean);
+
+    // Map each footnote's character offset onto the paragraph it falls in
+    let offset = 0;
+    let noteIndex = 0;
+    paragraphs.forEach((paragraph, i) => {
+      const paragraphEnd = chapter.content.indexOf(paragraph, offset) + paragraph.length;
+      offset = paragraphEnd;
+      while (noteIndex < footnotes.length && (footnotes[noteIndex]!.position <= paragraphEnd || i === paragraphs.length - 1)) {
+        const notes = notesByParagraph.get(i) ?? [];
+        notes.push(footnotes[noteIndex]!);
+        notesByParagraph.set(i, notes);
+        noteIndex++;
+      }
+    });
+
+    let noteNumber = 0;
+    const refs = paragraphs.map((_, i) => (notesByParagraph.get(i) ?? []).map(note => {
+      noteNumber++;
+      return `<a class="noteref" epub:type="noteref" href="#fn-${escapeXml(note.id)}" id="ref-${escapeXml(note.id)}">${noteNumber}</a>`;
+    }).join(''));
+
+    const formatted = this.buildFormattedBody(chapter, refs, images);
+    const body = formatted ?? paragraphs.map((paragraph, i) => {
+      const text = escapeXml(paragraph).replace(/\n/g, '<br/>');
+      return `    <p>${text}${refs[i]}</p>`;
+    });
+
+    const asides = footnotes.map(note => `    <aside class="footnote" epub:type="footnote" id="fn-${escapeXml(note.id)}">
+${note.content.split(/\n\n+/).filter(Boolean).map(part => `      <p>${escapeXml(part.trim()).replace(/\n/g, '<br/>')}</p>`).join('\n')}
+    </aside>`);
+
+    const notes = (placement: 'before' | 'after', notesToShow: Footnote[]) => notesToShow.map(note => `    <aside class="author-note ${placement}">
+${note.content.split(/\n\n+/).filter(Boolean).map(part => `      <p>${escapeXml(part.trim()).replace(/\n/g, '<br/>')}</p>`).join('\n')}
+    </aside>`);
+
+    return xhtmlDocument(file.title, language, `  <section epub:type="chapter" id="${file.id}">
+    <h1>${escapeXml(file.title)}</h1>
+${[...notes('before', inlineNotes.before), ...body, ...notes('after', inlineNotes.after), ...asides].join('\n')}
+  </section>`);
+  }
+
+  /**
+   * Lines of XHTML for a chapter's formatted HTML, with `refs` closing each
+   * paragraph, or null if it has none or its text no longer matches the content
+   */
+  private buildFormattedBody(chapter: Chapter, refs: string[], images: Map<string, EpubImage>): string[] | null {
+    if (!chapter.htmlContent || typeof DOMParser === 'undefined') return null;
+
+    const sanitized = sanitizeHtml(chapter.htmlContent);
+    if (sanitized.text !== chapter.content) return null;
+
+    const root = new DOMParser().parseFromString(sanitized.html, 'text/html').body;
+    // Images point at their copies in the EPUB; ones that weren't cached are left out
+    root.querySelectorAll('img').forEach(img => {
+      const image = images.get(img.getAttribute('src') ?? '');
+      if (image) {
+        img.setAttribute('src', image.href);
+      } else {
+        img.remove();
+      }
+    });
+
+    const appended = new Map(getTextBlocks(root).map((block, i) => [block, refs[i] ?? '']));
+    return Array.from(root.childNodes).map(node => `    ${toXhtml(node, appended)}`);
+  }
+}
+
+export const epubExportService = new EpubExportService();
@@ -1,7 +1,12 @@
 import { Book, BookStatus } from '@/core/types/database';
 import { BookRepository } from '@/core/services/book-repository';
+import Dexie from 'dexie';
 import { db } from '@/core/services/database-simple';
 import { BookWithMetadata, LibraryStats } from '../types/library-types';
+import { estimateMinutes, readingSpeedService } from '@/plugins/statistics/services/reading-speed-service';
+
+// Average English word plus the space after it, to turn a reading position into words read
+const CHARACTERS_PER_WORD = 6;
 
 class LibraryService {
   private bookRepository: BookRepository;
@@ -14,6 +19,9 @@ class LibraryService {
     try {
       const books = await this.bookRepository.findAll();
       
+      // Time estimates use the reading speed learned so far, including recent sessions
+      await readingSpeedService.refresh();
+      
       // Enrich books with metadata
       const booksWithMetadata = await Promise.all(
         books.map(async (book) => await this.enrichBookWithMetadata(book))
@@ -98,6 +106,14 @@ class LibraryService {
     }
   }
   
+  async findBookBySourceUrl(sourceUrl: string): Promise<Book | undefined> {
+    try {
+      return await this.bookRepository.findBySourceUrl(sourceUrl);
+    } catch (error) {
+      throw new Error(`Failed to find book by source URL: ${error}`);
+    }
+  }
+  
   async searchBooks(query: string): Promise<BookWithMetadata[]> {
     try {
       const books = await this.bookRepository.search(query);
@@ -189,6 +205,7 @@ class LibraryService {
     try {
       // Get current reading progress
       let currentProgress;
+      let latestTextPosition = 0;
       if (book.id) {
         const latestProgress = await db.readingProgress
           .where('bookId')
@@ -202,14 +219,16 @@ class LibraryService {
           percentage: latestProgress[0].percentage,
           timestamp: new Date(latestProgress[0].timestamp),
         } : undefined;
+        latestTextPosition = latestProgress[0]?.textPosition ?? 0;
       }
       
       // Calculate chapters read
       const chaptersRead = currentProgress ? 
         await this.getChaptersReadCount(book.id!, currentProgress.chapterId) : 0;
       
-      // Estimate reading time (assuming 250 words per minute average reading speed)
-      const estimatedReadingTime = this.calculateEstimatedReadingTime(book.wordCount || 0);
+      // Estimate reading time at the reader's own speed for this book
+      const wordsPerMinute = readingSpeedService.getWordsPerMinute(book.id);
+      const estimatedReadingTime = estimateMinutes(book.wordCount || 0, wordsPerMinute);
       
       const result: BookWithMetadata = {
         ...book,
@@ -220,6 +239,8 @@ class LibraryService {
       
       if (currentProgress) {
         result.currentProgress = currentProgress;
+        const wordsRemaining = await this.getWordsRemaining(book.id!, currentProgress.chapterId, latestTextPosition);
+        result.estimatedTimeRemaining = estimateMinutes(wordsRemaining, wordsPerMinute);
       }
       
       return result;
@@ -254,10 +275,30 @@ class LibraryService {
     }
   }
   
-  private calculateEstimatedReadingTime(wordCount: number): number {
-    // Average reading speed is about 250 words per minute
-    const wordsPerMinute = 250;
-    return Math.ceil(wordCount / wordsPerMinute);
+  private async getWordsRemaining(bookId: number, chapterId: number, textPosition: number): Promise<number> {
+    try {
+      // Word counts come from the index, so no chapter content is loaded
+      const range = db.chapters
+        .where('[bookId+index+wordCount]')
+        .between([bookId, Dexie.minKey, Dexie.minKey], [bookId, Dexie.maxKey, Dexie.maxKey]);
+      const [keys, ids] = await Promise.all([range.keys(), range.primaryKeys()]);
+      const wordCounts = keys.map(key => {
+        const wordCount = Array.isArray(key) ? key[2] : undefined;
+        return typeof wordCount === 'number' ? wordCount : 0;
+      });
+      
+      const currentIndex = ids.indexOf(chapterId);
+      const current = wordCounts[currentIndex];
+      if (current === undefined) return 0;
+      
+      // The unread part of the current chapter, then every later one
+      const wordsRead = Math.min(Math.round(textPosition / CHARACTERS_PER_WORD), current);
+      return current - wordsRead
+        + wordCounts.slice(currentIndex + 1).reduce((total, wordCount) => total + wordCount, 0);
+    } catch (error) {
+      console.error(`Failed to get words remaining for book ${bookId}:`, error);
+      return 0;
+    }
   }
 }
 
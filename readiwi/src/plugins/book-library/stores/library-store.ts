@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { BookStatus } from '@/core/types/database';
 import { LibraryState, LibraryViewSettings, LibraryStats } from '../types/library-types';
 import { libraryService } from '../services/library-service';
+import { bookUpdateService } from '@/plugins/book-import/services/book-update-service';
 
 const defaultViewSettings: LibraryViewSettings = {
   viewMode: 'grid',
@@ -33,6 +34,7 @@ const initialState = {
   loading: false,
   error: null,
   lastUpdated: 0,
+  checkingForUpdates: false,
   currentPage: 1,
   totalPages: 0,
   hasNextPage: false,
@@ -301,6 +303,42 @@ export const useLibraryStore = create<LibraryState>()((set, get) => ({
         }
       },
       
+      checkForUpdates: async (ids) => {
+        const { books } = get();
+        const booksToCheck = ids ? books.filter(book => ids.includes(book.id || 0)) : books;
+        
+        set({ checkingForUpdates: true, error: null });
+        
+        try {
+          const results = await bookUpdateService.checkForUpdates(booksToCheck);
+          
+          // Reload so new chapter counts and badges show up
+          await get().loadBooks();
+          set({ checkingForUpdates: false });
+          
+          return results;
+        } catch (error) {
+          set({
+            checkingForUpdates: false,
+            error: error instanceof Error ? error.message : 'Failed to check for updates',
+          });
+          throw error;
+        }
+      },
+      
+      clearNewChapters: async (id) => {
+        const { books } = get();
+        const book = books.find(b => b.id === id);
+        if (!book?.newChapterCount) return;
+        
+        try {
+          await get().updateBook(id, { newChapterCount: 0 });
+        } catch (error) {
+          console.error('Failed to clear new chapter badge:', error);
+          throw error;
+        }
+      },
+      
       clearError: () => {
         set({ error: null });
       },
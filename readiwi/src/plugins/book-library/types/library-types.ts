@@ -1,4 +1,5 @@
 import { Book, BookStatus } from '@/core/types/database';
+import type { BookUpdateResult } from '@/plugins/book-import/services/book-update-service';
 
 export interface LibraryViewSettings {
   viewMode: 'grid' | 'list' | 'compact';
@@ -34,7 +35,8 @@ export interface BookWithMetadata extends Book {
     timestamp: Date;
   };
   chaptersRead: number;
-  estimatedReadingTime: number;
+  estimatedReadingTime: number; // Minutes for the whole book at the reader's speed
+  estimatedTimeRemaining?: number; // Minutes left from the reading position, once started
   addedToLibrary: Date;
 }
 
@@ -48,6 +50,7 @@ export interface LibraryState {
   loading: boolean;
   error: string | null;
   lastUpdated: number;
+  checkingForUpdates: boolean;
   
   // Pagination
   currentPage: number;
@@ -81,6 +84,10 @@ export interface LibraryState {
   toggleFavorite: (id: number) => Promise<void>;
   updateBookStatus: (id: number, status: BookStatus) => Promise<void>;
   
+  // Serial updates
+  checkForUpdates: (ids?: number[]) => Promise<BookUpdateResult[]>;
+  clearNewChapters: (id: number) => Promise<void>;
+  
   // Utility
   applyFiltersAndPagination: () => void;
   debounceApplyFilters: () => void;
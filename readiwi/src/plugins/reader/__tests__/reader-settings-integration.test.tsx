@@ -115,6 +115,7 @@ describe('ReaderView Settings Integration', () => {
           bookmarkInterval: 30,
           navigationMode: 'buttons',
           infiniteScrollThreshold: 200,
+          authorNotes: 'inline',
         },
         audio: {},
         import: {},
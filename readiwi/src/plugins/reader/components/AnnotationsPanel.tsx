@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/core/utils/cn';
+import { Bookmark } from '@/core/types/database';
+import { Chapter, HIGHLIGHT_COLORS } from '../types/reader-types';
+import { Bookmark as BookmarkIcon, Highlighter, Trash2, X } from 'lucide-react';
+
+interface AnnotationsPanelProps {
+  annotations: Bookmark[]; // @description Bookmarks and highlights for the book
+  chapters: Chapter[]; // @description Book chapters, to group entries in reading order
+  orphanedIds?: number[]; // @description Highlights whose text is gone from the current chapter
+  onJump: (annotation: Bookmark) => void; // @description Open the entry's chapter at its position
+  onUpdateNote: (id: number, note: string) => void; // @description Save an edited note
+  onDelete: (id: number) => void; // @description Remove an entry
+  onClose: () => void; // @description Close the panel
+  className?: string;
+  'data-testid'?: string;
+}
+
+const AnnotationsPanel: React.FC<AnnotationsPanelProps> = ({
+  annotations,
+  chapters,
+  orphanedIds = [],
+  onJump,
+  onUpdateNote,
+  onDelete,
+  onClose,
+  className,
+  'data-testid': testId,
+}) => {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draftNote, setDraftNote] = useState('');
+
+  // Entries grouped by chapter, in reading order and then by position
+  const groups = useMemo(() => {
+    const chapterNumbers = new Map(chapters.map(chapter => [chapter.id, chapter.chapterNumber]));
+    const sorted = [...annotations].sort((a, b) =>
+      (chapterNumbers.get(a.chapterId) ?? Infinity) - (chapterNumbers.get(b.chapterId) ?? Infinity)
+      || a.position - b.position
+    );
+
+    const byChapter = new Map<number, Bookmark[]>();
+    sorted.forEach(annotation => {
+      byChapter.set(annotation.chapterId, [...(byChapter.get(annotation.chapterId) ?? []), annotation]);
+    });
+    return Array.from(byChapter.entries()).map(([chapterId, entries]) => ({
+      chapterId,
+      title: chapters.find(chapter => chapter.id === chapterId)?.title ?? entries[0]?.title ?? 'Unknown chapter',
+      entries,
+    }));
+  }, [annotations, chapters]);
+
+  const startEditing = useCallback((annotation: Bookmark) => {
+    setEditingId(annotation.id ?? null);
+    setDraftNote(annotation.note ?? '');
+  }, []);
+
+  const saveNote = useCallback(() => {
+    if (editingId !== null) {
+      onUpdateNote(editingId, draftNote.trim());
+    }
+    setEditingId(null);
+  }, [editingId, draftNote, onUpdateNote]);
+
+  return (
+    <div className={cn('space-y-3', className)} data-testid={testId}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">Bookmarks & Highlights</h2>
+        <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close annotations">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground" data-testid="annotations-empty">
+          Select text to highlight it, or use the bookmark button to mark your place.
+        </p>
+      ) : (
+        <ScrollArea className="max-h-80">
+          <div className="space-y-4 pr-3">
+            {groups.map(group => (
+              <section key={group.chapterId} className="space-y-2">
+                <h3 className="text-xs font-medium uppercase text-muted-foreground">{group.title}</h3>
+                {group.entries.map(annotation => {
+                  const isHighlight = annotation.type === 'highlight';
+                  const orphaned = annotation.id !== undefined && orphanedIds.includes(annotation.id);
+
+                  return (
+                    <div
+                      key={annotation.id}
+                      className="rounded-md border p-2 space-y-2"
+                      data-testid={`annotation-${annotation.id}`}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => onJump(annotation)}
+                        className="flex w-full items-start gap-2 text-left text-sm"
+                        data-testid={`annotation-jump-${annotation.id}`}
+                      >
+                        {isHighlight ? (
+                          <Highlighter className="mt-0.5 h-4 w-4 flex-shrink-0" aria-hidden="true" />
+                        ) : (
+                          <BookmarkIcon className="mt-0.5 h-4 w-4 flex-shrink-0" aria-hidden="true" />
+                        )}
+                        <span
+                          className={cn(
+                            'line-clamp-3',
+                            isHighlight && HIGHLIGHT_COLORS[annotation.color ?? 'yellow'].className
+                          )}
+                        >
+                          {annotation.text?.trim() || annotation.title}
+                        </span>
+                      </button>
+
+                      {orphaned && (
+                        <p className="text-xs text-destructive">This text is no longer in the chapter.</p>
+                      )}
+
+                      {editingId === annotation.id ? (
+                        <div className="flex gap-2">
+                          <Input
+                            value={draftNote}
+                            onChange={(e) => setDraftNote(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && saveNote()}
+                            placeholder="Add a note"
+                            aria-label="Note"
+                            autoFocus
+                          />
+                          <Button size="sm" onClick={saveNote}>Save</Button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-xs text-muted-foreground italic">{annotation.note}</p>
+                          <div className="flex flex-shrink-0 gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => startEditing(annotation)}>
+                              {annotation.note ? 'Edit note' : 'Add note'}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => annotation.id !== undefined && onDelete(annotation.id)}
+                              aria-label="Delete"
+                              data-testid={`annotation-delete-${annotation.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </section>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+};
+
+AnnotationsPanel.displayName = 'AnnotationsPanel';
+export default AnnotationsPanel;
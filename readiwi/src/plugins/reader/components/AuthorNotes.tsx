@@ -0,0 +1,58 @@
+"use client";
+
+import React from 'react';
+import { cn } from '@/core/utils/cn';
+import { Footnote } from '@/core/types/database';
+import { AuthorNotesDisplay } from '@/plugins/settings/types/settings-types';
+
+interface AuthorNotesProps {
+  notes: Footnote[]; // @description Author's notes to show, in order
+  display: AuthorNotesDisplay; // @description Shown in full, folded away behind a summary, or not at all
+  placement: 'before' | 'after'; // @description Whether the notes come before or after the chapter text
+  className?: string;
+  'data-testid'?: string;
+}
+
+const AuthorNotes: React.FC<AuthorNotesProps> = ({
+  notes,
+  display,
+  placement,
+  className,
+  'data-testid': testId,
+}) => {
+  if (display === 'hidden' || notes.length === 0) return null;
+
+  const body = notes.map(note => (
+    <div key={note.id} className="whitespace-pre-line">
+      {note.content}
+    </div>
+  ));
+  const label = notes.length > 1 ? "Author's notes" : "Author's note";
+
+  return (
+    <aside
+      className={cn(
+        'rounded-lg border bg-muted/40 px-4 py-3 text-sm',
+        placement === 'before' ? 'mb-8' : 'mt-8',
+        className
+      )}
+      aria-label={label}
+      data-testid={testId || `author-notes-${placement}`}
+    >
+      {display === 'collapsed' ? (
+        <details>
+          <summary className="cursor-pointer font-medium">{label}</summary>
+          <div className="mt-2 space-y-3">{body}</div>
+        </details>
+      ) : (
+        <>
+          <p className="font-medium mb-2">{label}</p>
+          <div className="space-y-3">{body}</div>
+        </>
+      )}
+    </aside>
+  );
+};
+
+AuthorNotes.displayName = 'AuthorNotes';
+export default AuthorNotes;
@@ -0,0 +1,64 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/core/utils/cn';
+import { HighlightColor } from '@/core/types/database';
+import { HIGHLIGHT_COLORS } from '../types/reader-types';
+
+interface HighlightMenuProps {
+  selectedText: string; // @description Text that will be highlighted
+  onSave: (color: HighlightColor, note: string) => void; // @description Create the highlight
+  onCancel: () => void; // @description Dismiss without highlighting
+  className?: string;
+  'data-testid'?: string;
+}
+
+const HighlightMenu: React.FC<HighlightMenuProps> = ({
+  selectedText,
+  onSave,
+  onCancel,
+  className,
+  'data-testid': testId,
+}) => {
+  const [note, setNote] = useState('');
+
+  return (
+    <div
+      className={cn('rounded-lg border bg-background p-3 shadow-lg space-y-2', className)}
+      role="dialog"
+      aria-label="Highlight selection"
+      data-testid={testId}
+    >
+      <p className="text-xs text-muted-foreground line-clamp-2">&ldquo;{selectedText.trim()}&rdquo;</p>
+      <Input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Add a note (optional)"
+        aria-label="Highlight note"
+        data-testid="highlight-note-input"
+      />
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map(color => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => onSave(color, note)}
+              className={cn('h-7 w-7 rounded-full border', HIGHLIGHT_COLORS[color].className)}
+              aria-label={`Highlight ${HIGHLIGHT_COLORS[color].name.toLowerCase()}`}
+              data-testid={`highlight-color-${color}`}
+            />
+          ))}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+HighlightMenu.displayName = 'HighlightMenu';
+export default HighlightMenu;
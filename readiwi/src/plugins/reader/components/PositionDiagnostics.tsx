@@ -0,0 +1,130 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RestorationStrategy } from '@/core/types/database';
+import { readerService } from '../services/reader-service';
+import { reliablePositionTracker } from '../services/position-tracker';
+import { Chapter, RestorationRecord } from '../types/reader-types';
+import { Loader2 } from 'lucide-react';
+
+const STRATEGY_LABELS: Record<RestorationStrategy, string> = {
+  [RestorationStrategy.EXACT_TEXT]: 'Exact text',
+  [RestorationStrategy.FUZZY_TEXT]: 'Similar text',
+  [RestorationStrategy.PARAGRAPH_POSITION]: 'Paragraph and word',
+  [RestorationStrategy.CHARACTER_OFFSET]: 'Saved offset',
+  [RestorationStrategy.ELEMENT_ID]: 'Element',
+  [RestorationStrategy.PERCENTAGE]: 'Percentage',
+  [RestorationStrategy.SCROLL_POSITION]: 'Scroll position',
+};
+
+interface PositionDiagnosticsProps {
+  bookId: number | null; // @description Book to show restorations for; dialog is closed when null
+  chapters: Chapter[]; // @description Book chapters, to name where each session started
+  onClose: () => void; // @description Callback when the dialog is dismissed
+  'data-testid'?: string; // @description Test identifier for testing
+}
+
+const PositionDiagnostics: React.FC<PositionDiagnosticsProps> = ({
+  bookId,
+  chapters,
+  onClose,
+  'data-testid': testId,
+}) => {
+  const [records, setRecords] = useState<RestorationRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (bookId === null) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    readerService.getRestorationHistory(bookId)
+      .then(history => !cancelled && setRecords(history))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to load history'))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookId]);
+
+  const shiftedCount = useMemo(
+    () => records.filter(record => !reliablePositionTracker.isConfident(record.accuracy / 100)).length,
+    [records]
+  );
+  const averageAccuracy = records.length > 0
+    ? Math.round(records.reduce((sum, record) => sum + record.accuracy, 0) / records.length)
+    : 0;
+
+  return (
+    <Dialog open={bookId !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent data-testid={testId || 'position-diagnostics'}>
+        <DialogHeader>
+          <DialogTitle>Position history</DialogTitle>
+          <DialogDescription>
+            How each reading session found the place you left off.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : records.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="diagnostics-empty">
+            No restored sessions yet.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground" data-testid="diagnostics-summary">
+              {records.length} {records.length === 1 ? 'session' : 'sessions'}, {averageAccuracy}% average match
+              {shiftedCount > 0 && `, ${shiftedCount} may have shifted`}
+            </p>
+            <ScrollArea className="max-h-80">
+              <ul className="space-y-2">
+                {records.map(record => {
+                  const confident = reliablePositionTracker.isConfident(record.accuracy / 100);
+                  return (
+                    <li
+                      key={record.restoredAt.getTime()}
+                      className="flex items-center justify-between gap-3 rounded border px-3 py-2 text-sm"
+                      data-testid="diagnostics-entry"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">
+                          {chapters.find(chapter => chapter.id === record.chapterId)?.title ?? 'Unknown chapter'}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {record.restoredAt.toLocaleString()} · {STRATEGY_LABELS[record.strategy] ?? record.strategy}
+                        </p>
+                      </div>
+                      <Badge variant={confident ? 'secondary' : 'destructive'}>
+                        {record.accuracy}%
+                      </Badge>
+                    </li>
+                  );
+                })}
+              </ul>
+            </ScrollArea>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+PositionDiagnostics.displayName = 'PositionDiagnostics';
+export default PositionDiagnostics;
@@ -1,29 +1,90 @@
 "use client";
 
-import React, { useEffect, useCallback, useRef } from 'react';
+import React, { useEffect, useCallback, useMemo, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { cn } from '@/core/utils/cn';
 import { useReaderStore } from '../stores/reader-store';
 import { readerService } from '../services/reader-service';
-import { Chapter } from '../types/reader-types';
+import { annotationService } from '../services/annotation-service';
+import {
+  renderChapterHtml,
+  getContentOffset,
+  getVisibleContentOffset,
+  getParagraphElement,
+  getCharacterRect,
+  getDomPosition,
+  getContentOffsetAtPoint,
+} from '../services/chapter-renderer';
+import { reliablePositionTracker } from '../services/position-tracker';
+import { readingSessionTracker } from '../services/session-tracker';
+import {
+  countWords,
+  estimateMinutes,
+  formatReadingTime,
+  readingSpeedService,
+} from '@/plugins/statistics/services/reading-speed-service';
+import { getPageForOffset, getPageStartOffset, measurePages } from '../services/page-layout';
+import { splitAuthorNotes } from '../services/author-notes';
+import { AnchoredAnnotation, Chapter, ReadingPosition, RestorationRecord } from '../types/reader-types';
+import { Bookmark, HighlightColor } from '@/core/types/database';
 import { useSettingsStore } from '@/plugins/settings/stores/settings-store';
 import ReadingSettings from '@/plugins/settings/components/ReadingSettings';
+import { shortcutService } from '@/plugins/settings/services/shortcut-service';
 import { 
   ChevronLeft, 
   ChevronRight, 
   Settings, 
   BookOpen, 
-  Loader2
+  Loader2,
+  BookmarkPlus,
+  NotebookPen,
+  Search,
+  AlertTriangle,
+  X
 } from 'lucide-react';
 import AudioControls from '@/plugins/audio/components/AudioControls';
+import AuthorNotes from './AuthorNotes';
+import useAudioStore from '@/plugins/audio/stores/audio-store';
+import { ttsService } from '@/plugins/audio/services/tts-service';
+import { imageCacheService } from '@/plugins/book-import/services/image-cache-service';
+import AnnotationsPanel from './AnnotationsPanel';
+import HighlightMenu from './HighlightMenu';
+import PositionDiagnostics from './PositionDiagnostics';
+
+// Same range as the font size slider in reading settings
+const MIN_FONT_SIZE = 12;
+const MAX_FONT_SIZE = 24;
+
+// Paged layout: the page fills the window below the reader's bars
+const PAGE_HEIGHT = 'calc(100dvh - 19rem)';
+const SWIPE_DISTANCE = 50; // px
+const TAP_ZONE = 1 / 3; // Taps on the outer thirds of the page turn it
+
+const SESSION_FLUSH_INTERVAL = 30 * 1000; // ms between saves of the reading session
+
+const TTS_HIGHLIGHT = 'tts-sentence'; // CSS highlight name for the sentence read aloud, styled in globals.css
+
+// URL slug for a chapter, from its title
+const toChapterSlug = (chapter: Chapter): string =>
+  chapter.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || `chapter-${chapter.id}`;
+
+interface TextSelection {
+  start: number;
+  end: number;
+  text: string;
+}
 
 interface ReaderViewProps {
   bookId: number; // @description ID of the book to read
   slug?: string; // @description URL slug of the book (optional, for URL validation)
   chapterId?: number; // @description ID of the specific chapter to read (optional)
   chapterSlug?: string; // @description URL slug of the chapter (optional, for URL validation)
+  initialOffset?: number; // @description Character offset in the chapter to scroll to once it opens (optional)
   className?: string; // @description Additional CSS classes
   'data-testid'?: string; // @description Test identifier for testing
 }
@@ -33,10 +94,23 @@ const ReaderView: React.FC<ReaderViewProps> = ({
   slug,
   chapterId,
   chapterSlug,
+  initialOffset,
   className,
   'data-testid': testId,
 }) => {
+  const rootRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+  const pendingJumpRef = useRef<number | null>(null); // Annotation to scroll to once its chapter is shown
+  const pendingOffsetRef = useRef<number | null>(initialOffset ?? null); // Offset from the URL, e.g. a search result
+  const [annotations, setAnnotations] = useState<Bookmark[]>([]);
+  const [anchoredAnnotations, setAnchoredAnnotations] = useState<AnchoredAnnotation[]>([]);
+  const [isAnnotationsVisible, setIsAnnotationsVisible] = useState(false);
+  const [selection, setSelection] = useState<TextSelection | null>(null);
+  const [imageSources, setImageSources] = useState<Record<string, string>>({});
+  const restorationRef = useRef<RestorationRecord | null>(null); // How this session found its starting place
+  const [isPositionShifted, setIsPositionShifted] = useState(false);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
   
   // Log URL parameters for debugging
   React.useEffect(() => {
@@ -53,6 +127,7 @@ const ReaderView: React.FC<ReaderViewProps> = ({
     error,
     isSettingsVisible,
     loadBook,
+    loadChapter,
     updatePosition,
     toggleSettings,
     clearError,
@@ -62,26 +137,102 @@ const ReaderView: React.FC<ReaderViewProps> = ({
   // Router for URL navigation
   const router = useRouter();
   
-  // Load book when component mounts or bookId changes
+  // Load the book when it changes; a new chapter URL for the open book only switches chapter
   useEffect(() => {
-    if (bookId) {
-      console.log('Loading book:', bookId);
-      loadBook(bookId);
+    if (!bookId) return;
+
+    const state = useReaderStore.getState();
+    if (chapterId && state.currentBook?.id === bookId && state.chapters.length > 0) {
+      if (state.currentChapter?.id !== chapterId) {
+        loadChapter(chapterId).catch(error => console.error('Failed to open chapter:', error));
+      }
+      return;
     }
-  }, [bookId, loadBook]);
+
+    console.log('Loading book:', bookId);
+    loadBook(bookId, chapterId);
+  }, [bookId, chapterId, loadBook, loadChapter]);
+
+  useEffect(() => {
+    pendingOffsetRef.current = initialOffset ?? null;
+  }, [chapterId, initialOffset]);
+
+  // Time a reading session for statistics, not counting idle stretches or time in other tabs
+  useEffect(() => {
+    if (!bookId) return;
+    readingSessionTracker.start(bookId);
+
+    const handleActivity = () => readingSessionTracker.recordActivity();
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        readingSessionTracker.pause();
+        readingSessionTracker.flush();
+      } else {
+        readingSessionTracker.recordActivity();
+      }
+    };
+    const activityEvents = ['pointerdown', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+    activityEvents.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const flushInterval = setInterval(() => readingSessionTracker.flush(), SESSION_FLUSH_INTERVAL);
+
+    return () => {
+      activityEvents.forEach(type => window.removeEventListener(type, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(flushInterval);
+      readingSessionTracker.end();
+    };
+  }, [bookId]);
   
   // Get reading settings
   const { settings } = useSettingsStore();
 
+  // Pages replace scrolling when page flipping is on; infinite scroll needs scrolling
+  const isPaginated = settings.reading.enablePageFlipping && settings.reading.navigationMode === 'buttons';
+  const animatePageTurns = settings.reading.animatePageTurns && !settings.accessibility.reducedMotion;
+  const [page, setPage] = useState(0);
+  const [pageCount, setPageCount] = useState(1);
+  const readingOffsetRef = useRef<{ chapterId: number; offset: number } | null>(null); // Where we are, kept across layout changes
+  const touchStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Viewport y where text stops being covered by the sticky bars
+  const getTextTop = useCallback((): number => {
+    const bars = rootRef.current?.querySelectorAll('[data-reader-bar]') ?? [];
+    return Array.from(bars).reduce((top, bar) => Math.max(top, bar.getBoundingClientRect().bottom), 0);
+  }, []);
+
+  // Find a saved place in the chapter text, noting how it was found so this session's saves record it
+  const restoreSavedOffset = useCallback((chapter: Chapter, saved: ReadingPosition): number => {
+    const resolved = reliablePositionTracker.resolve(chapter.content, saved.characterOffset, saved.fingerprint);
+    restorationRef.current = {
+      chapterId: chapter.id,
+      strategy: resolved.strategy,
+      accuracy: Math.round(resolved.confidence * 100),
+      restoredAt: new Date(),
+    };
+    setIsPositionShifted(!reliablePositionTracker.isConfident(resolved.confidence));
+    return resolved.offset;
+  }, []);
+
+  // Character offset of the reading place: the top of the current page, or the first character in view
+  const getReadingOffset = useCallback((): number => {
+    if (!currentChapter || !textRef.current) return 0;
+    if (isPaginated) {
+      const place = readingOffsetRef.current;
+      return place?.chapterId === currentChapter.id ? place.offset : 0;
+    }
+    return getVisibleContentOffset(textRef.current, currentChapter.content, getTextTop());
+  }, [currentChapter, isPaginated, getTextTop]);
+
   // Custom chapter navigation functions that update URLs
-  const navigateToChapter = useCallback((targetChapterId: number, targetChapterSlug?: string) => {
+  const navigateToChapter = useCallback((targetChapterId: number, targetChapterSlug?: string, offset?: number) => {
     if (!slug) return; // Need book slug for navigation
     
     // Generate chapter slug if not provided
     const chapterSlugToUse = targetChapterSlug || `chapter-${targetChapterId}`;
     
     // Navigate to chapter URL
-    const chapterUrl = `/read/${bookId}/${slug}/${targetChapterId}/${chapterSlugToUse}`;
+    const chapterUrl = `/read/${bookId}/${slug}/${targetChapterId}/${chapterSlugToUse}${offset !== undefined ? `?at=${offset}` : ''}`;
     console.log(`Navigating to chapter: ${chapterUrl}`);
     router.push(chapterUrl);
   }, [bookId, slug, router]);
@@ -89,24 +240,22 @@ const ReaderView: React.FC<ReaderViewProps> = ({
   const handleNextChapter = useCallback(async () => {
     if (!currentChapter || !chapters) return;
     
+    // Moving on counts the rest of this chapter as read
+    readingSessionTracker.finishChapter(currentChapter);
+
     // Find current chapter index  
     const currentIndex = chapters.findIndex((c: Chapter) => c.id === currentChapter.id);
     
     if (currentIndex < chapters.length - 1) {
       const nextChapterData = chapters[currentIndex + 1];
       if (nextChapterData) {
-        // Generate chapter slug from title
-        const nextChapterSlug = nextChapterData.title
-          .toLowerCase()
-          .replace(/[^a-z0-9]+/g, '-')
-          .replace(/^-|-$/g, '') || `chapter-${nextChapterData.id}`;
-          
-        navigateToChapter(nextChapterData.id, nextChapterSlug);
+        navigateToChapter(nextChapterData.id, toChapterSlug(nextChapterData));
       }
     }
   }, [currentChapter, chapters, navigateToChapter]);
 
-  const handlePreviousChapter = useCallback(async () => {
+  // Turning back from a chapter's first page opens the previous one at its end
+  const openPreviousChapter = useCallback((atEnd: boolean) => {
     if (!currentChapter || !chapters) return;
     
     // Find current chapter index  
@@ -115,32 +264,33 @@ const ReaderView: React.FC<ReaderViewProps> = ({
     if (currentIndex > 0) {
       const prevChapterData = chapters[currentIndex - 1];
       if (prevChapterData) {
-        // Generate chapter slug from title
-        const prevChapterSlug = prevChapterData.title
-          .toLowerCase()
-          .replace(/[^a-z0-9]+/g, '-')
-          .replace(/^-|-$/g, '') || `chapter-${prevChapterData.id}`;
-          
-        navigateToChapter(prevChapterData.id, prevChapterSlug);
+        navigateToChapter(prevChapterData.id, toChapterSlug(prevChapterData), atEnd ? prevChapterData.content.length : undefined);
       }
     }
   }, [currentChapter, chapters, navigateToChapter]);
 
+  const handlePreviousChapter = useCallback(() => {
+    openPreviousChapter(false);
+  }, [openPreviousChapter]);
+
   // Handle position tracking on content interaction
   const handleContentInteraction = useCallback(async () => {
     if (!currentChapter || !contentRef.current || !currentBook) return;
     
     try {
-      const element = contentRef.current;
-      const scrollPosition = element.scrollTop;
-      
-      // Use scroll position as character offset for now (simplified approach)
-      const characterOffset = Math.floor(scrollPosition);
+      const characterOffset = getReadingOffset();
+      readingSessionTracker.recordPosition(currentChapter, characterOffset);
+      if (!isPaginated) {
+        readingOffsetRef.current = { chapterId: currentChapter.id, offset: characterOffset };
+      }
       
       const newPosition = {
         chapterId: currentChapter.id,
         characterOffset,
-        scrollPosition,
+        scrollPosition: isPaginated ? 0 : window.scrollY,
+        // Lets the place be found again after font, width or content changes
+        fingerprint: reliablePositionTracker.createFingerprint(currentChapter.content, characterOffset),
+        ...(restorationRef.current?.chapterId === currentChapter.id && { restoration: restorationRef.current }),
         timestamp: new Date(),
       };
       
@@ -151,7 +301,7 @@ const ReaderView: React.FC<ReaderViewProps> = ({
     } catch (error) {
       console.warn('Position tracking error:', error);
     }
-  }, [currentChapter, currentBook, updatePosition]);
+  }, [currentChapter, currentBook, isPaginated, getReadingOffset, updatePosition]);
 
   // Auto-bookmark functionality
   useEffect(() => {
@@ -189,26 +339,43 @@ const ReaderView: React.FC<ReaderViewProps> = ({
     };
   }, [settings.reading.navigationMode, settings.reading.infiniteScrollThreshold, handleNextChapter]);
 
-  // Restore position when chapter changes
+  // Return to the saved place once per chapter, through its fingerprint so re-layouts and edits don't move it
+  const restoredChapterRef = useRef<number | null>(null);
   useEffect(() => {
-    if (!currentPosition || !contentRef.current) return;
-    
-    const restorePosition = async () => {
-      try {
-        if (contentRef.current && currentPosition.scrollPosition > 0) {
-          contentRef.current.scrollTop = currentPosition.scrollPosition;
-        }
-      } catch (error) {
-        console.warn('Position restoration error:', error);
+    if (isPaginated || !currentChapter || !textRef.current) return;
+    if (restoredChapterRef.current === currentChapter.id) return;
+    restoredChapterRef.current = currentChapter.id;
+
+    // An offset from the URL or a picked annotation wins
+    const saved = useReaderStore.getState().currentPosition;
+    if (pendingOffsetRef.current !== null || pendingJumpRef.current !== null || saved?.chapterId !== currentChapter.id) return;
+
+    try {
+      const offset = restoreSavedOffset(currentChapter, saved);
+      readingOffsetRef.current = { chapterId: currentChapter.id, offset };
+
+      const position = getDomPosition(textRef.current, currentChapter.content, offset);
+      const rect = position && getCharacterRect(position.node, position.offset);
+      if (rect) {
+        window.scrollBy({ top: rect.top - getTextTop(), behavior: 'instant' });
+      } else {
+        getParagraphElement(textRef.current, currentChapter.content, offset)?.scrollIntoView?.({ block: 'start' });
       }
-    };
-    
-    restorePosition();
-  }, [currentChapter, currentPosition]);
+    } catch (error) {
+      console.warn('Position restoration error:', error);
+    }
+  }, [isPaginated, currentChapter, getTextTop, restoreSavedOffset]);
 
-  // Add scroll listener for position tracking
+  // The shifted-position hint belongs to the chapter it was restored in
   useEffect(() => {
-    const element = contentRef.current;
+    if (restorationRef.current?.chapterId !== currentChapter?.id) {
+      setIsPositionShifted(false);
+    }
+  }, [currentChapter]);
+
+  // Add scroll listener for position tracking: the window scrolls, or the page strip when paginated
+  useEffect(() => {
+    const element = isPaginated ? contentRef.current : window;
     if (!element) return;
 
     let scrollTimeout: NodeJS.Timeout;
@@ -226,7 +393,464 @@ const ReaderView: React.FC<ReaderViewProps> = ({
       element.removeEventListener('scroll', handleScroll);
       clearTimeout(scrollTimeout);
     };
-  }, [handleContentInteraction]);
+  }, [isPaginated, handleContentInteraction]);
+
+  // Bookmarks and highlights for the open book
+  const loadAnnotations = useCallback(async () => {
+    if (!currentBook) return;
+    try {
+      setAnnotations(await annotationService.getBookAnnotations(currentBook.id));
+    } catch (error) {
+      console.warn('Failed to load annotations:', error);
+    }
+  }, [currentBook]);
+
+  useEffect(() => {
+    loadAnnotations();
+  }, [loadAnnotations]);
+
+  // Place the chapter's annotations in its current text, following any edits since they were made
+  useEffect(() => {
+    if (!currentChapter) {
+      setAnchoredAnnotations([]);
+      return;
+    }
+
+    let cancelled = false;
+    annotationService.anchorAnnotations(currentChapter, annotations).then(anchored => {
+      if (!cancelled) setAnchoredAnnotations(anchored);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentChapter, annotations]);
+
+  // Reading speed learned from past sessions, for time-left estimates
+  const [wordsPerMinute, setWordsPerMinute] = useState(() => readingSpeedService.getWordsPerMinute(bookId));
+  useEffect(() => {
+    const update = () => setWordsPerMinute(readingSpeedService.getWordsPerMinute(bookId));
+    const unsubscribe = readingSpeedService.subscribe(update);
+    update();
+    readingSpeedService.load();
+    return unsubscribe;
+  }, [bookId]);
+
+  // Minutes left from the reading position to the end of the chapter and of the book
+  const timeLeft = useMemo(() => {
+    if (!currentChapter) return null;
+
+    const offset = currentPosition?.chapterId === currentChapter.id ? currentPosition.characterOffset : 0;
+    const chapterWords = countWords(currentChapter.content.slice(offset));
+    const currentIndex = chapters.findIndex(chapter => chapter.id === currentChapter.id);
+    const laterWords = currentIndex === -1
+      ? 0
+      : chapters.slice(currentIndex + 1).reduce((total, chapter) => total + chapter.wordCount, 0);
+
+    return {
+      chapter: estimateMinutes(chapterWords, wordsPerMinute),
+      book: estimateMinutes(chapterWords + laterWords, wordsPerMinute),
+    };
+  }, [currentChapter, chapters, currentPosition, wordsPerMinute]);
+
+  const authorNotes = useMemo(() => splitAuthorNotes(currentChapter ?? {}), [currentChapter]);
+
+  // Show the chapter's images from the offline cache, freeing them when it closes
+  const chapterImageUrls = currentChapter?.imageUrls;
+  useEffect(() => {
+    if (!chapterImageUrls?.length) return;
+
+    let cancelled = false;
+    let sources: Record<string, string> = {};
+    imageCacheService.getObjectUrls(chapterImageUrls).then(result => {
+      if (cancelled) {
+        imageCacheService.releaseObjectUrls(result);
+        return;
+      }
+      sources = result;
+      setImageSources(result);
+    });
+
+    return () => {
+      cancelled = true;
+      imageCacheService.releaseObjectUrls(sources);
+      setImageSources({});
+    };
+  }, [chapterImageUrls]);
+
+  const chapterHtml = useMemo(
+    () => (currentChapter
+      ? renderChapterHtml(currentChapter.content, anchoredAnnotations, currentChapter.htmlContent, imageSources)
+      : ''),
+    [currentChapter, anchoredAnnotations, imageSources]
+  );
+
+  // Show one page of the paged layout; `anchor` is the text to keep our place by, the page top otherwise
+  const showPage = useCallback((target: number, animate: boolean, anchor?: number) => {
+    const element = contentRef.current;
+    if (!element || !textRef.current || !currentChapter) return;
+
+    const metrics = measurePages(element);
+    const nextPage = Math.min(Math.max(0, target), metrics.pageCount - 1);
+    setPageCount(metrics.pageCount);
+    setPage(nextPage);
+    readingOffsetRef.current = {
+      chapterId: currentChapter.id,
+      offset: anchor ?? getPageStartOffset(textRef.current, currentChapter.content, nextPage, metrics),
+    };
+
+    const left = nextPage * metrics.pageWidth;
+    if (typeof element.scrollTo === 'function') {
+      element.scrollTo({ left, behavior: animate ? 'smooth' : 'instant' });
+    } else {
+      element.scrollLeft = left;
+    }
+  }, [currentChapter]);
+
+  // Bring a content offset into view: turn to its page, or scroll its paragraph to the middle
+  const revealOffset = useCallback((offset: number) => {
+    if (!currentChapter || !textRef.current) return;
+
+    if (isPaginated && contentRef.current) {
+      const metrics = measurePages(contentRef.current);
+      showPage(getPageForOffset(textRef.current, currentChapter.content, offset, metrics), false, offset);
+      return;
+    }
+    getParagraphElement(textRef.current, currentChapter.content, offset)?.scrollIntoView?.({ block: 'center' });
+  }, [currentChapter, isPaginated, showPage]);
+
+  // Sentence being read aloud from this chapter
+  const speakingSegment = useAudioStore(state =>
+    state.source && !state.readingNotes && state.source.chapterId === currentChapter?.id ? state.ttsState.segment : undefined
+  );
+  const revealedSegmentRef = useRef<number | null>(null);
+
+  // Follow the sentence being read aloud: highlight it and keep it in view
+  useEffect(() => {
+    const container = textRef.current;
+    const highlights = typeof CSS !== 'undefined' && 'highlights' in CSS ? CSS.highlights : null;
+    if (!container || !currentChapter || !speakingSegment) {
+      revealedSegmentRef.current = null;
+      return;
+    }
+
+    const start = getDomPosition(container, currentChapter.content, speakingSegment.start);
+    const end = getDomPosition(container, currentChapter.content, speakingSegment.end);
+    if (highlights && typeof Highlight !== 'undefined' && settings.audio.highlightText && start && end) {
+      const range = document.createRange();
+      range.setStart(start.node, start.offset);
+      range.setEnd(end.node, end.offset);
+      highlights.set(TTS_HIGHLIGHT, new Highlight(range));
+    }
+
+    // Scroll only when a new sentence starts, so the reader can look elsewhere in between
+    if (revealedSegmentRef.current !== speakingSegment.start) {
+      revealedSegmentRef.current = speakingSegment.start;
+      if (isPaginated) {
+        revealOffset(speakingSegment.start);
+      } else {
+        const rect = start && getCharacterRect(start.node, start.offset);
+        const top = getTextTop();
+        if (rect && (rect.top < top || rect.bottom > window.innerHeight)) {
+          window.scrollBy({ top: rect.top - top - (window.innerHeight - top) / 3, behavior: 'smooth' });
+        }
+      }
+    }
+
+    return () => {
+      highlights?.delete(TTS_HIGHLIGHT);
+    };
+  }, [currentChapter, chapterHtml, speakingSegment, isPaginated, settings.audio.highlightText, getTextTop, revealOffset]);
+
+  // Reading aloud carries on into the next chapter: follow it there
+  const audioSource = useAudioStore(state => state.source);
+  useEffect(() => {
+    if (!audioSource || audioSource.bookId !== bookId || audioSource.chapterId === useReaderStore.getState().currentChapter?.id) return;
+
+    const chapter = useReaderStore.getState().chapters.find(candidate => candidate.id === audioSource.chapterId);
+    if (!chapter) return;
+    if (slug) {
+      navigateToChapter(chapter.id, toChapterSlug(chapter));
+    } else {
+      loadChapter(chapter.id).catch(error => console.error('Failed to follow reading aloud:', error));
+    }
+  }, [audioSource, bookId, slug, navigateToChapter, loadChapter]);
+
+  // Reading aloud belongs to the chapter it started in, unless it moved on by itself
+  useEffect(() => {
+    const { source, stopReading } = useAudioStore.getState();
+    if (source && source.chapterId !== currentChapter?.id) {
+      stopReading();
+    }
+  }, [currentChapter]);
+
+  useEffect(() => () => {
+    const { source, stopReading } = useAudioStore.getState();
+    if (source) stopReading();
+  }, []);
+
+  // Read aloud from the sentence at a tapped point
+  const readAloudFrom = useCallback((x: number, y: number) => {
+    const container = textRef.current;
+    if (!container || !currentChapter || !currentBook?.id || !ttsService.isSupported()) return;
+
+    const offset = getContentOffsetAtPoint(container, currentChapter.content, x, y);
+    if (offset === null) return;
+
+    const { audio } = settings;
+    useAudioStore.getState().startReading(currentChapter.content, {
+      enabled: audio.enabled,
+      voice: audio.voice,
+      rate: audio.rate,
+      pitch: audio.pitch,
+      volume: audio.volume,
+    }, {
+      startOffset: offset,
+      source: { bookId: currentBook.id, chapterId: currentChapter.id },
+      autoAdvance: audio.autoAdvance,
+      readAuthorNotes: settings.reading.authorNotes === 'inline',
+    });
+  }, [currentChapter, currentBook, settings]);
+
+  // Lay the chapter out in pages whenever anything that moves text changes, staying on the same text
+  useEffect(() => {
+    const element = contentRef.current;
+    if (!isPaginated || !element || !currentChapter) return;
+
+    const relayout = () => {
+      if (!textRef.current) return;
+      const place = readingOffsetRef.current;
+      const saved = useReaderStore.getState().currentPosition;
+      const anchor = place?.chapterId === currentChapter.id
+        ? place.offset
+        : saved?.chapterId === currentChapter.id
+          ? restoreSavedOffset(currentChapter, saved)
+          : 0;
+
+      const metrics = measurePages(element);
+      showPage(getPageForOffset(textRef.current, currentChapter.content, anchor, metrics), false, anchor);
+    };
+
+    relayout();
+    window.addEventListener('resize', relayout);
+    return () => window.removeEventListener('resize', relayout);
+  }, [
+    isPaginated,
+    currentChapter,
+    chapterHtml,
+    showPage,
+    restoreSavedOffset,
+    settings.reading.theme,
+    settings.reading.columnsPerPage,
+    settings.reading.pageWidth,
+    settings.reading.marginSize,
+    settings.reading.paragraphSpacing,
+    settings.reading.textAlign,
+  ]);
+
+  // Leaving pages for scrolling: scroll to the text we were on
+  const wasPaginatedRef = useRef(isPaginated);
+  useEffect(() => {
+    const leftPages = wasPaginatedRef.current && !isPaginated;
+    wasPaginatedRef.current = isPaginated;
+    if (!leftPages || !currentChapter || !textRef.current) return;
+
+    const place = readingOffsetRef.current;
+    if (place?.chapterId === currentChapter.id) {
+      getParagraphElement(textRef.current, currentChapter.content, place.offset)?.scrollIntoView?.({ block: 'start' });
+    }
+  }, [isPaginated, currentChapter]);
+
+  // Page turns run on into the next or previous chapter
+  const handleNextPage = useCallback(() => {
+    if (isPaginated && page < pageCount - 1) {
+      showPage(page + 1, animatePageTurns);
+      handleContentInteraction();
+      return;
+    }
+    handleNextChapter();
+  }, [isPaginated, page, pageCount, animatePageTurns, showPage, handleContentInteraction, handleNextChapter]);
+
+  const handlePreviousPage = useCallback(() => {
+    if (!isPaginated) {
+      openPreviousChapter(false);
+    } else if (page > 0) {
+      showPage(page - 1, animatePageTurns);
+      handleContentInteraction();
+    } else {
+      openPreviousChapter(true);
+    }
+  }, [isPaginated, page, animatePageTurns, showPage, handleContentInteraction, openPreviousChapter]);
+
+  // Scroll to an annotation picked in the panel once its chapter has rendered
+  useEffect(() => {
+    const annotationId = pendingJumpRef.current;
+    if (annotationId === null || !currentChapter || !textRef.current) return;
+
+    const target = anchoredAnnotations.find(({ annotation }) => annotation.id === annotationId);
+    if (!target) return;
+
+    pendingJumpRef.current = null;
+    revealOffset(target.start);
+  }, [currentChapter, anchoredAnnotations, revealOffset]);
+
+  // Scroll to an offset given in the URL once that chapter has rendered
+  useEffect(() => {
+    const offset = pendingOffsetRef.current;
+    if (offset === null || !currentChapter || !textRef.current) return;
+    if (chapterId && currentChapter.id !== chapterId) return;
+
+    pendingOffsetRef.current = null;
+    revealOffset(offset);
+  }, [currentChapter, chapterId, chapterHtml, revealOffset]);
+
+  // Offer to highlight whatever text the reader selects in the chapter
+  const handleSelectionEnd = useCallback(() => {
+    const container = textRef.current;
+    const domSelection = window.getSelection?.();
+    if (!container || !currentChapter || !domSelection || domSelection.isCollapsed || domSelection.rangeCount === 0) {
+      setSelection(null);
+      return;
+    }
+
+    const range = domSelection.getRangeAt(0);
+    const start = getContentOffset(container, range.startContainer, range.startOffset, currentChapter.content);
+    const end = getContentOffset(container, range.endContainer, range.endOffset, currentChapter.content);
+    if (start === null || end === null || start === end) {
+      setSelection(null);
+      return;
+    }
+
+    const text = currentChapter.content.slice(Math.min(start, end), Math.max(start, end));
+    setSelection(text.trim() ? { start, end, text } : null);
+  }, [currentChapter]);
+
+  const handleSaveHighlight = useCallback(async (color: HighlightColor, note: string) => {
+    if (!currentChapter || !selection) return;
+    try {
+      await annotationService.addHighlight(currentChapter, selection.start, selection.end, color, note);
+      window.getSelection?.()?.removeAllRanges();
+      setSelection(null);
+      await loadAnnotations();
+    } catch (error) {
+      console.error('Failed to save highlight:', error);
+    }
+  }, [currentChapter, selection, loadAnnotations]);
+
+  const handleAddBookmark = useCallback(async () => {
+    if (!currentChapter || !textRef.current) return;
+    try {
+      await annotationService.addBookmark(currentChapter, getReadingOffset());
+      await loadAnnotations();
+    } catch (error) {
+      console.error('Failed to add bookmark:', error);
+    }
+  }, [currentChapter, getReadingOffset, loadAnnotations]);
+
+  const handleJumpToAnnotation = useCallback(async (annotation: Bookmark) => {
+    if (annotation.id === undefined) return;
+    pendingJumpRef.current = annotation.id;
+    setIsAnnotationsVisible(false);
+
+    if (annotation.chapterId !== currentChapter?.id) {
+      try {
+        await loadChapter(annotation.chapterId);
+      } catch (error) {
+        pendingJumpRef.current = null;
+        console.error('Failed to open annotated chapter:', error);
+      }
+    } else {
+      // Same chapter: re-run the scroll effect
+      setAnchoredAnnotations(anchored => [...anchored]);
+    }
+  }, [currentChapter, loadChapter]);
+
+  const handleUpdateNote = useCallback(async (id: number, note: string) => {
+    try {
+      await annotationService.updateAnnotation(id, { note });
+      await loadAnnotations();
+    } catch (error) {
+      console.error('Failed to update note:', error);
+    }
+  }, [loadAnnotations]);
+
+  const handleDeleteAnnotation = useCallback(async (id: number) => {
+    try {
+      await annotationService.deleteAnnotation(id);
+      await loadAnnotations();
+    } catch (error) {
+      console.error('Failed to delete annotation:', error);
+    }
+  }, [loadAnnotations]);
+
+  // Clicking a highlight opens the annotations list; in pages, tapping either side turns the page;
+  // with audio on, tapping the text reads aloud from there
+  const handleContentClick = useCallback((event: React.MouseEvent) => {
+    const target = event.target as Element;
+    const isTap = window.getSelection?.()?.isCollapsed !== false && !target.closest?.('a, button');
+    if (target.closest?.('mark[data-annotation-id]')) {
+      setIsAnnotationsVisible(true);
+    } else if (isPaginated && contentRef.current && isTap) {
+      const rect = contentRef.current.getBoundingClientRect();
+      const position = (event.clientX - rect.left) / rect.width;
+      if (position < TAP_ZONE) {
+        handlePreviousPage();
+        return;
+      }
+      if (position > 1 - TAP_ZONE) {
+        handleNextPage();
+        return;
+      }
+    }
+    if (settings.audio.enabled && isTap) {
+      readAloudFrom(event.clientX, event.clientY);
+    }
+    handleContentInteraction();
+  }, [isPaginated, settings.audio.enabled, handlePreviousPage, handleNextPage, readAloudFrom, handleContentInteraction]);
+
+  const handleTouchStart = useCallback((event: React.TouchEvent) => {
+    const touch = event.touches[0];
+    touchStartRef.current = touch ? { x: touch.clientX, y: touch.clientY } : null;
+  }, []);
+
+  // Horizontal swipes turn pages
+  const handleTouchEnd = useCallback((event: React.TouchEvent) => {
+    handleSelectionEnd();
+
+    const start = touchStartRef.current;
+    const touch = event.changedTouches[0];
+    touchStartRef.current = null;
+    if (!isPaginated || !start || !touch) return;
+
+    const deltaX = touch.clientX - start.x;
+    const deltaY = touch.clientY - start.y;
+    if (Math.abs(deltaX) >= SWIPE_DISTANCE && Math.abs(deltaX) > Math.abs(deltaY)) {
+      if (deltaX < 0) {
+        handleNextPage();
+      } else {
+        handlePreviousPage();
+      }
+    }
+  }, [isPaginated, handleSelectionEnd, handleNextPage, handlePreviousPage]);
+
+  // Reader shortcuts, only while this view is mounted
+  useEffect(() => {
+    const changeFontSize = (step: number) => {
+      const { settings: current, updateReading, autoSave } = useSettingsStore.getState();
+      const fontSize = Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, current.reading.theme.fontSize + step));
+      updateReading({ theme: { ...current.reading.theme, fontSize } });
+      autoSave();
+    };
+
+    return shortcutService.register('reader', {
+      nextPage: handleNextPage,
+      previousPage: handlePreviousPage,
+      toggleBookmarks: () => setIsAnnotationsVisible(visible => !visible),
+      increaseFontSize: () => changeFontSize(1),
+      decreaseFontSize: () => changeFontSize(-1),
+      openSearch: () => router.push(`/search?book=${bookId}`),
+      openSettings: toggleSettings,
+    });
+  }, [bookId, router, handleNextPage, handlePreviousPage, toggleSettings]);
 
   // Handle retry action
   const handleRetry = useCallback(() => {
@@ -307,11 +931,12 @@ const ReaderView: React.FC<ReaderViewProps> = ({
 
   return (
     <div 
+      ref={rootRef}
       className={cn('min-h-screen bg-background', className)}
       data-testid={testId || 'reader-view'}
     >
       {/* Header */}
-      <header className="sticky top-0 z-10 bg-background/80 backdrop-blur border-b">
+      <header className="sticky top-0 z-10 bg-background/80 backdrop-blur border-b" data-reader-bar>
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
             <div className="flex-1 min-w-0">
@@ -320,6 +945,34 @@ const ReaderView: React.FC<ReaderViewProps> = ({
             </div>
             
             <div className="flex items-center space-x-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => router.push(`/search?book=${bookId}`)}
+                data-testid="search-book-button"
+                aria-label="Search this book"
+              >
+                <Search className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleAddBookmark}
+                disabled={!currentChapter}
+                data-testid="add-bookmark-button"
+                aria-label="Bookmark this page"
+              >
+                <BookmarkPlus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsAnnotationsVisible(visible => !visible)}
+                data-testid="annotations-toggle"
+                aria-label="Bookmarks and highlights"
+              >
+                <NotebookPen className="h-4 w-4" />
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
@@ -335,10 +988,11 @@ const ReaderView: React.FC<ReaderViewProps> = ({
       </header>
 
       {/* Audio Controls */}
-      <div className="sticky top-[73px] z-10 bg-background/95 backdrop-blur border-b">
+      <div className="sticky top-[73px] z-10 bg-background/95 backdrop-blur border-b" data-reader-bar>
         <div className="container mx-auto px-4 py-2">
           <AudioControls
             text={currentChapter?.content || ''}
+            {...(currentBook?.id && currentChapter && { source: { bookId: currentBook.id, chapterId: currentChapter.id } })}
             showSettings={true}
             onSettingsClick={toggleSettings}
             data-testid="reader-audio-controls"
@@ -350,6 +1004,7 @@ const ReaderView: React.FC<ReaderViewProps> = ({
       {isSettingsVisible && (
         <div 
           className="sticky top-[110px] z-10 bg-background/95 backdrop-blur-sm border-b shadow-sm"
+          data-reader-bar
           data-testid="reading-settings-panel"
         >
           <div className="container mx-auto px-4 py-3">
@@ -358,10 +1013,40 @@ const ReaderView: React.FC<ReaderViewProps> = ({
         </div>
       )}
 
+      {/* Annotations Panel */}
+      {isAnnotationsVisible && (
+        <div className="sticky top-[110px] z-10 bg-background/95 backdrop-blur-sm border-b shadow-sm" data-reader-bar>
+          <div className="container mx-auto px-4 py-3">
+            <AnnotationsPanel
+              annotations={annotations}
+              chapters={chapters}
+              orphanedIds={anchoredAnnotations.filter(({ orphaned }) => orphaned).map(({ annotation }) => annotation.id!)}
+              onJump={handleJumpToAnnotation}
+              onUpdateNote={handleUpdateNote}
+              onDelete={handleDeleteAnnotation}
+              onClose={() => setIsAnnotationsVisible(false)}
+              data-testid="annotations-panel"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Highlight Menu */}
+      {selection && (
+        <HighlightMenu
+          selectedText={selection.text}
+          onSave={handleSaveHighlight}
+          onCancel={() => setSelection(null)}
+          className="fixed bottom-24 left-1/2 z-30 w-80 -translate-x-1/2"
+          data-testid="highlight-menu"
+        />
+      )}
+
       {/* Chapter Navigation */}
       {settings.reading.navigationMode === 'buttons' && (
         <div 
           className="sticky top-[147px] z-10 bg-background/80 backdrop-blur border-b"
+          data-reader-bar
           data-testid="chapter-navigation"
         >
         <div className="container mx-auto px-4 py-2">
@@ -420,14 +1105,47 @@ const ReaderView: React.FC<ReaderViewProps> = ({
 
       {/* Position Indicator */}
       {currentPosition && (
-        <div 
+        <button
+          type="button"
           className="fixed top-4 right-4 z-20 bg-primary/10 text-primary px-2 py-1 rounded text-xs"
+          onClick={() => setIsDiagnosticsOpen(true)}
+          title="Position history"
           data-testid="position-indicator"
         >
           Position restored
+        </button>
+      )}
+
+      {/* The saved place could not be matched to the chapter text with confidence */}
+      {isPositionShifted && (
+        <div
+          className="fixed bottom-24 left-1/2 z-20 -translate-x-1/2 flex items-center gap-2 rounded-md border bg-background px-3 py-2 text-sm shadow-md"
+          role="status"
+          data-testid="position-shifted-hint"
+        >
+          <AlertTriangle className="h-4 w-4 text-amber-500" />
+          <span>Your position may have shifted since you last read.</span>
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setIsDiagnosticsOpen(true)}>
+            Details
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => setIsPositionShifted(false)}
+            aria-label="Dismiss"
+          >
+            <X className="h-3 w-3" />
+          </Button>
         </div>
       )}
 
+      <PositionDiagnostics
+        bookId={isDiagnosticsOpen ? bookId : null}
+        chapters={chapters}
+        onClose={() => setIsDiagnosticsOpen(false)}
+      />
+
       {/* Reading Content */}
       <main 
         className={cn(
@@ -460,11 +1178,24 @@ const ReaderView: React.FC<ReaderViewProps> = ({
               columnCount: settings.reading.columnsPerPage,
               columnGap: settings.reading.columnsPerPage > 1 ? '2rem' : 'normal',
               scrollBehavior: settings.reading.scrollBehavior,
+              // Pages: fixed-height columns overflow sideways, with the margins hiding the neighbouring pages
+              ...(isPaginated && {
+                height: PAGE_HEIGHT,
+                minHeight: '16rem',
+                overflow: 'hidden',
+                columnFill: 'auto',
+                clipPath: `inset(0 ${settings.reading.marginSize}px)`,
+              }),
               // Apply paragraph spacing via CSS custom properties
               '--paragraph-spacing': `${settings.reading.paragraphSpacing}px`,
             } as React.CSSProperties}
-            onClick={handleContentInteraction}
+            onClick={handleContentClick}
             onScroll={handleContentInteraction}
+            onMouseUp={handleSelectionEnd}
+            onTouchStart={handleTouchStart}
+            onTouchEnd={handleTouchEnd}
+            onKeyUp={handleSelectionEnd}
+            data-paginated={isPaginated || undefined}
             data-testid="reading-content"
           >
             <header className="mb-8">
@@ -477,12 +1208,16 @@ const ReaderView: React.FC<ReaderViewProps> = ({
               </div>
             </header>
             
+            <AuthorNotes notes={authorNotes.before} display={settings.reading.authorNotes} placement="before" />
+
             <div 
-              className="whitespace-pre-line leading-relaxed"
-              dangerouslySetInnerHTML={{ 
-                __html: currentChapter.content.replace(/\n\n/g, '</p><p>').replace(/^/, '<p>').replace(/$/, '</p>')
-              }}
+              ref={textRef}
+              className="chapter-text whitespace-pre-line leading-relaxed"
+              dangerouslySetInnerHTML={{ __html: chapterHtml }}
+              data-testid="chapter-text"
             />
+
+            <AuthorNotes notes={authorNotes.after} display={settings.reading.authorNotes} placement="after" />
           </article>
         ) : (
           <div className="text-center py-12">
@@ -511,6 +1246,20 @@ const ReaderView: React.FC<ReaderViewProps> = ({
               <p className="text-sm text-muted-foreground">
                 {currentChapter && currentBook && `${currentChapter.chapterNumber} of ${currentBook.totalChapters}`}
               </p>
+              {timeLeft && (
+                <p
+                  className="text-xs text-muted-foreground"
+                  title={`At your reading speed of about ${wordsPerMinute} words per minute`}
+                  data-testid="time-remaining"
+                >
+                  {formatReadingTime(timeLeft.chapter)} left in chapter · {formatReadingTime(timeLeft.book)} left in book
+                </p>
+              )}
+              {isPaginated && currentChapter && (
+                <p className="text-xs text-muted-foreground" aria-live="polite" data-testid="page-indicator">
+                  Page {page + 1} of {pageCount}
+                </p>
+              )}
             </div>
 
             <Button
@@ -2,10 +2,13 @@
 export { readerPlugin } from './plugin';
 export { useReaderStore } from './stores/reader-store';
 export { readerService } from './services/reader-service';
+export { annotationService } from './services/annotation-service';
 
 // Components
 export { default as ReaderView } from './components/ReaderView';
 export { default as ChapterList } from './components/ChapterList';
+export { default as AnnotationsPanel } from './components/AnnotationsPanel';
+export { default as PositionDiagnostics } from './components/PositionDiagnostics';
 
 // Types
 export type {
@@ -15,6 +18,9 @@ export type {
   ReaderState,
   ChapterNavigation,
   ReaderTheme,
+  AnchoredAnnotation,
+  PositionRestoration,
+  RestorationRecord,
 } from './types/reader-types';
 
-export { DEFAULT_READER_SETTINGS, READER_THEMES } from './types/reader-types';
\ No newline at end of file
+export { DEFAULT_READER_SETTINGS, READER_THEMES, HIGHLIGHT_COLORS } from './types/reader-types';
\ No newline at end of file
@@ -0,0 +1,177 @@
+/**
+ * Annotation Service Tests - Readiwi v4.0
+ * Testing that bookmarks and highlights are saved and stay attached to their text
+ */
+
+import { Bookmark } from '@/core/types/database';
+
+jest.mock('@/core/services/database-simple', () => {
+  const records = new Map<number, Bookmark>();
+  let nextId = 1;
+
+  return {
+    db: {
+      bookmarks: {
+        records,
+        add: jest.fn(async (record: Bookmark) => {
+          const id = nextId++;
+          records.set(id, { ...record, id });
+          return id;
+        }),
+        put: jest.fn(async (record: Bookmark) => {
+          records.set(record.id!, { ...record });
+          return record.id;
+        }),
+        update: jest.fn(async (id: number, updates: Partial<Bookmark>) => {
+          records.set(id, { ...records.get(id)!, ...updates });
+          return 1;
+        }),
+        delete: jest.fn(async (id: number) => {
+          records.delete(id);
+        }),
+        where: () => ({
+          equals: (bookId: number) => ({
+            sortBy: async () => Array.from(records.values()).filter(record => record.bookId === bookId),
+          }),
+        }),
+      },
+    },
+  };
+});
+
+import { db } from '@/core/services/database-simple';
+import { AnnotationService } from '../annotation-service';
+import { renderChapterHtml, getContentOffset } from '../chapter-renderer';
+import { Chapter } from '../../types/reader-types';
+
+const mockRecords = (db.bookmarks as unknown as { records: Map<number, Bookmark> }).records;
+
+const CONTENT = [
+  'The river ran jade green beneath the old stone bridge.',
+  'Mei Lin waited on the far bank, counting the lanterns as they drifted past.',
+  'When the last lantern was gone, she finally crossed.',
+].join('\n\n');
+
+const makeChapter = (content: string = CONTENT): Chapter => ({
+  id: 7,
+  bookId: 1,
+  title: 'Chapter 3: Lanterns',
+  content,
+  chapterNumber: 3,
+  wordCount: 40,
+  estimatedReadingTime: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('User Story: Highlight and Bookmark While Reading', () => {
+  let service: AnnotationService;
+
+  beforeEach(() => {
+    mockRecords.clear();
+    service = new AnnotationService();
+  });
+
+  test('A highlight with a colour and note is saved against the selected text', async () => {
+    // Given: A reader selects a phrase in a chapter
+    const chapter = makeChapter();
+    const start = CONTENT.indexOf('counting the lanterns');
+
+    // When: They highlight it in green with a note
+    const highlight = await service.addHighlight(chapter, start, start + 'counting the lanterns'.length, 'green', '  Foreshadowing? ');
+
+    // Then: The highlight is stored with its text, fingerprint and trimmed note
+    expect(highlight).toMatchObject({
+      bookId: 1,
+      chapterId: 7,
+      type: 'highlight',
+      text: 'counting the lanterns',
+      color: 'green',
+      note: 'Foreshadowing?',
+    });
+    expect(highlight.anchor?.after).toContain('counting the lanterns');
+
+    // And: It appears in the book's annotations alongside bookmarks
+    await service.addBookmark(chapter, CONTENT.indexOf('When the last'));
+    const annotations = await service.getBookAnnotations(1);
+    expect(annotations.map(annotation => annotation.type)).toEqual(['highlight', 'bookmark']);
+    expect(annotations[1]?.text).toMatch(/^When the last lantern/);
+  });
+
+  test('Highlights follow their text when the chapter is updated', async () => {
+    // Given: A highlight made in the original chapter
+    const highlight = await service.addHighlight(
+      makeChapter(),
+      CONTENT.indexOf('jade green'),
+      CONTENT.indexOf('jade green') + 'jade green'.length,
+      'yellow'
+    );
+
+    // When: The author adds an opening paragraph and the chapter is re-downloaded
+    const updated = makeChapter(`Author's note: thanks for reading!\n\n${CONTENT}`);
+    const [anchored] = await service.anchorAnnotations(updated, [highlight]);
+
+    // Then: The highlight is found at its new position and saved there
+    expect(anchored?.orphaned).toBe(false);
+    expect(updated.content.slice(anchored!.start, anchored!.end)).toBe('jade green');
+    expect(mockRecords.get(highlight.id!)?.position).toBe(updated.content.indexOf('jade green'));
+  });
+
+  test('A highlight whose text was removed is kept but marked orphaned', async () => {
+    // Given: A highlight on a sentence the author later rewrote
+    const start = CONTENT.indexOf('she finally crossed');
+    const highlight = await service.addHighlight(makeChapter(), start, start + 'she finally crossed'.length, 'pink');
+
+    // When: The chapter no longer contains that text
+    const rewritten = makeChapter(CONTENT.replace('she finally crossed', 'she turned back home'));
+    const [anchored] = await service.anchorAnnotations(rewritten, [highlight]);
+
+    // Then: It is not shown inline, but is still listed for the reader
+    expect(anchored?.orphaned).toBe(true);
+    expect(renderChapterHtml(rewritten.content, [anchored!])).not.toContain('<mark');
+  });
+
+  test('Highlights render as marks and selections map back to chapter offsets', async () => {
+    // Given: A highlight spanning the first two paragraphs
+    const start = CONTENT.indexOf('bridge');
+    const end = CONTENT.indexOf('Mei Lin') + 'Mei Lin'.length;
+    const highlight = await service.addHighlight(makeChapter(), start, end, 'blue');
+    const anchored = await service.anchorAnnotations(makeChapter(), [highlight]);
+
+    // When: The chapter is rendered
+    const container = document.createElement('div');
+    container.innerHTML = renderChapterHtml(CONTENT, anchored);
+
+    // Then: Each paragraph holds its own part of the highlight
+    const marks = container.querySelectorAll(`mark[data-annotation-id="${highlight.id}"]`);
+    expect(container.querySelectorAll('p')).toHaveLength(3);
+    expect(Array.from(marks).map(mark => mark.textContent)).toEqual(['bridge.', 'Mei Lin']);
+
+    // And: A position inside the rendered text maps back to the same character in the chapter
+    const secondMarkText = marks[1]!.firstChild!;
+    expect(getContentOffset(container, secondMarkText, 4, CONTENT)).toBe(CONTENT.indexOf('Lin'));
+    const lastParagraphText = container.querySelectorAll('p')[2]!.firstChild!;
+    expect(getContentOffset(container, lastParagraphText, 5, CONTENT)).toBe(CONTENT.indexOf('the last'));
+  });
+
+  test('Chapter text that looks like markup is shown as text', async () => {
+    // Given: Plain chapter text with angle brackets, ampersands and an image tag
+    const content = 'Stats <Level 5> & rising\n\n<img src=x onerror="alert(1)"> was in the text & stays there.';
+    const start = content.indexOf('& rising');
+    const highlight = await service.addHighlight(makeChapter(content), start, start + '& rising'.length, 'yellow');
+    const anchored = await service.anchorAnnotations(makeChapter(content), [highlight]);
+
+    // When: It is rendered for the reader
+    const container = document.createElement('div');
+    container.innerHTML = renderChapterHtml(content, anchored);
+
+    // Then: Nothing is parsed as markup and every character is on the page
+    expect(container.querySelector('img')).toBeNull();
+    expect(Array.from(container.querySelectorAll('p')).map(paragraph => paragraph.textContent)).toEqual(content.split('\n\n'));
+    expect(container.querySelector('mark')?.textContent).toBe('& rising');
+
+    // And: Offsets after the escaped characters still match the chapter text
+    const secondParagraphText = container.querySelectorAll('p')[1]!.firstChild!;
+    expect(getContentOffset(container, secondParagraphText, 9, content)).toBe(content.indexOf('x onerror'));
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Chapter Renderer Tests - Readiwi v4.0
+ * Testing that imported chapters reach the reader with their formatting and images
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import { EpubParser } from '@/plugins/book-import/parsers/epub-parser';
+import { renderChapterHtml } from '../chapter-renderer';
+
+const IMAGE_BYTES = new Uint8Array([137, 80, 78, 71, 13, 10]);
+
+const illustratedEpub = () => zipSync({
+  mimetype: strToU8('application/epub+zip'),
+  'META-INF/container.xml': strToU8(`<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`),
+  'OEBPS/content.opf': strToU8(`<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="id">urn:uuid:map-book</dc:identifier>
+    <dc:title>The Map</dc:title>
+  </metadata>
+  <manifest>
+    <item id="c1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>
+    <item id="map" href="images/map.png" media-type="image/png"/>
+  </manifest>
+  <spine><itemref idref="c1"/></spine>
+</package>`),
+  'OEBPS/text/ch1.xhtml': strToU8(`<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml"><body>
+  <h1>The Map</h1>
+  <p>They unrolled the <em>old</em> map.</p>
+  <p><img src="../images/map.png" alt="The map"/></p>
+  <p>It showed the river.</p>
+</body></html>`),
+  'OEBPS/images/map.png': IMAGE_BYTES,
+});
+
+describe('User Story: Read Illustrated EPUB Books', () => {
+  test('An EPUB chapter image is shown from the offline image cache', () => {
+    // Given: An imported EPUB chapter with an embedded image
+    const [chapter] = new EpubParser().parse(illustratedEpub(), 'map.epub').chapters;
+    const imageKey = chapter!.imageUrls![0]!;
+
+    // When: The reader renders it with the cached image's object URL
+    const html = renderChapterHtml(chapter!.content, [], chapter!.htmlContent, { [imageKey]: 'blob:http://localhost/map' });
+
+    // Then: The formatted chapter shows the image and keeps its emphasis
+    const body = new DOMParser().parseFromString(html, 'text/html').body;
+    expect(body.querySelector('img')?.getAttribute('src')).toBe('blob:http://localhost/map');
+    expect(body.querySelector('img')?.getAttribute('alt')).toBe('The map');
+    expect(body.querySelector('em')?.textContent).toBe('old');
+  });
+});
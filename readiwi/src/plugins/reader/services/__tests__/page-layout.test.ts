@@ -0,0 +1,77 @@
+/**
+ * Page Layout Tests - Readiwi v4.0
+ * Testing that paged reading keeps our place as character offsets
+ */
+
+import { renderChapterHtml } from '../chapter-renderer';
+import { getPageForOffset, getPageStartOffset, measurePages } from '../page-layout';
+
+// jsdom has no layout, so columns are described by where each character lands
+const PAGE_WIDTH = 400;
+const rect = (left: number) => ({ left, right: left + 10, top: 0, bottom: 10, width: 10, height: 10 }) as DOMRect;
+
+describe('User Story: Read a Chapter a Page at a Time', () => {
+  // Three paragraphs: the first on page 1, the second split across pages 1 and 2, the third on page 3
+  const content = 'Para one.\n\nabcdefghij\n\nPara three.';
+  const secondStart = content.indexOf('abcdefghij');
+  let element: HTMLElement;
+  let container: HTMLElement;
+  const originalRangeRects = Range.prototype.getClientRects;
+
+  const leftOf = (node: Node, offset: number): number => {
+    const paragraph = node.parentElement!.closest('p')!;
+    const index = Array.from(container.children).indexOf(paragraph);
+    if (index === 0) return 0;
+    if (index === 1) return offset < 5 ? 0 : PAGE_WIDTH;
+    return PAGE_WIDTH * 2;
+  };
+
+  beforeEach(() => {
+    element = document.createElement('article');
+    element.style.fontSize = '20px'; // The default column gap is 1em
+    container = document.createElement('div');
+    container.innerHTML = renderChapterHtml(content);
+    element.appendChild(container);
+    document.body.appendChild(element);
+
+    Object.defineProperty(element, 'clientWidth', { value: PAGE_WIDTH - 20 });
+    Object.defineProperty(element, 'scrollWidth', { value: PAGE_WIDTH * 3 - 20 });
+    element.getBoundingClientRect = () => rect(0);
+
+    const paragraphs = Array.from(container.children);
+    const paragraphRects = [[rect(0)], [rect(0), rect(PAGE_WIDTH)], [rect(PAGE_WIDTH * 2)]];
+    paragraphs.forEach((paragraph, index) => {
+      paragraph.getClientRects = () => paragraphRects[index] as unknown as DOMRectList;
+    });
+
+    Range.prototype.getClientRects = function (this: Range) {
+      return [rect(leftOf(this.startContainer, this.startOffset))] as unknown as DOMRectList;
+    };
+  });
+
+  afterEach(() => {
+    Range.prototype.getClientRects = originalRangeRects;
+    element.remove();
+  });
+
+  test('The chapter is measured in whole pages', () => {
+    expect(measurePages(element)).toMatchObject({ pageWidth: PAGE_WIDTH, pageCount: 3 });
+  });
+
+  test('A page starts at the first character on it, even mid-paragraph', () => {
+    const metrics = measurePages(element);
+
+    expect(getPageStartOffset(container, content, 0, metrics)).toBe(0);
+    expect(getPageStartOffset(container, content, 1, metrics)).toBe(secondStart + 5);
+    expect(getPageStartOffset(container, content, 2, metrics)).toBe(content.indexOf('Para three'));
+  });
+
+  test('An offset opens on the page that shows it', () => {
+    const metrics = measurePages(element);
+
+    expect(getPageForOffset(container, content, 3, metrics)).toBe(0);
+    expect(getPageForOffset(container, content, secondStart + 2, metrics)).toBe(0);
+    expect(getPageForOffset(container, content, secondStart + 7, metrics)).toBe(1);
+    expect(getPageForOffset(container, content, content.length, metrics)).toBe(2);
+  });
+});
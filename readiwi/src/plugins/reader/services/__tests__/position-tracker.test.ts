@@ -4,6 +4,7 @@
  */
 
 import { ReliablePositionTracker } from '../position-tracker';
+import { RestorationStrategy } from '@/core/types/database';
 
 describe('User Story: Never Lose Reading Position', () => {
   let tracker: ReliablePositionTracker;
@@ -217,6 +218,42 @@ The pattern repeats here. The pattern repeats here. The pattern repeats here.
       expect(restored).not.toBeNull();
       expect(modifiedContent.slice(restored!.offset, restored!.offset + 10)).toBe('The story ');
     });
+
+    test('A saved place follows its text, and falls back to the raw offset without a fingerprint', () => {
+      // Given: A place saved mid-sentence
+      const content = 'First paragraph here.\n\nThe dragon woke slowly and looked around.';
+      const offset = content.indexOf('woke');
+      const fingerprint = tracker.createFingerprint(content, offset);
+
+      // When: The chapter gains a preface before it
+      const edited = 'Translator note: thanks for reading!\n\n' + content;
+
+      // Then: The fingerprint finds the same word, while a bare offset is only clamped
+      expect(edited.slice(tracker.resolveOffset(edited, offset, fingerprint)).startsWith('woke')).toBe(true);
+      expect(tracker.resolveOffset(content, offset)).toBe(offset);
+      expect(tracker.resolveOffset(content, content.length + 50)).toBe(content.length);
+    });
+
+    test('Each restoration reports the strategy that found it and whether to warn the reader', () => {
+      // Given: A place saved in an unchanged chapter
+      const content = 'The inn was quiet that night.\n\nShe counted the coins twice before sleeping.';
+      const offset = content.indexOf('coins');
+      const fingerprint = tracker.createFingerprint(content, offset);
+
+      // Then: The saved text finds it, confidently
+      const found = tracker.resolve(content, offset, fingerprint);
+      expect(found.offset).toBe(offset);
+      expect(found.strategy).not.toBe(RestorationStrategy.CHARACTER_OFFSET);
+      expect(tracker.isConfident(found.confidence)).toBe(true);
+
+      // When: The chapter was rewritten so the text is gone
+      const rewritten = 'An entirely different chapter now stands here.\n\nNothing of the old words remains.';
+      const fallback = tracker.resolve(rewritten, offset, fingerprint);
+
+      // Then: The saved offset is used, flagged as unreliable
+      expect(fallback).toEqual({ offset, strategy: RestorationStrategy.CHARACTER_OFFSET, confidence: 0 });
+      expect(tracker.isConfident(fallback.confidence)).toBe(false);
+    });
   });
 });
 
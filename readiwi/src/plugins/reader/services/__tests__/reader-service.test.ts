@@ -0,0 +1,69 @@
+/**
+ * Reader Service Tests - Readiwi v4.0
+ * Testing that every position restoration is kept in the book's history
+ */
+
+import { ReadingProgress, RestorationStrategy } from '@/core/types/database';
+
+jest.mock('@/core/services/database-simple', () => {
+  const records: Partial<ReadingProgress>[] = [];
+
+  return {
+    db: {
+      readingProgress: {
+        put: jest.fn(async (record: Partial<ReadingProgress>) => {
+          records.push(record);
+          return records.length;
+        }),
+        where: () => ({
+          equals: (bookId: number) => ({
+            toArray: async () => records.filter(record => record.bookId === bookId),
+          }),
+        }),
+        records,
+      },
+    },
+  };
+});
+
+jest.mock('../session-tracker', () => ({
+  readingSessionTracker: {
+    getSummary: jest.fn(() => ({ startedAt: new Date('2026-10-01T09:00:00Z'), activeSeconds: 60, wordsRead: 250 })),
+  },
+}));
+
+import { db } from '@/core/services/database-simple';
+import { readerService } from '../reader-service';
+
+describe('User Story: See How My Place Was Restored', () => {
+  test('Restorations within one reading session each get their own row', async () => {
+    // Given: One session in which the reader reopened the book twice
+    const first = new Date('2026-10-01T09:00:05Z');
+    const second = new Date('2026-10-01T09:20:00Z');
+    const save = (restoredAt: Date, strategy: RestorationStrategy, accuracy: number, minutes: number) =>
+      readerService.saveReadingPosition(1, {
+        chapterId: 3,
+        characterOffset: 120,
+        scrollPosition: 0,
+        restoration: { strategy, accuracy, restoredAt },
+        timestamp: new Date(restoredAt.getTime() + minutes * 60 * 1000),
+      });
+
+    // When: Each restoration is followed by a few position saves
+    await save(first, RestorationStrategy.EXACT_TEXT, 100, 1);
+    await save(first, RestorationStrategy.EXACT_TEXT, 100, 2);
+    await save(second, RestorationStrategy.CHARACTER_OFFSET, 40, 1);
+
+    // Then: The session start and the restoration time are stored apart
+    expect(db.readingProgress.put).toHaveBeenLastCalledWith(expect.objectContaining({
+      sessionStartTime: new Date('2026-10-01T09:00:00Z'),
+      restoredAt: second,
+    }));
+
+    // And: Both restorations are listed, newest first, with when and how they happened
+    expect(await readerService.getRestorationHistory(1)).toEqual([
+      { chapterId: 3, strategy: RestorationStrategy.CHARACTER_OFFSET, accuracy: 40, restoredAt: second },
+      { chapterId: 3, strategy: RestorationStrategy.EXACT_TEXT, accuracy: 100, restoredAt: first },
+    ]);
+  });
+});
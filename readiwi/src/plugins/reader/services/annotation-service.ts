@@ -0,0 +1,201 @@
+/**
+ * Annotation Service - Readiwi v4.0
+ * Manual bookmarks and coloured highlights with notes, anchored by text
+ * fingerprints so they stay put when a chapter's text is updated
+ */
+
+import { db } from '@/core/services/database-simple';
+import { Bookmark, HighlightColor } from '@/core/types/database';
+import { AnchoredAnnotation, Chapter } from '../types/reader-types';
+import { reliablePositionTracker } from './position-tracker';
+
+// Text stored with a bookmark to show in the annotations panel and to re-anchor it
+const BOOKMARK_SNIPPET_LENGTH = 80;
+
+export type AnnotationUpdate = Partial<Pick<Bookmark, 'title' | 'note' | 'color'>>;
+
+export class AnnotationService {
+  /**
+   * All bookmarks and highlights for a book, oldest first
+   */
+  async getBookAnnotations(bookId: number): Promise<Bookmark[]> {
+    try {
+      // @ts-ignore - Progressive development approach
+      const annotations: Bookmark[] = await db.bookmarks.where('bookId').equals(bookId).sortBy('createdAt');
+      return annotations;
+    } catch (error) {
+      console.error('Failed to load annotations:', error);
+      throw new Error(`Failed to load annotations for book ${bookId}`);
+    }
+  }
+
+  /**
+   * Bookmark a position in a chapter
+   */
+  async addBookmark(chapter: Chapter, position: number, title: string = chapter.title): Promise<Bookmark> {
+    const offset = this.clampOffset(chapter.content, position);
+
+    return this.save({
+      bookId: chapter.bookId,
+      chapterId: chapter.id,
+      type: 'bookmark',
+      position: offset,
+      title,
+      text: chapter.content.slice(offset, offset + BOOKMARK_SNIPPET_LENGTH),
+      anchor: reliablePositionTracker.createFingerprint(chapter.content, offset),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Highlight the chapter text between two character offsets
+   */
+  async addHighlight(
+    chapter: Chapter,
+    start: number,
+    end: number,
+    color: HighlightColor,
+    note?: string
+  ): Promise<Bookmark> {
+    const from = this.clampOffset(chapter.content, Math.min(start, end));
+    const to = this.clampOffset(chapter.content, Math.max(start, end));
+    if (from === to) {
+      throw new Error('Failed to add highlight: no text selected');
+    }
+
+    return this.save({
+      bookId: chapter.bookId,
+      chapterId: chapter.id,
+      type: 'highlight',
+      position: from,
+      endPosition: to,
+      title: chapter.title,
+      text: chapter.content.slice(from, to),
+      color,
+      anchor: reliablePositionTracker.createFingerprint(chapter.content, from),
+      ...(note?.trim() && { note: note.trim() }),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async updateAnnotation(id: number, updates: AnnotationUpdate): Promise<void> {
+    try {
+      // @ts-ignore - Progressive development approach
+      await db.bookmarks.update(id, { ...updates, updatedAt: new Date() });
+    } catch (error) {
+      console.error('Failed to update annotation:', error);
+      throw new Error(`Failed to update annotation ${id}: ${error}`);
+    }
+  }
+
+  async deleteAnnotation(id: number): Promise<void> {
+    try {
+      // @ts-ignore - Progressive development approach
+      await db.bookmarks.delete(id);
+    } catch (error) {
+      console.error('Failed to delete annotation:', error);
+      throw new Error(`Failed to delete annotation ${id}: ${error}`);
+    }
+  }
+
+  /**
+   * Locate a chapter's annotations in its current text. Annotations whose text
+   * moved are saved at their new offsets so the search isn't repeated.
+   */
+  async anchorAnnotations(chapter: Chapter, annotations: Bookmark[]): Promise<AnchoredAnnotation[]> {
+    const anchored: AnchoredAnnotation[] = [];
+
+    for (const annotation of annotations.filter(candidate => candidate.chapterId === chapter.id)) {
+      const range = this.locate(chapter.content, annotation);
+
+      if (!range) {
+        anchored.push({ annotation, start: annotation.position, end: annotation.endPosition ?? annotation.position, orphaned: true });
+        continue;
+      }
+
+      if (range.start !== annotation.position && annotation.id !== undefined) {
+        const moved: Bookmark = {
+          ...annotation,
+          position: range.start,
+          ...(annotation.endPosition !== undefined && { endPosition: range.end }),
+          anchor: reliablePositionTracker.createFingerprint(chapter.content, range.start),
+        };
+        // @ts-ignore - Progressive development approach
+        await db.bookmarks.put(moved).catch((error: unknown) => {
+          console.warn('Failed to save re-anchored annotation:', error);
+        });
+        anchored.push({ annotation: moved, ...range, orphaned: false });
+      } else {
+        anchored.push({ annotation, ...range, orphaned: false });
+      }
+    }
+
+    return anchored.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Find where an annotation's text now sits: its stored offsets if the text is
+   * unchanged, else the fingerprint's best match, else the nearest copy of the text
+   */
+  locate(content: string, annotation: Bookmark): { start: number; end: number } | null {
+    const length = Math.max(0, (annotation.endPosition ?? annotation.position) - annotation.position);
+    const text = annotation.text;
+    const toRange = (start: number) => ({ start, end: start + length });
+
+    if (!text) {
+      return annotation.position <= content.length ? toRange(annotation.position) : null;
+    }
+
+    if (content.startsWith(text, annotation.position)) {
+      return toRange(annotation.position);
+    }
+
+    const restored = annotation.anchor ? reliablePositionTracker.restorePosition(content, annotation.anchor) : null;
+    if (restored && content.startsWith(text, restored.offset)) {
+      return toRange(restored.offset);
+    }
+
+    const nearest = this.findNearest(content, text, restored?.offset ?? annotation.position);
+    if (nearest !== null) {
+      return toRange(nearest);
+    }
+
+    // A bookmark only marks a place, so an approximate one is still useful; a highlight is not
+    if (annotation.type !== 'highlight' && restored) {
+      return toRange(restored.offset);
+    }
+
+    return null;
+  }
+
+  private async save(annotation: Bookmark): Promise<Bookmark> {
+    try {
+      // @ts-ignore - Progressive development approach
+      const id = await db.bookmarks.add(annotation);
+      return { ...annotation, id };
+    } catch (error) {
+      console.error('Failed to save annotation:', error);
+      throw new Error(`Failed to save ${annotation.type} for book ${annotation.bookId}: ${error}`);
+    }
+  }
+
+  private findNearest(content: string, text: string, around: number): number | null {
+    let best: number | null = null;
+
+    for (let index = content.indexOf(text); index !== -1; index = content.indexOf(text, index + 1)) {
+      if (best === null || Math.abs(index - around) < Math.abs(best - around)) {
+        best = index;
+      }
+    }
+
+    return best;
+  }
+
+  private clampOffset(content: string, offset: number): number {
+    return Math.min(Math.max(0, Math.floor(offset)), content.length);
+  }
+}
+
+export const annotationService = new AnnotationService();
@@ -0,0 +1,33 @@
+/**
+ * Author Notes - Readiwi v4.0
+ * Author's notes kept as chapter footnotes, split into the ones shown before
+ * the chapter text and the ones after it
+ */
+
+import { Footnote } from '@/core/types/database';
+
+export interface ChapterAuthorNotes {
+  before: Footnote[];
+  after: Footnote[];
+}
+
+/**
+ * A chapter's author notes, by where they go; other footnotes are left out
+ */
+export function splitAuthorNotes(chapter: { footnotes?: Footnote[] | undefined }): ChapterAuthorNotes {
+  const notes = (chapter.footnotes ?? [])
+    .filter(note => note.type === 'author' && note.content.trim() !== '')
+    .sort((a, b) => a.position - b.position);
+
+  return {
+    before: notes.filter(note => note.position <= 0),
+    after: notes.filter(note => note.position > 0),
+  };
+}
+
+/**
+ * Notes as text to read aloud, one paragraph each
+ */
+export function getAuthorNotesText(notes: Footnote[]): string {
+  return notes.map(note => note.content.trim()).join('\n\n');
+}
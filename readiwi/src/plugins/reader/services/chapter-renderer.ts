@@ -0,0 +1,310 @@
+/**
+ * Chapter Renderer - Readiwi v4.0
+ * Turns chapter text, or its formatted HTML, into reader HTML with highlights
+ * marked, and maps DOM positions in that HTML back to character offsets in the
+ * chapter text
+ */
+
+import { escapeHtml, getTextBlocks, sanitizeHtml } from '@/core/utils/html-sanitizer';
+import { AnchoredAnnotation, HIGHLIGHT_COLORS } from '../types/reader-types';
+
+const PARAGRAPH_BREAK = '\n\n';
+
+/**
+ * Reader HTML for chapter content, wrapping each highlight in a <mark>.
+ * Highlights spanning paragraphs are split so the markup stays well formed.
+ * With `formattedHtml` the chapter keeps its formatting, as long as its text
+ * still matches `content`; otherwise each paragraph becomes a <p> holding its
+ * text escaped, never parsed as markup. Images found in `imageSources` (remote
+ * URL to object URL) are shown from there instead.
+ */
+export function renderChapterHtml(
+  content: string,
+  annotations: AnchoredAnnotation[] = [],
+  formattedHtml?: string,
+  imageSources: Record<string, string> = {}
+): string {
+  const highlights = annotations
+    .filter(({ annotation, orphaned, start, end }) => annotation.type === 'highlight' && !orphaned && end > start)
+    .sort((a, b) => a.start - b.start);
+
+  if (formattedHtml && typeof DOMParser !== 'undefined') {
+    const html = renderFormattedHtml(content, highlights, formattedHtml, imageSources);
+    if (html !== null) return html;
+  }
+
+  let html = '';
+  let cursor = 0;
+
+  for (const { annotation, start, end } of highlights) {
+    const from = Math.max(start, cursor);
+    const to = Math.min(end, content.length);
+    if (from >= to) continue; // Overlaps an earlier highlight
+
+    const open = `<mark class="${HIGHLIGHT_COLORS[annotation.color ?? 'yellow'].className}" data-annotation-id="${annotation.id}">`;
+    html += escapeHtml(content.slice(cursor, from));
+    html += open + escapeHtml(content.slice(from, to)).split(PARAGRAPH_BREAK).join(`</mark>${PARAGRAPH_BREAK}${open}`) + '</mark>';
+    cursor = to;
+  }
+  html += escapeHtml(content.slice(cursor));
+
+  return html.replace(/\n\n/g, '</p><p>').replace(/^/, '<p>').replace(/$/, '</p>');
+}
+
+/**
+ * Sanitized chapter HTML with highlights marked, or null if its text no longer
+ * matches the content the highlights and reading positions refer to
+ */
+function renderFormattedHtml(
+  content: string,
+  highlights: AnchoredAnnotation[],
+  formattedHtml: string,
+  imageSources: Record<string, string>
+): string | null {
+  const sanitized = sanitizeHtml(formattedHtml);
+  if (sanitized.text !== content) return null;
+
+  const root = new DOMParser().parseFromString(sanitized.html, 'text/html').body;
+  // Line breaks as text, so every character of the content is a character of the DOM
+  root.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+  // Images downloaded for offline reading are shown from the cache
+  root.querySelectorAll('img').forEach(img => {
+    const cached = imageSources[img.getAttribute('src') ?? ''];
+    if (cached) img.setAttribute('src', cached);
+  });
+
+  const paragraphs = getTextBlocks(root);
+  const starts = getParagraphStarts(content);
+  let cursor = 0;
+
+  for (const { annotation, start, end } of highlights) {
+    const from = Math.max(start, cursor);
+    const to = Math.min(end, content.length);
+    if (from >= to) continue; // Overlaps an earlier highlight
+
+    paragraphs.forEach((paragraph, index) => {
+      const paragraphStart = starts[index] ?? content.length;
+      wrapText(paragraph, from - paragraphStart, to - paragraphStart, () => {
+        const mark = root.ownerDocument.createElement('mark');
+        mark.className = HIGHLIGHT_COLORS[annotation.color ?? 'yellow'].className;
+        mark.setAttribute('data-annotation-id', String(annotation.id));
+        return mark;
+      });
+    });
+    cursor = to;
+  }
+
+  return root.innerHTML;
+}
+
+/**
+ * Wrap the characters from `from` to `to` of an element's text, one wrapper per text node
+ */
+function wrapText(element: Element, from: number, to: number, createWrapper: () => Element): void {
+  const texts: Text[] = [];
+  const walker = element.ownerDocument.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  for (let current = walker.nextNode(); current; current = walker.nextNode()) {
+    texts.push(current as Text);
+  }
+
+  let offset = 0;
+  for (let text of texts) {
+    const textStart = offset;
+    offset += text.length;
+    const start = Math.max(from, textStart) - textStart;
+    const end = Math.min(to, offset) - textStart;
+    if (start >= end) continue;
+
+    if (start > 0) text = text.splitText(start);
+    if (end - start < text.length) text.splitText(end - start);
+    const wrapper = createWrapper();
+    text.before(wrapper);
+    wrapper.append(text);
+  }
+}
+
+/**
+ * Character offset in `content` of a DOM position inside the element rendered
+ * from renderChapterHtml, or null if the position is outside it
+ */
+export function getContentOffset(container: Element, node: Node, nodeOffset: number, content: string): number | null {
+  const paragraphs = getTextBlocks(container);
+  const paragraph = paragraphs.find(candidate => candidate.contains(node));
+
+  // A boundary between paragraphs, e.g. a selection that ends at the start of one
+  if (!paragraph) {
+    if (!container.contains(node)) return null;
+
+    const next = node.childNodes[nodeOffset] ?? null;
+    const paragraphIndex = paragraphs.findIndex(candidate => next
+      ? candidate === next || Boolean(next.compareDocumentPosition(candidate) & Node.DOCUMENT_POSITION_FOLLOWING)
+      : Boolean(node.compareDocumentPosition(candidate) & Node.DOCUMENT_POSITION_FOLLOWING) && !node.contains(candidate));
+    return paragraphIndex !== -1 ? getParagraphStarts(content)[paragraphIndex] ?? null : content.length;
+  }
+
+  const paragraphStart = getParagraphStarts(content)[paragraphs.indexOf(paragraph)];
+  if (paragraphStart === undefined) return null;
+
+  return paragraphStart + getTextOffset(paragraph, node, nodeOffset);
+}
+
+/**
+ * Character offset of the text under a viewport point, e.g. where the reader
+ * tapped, or null if it is not over the chapter text
+ */
+export function getContentOffsetAtPoint(container: Element, content: string, x: number, y: number): number | null {
+  const document = container.ownerDocument;
+
+  if (typeof document.caretPositionFromPoint === 'function') {
+    const caret = document.caretPositionFromPoint(x, y);
+    return caret ? getContentOffset(container, caret.offsetNode, caret.offset, content) : null;
+  }
+  // Older WebKit
+  if (typeof document.caretRangeFromPoint === 'function') {
+    const range = document.caretRangeFromPoint(x, y);
+    return range ? getContentOffset(container, range.startContainer, range.startOffset, content) : null;
+  }
+  return null;
+}
+
+/**
+ * Offset of the first character still visible below `top` (a viewport y
+ * coordinate), for saving "where I am"
+ */
+export function getVisibleContentOffset(container: Element, content: string, top: number = 0): number {
+  const paragraphs = getTextBlocks(container);
+  const starts = getParagraphStarts(content);
+  const visibleIndex = paragraphs.findIndex(paragraph => paragraph.getBoundingClientRect().bottom > top);
+  const paragraphStart = starts[Math.max(0, visibleIndex)] ?? 0;
+
+  const paragraph = paragraphs[visibleIndex];
+  if (!paragraph || paragraph.getBoundingClientRect().top >= top) {
+    return paragraphStart;
+  }
+
+  // The top edge cuts through this paragraph: find the first line below it
+  const offset = findFirstCharacter(paragraph, rect => rect.bottom > top);
+  return paragraphStart + Math.min(offset, (paragraph.textContent ?? '').length);
+}
+
+/**
+ * Box of the character at a DOM text position, or null without layout
+ */
+export function getCharacterRect(node: Text, offset: number): DOMRect | null {
+  const range = node.ownerDocument.createRange();
+  // One character wide, so browsers report a box even at a line start
+  const start = Math.min(offset, Math.max(0, node.length - 1));
+  range.setStart(node, start);
+  range.setEnd(node, Math.min(node.length, start + 1));
+
+  if (typeof range.getClientRects !== 'function') return null;
+  return Array.from(range.getClientRects()).find(rect => rect.width > 0 || rect.height > 0) ?? null;
+}
+
+/**
+ * Characters into `element`'s text of the first one whose box passes `test`,
+ * or its text length if none do. Boxes must start passing in reading order,
+ * as "below this line" or "on this page or later" do.
+ */
+export function findFirstCharacter(element: Element, test: (rect: DOMRect) => boolean): number {
+  const texts: Text[] = [];
+  const walker = element.ownerDocument.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  for (let current = walker.nextNode(); current; current = walker.nextNode()) {
+    texts.push(current as Text);
+  }
+
+  const locate = (offset: number): { node: Text; offset: number } | null => {
+    let remaining = offset;
+    for (const text of texts) {
+      if (remaining < text.length) return { node: text, offset: remaining };
+      remaining -= text.length;
+    }
+    return null;
+  };
+
+  let low = 0;
+  let high = texts.reduce((length, text) => length + text.length, 0);
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    const position = locate(middle);
+    const rect = position && getCharacterRect(position.node, position.offset);
+    if (rect && test(rect)) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * The paragraph element containing a content offset
+ */
+export function getParagraphElement(container: Element, content: string, offset: number): Element | null {
+  const paragraphs = getTextBlocks(container);
+  const starts = getParagraphStarts(content);
+
+  let index = 0;
+  while (index + 1 < starts.length && starts[index + 1]! <= offset) {
+    index++;
+  }
+  return paragraphs[index] ?? null;
+}
+
+/**
+ * The text node and offset within it for a content offset, the inverse of
+ * getContentOffset
+ */
+export function getDomPosition(container: Element, content: string, offset: number): { node: Text; offset: number } | null {
+  const paragraph = getParagraphElement(container, content, offset);
+  if (!paragraph) return null;
+
+  const paragraphs = getTextBlocks(container);
+  let remaining = offset - (getParagraphStarts(content)[paragraphs.indexOf(paragraph)] ?? 0);
+  const walker = paragraph.ownerDocument.createTreeWalker(paragraph, NodeFilter.SHOW_TEXT);
+  let last: Text | null = null;
+
+  for (let current = walker.nextNode() as Text | null; current; current = walker.nextNode() as Text | null) {
+    const length = current.textContent?.length ?? 0;
+    if (remaining < length) {
+      return { node: current, offset: Math.max(0, remaining) };
+    }
+    remaining -= length;
+    last = current;
+  }
+
+  // Past the end of the paragraph, e.g. the paragraph break itself
+  return last ? { node: last, offset: last.textContent?.length ?? 0 } : null;
+}
+
+function getParagraphStarts(content: string): number[] {
+  const starts = [0];
+  for (let index = content.indexOf(PARAGRAPH_BREAK); index !== -1; index = content.indexOf(PARAGRAPH_BREAK, index + PARAGRAPH_BREAK.length)) {
+    starts.push(index + PARAGRAPH_BREAK.length);
+  }
+  return starts;
+}
+
+/**
+ * Characters of text in `root` before a DOM position
+ */
+function getTextOffset(root: Element, node: Node, nodeOffset: number): number {
+  // An element position counts its first `nodeOffset` children
+  const target = node.nodeType === Node.TEXT_NODE ? node : node.childNodes[nodeOffset] ?? null;
+  const extra = node.nodeType === Node.TEXT_NODE ? nodeOffset : 0;
+
+  const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let offset = 0;
+
+  for (let current = walker.nextNode(); current; current = walker.nextNode()) {
+    if (current === target || (target && target.contains(current))) {
+      return offset + extra;
+    }
+    if (target && current.compareDocumentPosition(target) & Node.DOCUMENT_POSITION_PRECEDING) {
+      return offset;
+    }
+    offset += current.textContent?.length ?? 0;
+  }
+
+  return offset;
+}
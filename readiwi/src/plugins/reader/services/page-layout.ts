@@ -0,0 +1,92 @@
+/**
+ * Page Layout - Readiwi v4.0
+ * Paginated reading on top of CSS columns: the chapter flows into fixed-height
+ * columns that overflow sideways, and a page is one viewport width of them.
+ * Pages are mapped to and from character offsets so layout changes keep our place.
+ */
+
+import { getTextBlocks } from '@/core/utils/html-sanitizer';
+import {
+  findFirstCharacter,
+  getCharacterRect,
+  getContentOffset,
+  getDomPosition,
+  getParagraphElement,
+} from './chapter-renderer';
+
+export interface PageMetrics {
+  pageWidth: number; // Horizontal distance from one page to the next, including the column gap
+  pageCount: number;
+  origin: number; // Viewport x of page 0's left edge
+}
+
+/**
+ * Page size and count for a paginated element at its current scroll position
+ */
+export function measurePages(element: HTMLElement): PageMetrics {
+  const style = window.getComputedStyle(element);
+  const paddingLeft = parseFloat(style.paddingLeft) || 0;
+  const paddingRight = parseFloat(style.paddingRight) || 0;
+  // "normal" column gaps are 1em
+  const gap = parseFloat(style.columnGap) || parseFloat(style.fontSize) || 0;
+
+  const pageWidth = element.clientWidth - paddingLeft - paddingRight + gap;
+  const origin = element.getBoundingClientRect().left + paddingLeft - element.scrollLeft;
+  if (pageWidth <= 0) {
+    return { pageWidth: 0, pageCount: 1, origin };
+  }
+
+  // Browsers disagree on whether the scroll width includes the right padding
+  const contentWidth = element.scrollWidth - paddingLeft - paddingRight + gap;
+  return {
+    pageWidth,
+    pageCount: Math.max(1, Math.ceil(contentWidth / pageWidth - 0.01)),
+    origin,
+  };
+}
+
+function pageOfRect(rect: DOMRect, metrics: PageMetrics): number {
+  if (metrics.pageWidth <= 0) return 0;
+  // Nudge past sub-pixel rounding at a page's left edge
+  return Math.max(0, Math.floor((rect.left - metrics.origin + 1) / metrics.pageWidth));
+}
+
+function firstRect(element: Element): DOMRect | null {
+  if (typeof element.getClientRects !== 'function') return null;
+  return Array.from(element.getClientRects()).find(rect => rect.width > 0 || rect.height > 0) ?? null;
+}
+
+/**
+ * Page showing a content offset
+ */
+export function getPageForOffset(container: Element, content: string, offset: number, metrics: PageMetrics): number {
+  const position = getDomPosition(container, content, Math.min(offset, Math.max(0, content.length - 1)));
+  const rect = (position && getCharacterRect(position.node, position.offset))
+    ?? firstRect(getParagraphElement(container, content, offset) ?? container);
+
+  return rect ? Math.min(metrics.pageCount - 1, pageOfRect(rect, metrics)) : 0;
+}
+
+/**
+ * Content offset of the first character on a page
+ */
+export function getPageStartOffset(container: Element, content: string, page: number, metrics: PageMetrics): number {
+  if (page <= 0) return 0;
+
+  const paragraphs = getTextBlocks(container);
+
+  for (const paragraph of paragraphs) {
+    const rects = typeof paragraph.getClientRects === 'function'
+      ? Array.from(paragraph.getClientRects()).filter(rect => rect.width > 0 || rect.height > 0)
+      : [];
+    if (rects.length === 0 || pageOfRect(rects[rects.length - 1]!, metrics) < page) continue;
+
+    const paragraphStart = getContentOffset(container, paragraph, 0, content) ?? 0;
+    if (pageOfRect(rects[0]!, metrics) >= page) return paragraphStart;
+
+    // The paragraph runs onto this page: find the first character that does
+    return paragraphStart + findFirstCharacter(paragraph, rect => pageOfRect(rect, metrics) >= page);
+  }
+
+  return content.length;
+}
@@ -7,17 +7,11 @@
  * Target: 99% reliability with no user frustration
  */
 
-
-interface TextFingerprint {
-  before: string;      // Text before position
-  after: string;       // Text after position  
-  paragraph: string;   // Current paragraph
-  wordIndex: number;   // Word position in paragraph
-  charOffset: number;  // Character offset in word
-}
+import { RestorationStrategy, TextFingerprint } from '@/core/types/database';
 
 interface PositionStrategy {
   name: string;
+  kind: RestorationStrategy;
   weight: number;
   findPosition: (content: string, fingerprint: TextFingerprint) => number | null;
 }
@@ -29,6 +23,12 @@ interface PositionCandidate {
   metadata?: any;
 }
 
+export interface ResolvedPosition {
+  offset: number;
+  strategy: RestorationStrategy;
+  confidence: number; // 0-1, zero when the saved offset was used as is
+}
+
 // interface PositionValidationResult {
 //   originalOffset: number;
 //   restoredOffset: number;
@@ -46,16 +46,19 @@ export class ReliablePositionTracker {
   private strategies: PositionStrategy[] = [
     {
       name: 'exact-match',
+      kind: RestorationStrategy.EXACT_TEXT,
       weight: 1.0,
       findPosition: this.findByExactFingerprint.bind(this),
     },
     {
       name: 'paragraph-position',
+      kind: RestorationStrategy.PARAGRAPH_POSITION,
       weight: 0.9,
       findPosition: this.findByParagraphWordIndex.bind(this),
     },
     {
       name: 'fuzzy-match',
+      kind: RestorationStrategy.FUZZY_TEXT,
       weight: 0.8,
       findPosition: this.findByFuzzyFingerprint.bind(this),
     },
@@ -129,6 +132,37 @@ export class ReliablePositionTracker {
     return candidates[0] || null;
   }
 
+  /**
+   * Where to reopen a saved position, and how it was found: wherever its
+   * fingerprint matches with enough confidence, otherwise the saved offset itself
+   */
+  resolve(content: string, offset: number, fingerprint?: TextFingerprint): ResolvedPosition {
+    const candidate = fingerprint ? this.restorePosition(content, fingerprint) : null;
+    const strategy = this.strategies.find(({ name }) => name === candidate?.strategy);
+    if (candidate && candidate.confidence > 0 && strategy) {
+      return { offset: candidate.offset, strategy: strategy.kind, confidence: candidate.confidence };
+    }
+    return {
+      offset: Math.min(Math.max(0, offset), content.length),
+      strategy: RestorationStrategy.CHARACTER_OFFSET,
+      confidence: 0,
+    };
+  }
+
+  /**
+   * Offset to reopen a saved position at
+   */
+  resolveOffset(content: string, offset: number, fingerprint?: TextFingerprint): number {
+    return this.resolve(content, offset, fingerprint).offset;
+  }
+
+  /**
+   * Whether a restoration is sure enough to not warn the reader their place may have moved
+   */
+  isConfident(confidence: number): boolean {
+    return confidence >= this.MIN_CONFIDENCE;
+  }
+
   /**
    * Strategy 1: Exact fingerprint match
    */
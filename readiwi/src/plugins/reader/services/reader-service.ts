@@ -1,5 +1,9 @@
 import { db } from '@/core/services/database-simple';
-import { Chapter, ReadingPosition } from '../types/reader-types';
+import { Footnote, ReadingProgress } from '@/core/types/database';
+import { Chapter, ReadingPosition, RestorationRecord } from '../types/reader-types';
+import { searchIndexService } from '@/plugins/search/services/search-index-service';
+import { readingSessionTracker } from './session-tracker';
+import { countWords, DEFAULT_WORDS_PER_MINUTE, readingSpeedService } from '@/plugins/statistics/services/reading-speed-service';
 
 export class ReaderService {
   /**
@@ -69,12 +73,27 @@ export class ReaderService {
    */
   async saveReadingPosition(bookId: number, position: ReadingPosition): Promise<void> {
     try {
+      const session = readingSessionTracker.getSummary(bookId);
       // @ts-ignore - Progressive development approach
       await db.readingProgress.put({
         bookId,
         chapterId: position.chapterId,
         textPosition: position.characterOffset, // Map to database textPosition field
         scrollPosition: position.scrollPosition,
+        ...(position.fingerprint && {
+          fingerprint: position.fingerprint,
+          textContext: position.fingerprint.before + position.fingerprint.after,
+        }),
+        ...(position.restoration && {
+          restorationStrategy: position.restoration.strategy,
+          restorationAccuracy: position.restoration.accuracy,
+          restoredAt: position.restoration.restoredAt,
+        }),
+        ...(session && {
+          sessionStartTime: session.startedAt,
+          totalReadingTime: session.activeSeconds,
+          wordsRead: session.wordsRead,
+        }),
         timestamp: position.timestamp,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -106,6 +125,7 @@ export class ReaderService {
         chapterId: position.chapterId,
         characterOffset: position.textPosition || 0,
         scrollPosition: position.scrollPosition,
+        ...(position.fingerprint && { fingerprint: position.fingerprint }),
         timestamp: position.timestamp,
       };
     } catch (error) {
@@ -114,10 +134,40 @@ export class ReaderService {
     }
   }
 
+  /**
+   * How each visit to a book found its starting place, newest first
+   */
+  async getRestorationHistory(bookId: number): Promise<RestorationRecord[]> {
+    try {
+      const positions: ReadingProgress[] = await db.readingProgress
+        .where('bookId')
+        .equals(bookId)
+        .toArray();
+
+      // Every save after a restoration repeats it, so keep one per restoration
+      const restorations = new Map<number, RestorationRecord>();
+      for (const position of positions) {
+        if (!position.restorationStrategy || !position.restoredAt) continue;
+        const restoredAt = new Date(position.restoredAt);
+        restorations.set(restoredAt.getTime(), {
+          chapterId: position.chapterId,
+          strategy: position.restorationStrategy,
+          accuracy: position.restorationAccuracy ?? 0,
+          restoredAt,
+        });
+      }
+
+      return Array.from(restorations.values()).sort((a, b) => b.restoredAt.getTime() - a.restoredAt.getTime());
+    } catch (error) {
+      console.error('Failed to load restoration history:', error);
+      throw new Error(`Failed to load restoration history for book ${bookId}`);
+    }
+  }
+
   /**
    * Calculate estimated reading time for content
    */
-  calculateReadingTime(wordCount: number, wordsPerMinute: number = 200): number {
+  calculateReadingTime(wordCount: number, wordsPerMinute: number = DEFAULT_WORDS_PER_MINUTE): number {
     return Math.ceil(wordCount / wordsPerMinute);
   }
 
@@ -125,15 +175,15 @@ export class ReaderService {
    * Count words in text content
    */
   countWords(content: string): number {
-    return content.trim().split(/\s+/).filter(word => word.length > 0).length;
+    return countWords(content);
   }
 
   /**
    * Parse chapter content and extract reading metadata
    */
-  parseChapterContent(content: string): { wordCount: number; estimatedReadingTime: number } {
+  parseChapterContent(content: string, wordsPerMinute?: number): { wordCount: number; estimatedReadingTime: number } {
     const wordCount = this.countWords(content);
-    const estimatedReadingTime = this.calculateReadingTime(wordCount);
+    const estimatedReadingTime = this.calculateReadingTime(wordCount, wordsPerMinute);
     
     return { wordCount, estimatedReadingTime };
   }
@@ -142,16 +192,27 @@ export class ReaderService {
    * Map database chapter to Chapter interface
    */
   private mapChapterFromDatabase(dbChapter: any): Chapter {
-    const { wordCount, estimatedReadingTime } = this.parseChapterContent(dbChapter.content);
+    // Positions, TTS and search all work on the plain text
+    const content: string = dbChapter.plainTextContent ?? dbChapter.content;
+    // Timed at the reader's own pace for this book, once it has been learned
+    const { wordCount, estimatedReadingTime } = this.parseChapterContent(
+      content,
+      readingSpeedService.getWordsPerMinute(dbChapter.bookId)
+    );
     
     return {
       id: dbChapter.id,
       bookId: dbChapter.bookId,
       title: dbChapter.title,
-      content: dbChapter.content,
+      content,
+      ...(dbChapter.htmlContent && { htmlContent: dbChapter.htmlContent }),
+      ...(dbChapter.imageUrls?.length && { imageUrls: dbChapter.imageUrls }),
       chapterNumber: dbChapter.chapterNumber,
       wordCount,
       estimatedReadingTime,
+      ...(dbChapter.sourceUrl && { sourceUrl: dbChapter.sourceUrl }),
+      ...(dbChapter.sourceChapterId && { sourceChapterId: dbChapter.sourceChapterId }),
+      ...(dbChapter.footnotes?.length && { footnotes: dbChapter.footnotes }),
       createdAt: dbChapter.createdAt,
       updatedAt: dbChapter.updatedAt,
     };
@@ -160,7 +221,7 @@ export class ReaderService {
   /**
    * Save imported chapters to database
    */
-  async saveChapters(bookId: number, chapters: { title: string; content: string; chapterNumber: number; }[]): Promise<void> {
+  async saveChapters(bookId: number, chapters: { title: string; content: string; htmlContent?: string; chapterNumber: number; url?: string; sourceChapterId?: string; imageUrls?: string[]; footnotes?: Footnote[]; hiddenElementsRemoved?: number; }[]): Promise<void> {
     try {
       const dbChapters = chapters.map(chapter => {
         const { wordCount, estimatedReadingTime } = this.parseChapterContent(chapter.content);
@@ -169,8 +230,15 @@ export class ReaderService {
           bookId,
           title: chapter.title,
           content: chapter.content,
+          ...(chapter.htmlContent && { htmlContent: chapter.htmlContent, plainTextContent: chapter.content }),
           index: chapter.chapterNumber - 1, // Database uses 0-based index
           chapterNumber: chapter.chapterNumber,
+          ...(chapter.url && { sourceUrl: chapter.url }),
+          ...(chapter.sourceChapterId && { sourceChapterId: chapter.sourceChapterId }),
+          hasImages: Boolean(chapter.imageUrls?.length),
+          imageUrls: chapter.imageUrls ?? [],
+          ...(chapter.footnotes?.length && { footnotes: chapter.footnotes }),
+          ...(chapter.hiddenElementsRemoved && { hiddenElementsRemoved: chapter.hiddenElementsRemoved }),
           wordCount,
           estimatedReadingTime,
           createdAt: new Date(),
@@ -179,14 +247,40 @@ export class ReaderService {
       });
 
       // @ts-ignore - Progressive development approach
-      await db.chapters.bulkAdd(dbChapters);
+      const ids: number[] = await db.chapters.bulkAdd(dbChapters, { allKeys: true });
       console.log(`Saved ${chapters.length} chapters for book ${bookId}`);
+
+      // A chapter missing from the index is picked up again before the next search
+      await searchIndexService
+        .indexChapters(dbChapters.map((chapter, index) => ({ id: ids[index]!, bookId, content: chapter.content })))
+        .catch(error => console.warn('Failed to index saved chapters for search:', error));
     } catch (error) {
       console.error('Failed to save imported chapters:', error);
       throw new Error(`Failed to save chapters for book ${bookId}: ${error}`);
     }
   }
 
+  /**
+   * Delete a book's chapters by number, together with their search index entries
+   */
+  async deleteChapters(bookId: number, chapterNumbers: number[]): Promise<void> {
+    if (chapterNumbers.length === 0) return;
+
+    try {
+      const numbers = new Set(chapterNumbers);
+      // @ts-ignore - Progressive development approach
+      const chapters: { id: number; index: number }[] = await db.chapters.where('bookId').equals(bookId).toArray();
+      const chapterIds = chapters.filter(chapter => numbers.has(chapter.index + 1)).map(chapter => chapter.id);
+
+      // @ts-ignore - Progressive development approach
+      await db.chapters.bulkDelete(chapterIds);
+      await searchIndexService.removeChapters(chapterIds);
+    } catch (error) {
+      console.error('Failed to delete chapters:', error);
+      throw new Error(`Failed to delete chapters for book ${bookId}: ${error}`);
+    }
+  }
+
   /**
    * Create mock chapters for development/testing
    */
@@ -0,0 +1,156 @@
+/**
+ * Reading Session Tracker - Readiwi v4.0
+ * Records one sitting in the reader: time actually spent reading, words
+ * covered and chapters finished. Saved locally for reading statistics.
+ */
+
+import { db } from '@/core/services/database-simple';
+import { ReadingSession } from '@/core/types/database';
+import { countWords, readingSpeedService } from '@/plugins/statistics/services/reading-speed-service';
+
+export const IDLE_TIMEOUT_MS = 3 * 60 * 1000; // Longer without input counts as away
+const FINISHED_FRACTION = 0.9; // Reaching this far into a chapter finishes it
+const MIN_SESSION_SECONDS = 10; // Shorter sessions without words read aren't kept
+
+export interface SessionSummary {
+  startedAt: Date;
+  activeSeconds: number;
+  wordsRead: number;
+}
+
+interface ChapterProgress {
+  furthest: number; // Furthest offset reached this session
+  finished: boolean;
+}
+
+export class ReadingSessionTracker {
+  private session: ReadingSession | null = null;
+  private chapters = new Map<number, ChapterProgress>();
+  private lastActivity: number | null = null;
+
+  /**
+   * Begin a session for a book, ending any other one
+   */
+  async start(bookId: number, now: number = Date.now()): Promise<void> {
+    if (this.session?.bookId === bookId) return;
+    await this.end(now);
+
+    this.session = {
+      bookId,
+      startedAt: new Date(now),
+      endedAt: new Date(now),
+      activeSeconds: 0,
+      wordsRead: 0,
+      chaptersFinished: [],
+    };
+    this.chapters.clear();
+    this.lastActivity = now;
+  }
+
+  /**
+   * The reader did something: time since the last activity counts unless they were idle
+   */
+  recordActivity(now: number = Date.now()): void {
+    if (!this.session) return;
+
+    if (this.lastActivity !== null) {
+      const elapsed = now - this.lastActivity;
+      if (elapsed > 0 && elapsed <= IDLE_TIMEOUT_MS) {
+        this.session.activeSeconds += elapsed / 1000;
+      }
+    }
+    this.lastActivity = now;
+    this.session.endedAt = new Date(now);
+  }
+
+  /**
+   * The reader left, e.g. switched tab: the time until they come back doesn't count
+   */
+  pause(now: number = Date.now()): void {
+    this.recordActivity(now);
+    this.lastActivity = null;
+  }
+
+  /**
+   * The reading place moved: words passed since the furthest point count as read
+   */
+  recordPosition(chapter: { id: number; content: string }, offset: number, now: number = Date.now()): void {
+    if (!this.session) return;
+    this.recordActivity(now);
+
+    const progress = this.chapters.get(chapter.id);
+    if (!progress) {
+      // Where the chapter was opened is the starting line, not words read
+      this.chapters.set(chapter.id, { furthest: offset, finished: false });
+    } else if (offset > progress.furthest) {
+      this.session.wordsRead += countWords(chapter.content.slice(progress.furthest, offset));
+      progress.furthest = offset;
+    }
+
+    if (chapter.content.length > 0 && offset >= chapter.content.length * FINISHED_FRACTION) {
+      this.finishChapter(chapter, now);
+    }
+  }
+
+  /**
+   * The reader reached the end of a chapter or moved on from it
+   */
+  finishChapter(chapter: { id: number; content: string }, now: number = Date.now()): void {
+    if (!this.session) return;
+
+    const progress = this.chapters.get(chapter.id) ?? { furthest: chapter.content.length, finished: false };
+    if (progress.finished) return;
+
+    this.session.wordsRead += countWords(chapter.content.slice(progress.furthest));
+    progress.furthest = chapter.content.length;
+    progress.finished = true;
+    this.chapters.set(chapter.id, progress);
+    this.session.chaptersFinished.push(chapter.id);
+    this.recordActivity(now);
+  }
+
+  /**
+   * The current session so far, if it is for this book
+   */
+  getSummary(bookId: number): SessionSummary | null {
+    if (this.session?.bookId !== bookId) return null;
+    return {
+      startedAt: this.session.startedAt,
+      activeSeconds: Math.round(this.session.activeSeconds),
+      wordsRead: this.session.wordsRead,
+    };
+  }
+
+  /**
+   * Save the session as it stands, so little is lost if the tab closes
+   */
+  async flush(): Promise<void> {
+    const session = this.session;
+    if (!session) return;
+    if (session.activeSeconds < MIN_SESSION_SECONDS && session.wordsRead === 0) return;
+
+    try {
+      const record = { ...session, activeSeconds: Math.round(session.activeSeconds), chaptersFinished: [...session.chaptersFinished] };
+      // @ts-ignore - Progressive development approach
+      const id: number = await db.readingSessions.put(record);
+      session.id = id;
+      // Each save can refine the learned reading speed
+      readingSpeedService.recordSession({ ...record, id });
+    } catch (error) {
+      console.error('Failed to save reading session:', error);
+    }
+  }
+
+  /**
+   * Close the session and save it
+   */
+  async end(now: number = Date.now()): Promise<void> {
+    if (!this.session) return;
+    this.pause(now);
+    await this.flush();
+    this.session = null;
+    this.chapters.clear();
+  }
+}
+
+export const readingSessionTracker = new ReadingSessionTracker();
@@ -3,6 +3,7 @@ import { persist } from 'zustand/middleware';
 import { ReaderState, DEFAULT_READER_SETTINGS } from '../types/reader-types';
 import { readerService } from '../services/reader-service';
 import { libraryService } from '@/plugins/book-library/services/library-service';
+import { countWords, estimateMinutes, readingSpeedService } from '@/plugins/statistics/services/reading-speed-service';
 
 const initialState = {
   currentBook: null,
@@ -24,7 +25,7 @@ export const useReaderStore = create<ReaderState>()(
     (set, get) => ({
       ...initialState,
       
-      loadBook: async (bookId) => {
+      loadBook: async (bookId, chapterId) => {
         set({ loading: true, error: null });
         
         try {
@@ -70,7 +71,9 @@ export const useReaderStore = create<ReaderState>()(
           });
           
           // Load the appropriate chapter
-          if (savedPosition) {
+          if (chapterId !== undefined && chapters.some(chapter => chapter.id === chapterId)) {
+            await get().loadChapter(chapterId);
+          } else if (savedPosition) {
             await get().loadChapter(savedPosition.chapterId);
           } else {
             // Load first chapter
@@ -245,14 +248,17 @@ export const useReaderStore = create<ReaderState>()(
       },
       
       get estimatedTimeRemaining(): number {
-        const { currentBook, currentChapter, chapters } = get();
+        const { currentBook, currentChapter, chapters, currentPosition } = get();
         if (!currentBook || !currentChapter) return 0;
         
         const currentIndex = chapters.findIndex(c => c.id === currentChapter.id);
         if (currentIndex === -1) return 0;
         
-        const remainingChapters = chapters.slice(currentIndex);
-        return remainingChapters.reduce((total, chapter) => total + chapter.estimatedReadingTime, 0);
+        // The rest of this chapter from the reading position, then every later chapter
+        const offset = currentPosition?.chapterId === currentChapter.id ? currentPosition.characterOffset : 0;
+        const remainingWords = countWords(currentChapter.content.slice(offset))
+          + chapters.slice(currentIndex + 1).reduce((total, chapter) => total + chapter.wordCount, 0);
+        return estimateMinutes(remainingWords, readingSpeedService.getWordsPerMinute(currentBook.id));
       },
     }),
     {
@@ -1,11 +1,18 @@
+import { Bookmark, Footnote, HighlightColor, RestorationStrategy, TextFingerprint } from '@/core/types/database';
+
 export interface Chapter {
   id: number;
   bookId: number;
   title: string;
-  content: string;
+  content: string; // Plain text; reading positions are offsets into it
+  htmlContent?: string; // Sanitized formatting whose text matches `content`
+  imageUrls?: string[]; // imageCache keys of the images it shows
   chapterNumber: number;
   wordCount: number;
   estimatedReadingTime: number; // in minutes
+  sourceUrl?: string;
+  sourceChapterId?: string;
+  footnotes?: Footnote[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -14,9 +21,21 @@ export interface ReadingPosition {
   chapterId: number;
   characterOffset: number;
   scrollPosition: number;
+  fingerprint?: TextFingerprint; // Text around characterOffset, to find it again after edits or re-layout
+  restoration?: PositionRestoration; // How this reading session found its starting place
   timestamp: Date;
 }
 
+export interface PositionRestoration {
+  strategy: RestorationStrategy;
+  accuracy: number; // 0-100, how closely the text at the restored place matched the saved fingerprint
+  restoredAt: Date;
+}
+
+export interface RestorationRecord extends PositionRestoration {
+  chapterId: number;
+}
+
 export interface ReaderSettings {
   fontSize: number; // 12-24px
   fontFamily: 'serif' | 'sans-serif' | 'monospace';
@@ -57,7 +76,7 @@ export interface ReaderState {
   hasPreviousChapter: boolean;
   
   // Actions
-  loadBook: (bookId: number) => Promise<void>;
+  loadBook: (bookId: number, chapterId?: number) => Promise<void>; // Opens chapterId, else the saved position
   loadChapter: (chapterId: number) => Promise<void>;
   navigateToChapter: (chapterNumber: number) => Promise<void>;
   nextChapter: () => Promise<void>;
@@ -85,6 +104,29 @@ export interface ReaderState {
   get estimatedTimeRemaining(): number;
 }
 
+/**
+ * A bookmark or highlight located in the current chapter text
+ */
+export interface AnchoredAnnotation {
+  annotation: Bookmark;
+  start: number;
+  end: number; // Equal to start for bookmarks
+  orphaned: boolean; // Its text is gone from the chapter; listed but not shown inline
+}
+
+export interface HighlightStyle {
+  name: string;
+  className: string;
+}
+
+export const HIGHLIGHT_COLORS: Record<HighlightColor, HighlightStyle> = {
+  yellow: { name: 'Yellow', className: 'bg-yellow-200/70 dark:bg-yellow-500/40' },
+  green: { name: 'Green', className: 'bg-green-200/70 dark:bg-green-500/40' },
+  blue: { name: 'Blue', className: 'bg-sky-200/70 dark:bg-sky-500/40' },
+  pink: { name: 'Pink', className: 'bg-pink-200/70 dark:bg-pink-500/40' },
+  purple: { name: 'Purple', className: 'bg-violet-200/70 dark:bg-violet-500/40' },
+};
+
 export interface ChapterNavigation {
   currentChapter: number;
   totalChapters: number;
@@ -0,0 +1,187 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/core/utils/cn';
+import { libraryService } from '@/plugins/book-library/services/library-service';
+import { searchIndexService } from '../services/search-index-service';
+import { SearchResult, SearchSnippet } from '../types/search-types';
+import { Search, Loader2 } from 'lucide-react';
+
+interface SearchViewProps {
+  bookId?: number; // @description Start scoped to this book (optional; the whole library otherwise)
+  className?: string;
+  'data-testid'?: string;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+const toSlug = (title: string, fallback: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback;
+
+/**
+ * Snippet text with the matching words marked
+ */
+const Snippet: React.FC<{ snippet: SearchSnippet }> = ({ snippet }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  snippet.highlights.forEach(({ start, end }, index) => {
+    parts.push(snippet.text.slice(cursor, start));
+    parts.push(<mark key={index} className="bg-yellow-200/70 dark:bg-yellow-500/40 rounded-sm">{snippet.text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+
+  return (
+    <p className="text-sm text-muted-foreground">
+      {snippet.truncatedStart && '…'}
+      {parts}
+      {snippet.truncatedEnd && '…'}
+    </p>
+  );
+};
+
+const SearchView: React.FC<SearchViewProps> = ({
+  bookId,
+  className,
+  'data-testid': testId,
+}) => {
+  const router = useRouter();
+  const [query, setQuery] = useState('');
+  const [scopeBookId, setScopeBookId] = useState<number | undefined>(bookId);
+  const [bookTitle, setBookTitle] = useState<string | null>(null);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [indexing, setIndexing] = useState<{ indexed: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (bookId === undefined) return;
+    libraryService.getBook(bookId)
+      .then(book => setBookTitle(book?.title ?? null))
+      .catch(() => setBookTitle(null));
+  }, [bookId]);
+
+  // Catch up on chapters saved before search existed, then run the query
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      setError(null);
+      try {
+        await searchIndexService.ensureIndexed(scopeBookId, (indexed, total) => {
+          if (!cancelled) setIndexing({ indexed, total });
+        });
+        const found = await searchIndexService.search(trimmed, scopeBookId === undefined ? {} : { bookId: scopeBookId });
+        if (!cancelled) setResults(found);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (!cancelled) {
+          setSearching(false);
+          setIndexing(null);
+        }
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, scopeBookId]);
+
+  const handleOpenResult = useCallback((result: SearchResult) => {
+    const chapterSlug = toSlug(result.chapterTitle, `chapter-${result.chapterId}`);
+    router.push(`/read/${result.bookId}/${result.bookSlug}/${result.chapterId}/${chapterSlug}?at=${result.offset}`);
+  }, [router]);
+
+  return (
+    <div className={cn('space-y-4', className)} data-testid={testId}>
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" aria-hidden="true" />
+        <Input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder='Search chapter text, e.g. sword, "dark forest" or cultiv*'
+          className="pl-10"
+          aria-label="Search text"
+          autoFocus
+          data-testid="full-text-search-input"
+        />
+      </div>
+
+      {bookId !== undefined && (
+        <div className="flex gap-2" role="group" aria-label="Search scope">
+          <Button
+            size="sm"
+            variant={scopeBookId === bookId ? 'default' : 'outline'}
+            onClick={() => setScopeBookId(bookId)}
+            data-testid="scope-book-button"
+          >
+            {bookTitle ? `In "${bookTitle}"` : 'This book'}
+          </Button>
+          <Button
+            size="sm"
+            variant={scopeBookId === undefined ? 'default' : 'outline'}
+            onClick={() => setScopeBookId(undefined)}
+            data-testid="scope-library-button"
+          >
+            Whole library
+          </Button>
+        </div>
+      )}
+
+      {searching && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="search-status">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {indexing ? `Indexing chapters for search (${indexing.indexed}/${indexing.total})...` : 'Searching...'}
+        </p>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {!searching && query.trim() && results.length === 0 && !error && (
+        <p className="text-sm text-muted-foreground" data-testid="search-no-results">No matches found.</p>
+      )}
+
+      <div className="space-y-2" data-testid="search-results">
+        {results.map(result => (
+          <Card
+            key={result.chapterId}
+            className="cursor-pointer transition-colors hover:bg-muted/50"
+            onClick={() => handleOpenResult(result)}
+            data-testid={`search-result-${result.chapterId}`}
+          >
+            <CardContent className="p-4 space-y-1">
+              <div className="flex items-baseline justify-between gap-2">
+                <h3 className="font-medium text-sm truncate">
+                  {scopeBookId === undefined && <span className="text-muted-foreground">{result.bookTitle} · </span>}
+                  {result.chapterTitle}
+                </h3>
+                <span className="flex-shrink-0 text-xs text-muted-foreground">
+                  {result.matchCount} {result.matchCount === 1 ? 'match' : 'matches'}
+                </span>
+              </div>
+              <Snippet snippet={result.snippet} />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+SearchView.displayName = 'SearchView';
+export default SearchView;
@@ -0,0 +1,15 @@
+/**
+ * Search Plugin Export - Readiwi v4.0
+ */
+
+export { searchPlugin } from './plugin';
+export { searchIndexService, buildSnippet } from './services/search-index-service';
+export type { IndexableChapter } from './services/search-index-service';
+export { tokenize, parseQuery } from './services/query-parser';
+export { default as SearchView } from './components/SearchView';
+export type {
+  QueryClause,
+  SearchOptions,
+  SearchResult,
+  SearchSnippet,
+} from './types/search-types';
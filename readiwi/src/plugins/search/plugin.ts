@@ -0,0 +1,63 @@
+/**
+ * Search Plugin - Readiwi v4.0
+ * Full-text search over chapter content, across the library or within a book
+ */
+
+import { Plugin, ComponentRegistry, RouteRegistry, StoreRegistry, ServiceRegistry } from '@/core/types/plugin';
+import { searchIndexService } from './services/search-index-service';
+import SearchView from './components/SearchView';
+
+class SearchPluginImpl implements Plugin {
+  id = 'search';
+  name = 'Full-Text Search';
+  version = '1.0.0';
+  dependencies = ['book-library', 'reader'];
+  enabled = true;
+
+  async initialize(): Promise<void> {
+    console.log('Search plugin initialized');
+  }
+
+  async activate(): Promise<void> {
+    console.log('Search plugin activated');
+  }
+
+  async deactivate(): Promise<void> {
+    console.log('Search plugin deactivated');
+  }
+
+  async cleanup(): Promise<void> {
+    console.log('Search plugin cleaned up');
+  }
+
+  registerComponents(): ComponentRegistry {
+    return {
+      'search.SearchView': SearchView,
+    };
+  }
+
+  registerRoutes(): RouteRegistry {
+    return {
+      '/search': {
+        component: SearchView,
+        metadata: {
+          title: 'Search - Readiwi',
+          description: 'Search the text of your books',
+          requiresAuth: false,
+        },
+      },
+    };
+  }
+
+  registerStores(): StoreRegistry {
+    return {};
+  }
+
+  registerServices(): ServiceRegistry {
+    return {
+      searchIndexService,
+    };
+  }
+}
+
+export const searchPlugin = new SearchPluginImpl();
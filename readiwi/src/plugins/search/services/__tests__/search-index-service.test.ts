@@ -0,0 +1,163 @@
+/**
+ * Search Index Service Tests - Readiwi v4.0
+ * Testing that readers can find any passage in their library
+ */
+
+type Row = Record<string, unknown>;
+
+interface MockTable {
+  rows: Row[];
+  add: (row: Row) => Promise<number>;
+  get: (key: number) => Promise<Row | undefined>;
+}
+
+jest.mock('@/core/services/database-simple', () => {
+  // Just enough of Dexie's table API for the search index
+  const createTable = (primaryKey: string) => {
+    const rows: Row[] = [];
+    let nextId = 1;
+    const field = (row: Row, index: string) =>
+      index.startsWith('[') ? JSON.stringify(index.slice(1, -1).split('+').map(key => row[key])) : row[index];
+    const collection = (matches: (row: Row) => boolean) => ({
+      toArray: async () => rows.filter(matches),
+      primaryKeys: async () => rows.filter(matches).map(row => row[primaryKey]),
+      and: (extra: (row: Row) => boolean) => collection(row => matches(row) && extra(row)),
+      delete: async () => {
+        for (let i = rows.length - 1; i >= 0; i--) if (matches(rows[i]!)) rows.splice(i, 1);
+      },
+    });
+
+    return {
+      rows,
+      add: async (row: Row) => {
+        const key = row[primaryKey] ?? nextId++;
+        rows.push({ ...row, [primaryKey]: key });
+        return key;
+      },
+      bulkAdd: async (items: Row[]) => {
+        items.forEach(item => rows.push({ ...item, [primaryKey]: item[primaryKey] ?? nextId++ }));
+      },
+      put: async (row: Row) => {
+        const index = rows.findIndex(existing => existing[primaryKey] === row[primaryKey]);
+        if (index >= 0) rows.splice(index, 1);
+        rows.push({ ...row });
+      },
+      get: async (key: number) => rows.find(row => row[primaryKey] === key),
+      toArray: async () => [...rows],
+      toCollection: () => collection(() => true),
+      where: (index: string) => ({
+        equals: (value: unknown) => collection(row =>
+          field(row, index) === (Array.isArray(value) ? JSON.stringify(value) : value)),
+        startsWith: (prefix: string) => collection(row => String(row[index]).startsWith(prefix)),
+      }),
+    };
+  };
+
+  return {
+    db: {
+      books: createTable('id'),
+      chapters: createTable('id'),
+      searchIndex: createTable('id'),
+      searchDocuments: createTable('chapterId'),
+      transaction: async (...args: unknown[]) => (args[args.length - 1] as () => Promise<unknown>)(),
+    },
+  };
+});
+
+import { db } from '@/core/services/database-simple';
+import { SearchIndexService } from '../search-index-service';
+import { parseQuery } from '../query-parser';
+
+const mockDb = db as unknown as Record<'books' | 'chapters' | 'searchIndex' | 'searchDocuments', MockTable>;
+
+const addChapter = async (bookId: number, index: number, title: string, content: string) => {
+  const id = await mockDb.chapters.add({ bookId, index, title, content });
+  return { id, bookId, content };
+};
+
+describe('User Story: Find Any Passage in My Library', () => {
+  let service: SearchIndexService;
+
+  beforeEach(async () => {
+    (['books', 'chapters', 'searchIndex', 'searchDocuments'] as const).forEach(table => {
+      mockDb[table].rows.length = 0;
+    });
+    service = new SearchIndexService();
+
+    await mockDb.books.add({ id: 1, title: 'Jade River', urlSlug: 'jade-river' });
+    await mockDb.books.add({ id: 2, title: 'Iron Crown' });
+    await service.indexChapters([
+      await addChapter(1, 0, 'Chapter 1: Lanterns', 'Mei Lin crossed the dark forest at dusk.\n\nThe forest was quiet and dark.'),
+      await addChapter(1, 1, 'Chapter 2: The Sect', 'Cultivators of the Azure Sect gathered. Cultivation takes patience, said the elder.'),
+      await addChapter(2, 0, 'Chapter 1: The Throne', 'A dark night fell over the capital. The forest burned in the distance.'),
+    ]);
+  });
+
+  test('Queries understand phrases, prefixes and plain words', () => {
+    expect(parseQuery('"Dark Forest" cultiv* Mei')).toEqual([
+      { kind: 'phrase', terms: ['dark', 'forest'] },
+      { kind: 'prefix', terms: ['cultiv'] },
+      { kind: 'term', terms: ['mei'] },
+    ]);
+  });
+
+  test('A phrase only matches words next to each other, with the match marked in a snippet', async () => {
+    // When: Searching the library for a phrase
+    const results = await service.search('"dark forest"');
+
+    // Then: Only the chapter with those words side by side matches
+    expect(results).toHaveLength(1);
+    const [result] = results;
+    expect(result).toMatchObject({ bookId: 1, bookTitle: 'Jade River', bookSlug: 'jade-river', chapterTitle: 'Chapter 1: Lanterns', chapterNumber: 1, matchCount: 1 });
+
+    // And: The result points at the match and highlights it
+    const chapter = await mockDb.chapters.get(result!.chapterId);
+    expect(String(chapter?.content).slice(result!.offset)).toMatch(/^dark forest/);
+    const marked = result!.snippet.highlights.map(({ start, end }) => result!.snippet.text.slice(start, end));
+    expect(marked).toEqual(expect.arrayContaining(['dark', 'forest']));
+  });
+
+  test('Prefix queries match every word starting with the prefix', async () => {
+    const [result] = await service.search('cultiv*');
+
+    expect(result?.chapterTitle).toBe('Chapter 2: The Sect');
+    expect(result?.matchCount).toBe(2);
+    expect(result?.snippet.highlights).toHaveLength(2);
+  });
+
+  test('Results are ranked and can be limited to one book', async () => {
+    // Given: "dark" appears twice in one chapter and once in each of two others
+    // When: Searching the whole library
+    const library = await service.search('dark');
+
+    // Then: The chapter using it most comes first
+    expect(library.map(result => result.chapterTitle)).toEqual(['Chapter 1: Lanterns', 'Chapter 1: The Throne']);
+    expect(library[0]!.score).toBeGreaterThan(library[1]!.score);
+
+    // And: A book-scoped search ignores other books
+    const inBook = await service.search('forest', { bookId: 2 });
+    expect(inBook.map(result => result.bookId)).toEqual([2]);
+
+    // And: Every word has to match
+    expect(await service.search('dark capital')).toHaveLength(1);
+    expect(await service.search('dark dragon')).toHaveLength(0);
+  });
+
+  test('Chapters saved before search existed are indexed on demand, and deleted books drop out', async () => {
+    // Given: A chapter that was never indexed
+    await addChapter(2, 1, 'Chapter 2: Ashes', 'Embers drifted over the ruined palace.');
+    expect(await service.search('embers')).toHaveLength(0);
+
+    // When: The index is caught up
+    const indexed = await service.ensureIndexed();
+
+    // Then: Only the missing chapter was indexed, and it can be found
+    expect(indexed).toBe(1);
+    expect(await service.search('embers')).toHaveLength(1);
+
+    // And: Removing a book removes it from results
+    await service.removeBook(2);
+    expect(await service.search('embers')).toHaveLength(0);
+    expect(await service.search('forest')).toHaveLength(1);
+  });
+});
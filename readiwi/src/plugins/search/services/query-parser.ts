@@ -0,0 +1,76 @@
+/**
+ * Query Parser - Readiwi v4.0
+ * Tokenizes chapter text for the search index and parses search queries:
+ * `"exact phrase"`, `prefix*` and plain words, all of which must match
+ */
+
+import { QueryClause, Token } from '../types/search-types';
+
+// Words, numbers, and contractions such as "don't" kept as one token
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+// Shorter prefixes would expand to most of the index
+export const MIN_PREFIX_LENGTH = 2;
+
+export function normalizeTerm(word: string): string {
+  return word
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/’/g, "'")
+    .toLowerCase();
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    tokens.push({
+      term: normalizeTerm(match[0]),
+      offset: match.index ?? 0,
+      length: match[0].length,
+      position: tokens.length,
+    });
+  }
+
+  return tokens;
+}
+
+export function parseQuery(query: string): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  const phrasePattern = /"([^"]*)"?/g;
+
+  // Quoted phrases first, then whatever is left as single words
+  const remainder = query.replace(phrasePattern, (_, phrase: string) => {
+    const terms = tokenize(phrase).map(token => token.term);
+    if (terms.length === 1) {
+      clauses.push({ kind: 'term', terms });
+    } else if (terms.length > 1) {
+      clauses.push({ kind: 'phrase', terms });
+    }
+    return ' ';
+  });
+
+  for (const word of remainder.split(/\s+/)) {
+    const isPrefix = word.endsWith('*');
+    const terms = tokenize(word).map(token => token.term);
+
+    if (isPrefix && terms.length === 1 && terms[0]!.length >= MIN_PREFIX_LENGTH) {
+      clauses.push({ kind: 'prefix', terms });
+    } else {
+      // Punctuation inside a word ("well-known") splits it into adjacent terms
+      terms.forEach(term => clauses.push({ kind: 'term', terms: [term] }));
+    }
+  }
+
+  return clauses;
+}
+
+/**
+ * Whether a normalized term satisfies any clause, for marking matches in snippets
+ */
+export function createTermMatcher(clauses: QueryClause[]): (term: string) => boolean {
+  const exact = new Set(clauses.filter(clause => clause.kind !== 'prefix').flatMap(clause => clause.terms));
+  const prefixes = clauses.filter(clause => clause.kind === 'prefix').map(clause => clause.terms[0]!);
+
+  return term => exact.has(term) || prefixes.some(prefix => term.startsWith(prefix));
+}
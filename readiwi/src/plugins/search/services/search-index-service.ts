@@ -0,0 +1,325 @@
+/**
+ * Search Index Service - Readiwi v4.0
+ * Inverted index over chapter content in IndexedDB. Chapters are indexed as
+ * they are saved; anything saved before the index existed is caught up lazily.
+ */
+
+import { db } from '@/core/services/database-simple';
+import { Book, SearchDocument, SearchIndexEntry } from '@/core/types/database';
+import { QueryClause, SearchOptions, SearchResult, SearchSnippet } from '../types/search-types';
+import { createTermMatcher, parseQuery, tokenize } from './query-parser';
+
+export interface IndexableChapter {
+  id: number;
+  bookId: number;
+  content: string;
+}
+
+interface ChapterMatch {
+  bookId: number;
+  offsets: number[]; // Where each occurrence starts
+}
+
+// BM25 tuning: term frequency saturation and chapter length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const DEFAULT_RESULT_LIMIT = 50;
+const SNIPPET_RADIUS = 80; // Characters either side of the match
+
+export class SearchIndexService {
+  /**
+   * Index (or re-index) one chapter, replacing any postings it had
+   */
+  async indexChapter(chapter: IndexableChapter): Promise<void> {
+    const postings = new Map<string, SearchIndexEntry>();
+    const tokens = tokenize(chapter.content);
+
+    tokens.forEach(token => {
+      const entry = postings.get(token.term)
+        ?? { term: token.term, bookId: chapter.bookId, chapterId: chapter.id, positions: [], offsets: [] };
+      entry.positions.push(token.position);
+      entry.offsets.push(token.offset);
+      postings.set(token.term, entry);
+    });
+
+    const document: SearchDocument = {
+      chapterId: chapter.id,
+      bookId: chapter.bookId,
+      tokenCount: tokens.length,
+      indexedAt: new Date(),
+    };
+
+    try {
+      // @ts-ignore - Progressive development, Dexie transaction method
+      await db.transaction('rw', db.searchIndex, db.searchDocuments, async () => {
+        // @ts-ignore - Progressive development approach
+        await db.searchIndex.where('chapterId').equals(chapter.id).delete();
+        // @ts-ignore - Progressive development approach
+        await db.searchIndex.bulkAdd(Array.from(postings.values()));
+        // @ts-ignore - Progressive development approach
+        await db.searchDocuments.put(document);
+      });
+    } catch (error) {
+      throw new Error(`Failed to index chapter ${chapter.id}: ${error}`);
+    }
+  }
+
+  async indexChapters(chapters: IndexableChapter[]): Promise<void> {
+    for (const chapter of chapters) {
+      await this.indexChapter(chapter);
+    }
+  }
+
+  /**
+   * Index chapters saved before the search index existed, for one book or the
+   * whole library; returns how many were added
+   */
+  async ensureIndexed(bookId?: number, onProgress?: (indexed: number, total: number) => void): Promise<number> {
+    try {
+      const chapterIds: number[] = bookId === undefined
+        // @ts-ignore - Progressive development approach
+        ? await db.chapters.toCollection().primaryKeys()
+        // @ts-ignore - Progressive development approach
+        : await db.chapters.where('bookId').equals(bookId).primaryKeys();
+      // @ts-ignore - Progressive development approach
+      const indexedIds = new Set<number>(await db.searchDocuments.toCollection().primaryKeys());
+      const missing = chapterIds.filter(id => !indexedIds.has(id));
+
+      for (const [index, chapterId] of missing.entries()) {
+        // @ts-ignore - Progressive development approach
+        const chapter = await db.chapters.get(chapterId);
+        if (chapter) {
+          await this.indexChapter({ id: chapterId, bookId: chapter.bookId, content: chapter.content ?? '' });
+        }
+        onProgress?.(index + 1, missing.length);
+      }
+
+      return missing.length;
+    } catch (error) {
+      throw new Error(`Failed to update search index: ${error}`);
+    }
+  }
+
+  async removeChapters(chapterIds: number[]): Promise<void> {
+    if (chapterIds.length === 0) return;
+
+    try {
+      // @ts-ignore - Progressive development, Dexie transaction method
+      await db.transaction('rw', db.searchIndex, db.searchDocuments, async () => {
+        // @ts-ignore - Progressive development approach
+        await db.searchIndex.where('chapterId').anyOf(chapterIds).delete();
+        // @ts-ignore - Progressive development approach
+        await db.searchDocuments.bulkDelete(chapterIds);
+      });
+    } catch (error) {
+      throw new Error(`Failed to remove chapters from search index: ${error}`);
+    }
+  }
+
+  async removeBook(bookId: number): Promise<void> {
+    try {
+      // @ts-ignore - Progressive development, Dexie transaction method
+      await db.transaction('rw', db.searchIndex, db.searchDocuments, async () => {
+        // @ts-ignore - Progressive development approach
+        await db.searchIndex.where('bookId').equals(bookId).delete();
+        // @ts-ignore - Progressive development approach
+        await db.searchDocuments.where('bookId').equals(bookId).delete();
+      });
+    } catch (error) {
+      throw new Error(`Failed to remove book ${bookId} from search index: ${error}`);
+    }
+  }
+
+  /**
+   * Chapters matching every part of the query, best first, with snippets
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const clauses = parseQuery(query);
+    if (clauses.length === 0) return [];
+
+    try {
+      const documents: SearchDocument[] = options.bookId === undefined
+        // @ts-ignore - Progressive development approach
+        ? await db.searchDocuments.toArray()
+        // @ts-ignore - Progressive development approach
+        : await db.searchDocuments.where('bookId').equals(options.bookId).toArray();
+      if (documents.length === 0) return [];
+
+      const tokenCounts = new Map(documents.map(document => [document.chapterId, document.tokenCount]));
+      const averageLength = documents.reduce((total, document) => total + document.tokenCount, 0) / documents.length;
+
+      // Every clause must match; chapters are scored on the sum of their clauses
+      let candidates: Map<number, { bookId: number; score: number; offsets: number[] }> | null = null;
+
+      for (const clause of clauses) {
+        const matches = await this.findClause(clause, options.bookId);
+        const idf = Math.log(1 + (documents.length - matches.size + 0.5) / (matches.size + 0.5));
+        const next = new Map<number, { bookId: number; score: number; offsets: number[] }>();
+
+        matches.forEach((match, chapterId) => {
+          const previous: { bookId: number; score: number; offsets: number[] } | undefined = candidates?.get(chapterId);
+          if (candidates && !previous) return;
+
+          const frequency = match.offsets.length;
+          const lengthRatio = (tokenCounts.get(chapterId) ?? averageLength) / (averageLength || 1);
+          const score = idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+
+          next.set(chapterId, {
+            bookId: match.bookId,
+            score: (previous?.score ?? 0) + score,
+            offsets: [...(previous?.offsets ?? []), ...match.offsets],
+          });
+        });
+
+        candidates = next;
+        if (candidates.size === 0) return [];
+      }
+
+      const ranked = Array.from(candidates!.entries())
+        .sort(([, a], [, b]) => b.score - a.score)
+        .slice(0, options.limit ?? DEFAULT_RESULT_LIMIT);
+
+      const matchesTerm = createTermMatcher(clauses);
+      const books = new Map<number, Book | undefined>();
+      const results: SearchResult[] = [];
+
+      for (const [chapterId, candidate] of ranked) {
+        // @ts-ignore - Progressive development approach
+        const chapter = await db.chapters.get(chapterId);
+        if (!chapter) continue;
+
+        if (!books.has(candidate.bookId)) {
+          // @ts-ignore - Progressive development approach
+          books.set(candidate.bookId, await db.books.get(candidate.bookId));
+        }
+        const book = books.get(candidate.bookId);
+        const offset = Math.min(...candidate.offsets);
+
+        results.push({
+          bookId: candidate.bookId,
+          bookTitle: book?.title ?? 'Unknown book',
+          bookSlug: book?.urlSlug || (book?.title ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || `book-${candidate.bookId}`,
+          chapterId,
+          chapterTitle: chapter.title,
+          chapterNumber: chapter.index + 1,
+          offset,
+          matchCount: candidate.offsets.length,
+          score: candidate.score,
+          snippet: buildSnippet(chapter.content ?? '', offset, matchesTerm),
+        });
+      }
+
+      return results;
+    } catch (error) {
+      throw new Error(`Failed to search for "${query}": ${error}`);
+    }
+  }
+
+  /**
+   * Chapters matching one clause, with the offset of each occurrence
+   */
+  private async findClause(clause: QueryClause, bookId?: number): Promise<Map<number, ChapterMatch>> {
+    if (clause.kind === 'phrase') {
+      return this.findPhrase(clause.terms, bookId);
+    }
+
+    const entries = clause.kind === 'prefix'
+      ? await this.getPrefixPostings(clause.terms[0]!, bookId)
+      : await this.getPostings(clause.terms[0]!, bookId);
+
+    const matches = new Map<number, ChapterMatch>();
+    entries.forEach(entry => {
+      const match = matches.get(entry.chapterId) ?? { bookId: entry.bookId, offsets: [] };
+      match.offsets.push(...entry.offsets);
+      matches.set(entry.chapterId, match);
+    });
+    return matches;
+  }
+
+  /**
+   * Chapters where the terms appear next to each other, in order
+   */
+  private async findPhrase(terms: string[], bookId?: number): Promise<Map<number, ChapterMatch>> {
+    const postingsByTerm: Map<number, SearchIndexEntry>[] = [];
+
+    for (const term of terms) {
+      const entries = await this.getPostings(term, bookId);
+      postingsByTerm.push(new Map(entries.map(entry => [entry.chapterId, entry])));
+    }
+
+    const matches = new Map<number, ChapterMatch>();
+    const [first, ...rest] = postingsByTerm;
+
+    first?.forEach((entry, chapterId) => {
+      const following = rest.map(postings => postings.get(chapterId));
+      if (following.some(posting => !posting)) return;
+
+      const followingPositions = following.map(posting => new Set(posting!.positions));
+      const offsets = entry.positions
+        .map((position, index) => ({ position, offset: entry.offsets[index]! }))
+        .filter(({ position }) => followingPositions.every((positions, index) => positions.has(position + index + 1)))
+        .map(({ offset }) => offset);
+
+      if (offsets.length > 0) {
+        matches.set(chapterId, { bookId: entry.bookId, offsets });
+      }
+    });
+
+    return matches;
+  }
+
+  private async getPostings(term: string, bookId?: number): Promise<SearchIndexEntry[]> {
+    return bookId === undefined
+      // @ts-ignore - Progressive development approach
+      ? db.searchIndex.where('term').equals(term).toArray()
+      // @ts-ignore - Progressive development approach
+      : db.searchIndex.where('[term+bookId]').equals([term, bookId]).toArray();
+  }
+
+  private async getPrefixPostings(prefix: string, bookId?: number): Promise<SearchIndexEntry[]> {
+    // @ts-ignore - Progressive development approach
+    const collection = db.searchIndex.where('term').startsWith(prefix);
+    return bookId === undefined
+      ? collection.toArray()
+      : collection.and((entry: SearchIndexEntry) => entry.bookId === bookId).toArray();
+  }
+}
+
+/**
+ * A window of text around a match, cut at word boundaries, with every matching
+ * word marked
+ */
+export function buildSnippet(
+  content: string,
+  offset: number,
+  matchesTerm: (term: string) => boolean,
+  radius: number = SNIPPET_RADIUS
+): SearchSnippet {
+  let start = Math.max(0, offset - radius);
+  let end = Math.min(content.length, offset + radius);
+
+  if (start > 0) {
+    const space = content.indexOf(' ', start);
+    if (space !== -1 && space < offset) start = space + 1;
+  }
+  if (end < content.length) {
+    const space = content.lastIndexOf(' ', end);
+    if (space > offset) end = space;
+  }
+
+  // Same length as the slice, so token offsets still line up
+  const text = content.slice(start, end).replace(/\s/g, ' ');
+  const highlights = tokenize(text)
+    .filter(token => matchesTerm(token.term))
+    .map(token => ({ start: token.offset, end: token.offset + token.length }));
+
+  return {
+    text,
+    highlights,
+    truncatedStart: start > 0,
+    truncatedEnd: end < content.length,
+  };
+}
+
+export const searchIndexService = new SearchIndexService();
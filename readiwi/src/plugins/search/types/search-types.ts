@@ -0,0 +1,48 @@
+/**
+ * Search Types - Readiwi v4.0
+ * Full-text search over chapter content
+ */
+
+export interface Token {
+  term: string; // Normalized: lower case, accents removed
+  offset: number; // Character offset in the source text
+  length: number; // Characters in the source text
+  position: number; // Token number in the source text
+}
+
+export type QueryClauseKind = 'term' | 'prefix' | 'phrase';
+
+export interface QueryClause {
+  kind: QueryClauseKind;
+  terms: string[]; // One term, except for phrases
+}
+
+export interface SearchOptions {
+  bookId?: number; // Search one book; the whole library if left out
+  limit?: number;
+}
+
+export interface SnippetHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: SnippetHighlight[]; // Ranges in `text` that matched the query
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+}
+
+export interface SearchResult {
+  bookId: number;
+  bookTitle: string;
+  bookSlug: string;
+  chapterId: number;
+  chapterTitle: string;
+  chapterNumber: number;
+  offset: number; // First match, as a character offset in the chapter content
+  matchCount: number;
+  score: number;
+  snippet: SearchSnippet;
+}
@@ -242,6 +242,21 @@ const AudioSettings: React.FC<AudioSettingsProps> = ({
             <CardDescription>Fine-tune your audio reading experience</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="auto-advance-switch">Continue to next chapter</Label>
+                <p className="text-sm text-muted-foreground">
+                  Keep reading through the book like an audiobook
+                </p>
+              </div>
+              <Switch
+                id="auto-advance-switch"
+                checked={audio.autoAdvance}
+                onCheckedChange={(checked) => handleSettingChange('autoAdvance', checked)}
+                data-testid="auto-advance-switch"
+              />
+            </div>
+
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
                 <Label>Auto-pause on scroll</Label>
@@ -258,15 +273,16 @@ const AudioSettings: React.FC<AudioSettingsProps> = ({
 
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
-                <Label>Highlight current sentence</Label>
+                <Label htmlFor="highlight-text-switch">Highlight current sentence</Label>
                 <p className="text-sm text-muted-foreground">
                   Visually highlight the sentence being read
                 </p>
               </div>
               <Switch
-                checked={false} // Placeholder - will implement later
-                onCheckedChange={() => {}} // Placeholder
-                disabled
+                id="highlight-text-switch"
+                checked={audio.highlightText}
+                onCheckedChange={(checked) => handleSettingChange('highlightText', checked)}
+                data-testid="highlight-text-switch"
               />
             </div>
 
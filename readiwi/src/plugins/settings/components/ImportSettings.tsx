@@ -1,20 +1,144 @@
 "use client";
 
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSettingsStore } from '../stores/settings-store';
+import { ImportSettings as ImportSettingsType } from '../types/settings-types';
+import ParserManager from '@/plugins/book-import/components/ParserManager';
+import TransportSettings from '@/plugins/book-import/components/TransportSettings';
+
+const HEADING_LEVELS = [1, 2, 3, 4, 5, 6];
 
 const ImportSettings: React.FC = () => {
+  const { settings, updateImport, autoSave } = useSettingsStore();
+  const [patternText, setPatternText] = useState(() => settings.import.chapterHeadingPatterns.join('\n'));
+  const [patternError, setPatternError] = useState<string | null>(null);
+
+  const handleSettingChange = useCallback((updates: Partial<ImportSettingsType>) => {
+    updateImport(updates);
+    autoSave();
+  }, [updateImport, autoSave]);
+
+  const handleSavePatterns = useCallback(() => {
+    const patterns = patternText.split('\n').map(pattern => pattern.trim()).filter(Boolean);
+    const invalid = patterns.find(pattern => {
+      try {
+        new RegExp(pattern, 'i');
+        return false;
+      } catch {
+        return true;
+      }
+    });
+
+    if (invalid) {
+      setPatternError(`Not a valid regular expression: ${invalid}`);
+      return;
+    }
+
+    setPatternError(null);
+    setPatternText(patterns.join('\n'));
+    handleSettingChange({ chapterHeadingPatterns: patterns });
+  }, [patternText, handleSettingChange]);
+
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>Import & Download Settings</CardTitle>
-        <CardDescription>Configure book import behavior and preferences</CardDescription>
-      </CardHeader>
-      <CardContent>
-        <p className="text-muted-foreground">Import settings will be implemented here.</p>
-      </CardContent>
-    </Card>
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Import & Download Settings</CardTitle>
+          <CardDescription>Configure book import behavior and preferences</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="download-images">Download images</Label>
+              <p className="text-sm text-muted-foreground">
+                Save covers and chapter images with imported books so they show offline
+              </p>
+            </div>
+            <Switch
+              id="download-images"
+              checked={settings.import.downloadImages}
+              onCheckedChange={(checked) => handleSettingChange({ downloadImages: checked })}
+              data-testid="download-images-switch"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="auto-detect-chapters">Detect chapters in files</Label>
+              <p className="text-sm text-muted-foreground">
+                Split text, Markdown and HTML files into chapters at their headings
+              </p>
+            </div>
+            <Switch
+              id="auto-detect-chapters"
+              checked={settings.import.autoDetectChapters}
+              onCheckedChange={(checked) => handleSettingChange({ autoDetectChapters: checked })}
+              data-testid="auto-detect-chapters-switch"
+            />
+          </div>
+
+          {settings.import.autoDetectChapters && (
+            <>
+              <div className="space-y-2">
+                <Label>Chapter headings</Label>
+                <p className="text-sm text-muted-foreground">
+                  Markdown and HTML headings at this level or above start a chapter
+                </p>
+                <Select
+                  value={String(settings.import.chapterHeadingLevel)}
+                  onValueChange={(value) => handleSettingChange({ chapterHeadingLevel: Number(value) })}
+                >
+                  <SelectTrigger data-testid="chapter-heading-level-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HEADING_LEVELS.map(level => (
+                      <SelectItem key={level} value={String(level)}>
+                        {'#'.repeat(level)} / &lt;h{level}&gt;
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="chapter-heading-patterns">Heading patterns</Label>
+                <p className="text-sm text-muted-foreground">
+                  Regular expressions, one per line. A short line matching one starts a chapter.
+                </p>
+                <textarea
+                  id="chapter-heading-patterns"
+                  value={patternText}
+                  onChange={(e) => setPatternText(e.target.value)}
+                  spellCheck={false}
+                  rows={3}
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  data-testid="chapter-heading-patterns-input"
+                />
+                {patternError && (
+                  <p className="text-sm text-red-600 dark:text-red-400" data-testid="chapter-heading-patterns-error">
+                    {patternError}
+                  </p>
+                )}
+                <Button variant="outline" size="sm" onClick={handleSavePatterns} data-testid="save-heading-patterns-button">
+                  Save Patterns
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <TransportSettings data-testid="transport-settings" />
+
+      <ParserManager data-testid="parser-manager" />
+    </div>
   );
 };
 
-export default ImportSettings;
\ No newline at end of file
+export default ImportSettings;
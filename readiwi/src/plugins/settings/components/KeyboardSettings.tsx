@@ -1,20 +1,195 @@
 "use client";
 
-import React from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/core/utils/cn';
+import { AlertTriangle, Plus, RotateCcw, X } from 'lucide-react';
+import { useSettingsStore } from '../stores/settings-store';
+import { DEFAULT_KEYBOARD_SHORTCUTS, KeyboardShortcuts } from '../types/settings-types';
+import {
+  SHORTCUT_COMMANDS,
+  SHORTCUT_CONTEXT_LABELS,
+  eventToCombo,
+  findShortcutConflicts,
+  getCommandInfo,
+  normalizeCombo,
+} from '../services/shortcut-service';
+import { ShortcutKeys } from './ShortcutCheatSheet';
+
+interface KeyboardSettingsProps {
+  className?: string;
+  'data-testid'?: string;
+}
+
+type ConfigurableCommand = keyof KeyboardShortcuts;
+
+const CONFIGURABLE_COMMANDS = SHORTCUT_COMMANDS.filter(
+  (info): info is typeof info & { command: ConfigurableCommand } => info.command !== 'showShortcuts'
+);
+
+const KeyboardSettings: React.FC<KeyboardSettingsProps> = ({
+  className,
+  'data-testid': testId,
+}) => {
+  const { settings, updateKeyboardShortcuts, autoSave } = useSettingsStore();
+  const shortcuts = settings.keyboardShortcuts;
+  const [recording, setRecording] = useState<ConfigurableCommand | null>(null);
+
+  const conflicts = useMemo(() => findShortcutConflicts(shortcuts), [shortcuts]);
+
+  // Other commands sharing a combo, by command and normalized combo
+  const conflictsFor = useCallback((command: ConfigurableCommand, combo: string) => {
+    const conflict = conflicts.find(existing => existing.combo === normalizeCombo(combo));
+    return conflict?.commands.filter(other => other !== command) ?? [];
+  }, [conflicts]);
+
+  const handleChange = useCallback((command: ConfigurableCommand, combos: string[]) => {
+    updateKeyboardShortcuts({ [command]: combos });
+    autoSave();
+  }, [updateKeyboardShortcuts, autoSave]);
+
+  const handleRemove = useCallback((command: ConfigurableCommand, combo: string) => {
+    handleChange(command, shortcuts[command].filter(existing => existing !== combo));
+  }, [shortcuts, handleChange]);
+
+  // The next key press becomes the new combo; Escape cancels
+  const handleRecordKey = useCallback((event: React.KeyboardEvent, command: ConfigurableCommand) => {
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (event.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+
+    const combo = eventToCombo(event.nativeEvent);
+    if (!combo) return; // Still holding modifiers
+
+    const existing = shortcuts[command].map(normalizeCombo);
+    if (!existing.includes(combo)) {
+      handleChange(command, [...shortcuts[command], combo]);
+    }
+    setRecording(null);
+  }, [shortcuts, handleChange]);
+
+  const handleReset = useCallback(() => {
+    updateKeyboardShortcuts(DEFAULT_KEYBOARD_SHORTCUTS);
+    autoSave();
+  }, [updateKeyboardShortcuts, autoSave]);
 
-const KeyboardSettings: React.FC = () => {
   return (
-    <Card>
+    <Card className={className} data-testid={testId}>
       <CardHeader>
-        <CardTitle>Keyboard Shortcuts</CardTitle>
-        <CardDescription>Customize keyboard shortcuts and navigation</CardDescription>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Keyboard Shortcuts</CardTitle>
+            <CardDescription>
+              Customize keyboard shortcuts. Press <kbd className="rounded border bg-muted px-1 font-mono text-xs">?</kbd> anywhere to see them.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleReset}
+            className="flex items-center gap-2"
+            data-testid="reset-shortcuts-button"
+          >
+            <RotateCcw className="h-4 w-4" aria-hidden="true" />
+            Reset
+          </Button>
+        </div>
       </CardHeader>
-      <CardContent>
-        <p className="text-muted-foreground">Keyboard settings will be implemented here.</p>
+      <CardContent className="space-y-4">
+        {conflicts.length > 0 && (
+          <div
+            className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive"
+            role="alert"
+            data-testid="shortcut-conflicts"
+          >
+            <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" aria-hidden="true" />
+            <ul className="space-y-1">
+              {conflicts.map(conflict => (
+                <li key={conflict.combo}>
+                  <ShortcutKeys combo={conflict.combo} /> is used by{' '}
+                  {conflict.commands.map(command => getCommandInfo(command).label).join(' and ')}; only one of them will run.
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <ul className="divide-y">
+          {CONFIGURABLE_COMMANDS.map(({ command, label, context }) => (
+            <li
+              key={command}
+              className="flex flex-wrap items-center justify-between gap-2 py-2"
+              data-testid={`shortcut-row-${command}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">{label}</span>
+                <Badge variant="secondary" className="text-xs">{SHORTCUT_CONTEXT_LABELS[context]}</Badge>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                {shortcuts[command].map(combo => {
+                  const clashes = conflictsFor(command, combo);
+                  return (
+                    <span
+                      key={combo}
+                      className={cn(
+                        'inline-flex items-center gap-1 rounded-md border px-1.5 py-0.5',
+                        clashes.length > 0 && 'border-destructive'
+                      )}
+                      title={clashes.length > 0
+                        ? `Also used by ${clashes.map(other => getCommandInfo(other).label).join(', ')}`
+                        : undefined}
+                      data-testid={`shortcut-${command}-${combo}`}
+                    >
+                      <ShortcutKeys combo={combo} />
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(command, combo)}
+                        className="rounded text-muted-foreground hover:text-foreground"
+                        aria-label={`Remove ${combo} from ${label}`}
+                      >
+                        <X className="h-3 w-3" aria-hidden="true" />
+                      </button>
+                    </span>
+                  );
+                })}
+
+                {recording === command ? (
+                  <Button
+                    variant="default"
+                    size="sm"
+                    autoFocus
+                    onKeyDown={(event) => handleRecordKey(event, command)}
+                    onBlur={() => setRecording(null)}
+                    data-testid={`record-shortcut-${command}`}
+                  >
+                    Press keys…
+                  </Button>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRecording(command)}
+                    aria-label={`Add shortcut for ${label}`}
+                    data-testid={`add-shortcut-${command}`}
+                  >
+                    <Plus className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
       </CardContent>
     </Card>
   );
 };
 
-export default KeyboardSettings;
\ No newline at end of file
+KeyboardSettings.displayName = 'KeyboardSettings';
+export default KeyboardSettings;
@@ -1,20 +1,112 @@
 "use client";
 
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { db } from '@/core/services/database-simple';
+import { useSettingsStore } from '../stores/settings-store';
+
+type StorageInfo = Awaited<ReturnType<typeof db.getStorageInfo>>;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
 
 const PrivacySettings: React.FC = () => {
+  const { settings, updatePrivacy, autoSave } = useSettingsStore();
+  const [storage, setStorage] = useState<StorageInfo | null>(null);
+  const [purging, setPurging] = useState(false);
+
+  const loadStorage = useCallback(async () => {
+    setStorage(await db.getStorageInfo());
+  }, []);
+
+  useEffect(() => {
+    loadStorage();
+  }, [loadStorage]);
+
+  const handlePurgeCache = useCallback(async () => {
+    setPurging(true);
+    try {
+      await db.purgeParserCache();
+      await loadStorage();
+    } catch (error) {
+      console.error('Failed to clear page cache:', error);
+    } finally {
+      setPurging(false);
+    }
+  }, [loadStorage]);
+
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>Privacy & Data Settings</CardTitle>
-        <CardDescription>Control data collection and privacy preferences</CardDescription>
-      </CardHeader>
-      <CardContent>
-        <p className="text-muted-foreground">Privacy settings will be implemented here.</p>
-      </CardContent>
-    </Card>
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Privacy & Data Settings</CardTitle>
+          <CardDescription>Control data collection and privacy preferences</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="usage-statistics">Usage statistics</Label>
+              <p className="text-sm text-muted-foreground">
+                Reading statistics always stay on this device; allow this to export them
+              </p>
+            </div>
+            <Switch
+              id="usage-statistics"
+              checked={settings.privacy.usageStatistics}
+              onCheckedChange={(checked) => {
+                updatePrivacy({ usageStatistics: checked });
+                autoSave();
+              }}
+              data-testid="usage-statistics-switch"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card data-testid="storage-info">
+        <CardHeader>
+          <CardTitle>Storage</CardTitle>
+          <CardDescription>Space used by your library and cached pages on this device</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {storage && (
+            <>
+              <p className="text-sm">
+                {storage.quota > 0
+                  ? `${formatBytes(storage.usage)} of ${formatBytes(storage.quota)} used (${storage.usagePercentage.toFixed(1)}%)`
+                  : 'Storage usage is not available in this browser'}
+              </p>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <p className="text-sm font-medium">Downloaded page cache</p>
+                  <p className="text-sm text-muted-foreground" data-testid="parser-cache-stats">
+                    {storage.parserCache.entries} pages, {formatBytes(storage.parserCache.sizeBytes)}
+                    {storage.parserCache.expiredEntries > 0 && ` (${storage.parserCache.expiredEntries} due for revalidation)`}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handlePurgeCache}
+                  disabled={purging || storage.parserCache.entries === 0}
+                  data-testid="purge-parser-cache-button"
+                >
+                  Clear Cache
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
   );
 };
 
-export default PrivacySettings;
\ No newline at end of file
+export default PrivacySettings;
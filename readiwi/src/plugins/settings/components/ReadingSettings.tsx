@@ -151,6 +151,34 @@ const ReadingSettings: React.FC<ReadingSettingsProps> = ({
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          {/* Page Layout */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Page Layout</label>
+            <div className="flex gap-2">
+              <Button
+                variant={!reading.enablePageFlipping ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => handleSettingChange('enablePageFlipping', false)}
+                data-testid="layout-scroll"
+              >
+                Scroll
+              </Button>
+              <Button
+                variant={reading.enablePageFlipping ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => handleSettingChange('enablePageFlipping', true)}
+                data-testid="layout-pages"
+              >
+                Pages
+              </Button>
+            </div>
+            {reading.enablePageFlipping && reading.navigationMode === 'infinite-scroll' && (
+              <p className="text-xs text-muted-foreground">
+                Pages need Previous/Next chapter navigation; infinite scroll keeps the scrolling layout
+              </p>
+            )}
+          </div>
+
           {/* Columns */}
           <div className="space-y-2">
             <label className="text-sm font-medium">Columns per Page</label>
@@ -252,6 +280,27 @@ const ReadingSettings: React.FC<ReadingSettingsProps> = ({
               </p>
             )}
           </div>
+          {/* Author's Notes */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Author&apos;s Notes</label>
+            <div className="flex gap-2">
+              {(['inline', 'collapsed', 'hidden'] as const).map((display) => (
+                <Button
+                  key={display}
+                  variant={reading.authorNotes === display ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => handleSettingChange('authorNotes', display)}
+                  data-testid={`author-notes-${display}`}
+                >
+                  {display === 'inline' ? 'Show' : display === 'collapsed' ? 'Collapse' : 'Hide'}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Notes before and after chapters. Shown notes are also read aloud; hidden ones are left out of exports.
+            </p>
+          </div>
+
           {/* Animations */}
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/core/utils/cn';
+import {
+  ActiveShortcut,
+  SHORTCUT_CONTEXT_LABELS,
+  ShortcutContext,
+  formatCombo,
+  shortcutService,
+} from '../services/shortcut-service';
+
+interface ShortcutCheatSheetProps {
+  open: boolean; // @description Whether the overlay is shown
+  onOpenChange: (open: boolean) => void; // @description Called when the overlay opens or closes
+  className?: string;
+  'data-testid'?: string;
+}
+
+const CONTEXT_ORDER: ShortcutContext[] = ['reader', 'audio', 'library', 'global'];
+
+/**
+ * Keys for one combo, e.g. [Ctrl] [F]
+ */
+export const ShortcutKeys: React.FC<{ combo: string }> = ({ combo }) => (
+  <span className="inline-flex items-center gap-0.5">
+    {formatCombo(combo).map((key, index) => (
+      <kbd
+        key={index}
+        className="min-w-[1.5rem] rounded border bg-muted px-1.5 py-0.5 text-center font-mono text-xs"
+      >
+        {key}
+      </kbd>
+    ))}
+  </span>
+);
+
+const ShortcutCheatSheet: React.FC<ShortcutCheatSheetProps> = ({
+  open,
+  onOpenChange,
+  className,
+  'data-testid': testId,
+}) => {
+  const [shortcuts, setShortcuts] = useState<ActiveShortcut[]>(() => shortcutService.getActiveShortcuts());
+
+  useEffect(() => {
+    setShortcuts(shortcutService.getActiveShortcuts());
+    return shortcutService.subscribe(() => setShortcuts(shortcutService.getActiveShortcuts()));
+  }, []);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className={cn('max-w-lg', className)} data-testid={testId}>
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts that do nothing on this screen are dimmed. Change them in Settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+          {CONTEXT_ORDER.map(context => {
+            const group = shortcuts.filter(shortcut => shortcut.context === context);
+            if (group.length === 0) return null;
+
+            return (
+              <section key={context} className="space-y-1">
+                <h3 className="text-sm font-medium">{SHORTCUT_CONTEXT_LABELS[context]}</h3>
+                <ul className="divide-y">
+                  {group.map(shortcut => (
+                    <li
+                      key={shortcut.command}
+                      className={cn(
+                        'flex items-center justify-between gap-4 py-1.5 text-sm',
+                        !shortcut.available && 'text-muted-foreground opacity-60'
+                      )}
+                      data-testid={`cheat-sheet-${shortcut.command}`}
+                    >
+                      <span>{shortcut.label}</span>
+                      <span className="flex flex-wrap justify-end gap-2">
+                        {shortcut.combos.length > 0
+                          ? shortcut.combos.map(combo => <ShortcutKeys key={combo} combo={combo} />)
+                          : <span className="text-xs text-muted-foreground">Not set</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+ShortcutCheatSheet.displayName = 'ShortcutCheatSheet';
+export default ShortcutCheatSheet;
@@ -0,0 +1,56 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSettingsStore } from '../stores/settings-store';
+import { shortcutService } from '../services/shortcut-service';
+import ShortcutCheatSheet from './ShortcutCheatSheet';
+
+interface ShortcutProviderProps {
+  children: React.ReactNode; // @description The app
+}
+
+/**
+ * Listens for shortcuts across the app, handles the commands that work on
+ * every screen and shows the `?` cheat sheet
+ */
+const ShortcutProvider: React.FC<ShortcutProviderProps> = ({ children }) => {
+  const router = useRouter();
+  const keyboardShortcuts = useSettingsStore(state => state.settings.keyboardShortcuts);
+  const [isCheatSheetOpen, setIsCheatSheetOpen] = useState(false);
+
+  useEffect(() => {
+    shortcutService.setShortcuts(keyboardShortcuts);
+  }, [keyboardShortcuts]);
+
+  useEffect(() => shortcutService.attach(), []);
+
+  const toggleFullscreen = useCallback(() => {
+    const request = document.fullscreenElement
+      ? document.exitFullscreen?.()
+      : document.documentElement.requestFullscreen?.();
+    request?.catch(error => console.error('Failed to toggle fullscreen:', error));
+  }, []);
+
+  useEffect(() => shortcutService.register('global', {
+    openSearch: () => router.push('/search'),
+    openSettings: () => router.push('/settings'),
+    goHome: () => router.push('/library'),
+    toggleFullscreen,
+    showShortcuts: () => setIsCheatSheetOpen(open => !open),
+  }), [router, toggleFullscreen]);
+
+  return (
+    <>
+      {children}
+      <ShortcutCheatSheet
+        open={isCheatSheetOpen}
+        onOpenChange={setIsCheatSheetOpen}
+        data-testid="shortcut-cheat-sheet"
+      />
+    </>
+  );
+};
+
+ShortcutProvider.displayName = 'ShortcutProvider';
+export default ShortcutProvider;
@@ -5,8 +5,25 @@
 export { default as SettingsPlugin } from './plugin';
 export { default as SettingsPage } from './components/SettingsPage';
 export { default as ReadingSettings } from './components/ReadingSettings';
+export { default as KeyboardSettings } from './components/KeyboardSettings';
+export { default as ShortcutProvider } from './components/ShortcutProvider';
+export { default as ShortcutCheatSheet } from './components/ShortcutCheatSheet';
 export { default as useSettingsStore } from './stores/settings-store';
 export { settingsService } from './services/settings-service';
+export {
+  shortcutService,
+  normalizeCombo,
+  eventToCombo,
+  formatCombo,
+  findShortcutConflicts,
+  SHORTCUT_COMMANDS,
+} from './services/shortcut-service';
+export type {
+  ShortcutCommand,
+  ShortcutContext,
+  ShortcutHandlers,
+  ShortcutConflict,
+} from './services/shortcut-service';
 
 // Types
 export type {
@@ -0,0 +1,119 @@
+/**
+ * Shortcut Service Tests - Readiwi v4.0
+ * Testing that configured keys run the right command on the right screen
+ */
+
+import {
+  ShortcutService,
+  eventToCombo,
+  findShortcutConflicts,
+  normalizeCombo,
+} from '../shortcut-service';
+import { DEFAULT_KEYBOARD_SHORTCUTS } from '../../types/settings-types';
+
+const press = (service: ShortcutService, key: string, init: KeyboardEventInit = {}, target?: HTMLElement) => {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+  if (target) {
+    Object.defineProperty(event, 'target', { value: target });
+  }
+  return service.handleKeyDown(event);
+};
+
+describe('User Story: Drive the App from the Keyboard', () => {
+  let service: ShortcutService;
+
+  beforeEach(() => {
+    service = new ShortcutService();
+  });
+
+  test('Configured combos and key presses share one canonical form', () => {
+    expect(normalizeCombo('ctrl+F')).toBe('Ctrl+f');
+    expect(normalizeCombo('Cmd+,')).toBe('Ctrl+,');
+    expect(normalizeCombo('Ctrl++')).toBe('Ctrl++');
+    expect(normalizeCombo('D')).toBe('Shift+d');
+    expect(normalizeCombo('space')).toBe('Space');
+    expect(normalizeCombo('Hyper+x')).toBeNull();
+
+    expect(eventToCombo({ key: ' ', ctrlKey: false, metaKey: false, altKey: false, shiftKey: true })).toBe('Shift+Space');
+    expect(eventToCombo({ key: '?', ctrlKey: false, metaKey: false, altKey: false, shiftKey: true })).toBe('?');
+    expect(eventToCombo({ key: 'F', ctrlKey: false, metaKey: true, altKey: false, shiftKey: false })).toBe('Ctrl+f');
+    expect(eventToCombo({ key: 'Shift', ctrlKey: false, metaKey: false, altKey: false, shiftKey: true })).toBeNull();
+  });
+
+  test('Reader keys only fire while the reader is registered', () => {
+    // Given: The reader handles "next page"
+    const nextPage = jest.fn();
+    const unregister = service.register('reader', { nextPage });
+
+    // When: Pressing a configured key
+    expect(press(service, 'ArrowRight')).toBe(true);
+    expect(nextPage).toHaveBeenCalledTimes(1);
+
+    // Then: Once the reader is gone, the key does nothing
+    unregister();
+    expect(press(service, 'ArrowRight')).toBe(false);
+    expect(nextPage).toHaveBeenCalledTimes(1);
+  });
+
+  test('Screen commands win over global ones for the same key', () => {
+    const globalSearch = jest.fn();
+    const bookSearch = jest.fn();
+    service.register('global', { openSearch: globalSearch });
+    const unregister = service.register('reader', { openSearch: bookSearch });
+
+    press(service, 'f', { ctrlKey: true });
+    expect(bookSearch).toHaveBeenCalledTimes(1);
+    expect(globalSearch).not.toHaveBeenCalled();
+
+    unregister();
+    press(service, '/');
+    expect(globalSearch).toHaveBeenCalledTimes(1);
+  });
+
+  test('Typing in a field is left alone unless a modifier is held', () => {
+    const openSearch = jest.fn();
+    service.register('global', { openSearch });
+    const input = document.createElement('input');
+
+    expect(press(service, '/', {}, input)).toBe(false);
+    expect(press(service, 'f', { ctrlKey: true }, input)).toBe(true);
+    expect(openSearch).toHaveBeenCalledTimes(1);
+  });
+
+  test('Custom shortcuts replace the defaults and the cheat sheet key is built in', () => {
+    const toggleTTS = jest.fn();
+    const showShortcuts = jest.fn();
+    service.register('audio', { toggleTTS });
+    service.register('global', { showShortcuts });
+
+    service.setShortcuts({ ...DEFAULT_KEYBOARD_SHORTCUTS, toggleTTS: ['p'] });
+
+    expect(press(service, 't')).toBe(false);
+    expect(press(service, 'p')).toBe(true);
+    expect(press(service, '?', { shiftKey: true })).toBe(true);
+    expect(toggleTTS).toHaveBeenCalledTimes(1);
+    expect(showShortcuts).toHaveBeenCalledTimes(1);
+
+    const active = service.getActiveShortcuts();
+    expect(active.find(shortcut => shortcut.command === 'toggleTTS')).toMatchObject({ combos: ['p'], available: true });
+    expect(active.find(shortcut => shortcut.command === 'nextPage')?.available).toBe(false);
+  });
+
+  test('Settings flag combos shared by commands that can be active together', () => {
+    // Given: The defaults have no clashes
+    expect(findShortcutConflicts(DEFAULT_KEYBOARD_SHORTCUTS)).toEqual([]);
+
+    // When: A reader key is reused for a global command, and "?" is taken
+    const conflicts = findShortcutConflicts({
+      ...DEFAULT_KEYBOARD_SHORTCUTS,
+      goHome: ['d'],
+      toggleBookmarks: ['?'],
+    });
+
+    // Then: Both clashes are reported with the commands involved
+    expect(conflicts).toEqual(expect.arrayContaining([
+      { combo: 'd', commands: ['nextPage', 'goHome'] },
+      { combo: '?', commands: ['toggleBookmarks', 'showShortcuts'] },
+    ]));
+  });
+});
@@ -237,6 +237,28 @@ class SettingsService {
             });
           }
         }
+
+        if (importSettings.chapterHeadingLevel !== undefined) {
+          if (importSettings.chapterHeadingLevel < 1 || importSettings.chapterHeadingLevel > 6) {
+            errors.push({
+              field: 'import.chapterHeadingLevel',
+              message: 'Chapter heading level must be between 1 and 6',
+              value: importSettings.chapterHeadingLevel,
+            });
+          }
+        }
+
+        importSettings.chapterHeadingPatterns?.forEach(pattern => {
+          try {
+            new RegExp(pattern, 'i');
+          } catch {
+            errors.push({
+              field: 'import.chapterHeadingPatterns',
+              message: `Chapter heading pattern is not a valid regular expression: ${pattern}`,
+              value: pattern,
+            });
+          }
+        });
       }
 
       return {
@@ -288,6 +310,8 @@ class SettingsService {
         return settings.privacy.analytics;
       case 'crashReporting':
         return settings.privacy.crashReporting;
+      case 'usageStatistics':
+        return settings.privacy.usageStatistics;
       case 'accessibility':
         return settings.accessibility.screenReaderSupport;
       case 'keyboardNavigation':
@@ -0,0 +1,336 @@
+/**
+ * Shortcut Service - Readiwi v4.0
+ * Resolves the key combos configured in KeyboardShortcuts to commands that
+ * screens register while they are mounted, so reader keys only fire while reading
+ */
+
+import { DEFAULT_KEYBOARD_SHORTCUTS, KeyboardShortcuts } from '../types/settings-types';
+
+// `showShortcuts` opens the cheat sheet and is always bound to `?`
+export type ShortcutCommand = keyof KeyboardShortcuts | 'showShortcuts';
+
+// Where a command can fire: global commands work on every screen
+export type ShortcutContext = 'global' | 'library' | 'reader' | 'audio';
+
+export type ShortcutHandlers = Partial<Record<ShortcutCommand, () => void>>;
+
+export interface ShortcutCommandInfo {
+  command: ShortcutCommand;
+  label: string;
+  context: ShortcutContext; // Where the configured combo applies
+}
+
+export interface ShortcutConflict {
+  combo: string; // Normalized, e.g. "Ctrl+f"
+  commands: ShortcutCommand[];
+}
+
+export interface ActiveShortcut extends ShortcutCommandInfo {
+  combos: string[];
+  available: boolean; // Something on the current screen handles it
+}
+
+interface Registration {
+  context: ShortcutContext;
+  handlers: ShortcutHandlers;
+}
+
+export const SHORTCUT_COMMANDS: ShortcutCommandInfo[] = [
+  { command: 'nextPage', label: 'Next page', context: 'reader' },
+  { command: 'previousPage', label: 'Previous page', context: 'reader' },
+  { command: 'toggleBookmarks', label: 'Bookmarks and highlights', context: 'reader' },
+  { command: 'increaseFontSize', label: 'Increase font size', context: 'reader' },
+  { command: 'decreaseFontSize', label: 'Decrease font size', context: 'reader' },
+  { command: 'toggleTTS', label: 'Play or pause text-to-speech', context: 'audio' },
+  { command: 'openSearch', label: 'Search', context: 'global' },
+  { command: 'toggleFullscreen', label: 'Toggle fullscreen', context: 'global' },
+  { command: 'openSettings', label: 'Open settings', context: 'global' },
+  { command: 'goHome', label: 'Go to library', context: 'global' },
+  { command: 'showShortcuts', label: 'Show keyboard shortcuts', context: 'global' },
+];
+
+export const SHORTCUT_CONTEXT_LABELS: Record<ShortcutContext, string> = {
+  global: 'Everywhere',
+  library: 'Library',
+  reader: 'Reader',
+  audio: 'Audio',
+};
+
+const FIXED_SHORTCUTS: Record<'showShortcuts', string[]> = {
+  showShortcuts: ['?'],
+};
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift'] as const;
+
+const MODIFIER_ALIASES: Record<string, typeof MODIFIERS[number]> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  cmd: 'Ctrl', // Cmd on macOS does what Ctrl does elsewhere
+  command: 'Ctrl',
+  meta: 'Ctrl',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift',
+};
+
+const NAMED_KEYS = [
+  'Space', 'Enter', 'Escape', 'Tab', 'Backspace', 'Delete', 'Home', 'End',
+  'PageUp', 'PageDown', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight',
+];
+
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'Space',
+  spacebar: 'Space',
+  esc: 'Escape',
+  del: 'Delete',
+  return: 'Enter',
+  plus: '+',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  ...Object.fromEntries(NAMED_KEYS.map(key => [key.toLowerCase(), key])),
+};
+
+function normalizeKey(key: string): string {
+  if (key.length === 1) return KEY_ALIASES[key] ?? key.toLowerCase();
+
+  const alias = KEY_ALIASES[key.toLowerCase()];
+  if (alias) return alias;
+  if (/^f\d{1,2}$/i.test(key)) return key.toUpperCase();
+  return key;
+}
+
+function buildCombo(modifiers: Set<string>, key: string): string {
+  // Shift is part of the character for symbols such as "?" or "+"
+  const isSymbol = key.length === 1 && !/\p{L}/u.test(key);
+  return [
+    ...MODIFIERS.filter(modifier => modifiers.has(modifier) && !(modifier === 'Shift' && isSymbol)),
+    key,
+  ].join('+');
+}
+
+/**
+ * Canonical form of a configured combo ("ctrl+F" → "Ctrl+f", "D" → "Shift+d"),
+ * or null when it names no key
+ */
+export function normalizeCombo(combo: string): string | null {
+  const trimmed = combo.trim();
+  if (!trimmed) return null;
+
+  // A trailing "+" is the plus key itself, as in "Ctrl++"
+  const parts = trimmed === '+' ? ['+'] : trimmed.split(/\+(?=.)/);
+  const rawKey = parts.pop()!;
+  const modifiers = new Set<string>();
+
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part.trim().toLowerCase()];
+    if (!modifier) return null;
+    modifiers.add(modifier);
+  }
+
+  const key = normalizeKey(rawKey.trim() || rawKey);
+  if (MODIFIER_ALIASES[key.toLowerCase()]) return null;
+  // A lone capital letter means Shift, as in "D"
+  if (parts.length === 0 && /^\p{Lu}$/u.test(rawKey)) modifiers.add('Shift');
+
+  return buildCombo(modifiers, key);
+}
+
+/**
+ * The combo a key press produces, or null for a lone modifier key
+ */
+export function eventToCombo(event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null {
+  if (!event.key || ['Control', 'Meta', 'Alt', 'Shift', 'Dead', 'Unidentified'].includes(event.key)) {
+    return null;
+  }
+
+  const modifiers = new Set<string>();
+  if (event.ctrlKey || event.metaKey) modifiers.add('Ctrl');
+  if (event.altKey) modifiers.add('Alt');
+  if (event.shiftKey) modifiers.add('Shift');
+
+  return buildCombo(modifiers, normalizeKey(event.key));
+}
+
+/**
+ * Display form of a combo, one entry per key to press
+ */
+export function formatCombo(combo: string): string[] {
+  const normalized = normalizeCombo(combo) ?? combo;
+  const parts = normalized === '+' ? ['+'] : normalized.split(/\+(?=.)/);
+  return parts.map(part => (part.length === 1 ? part.toUpperCase() : part.replace(/^Arrow/, '')));
+}
+
+export function getCommandInfo(command: ShortcutCommand): ShortcutCommandInfo {
+  return SHORTCUT_COMMANDS.find(info => info.command === command)!;
+}
+
+// Audio controls only exist inside the reader, so they share its keys
+function contextsOverlap(a: ShortcutContext, b: ShortcutContext): boolean {
+  if (a === b || a === 'global' || b === 'global') return true;
+  const pair = new Set([a, b]);
+  return pair.has('reader') && pair.has('audio');
+}
+
+/**
+ * Combos bound to more than one command that can be active at the same time
+ */
+export function findShortcutConflicts(shortcuts: KeyboardShortcuts): ShortcutConflict[] {
+  const byCombo = new Map<string, ShortcutCommand[]>();
+
+  Object.entries({ ...shortcuts, ...FIXED_SHORTCUTS }).forEach(([command, combos]) => {
+    new Set((combos as string[]).map(normalizeCombo)).forEach(combo => {
+      if (!combo) return;
+      byCombo.set(combo, [...(byCombo.get(combo) ?? []), command as ShortcutCommand]);
+    });
+  });
+
+  const conflicts: ShortcutConflict[] = [];
+  byCombo.forEach((commands, combo) => {
+    const clashing = commands.filter(command => commands.some(other =>
+      other !== command && contextsOverlap(getCommandInfo(command).context, getCommandInfo(other).context)));
+    if (clashing.length > 1) {
+      conflicts.push({ combo, commands: clashing });
+    }
+  });
+
+  return conflicts;
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!target || typeof (target as Element).closest !== 'function') return false;
+  const element = target as HTMLElement;
+  return element.isContentEditable || !!element.closest('input, textarea, select, [contenteditable="true"]');
+}
+
+function isActivatableTarget(target: EventTarget | null): boolean {
+  if (!target || typeof (target as Element).closest !== 'function') return false;
+  return !!(target as Element).closest('button, a[href], [role="button"], [role="menuitem"]');
+}
+
+export class ShortcutService {
+  private shortcuts: KeyboardShortcuts = DEFAULT_KEYBOARD_SHORTCUTS;
+  private bindings = new Map<string, ShortcutCommand[]>();
+  private registrations: Registration[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.setShortcuts(DEFAULT_KEYBOARD_SHORTCUTS);
+  }
+
+  /**
+   * Use the combos from settings
+   */
+  setShortcuts(shortcuts: KeyboardShortcuts): void {
+    this.shortcuts = shortcuts;
+    this.bindings.clear();
+
+    Object.entries({ ...shortcuts, ...FIXED_SHORTCUTS }).forEach(([command, combos]) => {
+      (combos as string[]).forEach(raw => {
+        const combo = normalizeCombo(raw);
+        if (!combo) return;
+        const commands = this.bindings.get(combo) ?? [];
+        if (!commands.includes(command as ShortcutCommand)) {
+          this.bindings.set(combo, [...commands, command as ShortcutCommand]);
+        }
+      });
+    });
+
+    this.notify();
+  }
+
+  /**
+   * Handle commands while a screen is mounted; returns the unregister function
+   */
+  register(context: ShortcutContext, handlers: ShortcutHandlers): () => void {
+    const registration: Registration = { context, handlers };
+    this.registrations.push(registration);
+    this.notify();
+
+    return () => {
+      this.registrations = this.registrations.filter(existing => existing !== registration);
+      this.notify();
+    };
+  }
+
+  /**
+   * Run the command bound to a key press; returns whether one ran
+   */
+  handleKeyDown(event: KeyboardEvent): boolean {
+    if (event.defaultPrevented || event.isComposing) return false;
+
+    const combo = eventToCombo(event);
+    if (!combo) return false;
+
+    // Plain keys belong to whatever is being typed into; Space and Enter to focused buttons
+    const hasModifier = event.ctrlKey || event.metaKey || event.altKey;
+    if (!hasModifier && isEditableTarget(event.target)) return false;
+    if ((combo === 'Space' || combo === 'Enter') && isActivatableTarget(event.target)) return false;
+
+    const handler = this.resolve(combo);
+    if (!handler) return false;
+
+    event.preventDefault();
+    try {
+      handler();
+    } catch (error) {
+      console.error(`Shortcut ${combo} failed:`, error);
+    }
+    return true;
+  }
+
+  /**
+   * Listen for key presses on the window; returns the detach function
+   */
+  attach(target: Window = window): () => void {
+    const listener = (event: KeyboardEvent) => {
+      this.handleKeyDown(event);
+    };
+    target.addEventListener('keydown', listener);
+    return () => target.removeEventListener('keydown', listener);
+  }
+
+  /**
+   * Every command with its combos, marking the ones the current screen handles
+   */
+  getActiveShortcuts(): ActiveShortcut[] {
+    const handled = new Set(this.registrations.flatMap(registration => Object.keys(registration.handlers)));
+
+    return SHORTCUT_COMMANDS.map(info => ({
+      ...info,
+      combos: info.command === 'showShortcuts' ? FIXED_SHORTCUTS.showShortcuts : this.shortcuts[info.command],
+      available: handled.has(info.command),
+    }));
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Screen-specific handlers win over global ones, then the latest registration
+  private resolve(combo: string): (() => void) | undefined {
+    const commands = this.bindings.get(combo);
+    if (!commands) return undefined;
+
+    const scoped = this.registrations.filter(registration => registration.context !== 'global').reverse();
+    const global = this.registrations.filter(registration => registration.context === 'global').reverse();
+
+    for (const registration of [...scoped, ...global]) {
+      for (const command of commands) {
+        const handler = registration.handlers[command];
+        if (handler) return handler;
+      }
+    }
+    return undefined;
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const shortcutService = new ShortcutService();
@@ -17,6 +17,8 @@ export interface ThemeSettings {
 }
 
 // Reading Settings
+export type AuthorNotesDisplay = 'inline' | 'collapsed' | 'hidden';
+
 export interface ReadingSettings {
   theme: ThemeSettings;
   columnsPerPage: 1 | 2; // Single or dual column
@@ -25,12 +27,13 @@ export interface ReadingSettings {
   paragraphSpacing: number; // 8-32px
   textAlign: 'left' | 'center' | 'justify';
   animatePageTurns: boolean;
-  enablePageFlipping: boolean;
+  enablePageFlipping: boolean; // Paged layout instead of scrolling
   scrollBehavior: 'smooth' | 'instant';
   autoBookmark: boolean;
   bookmarkInterval: number; // seconds
   navigationMode: 'buttons' | 'infinite-scroll'; // Chapter navigation style
   infiniteScrollThreshold: number; // Distance from bottom to trigger next chapter (px)
+  authorNotes: AuthorNotesDisplay; // Author's notes around chapters, also for listening and exports
 }
 
 // Audio Settings
@@ -48,7 +51,9 @@ export interface AudioSettings {
 // Import Settings
 export interface ImportSettings {
   defaultSource: string; // Default import URL base
-  autoDetectChapters: boolean;
+  autoDetectChapters: boolean; // Split text, Markdown and HTML files into chapters at their headings
+  chapterHeadingPatterns: string[]; // Regular expressions (case-insensitive) for lines that start a chapter
+  chapterHeadingLevel: number; // 1-6; Markdown # and HTML <hN> headings this level or above start a chapter
   preserveFormatting: boolean;
   downloadImages: boolean;
   maxConcurrentDownloads: number; // 1-5
@@ -179,12 +184,13 @@ export const DEFAULT_READING_SETTINGS: ReadingSettings = {
   paragraphSpacing: 16,
   textAlign: 'left',
   animatePageTurns: true,
-  enablePageFlipping: true,
+  enablePageFlipping: false,
   scrollBehavior: 'smooth',
   autoBookmark: true,
   bookmarkInterval: 30,
   navigationMode: 'buttons',
   infiniteScrollThreshold: 200,
+  authorNotes: 'inline',
 };
 
 export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
@@ -201,6 +207,8 @@ export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
 export const DEFAULT_IMPORT_SETTINGS: ImportSettings = {
   defaultSource: 'https://www.royalroad.com',
   autoDetectChapters: true,
+  chapterHeadingPatterns: ['^chapter\\s+\\S+', '^(prologue|epilogue|interlude)\\b'],
+  chapterHeadingLevel: 2,
   preserveFormatting: true,
   downloadImages: false,
   maxConcurrentDownloads: 3,
@@ -0,0 +1,214 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { cn } from '@/core/utils/cn';
+import { useSettingsStore } from '@/plugins/settings/stores/settings-store';
+import { statisticsService } from '../services/statistics-service';
+import { ReadingPeriod, ReadingStatistics } from '../types/statistics-types';
+import { Download, Loader2 } from 'lucide-react';
+
+interface StatisticsViewProps {
+  className?: string;
+  'data-testid'?: string;
+}
+
+const formatDuration = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 1) return seconds > 0 ? '<1m' : '0m';
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+/**
+ * Bar chart of reading minutes per period
+ */
+const PeriodChart: React.FC<{ periods: ReadingPeriod[]; label: (start: Date) => string; testId: string }> = ({
+  periods,
+  label,
+  testId,
+}) => {
+  const most = Math.max(...periods.map(period => period.seconds), 1);
+
+  return (
+    <div className="flex items-end gap-1 h-40" data-testid={testId}>
+      {periods.map(period => (
+        <div
+          key={period.start.getTime()}
+          className="flex-1 flex flex-col items-center justify-end h-full gap-1"
+          title={`${label(period.start)}: ${formatDuration(period.seconds)}, ${period.words.toLocaleString()} words`}
+        >
+          <div
+            className={cn('w-full rounded-t bg-primary/80', period.seconds === 0 && 'bg-muted')}
+            style={{ height: `${Math.max(2, (period.seconds / most) * 100)}%` }}
+          />
+          <span className="text-[10px] text-muted-foreground">{label(period.start)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <Card>
+    <CardContent className="pt-6">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-2xl font-bold">{value}</p>
+      {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+    </CardContent>
+  </Card>
+);
+
+const StatisticsView: React.FC<StatisticsViewProps> = ({
+  className,
+  'data-testid': testId,
+}) => {
+  const { settings } = useSettingsStore();
+  const [statistics, setStatistics] = useState<ReadingStatistics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [chartPeriod, setChartPeriod] = useState('daily');
+
+  useEffect(() => {
+    statisticsService.getReadingStatistics()
+      .then(setStatistics)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load statistics'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Sharing statistics beyond this device is opt-in
+  const handleExport = useCallback(() => {
+    if (!statistics) return;
+
+    const blob = new Blob([JSON.stringify(statistics, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `readiwi-statistics-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, [statistics]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12" data-testid={testId || 'statistics-view'}>
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !statistics) {
+    return (
+      <p className="text-destructive" data-testid={testId || 'statistics-view'}>
+        {error ?? 'Failed to load statistics'}
+      </p>
+    );
+  }
+
+  const { library } = statistics;
+
+  return (
+    <div className={cn('space-y-6', className)} data-testid={testId || 'statistics-view'}>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <Stat
+          label="Time reading"
+          value={formatDuration(statistics.totalSeconds)}
+          detail={`${statistics.sessionCount} ${statistics.sessionCount === 1 ? 'session' : 'sessions'}`}
+        />
+        <Stat label="Words read" value={statistics.totalWords.toLocaleString()} />
+        <Stat
+          label="Reading speed"
+          value={statistics.wordsPerMinute !== null ? `${statistics.wordsPerMinute} wpm` : '—'}
+          {...(statistics.wordsPerMinute === null && { detail: 'Read a little more for an estimate' })}
+        />
+        <Stat
+          label="Current streak"
+          value={`${statistics.currentStreak} ${statistics.currentStreak === 1 ? 'day' : 'days'}`}
+          detail={`Longest: ${statistics.longestStreak} ${statistics.longestStreak === 1 ? 'day' : 'days'}`}
+        />
+        <Stat label="Chapters finished" value={statistics.chaptersFinished.toLocaleString()} />
+        <Stat
+          label="Books"
+          value={`${library.completedBooks} of ${library.totalBooks} finished`}
+          detail={`${library.inProgressBooks} in progress`}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Reading time</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={chartPeriod} onValueChange={setChartPeriod}>
+            <TabsList>
+              <TabsTrigger value="daily">Daily</TabsTrigger>
+              <TabsTrigger value="weekly">Weekly</TabsTrigger>
+            </TabsList>
+            <TabsContent value="daily" className="pt-4">
+              <PeriodChart
+                periods={statistics.daily}
+                label={start => start.toLocaleDateString(undefined, { weekday: 'narrow' })}
+                testId="daily-chart"
+              />
+            </TabsContent>
+            <TabsContent value="weekly" className="pt-4">
+              <PeriodChart
+                periods={statistics.weekly}
+                label={start => start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                testId="weekly-chart"
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Time per book</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {statistics.books.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Open a book to start tracking your reading.</p>
+          ) : (
+            <ul className="space-y-2" data-testid="book-times">
+              {statistics.books.map(book => (
+                <li key={book.bookId} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="truncate font-medium">{book.title}</span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {formatDuration(book.seconds)} · {book.words.toLocaleString()} words
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your data</CardTitle>
+          <CardDescription>
+            {settings.privacy.usageStatistics
+              ? 'Statistics are kept on this device. You can export them to use elsewhere.'
+              : 'Statistics are kept on this device only. Allow usage statistics in privacy settings to export them.'}
+          </CardDescription>
+        </CardHeader>
+        {settings.privacy.usageStatistics && (
+          <CardContent>
+            <Button variant="outline" size="sm" onClick={handleExport} data-testid="export-statistics-button">
+              <Download className="h-4 w-4 mr-2" />
+              Export Statistics
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+StatisticsView.displayName = 'StatisticsView';
+export default StatisticsView;
@@ -0,0 +1,12 @@
+/**
+ * Statistics Plugin Export - Readiwi v4.0
+ */
+
+export { statisticsPlugin } from './plugin';
+export { statisticsService, summarizeSessions } from './services/statistics-service';
+export { default as StatisticsView } from './components/StatisticsView';
+export type {
+  BookReadingTime,
+  ReadingPeriod,
+  ReadingStatistics,
+} from './types/statistics-types';
@@ -0,0 +1,63 @@
+/**
+ * Statistics Plugin - Readiwi v4.0
+ * Reading time, words, streaks and per-book totals from recorded reading sessions
+ */
+
+import { Plugin, ComponentRegistry, RouteRegistry, StoreRegistry, ServiceRegistry } from '@/core/types/plugin';
+import { statisticsService } from './services/statistics-service';
+import StatisticsView from './components/StatisticsView';
+
+class StatisticsPluginImpl implements Plugin {
+  id = 'statistics';
+  name = 'Reading Statistics';
+  version = '1.0.0';
+  dependencies = ['book-library', 'reader'];
+  enabled = true;
+
+  async initialize(): Promise<void> {
+    console.log('Statistics plugin initialized');
+  }
+
+  async activate(): Promise<void> {
+    console.log('Statistics plugin activated');
+  }
+
+  async deactivate(): Promise<void> {
+    console.log('Statistics plugin deactivated');
+  }
+
+  async cleanup(): Promise<void> {
+    console.log('Statistics plugin cleaned up');
+  }
+
+  registerComponents(): ComponentRegistry {
+    return {
+      'statistics.StatisticsView': StatisticsView,
+    };
+  }
+
+  registerRoutes(): RouteRegistry {
+    return {
+      '/stats': {
+        component: StatisticsView,
+        metadata: {
+          title: 'Reading Statistics - Readiwi',
+          description: 'Your reading time, streaks and speed',
+          requiresAuth: false,
+        },
+      },
+    };
+  }
+
+  registerStores(): StoreRegistry {
+    return {};
+  }
+
+  registerServices(): ServiceRegistry {
+    return {
+      statisticsService,
+    };
+  }
+}
+
+export const statisticsPlugin = new StatisticsPluginImpl();
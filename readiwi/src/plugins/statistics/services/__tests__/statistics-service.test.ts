@@ -0,0 +1,91 @@
+/**
+ * Statistics Service Tests - Readiwi v4.0
+ * Testing that reading sessions add up to the right totals, charts and streaks
+ */
+
+import { ReadingSession } from '@/core/types/database';
+import { LibraryStats } from '@/plugins/book-library/types/library-types';
+import { summarizeSessions } from '../statistics-service';
+
+const library: LibraryStats = {
+  totalBooks: 2,
+  favoriteBooks: 0,
+  completedBooks: 1,
+  inProgressBooks: 1,
+  totalChapters: 20,
+  averageProgress: 60,
+};
+
+const books = [
+  { id: 1, title: 'The Long Road' },
+  { id: 2, title: 'Short Stories' },
+];
+
+// Wednesday 10 January 2024, mid-afternoon
+const now = new Date(2024, 0, 10, 15, 0);
+
+const session = (bookId: number, daysAgo: number, minutes: number, words: number, chaptersFinished: number[] = []): ReadingSession => {
+  const startedAt = new Date(2024, 0, 10 - daysAgo, 9, 0);
+  return {
+    bookId,
+    startedAt,
+    endedAt: new Date(startedAt.getTime() + minutes * 60 * 1000),
+    activeSeconds: minutes * 60,
+    wordsRead: words,
+    chaptersFinished,
+  };
+};
+
+describe('User Story: See How Much I Read', () => {
+  test('Sessions add up to totals, reading speed and time per book', () => {
+    // Given: Three sessions across two books
+    const sessions = [
+      session(1, 0, 20, 5000, [11, 12]),
+      session(1, 1, 10, 2000, [13]),
+      session(2, 1, 5, 1000),
+    ];
+
+    // When: Summarising them
+    const statistics = summarizeSessions(sessions, books, library, now);
+
+    // Then: Totals, speed and the per-book breakdown follow
+    expect(statistics).toMatchObject({
+      library,
+      totalSeconds: 35 * 60,
+      totalWords: 8000,
+      sessionCount: 3,
+      chaptersFinished: 3,
+      wordsPerMinute: Math.round(8000 / 35),
+    });
+    expect(statistics.books.map(book => [book.title, book.seconds, book.sessions])).toEqual([
+      ['The Long Road', 30 * 60, 2],
+      ['Short Stories', 5 * 60, 1],
+    ]);
+  });
+
+  test('Daily and weekly charts end with the current day and week', () => {
+    const statistics = summarizeSessions([session(1, 0, 20, 5000), session(1, 3, 10, 2000)], books, library, now);
+
+    expect(statistics.daily).toHaveLength(14);
+    expect(statistics.daily[13]).toMatchObject({ start: new Date(2024, 0, 10), seconds: 20 * 60 });
+    expect(statistics.daily[10]).toMatchObject({ start: new Date(2024, 0, 7), seconds: 10 * 60 });
+
+    // The 7th was a Sunday, so it falls in the previous Monday-started week
+    expect(statistics.weekly).toHaveLength(8);
+    expect(statistics.weekly[7]).toMatchObject({ start: new Date(2024, 0, 8), seconds: 20 * 60 });
+    expect(statistics.weekly[6]).toMatchObject({ start: new Date(2024, 0, 1), seconds: 10 * 60 });
+  });
+
+  test('A streak counts consecutive reading days and survives until a full day is missed', () => {
+    // Given: Reading yesterday and the two days before, then a gap, then a four-day run
+    const sessions = [1, 2, 3, 6, 7, 8, 9].map(daysAgo => session(1, daysAgo, 15, 3000));
+
+    // Then: Not having read yet today keeps the streak alive
+    const statistics = summarizeSessions(sessions, books, library, now);
+    expect(statistics.currentStreak).toBe(3);
+    expect(statistics.longestStreak).toBe(4);
+
+    // And: Too little reading gives no speed estimate
+    expect(summarizeSessions([session(1, 0, 2, 400)], books, library, now).wordsPerMinute).toBeNull();
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Reading Speed Service - Readiwi v4.0
+ * Learns how fast the reader actually reads from recorded sessions, per book
+ * and per genre, so time estimates fit them rather than an average reader
+ */
+
+import { db } from '@/core/services/database-simple';
+import { Book, ReadingSession } from '@/core/types/database';
+
+export const DEFAULT_WORDS_PER_MINUTE = 250;
+const MIN_SAMPLE_SECONDS = 5 * 60; // Reading needed before a speed is trusted
+// Sessions outside this range were skimming or left open, not reading
+const MIN_SESSION_WPM = 30;
+const MAX_SESSION_WPM = 1500;
+
+export interface ReadingSpeedProfile {
+  overall: number | null; // Words per minute, null until there's enough reading
+  byBook: Record<number, number>;
+  byGenre: Record<string, number>;
+  bookGenres: Record<number, string[]>;
+}
+
+const EMPTY_PROFILE: ReadingSpeedProfile = { overall: null, byBook: {}, byGenre: {}, bookGenres: {} };
+
+interface Sample {
+  seconds: number;
+  words: number;
+}
+
+function speedOf(sample: Sample | undefined): number | null {
+  if (!sample || sample.seconds < MIN_SAMPLE_SECONDS) return null;
+  return Math.round(sample.words / (sample.seconds / 60));
+}
+
+/**
+ * Reading speeds from sessions, skipping ones too fast or slow to be real reading
+ */
+export function buildSpeedProfile(
+  sessions: ReadingSession[],
+  books: Pick<Book, 'id' | 'genre'>[]
+): ReadingSpeedProfile {
+  const bookGenres: Record<number, string[]> = {};
+  books.forEach(book => {
+    if (book.id !== undefined) {
+      bookGenres[book.id] = (book.genre ?? []).map(genre => genre.toLowerCase());
+    }
+  });
+
+  const overall: Sample = { seconds: 0, words: 0 };
+  const byBook = new Map<number, Sample>();
+  const byGenre = new Map<string, Sample>();
+  const add = <K>(samples: Map<K, Sample>, key: K, session: ReadingSession) => {
+    const sample = samples.get(key) ?? { seconds: 0, words: 0 };
+    sample.seconds += session.activeSeconds;
+    sample.words += session.wordsRead;
+    samples.set(key, sample);
+  };
+
+  sessions.forEach(session => {
+    if (session.activeSeconds <= 0) return;
+    const wpm = session.wordsRead / (session.activeSeconds / 60);
+    if (wpm < MIN_SESSION_WPM || wpm > MAX_SESSION_WPM) return;
+
+    overall.seconds += session.activeSeconds;
+    overall.words += session.wordsRead;
+    add(byBook, session.bookId, session);
+    (bookGenres[session.bookId] ?? []).forEach(genre => add(byGenre, genre, session));
+  });
+
+  const toSpeeds = <K extends string | number>(samples: Map<K, Sample>) => {
+    const speeds = {} as Record<K, number>;
+    samples.forEach((sample, key) => {
+      const speed = speedOf(sample);
+      if (speed !== null) speeds[key] = speed;
+    });
+    return speeds;
+  };
+
+  return {
+    overall: speedOf(overall),
+    byBook: toSpeeds(byBook),
+    byGenre: toSpeeds(byGenre),
+    bookGenres,
+  };
+}
+
+/**
+ * Best known speed for a book: its own, then its genres', then overall, then the average reader's
+ */
+export function pickWordsPerMinute(profile: ReadingSpeedProfile, bookId?: number): number {
+  if (bookId === undefined) return profile.overall ?? DEFAULT_WORDS_PER_MINUTE;
+
+  const own = profile.byBook[bookId];
+  if (own !== undefined) return own;
+
+  const genreSpeeds = (profile.bookGenres[bookId] ?? [])
+    .map(genre => profile.byGenre[genre])
+    .filter((speed): speed is number => speed !== undefined);
+  if (genreSpeeds.length > 0) {
+    return Math.round(genreSpeeds.reduce((sum, speed) => sum + speed, 0) / genreSpeeds.length);
+  }
+
+  return profile.overall ?? DEFAULT_WORDS_PER_MINUTE;
+}
+
+/**
+ * Words in some text, as every reading estimate and statistic counts them
+ */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => word.length > 0).length;
+}
+
+/**
+ * Whole minutes to read some words, at least one if there is anything left
+ */
+export function estimateMinutes(words: number, wordsPerMinute: number): number {
+  return words > 0 ? Math.max(1, Math.ceil(words / wordsPerMinute)) : 0;
+}
+
+export function formatReadingTime(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
+}
+
+export class ReadingSpeedService {
+  private profile: ReadingSpeedProfile = EMPTY_PROFILE;
+  private sessions = new Map<number, ReadingSession>();
+  private books: Pick<Book, 'id' | 'genre'>[] = [];
+  private ready = false;
+  private loaded: Promise<void> | null = null;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Learn speeds from the sessions saved so far, telling subscribers
+   */
+  async refresh(): Promise<void> {
+    try {
+      const [sessions, books] = await Promise.all([
+        // @ts-ignore - Progressive development approach
+        db.readingSessions.toArray(),
+        // @ts-ignore - Progressive development approach
+        db.books.toArray(),
+      ]);
+      this.sessions = new Map(sessions.map((session: ReadingSession) => [session.id!, session]));
+      this.books = books;
+      this.ready = true;
+      this.rebuild();
+    } catch (error) {
+      console.error('Failed to learn reading speed:', error);
+    }
+  }
+
+  /**
+   * Count a session the tracker just saved, without reading every other one back;
+   * before the first load there is nothing to update, as that load will include it
+   */
+  recordSession(session: ReadingSession): void {
+    if (!this.ready || session.id === undefined) return;
+    this.sessions.set(session.id, session);
+    this.rebuild();
+  }
+
+  /**
+   * Learn speeds once; later calls wait for the same load
+   */
+  load(): Promise<void> {
+    this.loaded ??= this.refresh();
+    return this.loaded;
+  }
+
+  /**
+   * Words per minute to estimate with for a book (or in general)
+   */
+  getWordsPerMinute(bookId?: number): number {
+    return pickWordsPerMinute(this.profile, bookId);
+  }
+
+  /**
+   * Minutes to read a book's words at the reader's speed for it
+   */
+  async estimateBookMinutes(bookId: number, words: number): Promise<number> {
+    await this.load();
+    return estimateMinutes(words, this.getWordsPerMinute(bookId));
+  }
+
+  private rebuild(): void {
+    this.profile = buildSpeedProfile(Array.from(this.sessions.values()), this.books);
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const readingSpeedService = new ReadingSpeedService();
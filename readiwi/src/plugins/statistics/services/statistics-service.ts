@@ -0,0 +1,154 @@
+/**
+ * Statistics Service - Readiwi v4.0
+ * Summarises reading sessions into totals, streaks and charts. Everything is
+ * computed from data already on this device.
+ */
+
+import { db } from '@/core/services/database-simple';
+import { Book, ReadingSession } from '@/core/types/database';
+import { libraryService } from '@/plugins/book-library/services/library-service';
+import { LibraryStats } from '@/plugins/book-library/types/library-types';
+import { BookReadingTime, ReadingPeriod, ReadingStatistics } from '../types/statistics-types';
+import { buildSpeedProfile } from './reading-speed-service';
+
+const DAILY_PERIODS = 14;
+const WEEKLY_PERIODS = 8;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function startOfWeek(date: Date): Date {
+  // Weeks start on Monday
+  return addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+}
+
+/**
+ * Reading totals for the `count` periods ending with the one containing `now`
+ */
+function buildPeriods(
+  sessions: ReadingSession[],
+  now: Date,
+  count: number,
+  periodStart: (date: Date) => Date,
+  step: number
+): ReadingPeriod[] {
+  const current = periodStart(now);
+  const periods = Array.from({ length: count }, (_, index) => ({
+    start: addDays(current, (index - count + 1) * step),
+    seconds: 0,
+    words: 0,
+  }));
+  const byStart = new Map(periods.map(period => [period.start.getTime(), period]));
+
+  sessions.forEach(session => {
+    const period = byStart.get(periodStart(new Date(session.startedAt)).getTime());
+    if (period) {
+      period.seconds += session.activeSeconds;
+      period.words += session.wordsRead;
+    }
+  });
+  return periods;
+}
+
+/**
+ * Current and longest runs of consecutive days with reading. A streak stays
+ * current until a whole day passes without reading.
+ */
+function getStreaks(sessions: ReadingSession[], now: Date): { current: number; longest: number } {
+  const days = new Set(sessions.map(session => startOfDay(new Date(session.startedAt)).getTime()));
+
+  let current = 0;
+  let day = days.has(startOfDay(now).getTime()) ? startOfDay(now) : addDays(startOfDay(now), -1);
+  while (days.has(day.getTime())) {
+    current++;
+    day = addDays(day, -1);
+  }
+
+  let longest = 0;
+  days.forEach(time => {
+    // Only count forward from the first day of each run
+    if (days.has(addDays(new Date(time), -1).getTime())) return;
+    let length = 1;
+    for (let next = addDays(new Date(time), 1); days.has(next.getTime()); next = addDays(next, 1)) {
+      length++;
+    }
+    longest = Math.max(longest, length);
+  });
+
+  return { current, longest };
+}
+
+/**
+ * Statistics from recorded sessions
+ */
+export function summarizeSessions(
+  sessions: ReadingSession[],
+  books: Pick<Book, 'id' | 'title' | 'genre'>[],
+  library: LibraryStats,
+  now: Date = new Date()
+): ReadingStatistics {
+  const totalSeconds = sessions.reduce((sum, session) => sum + session.activeSeconds, 0);
+  const totalWords = sessions.reduce((sum, session) => sum + session.wordsRead, 0);
+
+  const byBook = new Map<number, BookReadingTime>();
+  sessions.forEach(session => {
+    const entry = byBook.get(session.bookId) ?? {
+      bookId: session.bookId,
+      title: books.find(book => book.id === session.bookId)?.title ?? 'Removed book',
+      seconds: 0,
+      words: 0,
+      sessions: 0,
+      lastReadAt: new Date(session.endedAt),
+    };
+    entry.seconds += session.activeSeconds;
+    entry.words += session.wordsRead;
+    entry.sessions++;
+    if (new Date(session.endedAt) > entry.lastReadAt) {
+      entry.lastReadAt = new Date(session.endedAt);
+    }
+    byBook.set(session.bookId, entry);
+  });
+
+  const streaks = getStreaks(sessions, now);
+
+  return {
+    library,
+    totalSeconds,
+    totalWords,
+    sessionCount: sessions.length,
+    chaptersFinished: sessions.reduce((sum, session) => sum + session.chaptersFinished.length, 0),
+    wordsPerMinute: buildSpeedProfile(sessions, books).overall,
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    daily: buildPeriods(sessions, now, DAILY_PERIODS, startOfDay, 1),
+    weekly: buildPeriods(sessions, now, WEEKLY_PERIODS, startOfWeek, 7),
+    books: Array.from(byBook.values()).sort((a, b) => b.seconds - a.seconds),
+  };
+}
+
+export class StatisticsService {
+  /**
+   * Reading statistics across the library
+   */
+  async getReadingStatistics(now: Date = new Date()): Promise<ReadingStatistics> {
+    try {
+      const [sessions, books, library] = await Promise.all([
+        // @ts-ignore - Progressive development approach
+        db.readingSessions.toArray(),
+        // @ts-ignore - Progressive development approach
+        db.books.toArray(),
+        libraryService.getLibraryStats(),
+      ]);
+      return summarizeSessions(sessions, books, library, now);
+    } catch (error) {
+      throw new Error(`Failed to load reading statistics: ${error}`);
+    }
+  }
+}
+
+export const statisticsService = new StatisticsService();
@@ -0,0 +1,35 @@
+/**
+ * Statistics Types - Readiwi v4.0
+ * Reading activity summarised from the reader's sessions
+ */
+
+import { LibraryStats } from '@/plugins/book-library/types/library-types';
+
+export interface ReadingPeriod {
+  start: Date; // Local midnight the day or week begins
+  seconds: number;
+  words: number;
+}
+
+export interface BookReadingTime {
+  bookId: number;
+  title: string;
+  seconds: number;
+  words: number;
+  sessions: number;
+  lastReadAt: Date;
+}
+
+export interface ReadingStatistics {
+  library: LibraryStats;
+  totalSeconds: number;
+  totalWords: number;
+  sessionCount: number;
+  chaptersFinished: number;
+  wordsPerMinute: number | null; // Null until there's enough reading to estimate it
+  currentStreak: number; // Days in a row with reading, up to today
+  longestStreak: number;
+  daily: ReadingPeriod[]; // Oldest first
+  weekly: ReadingPeriod[]; // Oldest first, weeks starting Monday
+  books: BookReadingTime[]; // Most time first
+}